@@ -8,7 +8,10 @@ import { ErrorBoundary } from "react-error-boundary";
 import Landing from "@/pages/landing";
 import Home from "@/pages/home";
 import Services from "@/pages/services";
+import ServiceDetail from "@/pages/service-detail";
+import ProviderProfile from "@/pages/provider-profile";
 import Dashboard from "@/pages/dashboard";
+import Messages from "@/pages/messages";
 import Admin from "@/pages/admin";
 import Support from "@/pages/support";
 import Suggestions from "@/pages/suggestions";
@@ -83,6 +86,9 @@ function Router() {
         <>
           <Route path="/" component={Landing} />
           <Route path="/services" component={Services} />
+          <Route path="/categories/:slug" component={Services} />
+          <Route path="/services/:id" component={ServiceDetail} />
+          <Route path="/providers/:id" component={ProviderProfile} />
           <Route path="/support" component={Support} />
           <Route path="/suggestions" component={Suggestions} />
           <Route path="/donations" component={Donations} />
@@ -92,7 +98,11 @@ function Router() {
         <>
           <Route path="/" component={Home} />
           <Route path="/services" component={Services} />
+          <Route path="/categories/:slug" component={Services} />
+          <Route path="/services/:id" component={ServiceDetail} />
+          <Route path="/providers/:id" component={ProviderProfile} />
           <Route path="/dashboard" component={Dashboard} />
+          <Route path="/messages" component={Messages} />
           <Route path="/admin" component={Admin} />
           <Route path="/support" component={Support} />
           <Route path="/suggestions" component={Suggestions} />
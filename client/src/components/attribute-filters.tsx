@@ -0,0 +1,97 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CategoryAttributeDefinition } from "@shared/schema";
+
+// Keyed by query parameter: attr.<key>, or attr.<key>.min / attr.<key>.max for numbers
+export type AttributeFilterValues = Record<string, string | string[]>;
+
+interface AttributeFiltersProps {
+  definitions: CategoryAttributeDefinition[]; // only the filterable ones are shown
+  value: AttributeFilterValues;
+  onChange: (value: AttributeFilterValues) => void;
+}
+
+export const appendAttributeParams = (params: URLSearchParams, value: AttributeFilterValues) => {
+  for (const [param, paramValue] of Object.entries(value)) {
+    for (const item of Array.isArray(paramValue) ? paramValue : [paramValue]) {
+      params.append(param, item);
+    }
+  }
+};
+
+export default function AttributeFilters({ definitions, value, onChange }: AttributeFiltersProps) {
+  const set = (param: string, paramValue: string | string[]) => {
+    const { [param]: _, ...rest } = value;
+    onChange(paramValue.length > 0 ? { ...rest, [param]: paramValue } : rest);
+  };
+
+  return (
+    <div className="space-y-4">
+      {definitions.filter(definition => definition.filterable).map((definition) => {
+        const param = `attr.${definition.key}`;
+        return (
+          <div key={definition.key}>
+            <Label className="text-xs text-muted-foreground mb-2 block">{definition.label}</Label>
+
+            {definition.type === "boolean" && (
+              <Select value={(value[param] as string) ?? ""} onValueChange={(option) => set(param, option)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Indiferente" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="">Indiferente</SelectItem>
+                  <SelectItem value="true">Sí</SelectItem>
+                  <SelectItem value="false">No</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            {(definition.type === "select" || definition.type === "multiselect") && (
+              <div className="space-y-2">
+                {definition.options?.map((option) => {
+                  const selected = Array.isArray(value[param]) ? value[param] as string[] : [];
+                  return (
+                    <label key={option} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={selected.includes(option)}
+                        onCheckedChange={(checked) => set(param, checked ? [...selected, option] : selected.filter(item => item !== option))}
+                      />
+                      {option}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            {definition.type === "number" && (
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  type="number"
+                  placeholder="Mínimo"
+                  value={(value[`${param}.min`] as string) ?? ""}
+                  onChange={(e) => set(`${param}.min`, e.target.value)}
+                />
+                <Input
+                  type="number"
+                  placeholder="Máximo"
+                  value={(value[`${param}.max`] as string) ?? ""}
+                  onChange={(e) => set(`${param}.max`, e.target.value)}
+                />
+              </div>
+            )}
+
+            {definition.type === "text" && (
+              <Input
+                value={(value[param] as string) ?? ""}
+                maxLength={100}
+                onChange={(e) => set(param, e.target.value)}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { weekdayLabels } from "@/lib/availability";
+import type { AvailabilityException, TimeRange, WeeklySchedule } from "@shared/schema";
+
+interface AvailabilityEditorProps {
+  value: WeeklySchedule;
+  onChange: (value: WeeklySchedule) => void;
+}
+
+const DEFAULT_RANGE: TimeRange = { start: '08:00', end: '18:00' };
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function RangeInputs({ range, onChange, onRemove }: { range: TimeRange; onChange: (range: TimeRange) => void; onRemove: () => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        type="time"
+        className="w-28"
+        value={range.start}
+        onChange={(e) => onChange({ ...range, start: e.target.value })}
+      />
+      <span className="text-muted-foreground">a</span>
+      <Input
+        type="time"
+        className="w-28"
+        value={range.end}
+        onChange={(e) => onChange({ ...range, end: e.target.value })}
+      />
+      <Button type="button" size="sm" variant="ghost" onClick={onRemove}>
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
+
+export default function AvailabilityEditor({ value, onChange }: AvailabilityEditorProps) {
+  const [newExceptionDate, setNewExceptionDate] = useState("");
+
+  const setDay = (weekday: number, ranges: TimeRange[]) => {
+    onChange({ ...value, days: value.days.map((day, i) => (i === weekday ? ranges : day)) });
+  };
+
+  const setException = (index: number, exception: AvailabilityException | null) => {
+    const exceptions = [...value.exceptions];
+    if (exception) {
+      exceptions[index] = exception;
+    } else {
+      exceptions.splice(index, 1);
+    }
+    onChange({ ...value, exceptions });
+  };
+
+  const addException = () => {
+    if (!newExceptionDate || value.exceptions.some(e => e.date === newExceptionDate)) return;
+    const exceptions = [...value.exceptions, { date: newExceptionDate, ranges: [] }]
+      .sort((a, b) => a.date.localeCompare(b.date));
+    onChange({ ...value, exceptions });
+    setNewExceptionDate("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Horario de Colombia (America/Bogota)</p>
+        <div className="flex items-center gap-2">
+          <Label className="text-sm">Duración de cada cita</Label>
+          <Select
+            value={value.slotMinutes.toString()}
+            onValueChange={(minutes) => onChange({ ...value, slotMinutes: parseInt(minutes) })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="30">30 minutos</SelectItem>
+              <SelectItem value="45">45 minutos</SelectItem>
+              <SelectItem value="60">1 hora</SelectItem>
+              <SelectItem value="90">1 hora 30</SelectItem>
+              <SelectItem value="120">2 horas</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {WEEK_ORDER.map((weekday) => {
+          const ranges = value.days[weekday] || [];
+          return (
+            <div key={weekday} className="flex flex-col sm:flex-row sm:items-start gap-3">
+              <div className="flex items-center gap-2 w-36 pt-2">
+                <Switch
+                  checked={ranges.length > 0}
+                  onCheckedChange={(checked) => setDay(weekday, checked ? [DEFAULT_RANGE] : [])}
+                />
+                <span className="text-sm font-medium">{weekdayLabels[weekday]}</span>
+              </div>
+              {ranges.length > 0 ? (
+                <div className="space-y-2">
+                  {ranges.map((range, i) => (
+                    <RangeInputs
+                      key={i}
+                      range={range}
+                      onChange={(updated) => setDay(weekday, ranges.map((r, j) => (j === i ? updated : r)))}
+                      onRemove={() => setDay(weekday, ranges.filter((_, j) => j !== i))}
+                    />
+                  ))}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="link"
+                    className="px-0"
+                    onClick={() => setDay(weekday, [...ranges, { start: '14:00', end: '18:00' }])}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Agregar horario
+                  </Button>
+                </div>
+              ) : (
+                <span className="text-sm text-muted-foreground pt-2">Cerrado</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <Label>Excepciones y festivos</Label>
+        {value.exceptions.map((exception, index) => (
+          <div key={exception.date} className="flex flex-col sm:flex-row sm:items-start gap-3 p-3 border border-border rounded-lg">
+            <div className="flex items-center gap-2 w-36 pt-2">
+              <span className="text-sm font-medium">{exception.date}</span>
+            </div>
+            <div className="flex-1 space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={exception.ranges.length > 0}
+                  onCheckedChange={(checked) => setException(index, { ...exception, ranges: checked ? [DEFAULT_RANGE] : [] })}
+                />
+                <span className="text-sm">{exception.ranges.length > 0 ? 'Horario especial' : 'Cerrado'}</span>
+              </div>
+              {exception.ranges.map((range, i) => (
+                <RangeInputs
+                  key={i}
+                  range={range}
+                  onChange={(updated) => setException(index, { ...exception, ranges: exception.ranges.map((r, j) => (j === i ? updated : r)) })}
+                  onRemove={() => setException(index, { ...exception, ranges: exception.ranges.filter((_, j) => j !== i) })}
+                />
+              ))}
+              <Input
+                placeholder="Nota (ej: Festivo)"
+                value={exception.note || ""}
+                maxLength={100}
+                onChange={(e) => setException(index, { ...exception, note: e.target.value || undefined })}
+              />
+            </div>
+            <Button type="button" size="sm" variant="ghost" onClick={() => setException(index, null)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            className="w-44"
+            value={newExceptionDate}
+            onChange={(e) => setNewExceptionDate(e.target.value)}
+          />
+          <Button type="button" variant="outline" size="sm" onClick={addException} disabled={!newExceptionDate}>
+            <Plus className="w-4 h-4 mr-1" />
+            Agregar excepción
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
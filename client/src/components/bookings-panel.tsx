@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { CheckCircle, XCircle, CalendarClock, UserX } from "lucide-react";
+import type { BookingStatus, BookingWithDetails } from "@shared/schema";
+
+type BookingAction = 'accept' | 'decline' | 'reschedule' | 'cancel' | 'complete' | 'no-show';
+
+const statusLabels: Record<BookingStatus, string> = {
+  requested: 'Solicitada',
+  confirmed: 'Confirmada',
+  completed: 'Completada',
+  cancelled: 'Cancelada',
+  no_show: 'No asistió',
+};
+
+const statusVariants: Record<BookingStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  requested: 'secondary',
+  confirmed: 'default',
+  completed: 'outline',
+  cancelled: 'destructive',
+  no_show: 'destructive',
+};
+
+interface BookingsPanelProps {
+  as: 'provider' | 'customer';
+}
+
+export default function BookingsPanel({ as }: BookingsPanelProps) {
+  const { toast } = useToast();
+  const [reschedulingBooking, setReschedulingBooking] = useState<BookingWithDetails | null>(null);
+  const [newStartsAt, setNewStartsAt] = useState("");
+
+  const { data: bookings, isLoading } = useQuery<BookingWithDetails[]>({
+    queryKey: [`/api/bookings?as=${as}`],
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ id, action, ...body }: { id: number; action: BookingAction; reason?: string; startsAt?: string }) => {
+      return apiRequest("PATCH", `/api/bookings/${id}/${action}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/bookings?as=${as}`] });
+      toast({
+        title: "Reserva actualizada",
+        description: "La otra parte ha sido notificada del cambio.",
+      });
+      setReschedulingBooking(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo actualizar la reserva",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const runAction = (booking: BookingWithDetails, action: BookingAction) => {
+    if (action === 'decline' || action === 'cancel') {
+      const reason = prompt("Motivo (opcional):");
+      if (reason === null) return;
+      transitionMutation.mutate({ id: booking.id, action, reason: reason || undefined });
+      return;
+    }
+    transitionMutation.mutate({ id: booking.id, action });
+  };
+
+  const openReschedule = (booking: BookingWithDetails) => {
+    setReschedulingBooking(booking);
+    setNewStartsAt(format(new Date(booking.startsAt), "yyyy-MM-dd'T'HH:mm"));
+  };
+
+  const isOpen = (booking: BookingWithDetails) => booking.status === 'requested' || booking.status === 'confirmed';
+  const hasStarted = (booking: BookingWithDetails) => new Date(booking.startsAt) <= new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{as === 'provider' ? 'Reservas de mis servicios' : 'Mis reservas'}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3 animate-pulse">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : bookings && bookings.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Servicio</TableHead>
+                <TableHead>{as === 'provider' ? 'Cliente' : 'Proveedor'}</TableHead>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bookings.map((booking) => (
+                <TableRow key={booking.id}>
+                  <TableCell>
+                    <div className="font-medium">{booking.serviceTitle}</div>
+                    {booking.notes && (
+                      <div className="text-xs text-muted-foreground line-clamp-1">{booking.notes}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>{as === 'provider' ? booking.customerName : booking.providerName}</TableCell>
+                  <TableCell>
+                    {format(new Date(booking.startsAt), "dd/MM/yyyy HH:mm", { locale: es })}
+                    {' - '}
+                    {format(new Date(booking.endsAt), "HH:mm", { locale: es })}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[booking.status]}>
+                      {statusLabels[booking.status]}
+                    </Badge>
+                    {booking.statusReason && (
+                      <div className="text-xs text-muted-foreground mt-1">{booking.statusReason}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-2">
+                      {as === 'provider' && booking.status === 'requested' && (
+                        <>
+                          <Button size="sm" onClick={() => runAction(booking, 'accept')} disabled={transitionMutation.isPending}>
+                            <CheckCircle className="w-4 h-4 mr-1" />
+                            Aceptar
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => runAction(booking, 'decline')} disabled={transitionMutation.isPending}>
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Rechazar
+                          </Button>
+                        </>
+                      )}
+                      {as === 'provider' && isOpen(booking) && (
+                        <Button size="sm" variant="outline" onClick={() => openReschedule(booking)} disabled={transitionMutation.isPending}>
+                          <CalendarClock className="w-4 h-4 mr-1" />
+                          Reprogramar
+                        </Button>
+                      )}
+                      {as === 'provider' && booking.status === 'confirmed' && hasStarted(booking) && (
+                        <>
+                          <Button size="sm" onClick={() => runAction(booking, 'complete')} disabled={transitionMutation.isPending}>
+                            <CheckCircle className="w-4 h-4 mr-1" />
+                            Completada
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => runAction(booking, 'no-show')} disabled={transitionMutation.isPending}>
+                            <UserX className="w-4 h-4 mr-1" />
+                            No asistió
+                          </Button>
+                        </>
+                      )}
+                      {isOpen(booking) && !(as === 'provider' && booking.status === 'requested') && (
+                        <Button size="sm" variant="ghost" className="text-destructive" onClick={() => runAction(booking, 'cancel')} disabled={transitionMutation.isPending}>
+                          Cancelar
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">
+            {as === 'provider' ? 'Aún no has recibido reservas.' : 'Aún no has hecho reservas.'}
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={!!reschedulingBooking} onOpenChange={(open) => !open && setReschedulingBooking(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reprogramar reserva</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reschedule-starts-at">Nueva fecha y hora</Label>
+            <Input
+              id="reschedule-starts-at"
+              type="datetime-local"
+              value={newStartsAt}
+              onChange={(e) => setNewStartsAt(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              className="btn-primary"
+              disabled={!newStartsAt || transitionMutation.isPending}
+              onClick={() => reschedulingBooking && transitionMutation.mutate({
+                id: reschedulingBooking.id,
+                action: 'reschedule',
+                startsAt: new Date(newStartsAt).toISOString(),
+              })}
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
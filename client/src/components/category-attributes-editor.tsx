@@ -0,0 +1,141 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { attributeTypeLabels, toAttributeKey } from "@/lib/categories";
+import { Plus, Trash2 } from "lucide-react";
+import { categoryAttributeTypes, type CategoryAttributeDefinition, type CategoryAttributeType } from "@shared/schema";
+
+interface CategoryAttributesEditorProps {
+  value: CategoryAttributeDefinition[];
+  onChange: (value: CategoryAttributeDefinition[]) => void;
+  inherited: CategoryAttributeDefinition[]; // from the parent categories, read-only here
+}
+
+const hasOptions = (type: CategoryAttributeType) => type === "select" || type === "multiselect";
+
+// Options are edited as a comma-separated list and only trimmed on submit, so
+// spaces can still be typed inside an option
+export const cleanAttributeDefinitions = (definitions: CategoryAttributeDefinition[]): CategoryAttributeDefinition[] =>
+  definitions.map(({ options, ...definition }) => ({
+    ...definition,
+    ...(hasOptions(definition.type) ? { options: (options ?? []).map(option => option.trim()).filter(Boolean) } : {}),
+  }));
+
+export default function CategoryAttributesEditor({ value, onChange, inherited }: CategoryAttributesEditorProps) {
+  const update = (index: number, changes: Partial<CategoryAttributeDefinition>) => {
+    onChange(value.map((definition, i) => (i === index ? { ...definition, ...changes } : definition)));
+  };
+
+  const add = () => {
+    onChange([...value, { key: "", label: "", type: "boolean", required: false, filterable: true }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {inherited.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+          Hereda:
+          {inherited.map((definition) => (
+            <Badge key={definition.key} variant="outline">{definition.label}</Badge>
+          ))}
+        </div>
+      )}
+
+      {value.map((definition, index) => (
+        <div key={index} className="border border-border rounded-lg p-3 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="mb-1 block text-xs">Nombre del campo</Label>
+              <Input
+                value={definition.label}
+                placeholder="Ej: Atiende a domicilio"
+                maxLength={80}
+                onChange={(e) => update(index, {
+                  label: e.target.value,
+                  // Follow the label until the key is edited by hand
+                  ...(definition.key === toAttributeKey(definition.label) ? { key: toAttributeKey(e.target.value) } : {}),
+                })}
+              />
+            </div>
+            <div>
+              <Label className="mb-1 block text-xs">Clave</Label>
+              <Input
+                value={definition.key}
+                placeholder="atiende_a_domicilio"
+                maxLength={40}
+                onChange={(e) => update(index, { key: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="mb-1 block text-xs">Tipo</Label>
+              <Select
+                value={definition.type}
+                onValueChange={(type) => update(index, {
+                  type: type as CategoryAttributeType,
+                  options: hasOptions(type as CategoryAttributeType) ? definition.options ?? [] : undefined,
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {categoryAttributeTypes.map((type) => (
+                    <SelectItem key={type} value={type}>{attributeTypeLabels[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {hasOptions(definition.type) && (
+              <div>
+                <Label className="mb-1 block text-xs">Opciones (separadas por comas)</Label>
+                <Input
+                  value={(definition.options ?? []).join(",")}
+                  placeholder="Toyota, Mazda, Chevrolet"
+                  onChange={(e) => update(index, { options: e.target.value.split(",") })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-6 text-sm">
+              <label className="flex items-center gap-2">
+                <Switch checked={definition.required} onCheckedChange={(required) => update(index, { required })} />
+                Obligatorio
+              </label>
+              <label className="flex items-center gap-2">
+                <Switch checked={definition.filterable} onCheckedChange={(filterable) => update(index, { filterable })} />
+                Usar como filtro
+              </label>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              aria-label={`Quitar ${definition.label || "campo"}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={add} disabled={value.length >= 30}>
+        <Plus className="w-4 h-4 mr-2" />
+        Agregar campo
+      </Button>
+      {value.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Cambiar la clave de un campo oculta los valores que los proveedores ya guardaron.
+        </p>
+      )}
+    </div>
+  );
+}
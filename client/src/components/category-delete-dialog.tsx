@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToastAction } from "@/components/ui/toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { flattenCategories } from "@/lib/categories";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Undo2 } from "lucide-react";
+import {
+  CATEGORY_UNDO_WINDOW_MINUTES,
+  type Category,
+  type CategoryDeletionSummary,
+  type CategoryImpact,
+} from "@shared/schema";
+
+// Moving services changes their category everywhere they are listed
+const invalidateCategories = () => {
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/categories") });
+  queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === "/api/services" });
+};
+
+const useUndoCategoryDeletion = () => {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (deletionId: number) => {
+      const res = await apiRequest("POST", `/api/categories/deletions/${deletionId}/undo`);
+      return await res.json() as CategoryDeletionSummary;
+    },
+    onSuccess: (deletion) => {
+      invalidateCategories();
+      toast({ title: "Categoría restaurada", description: `${deletion.categoryName} vuelve a estar activa.` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo deshacer la eliminación",
+        variant: "destructive",
+      });
+    },
+  });
+};
+
+interface CategoryDeleteDialogProps {
+  category: Category | null; // open while set
+  categories: Category[];
+  onClose: () => void;
+}
+
+// Shows what the deletion touches and where the services go before confirming
+export default function CategoryDeleteDialog({ category, categories, onClose }: CategoryDeleteDialogProps) {
+  const { toast } = useToast();
+  const [replacementId, setReplacementId] = useState("");
+  const undoMutation = useUndoCategoryDeletion();
+
+  const { data: impact, isLoading } = useQuery<CategoryImpact>({
+    queryKey: [`/api/categories/${category?.id}/impact`],
+    enabled: !!category,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", `/api/categories/${category!.id}`, {
+        replacementCategoryId: replacementId ? parseInt(replacementId) : undefined,
+      });
+      return await res.json() as CategoryDeletionSummary;
+    },
+    onSuccess: (deletion) => {
+      invalidateCategories();
+      toast({
+        title: "Categoría eliminada",
+        description: deletion.replacementCategoryName
+          ? `${deletion.movedServiceIds.length} servicio(s) pasaron a ${deletion.replacementCategoryName}.`
+          : `${deletion.categoryName} ya no está disponible.`,
+        action: (
+          <ToastAction altText="Deshacer" onClick={() => undoMutation.mutate(deletion.id)}>
+            Deshacer
+          </ToastAction>
+        ),
+      });
+      close();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo eliminar la categoría",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const close = () => {
+    setReplacementId("");
+    onClose();
+  };
+
+  const needsReplacement = (impact?.services.total ?? 0) > 0;
+  const replacementOptions = flattenCategories(categories).filter(option => option.id !== category?.id);
+
+  return (
+    <Dialog open={!!category} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Eliminar {category?.name}</DialogTitle>
+          <DialogDescription>
+            La categoría dejará de mostrarse. Podrás deshacerlo durante {CATEGORY_UNDO_WINDOW_MINUTES} minutos.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !impact ? (
+          <div className="space-y-3 animate-pulse">
+            <div className="h-4 bg-muted rounded w-2/3"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <ul className="text-sm space-y-1">
+              <li>
+                <strong>{impact.services.total}</strong> servicio(s) en esta categoría
+                {impact.services.total > 0 && ` (${impact.services.approved} publicados, ${impact.services.pending} pendientes)`}
+              </li>
+              <li>
+                <strong>{impact.subcategories.length}</strong> subcategoría(s)
+                {impact.subcategories.length > 0 && `: ${impact.subcategories.map(subcategory => subcategory.name).join(", ")}`}
+              </li>
+            </ul>
+            {impact.subcategories.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Las subcategorías pasarán a depender de {categories.find(c => c.id === category?.parentId)?.name ?? "la raíz"}.
+              </p>
+            )}
+
+            {needsReplacement && (
+              <div>
+                <Label className="mb-2 block">Mover los servicios a</Label>
+                <Select value={replacementId} onValueChange={setReplacementId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecciona una categoría" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {replacementOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id.toString()}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Cancelar
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={!impact || (needsReplacement && !replacementId) || deleteMutation.isPending}
+            onClick={() => deleteMutation.mutate()}
+          >
+            Eliminar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Deletions still inside the undo window, in case the toast was missed
+export function RecentCategoryDeletions() {
+  const undoMutation = useUndoCategoryDeletion();
+  const { data: deletions } = useQuery<CategoryDeletionSummary[]>({
+    queryKey: ["/api/categories/deletions"],
+    refetchInterval: 60 * 1000, // drops deletions as their window closes
+  });
+
+  if (!deletions || deletions.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Eliminadas recientemente</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {deletions.map((deletion) => (
+          <div key={deletion.id} className="flex items-center justify-between gap-4 text-sm">
+            <div>
+              <span className="font-medium">{deletion.categoryName}</span>
+              {deletion.replacementCategoryName && (
+                <span className="text-muted-foreground"> → {deletion.replacementCategoryName}</span>
+              )}
+              <p className="text-xs text-muted-foreground">
+                Puedes deshacerlo hasta las {format(new Date(deletion.undoUntil), "HH:mm", { locale: es })}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={undoMutation.isPending}
+              onClick={() => undoMutation.mutate(deletion.id)}
+            >
+              <Undo2 className="w-4 h-4 mr-2" />
+              Deshacer
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,7 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Home, Smartphone, Car, Scissors, BookOpen, Heart } from "lucide-react";
 import { Link } from "wouter";
-import type { Category } from "@shared/schema";
+import { categoryPath, type Category } from "@shared/schema";
 
 const categoryIcons: Record<string, React.ComponentType<any>> = {
   "hogar": Home,
@@ -59,12 +59,13 @@ export default function CategoryGrid() {
 
   return (
     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-6">
-      {categories.slice(0, 6).map((category, index) => {
+      {/* Subcategories are reached from their parent's listing */}
+      {categories.filter(category => !category.parentId).slice(0, 6).map((category, index) => {
         const IconComponent = categoryIcons[category.name.toLowerCase()] || Home;
         const colorClass = categoryColors[index % categoryColors.length];
         
         return (
-          <Link key={category.id} href={`/services?category=${category.id}`}>
+          <Link key={category.id} href={categoryPath(category)}>
             <Card className="group cursor-pointer border border-border hover:shadow-lg hover:border-primary/20 transition-all hover-lift">
               <CardContent className="p-6 text-center">
                 <div className={`w-12 h-12 ${colorClass} rounded-xl flex items-center justify-center mx-auto mb-4 group-hover:scale-110 transition-transform`}>
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { useLocations } from "@/hooks/use-locations";
+import { locationLevelLabels } from "@/lib/locations";
+import { Check, ChevronsUpDown, X } from "lucide-react";
+
+interface CoverageAreaPickerProps {
+  value: number[];
+  onChange: (value: number[]) => void;
+}
+
+// Municipalities, comunas and barrios where a service is offered. Choosing a
+// municipality covers every barrio in it.
+export default function CoverageAreaPicker({ value, onChange }: CoverageAreaPickerProps) {
+  const [open, setOpen] = useState(false);
+  const { options } = useLocations();
+  const selectable = options.filter(option => option.level !== "department");
+  const selected = value
+    .map(id => selectable.find(option => option.id === id))
+    .filter(option => option !== undefined);
+
+  const toggle = (id: number) => {
+    onChange(value.includes(id) ? value.filter(selectedId => selectedId !== id) : [...value, id]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between font-normal">
+            {selected.length > 0 ? `${selected.length} zona(s) seleccionada(s)` : "Selecciona dónde ofreces el servicio"}
+            <ChevronsUpDown className="w-4 h-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Buscar barrio o municipio..." />
+            <CommandList>
+              <CommandEmpty>No encontramos esa zona.</CommandEmpty>
+              {selectable.map((option) => (
+                <CommandItem
+                  key={option.id}
+                  value={`${option.label} ${option.id}`}
+                  onSelect={() => toggle(option.id)}
+                >
+                  <Check className={value.includes(option.id) ? "opacity-100" : "opacity-0"} />
+                  <span style={{ paddingLeft: `${(option.depth - 1) * 0.75}rem` }}>{option.name}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">{locationLevelLabels[option.level]}</span>
+                </CommandItem>
+              ))}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map((option) => (
+            <Badge key={option.id} variant="secondary" className="gap-1">
+              {option.label}
+              <X
+                className="w-3 h-3 cursor-pointer"
+                onClick={() => toggle(option.id)}
+                aria-label={`Quitar ${option.name}`}
+              />
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
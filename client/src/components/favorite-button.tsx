@@ -0,0 +1,41 @@
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useFavorites, type FavoriteTarget } from "@/hooks/use-favorites";
+import { cn } from "@/lib/utils";
+import { Heart } from "lucide-react";
+
+interface FavoriteButtonProps {
+  target: FavoriteTarget;
+  ownerId?: string; // hidden for the owner, who can't save their own service or profile
+  className?: string;
+}
+
+// Heart toggle, only shown to logged-in users. It sits inside card links, so clicks
+// must not reach them.
+export default function FavoriteButton({ target, ownerId, className }: FavoriteButtonProps) {
+  const { user, isAuthenticated } = useAuth();
+  const { isSaved, toggle, isToggling } = useFavorites();
+
+  if (!isAuthenticated || (ownerId && ownerId === user?.id.toString())) return null;
+
+  const saved = isSaved(target);
+
+  return (
+    <Button
+      type="button"
+      size="icon"
+      variant="secondary"
+      className={cn("rounded-full bg-background/90 hover:bg-background", className)}
+      aria-label={saved ? "Quitar de favoritos" : "Guardar en favoritos"}
+      aria-pressed={saved}
+      disabled={isToggling}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        toggle(target);
+      }}
+    >
+      <Heart className={cn("w-5 h-5", saved ? "fill-red-500 text-red-500" : "text-muted-foreground")} />
+    </Button>
+  );
+}
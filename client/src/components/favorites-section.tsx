@@ -0,0 +1,200 @@
+import { useState } from "react";
+import ServiceCard from "@/components/service-card";
+import FavoriteButton from "@/components/favorite-button";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useFavorites, invalidateFavorites } from "@/hooks/use-favorites";
+import { Link } from "wouter";
+import { Plus, Trash2 } from "lucide-react";
+import { providerPath, type Favorite, type FavoriteList } from "@shared/schema";
+
+function MoveToList({ favorite, lists, onMove }: {
+  favorite: Favorite;
+  lists: FavoriteList[];
+  onMove: (listId: number | null) => void;
+}) {
+  if (lists.length === 0) return null;
+  return (
+    <Select
+      value={favorite.listId?.toString() ?? ""}
+      onValueChange={(value) => onMove(value ? parseInt(value) : null)}
+    >
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue placeholder="Sin lista" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="">Sin lista</SelectItem>
+        {lists.map((list) => (
+          <SelectItem key={list.id} value={list.id.toString()}>
+            {list.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Saved services and providers, filtered by list. Hidden until the user saves something.
+export default function FavoritesSection() {
+  const { favorites } = useFavorites();
+  const { toast } = useToast();
+  const [activeListId, setActiveListId] = useState<number | null>(null); // null: all
+  const [newListName, setNewListName] = useState("");
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({ title: "Error", description: error.message || fallback, variant: "destructive" });
+  };
+
+  const createListMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/favorites/lists", { name });
+      return await res.json() as FavoriteList;
+    },
+    onSuccess: (list) => {
+      invalidateFavorites();
+      setNewListName("");
+      setActiveListId(list.id);
+    },
+    onError: onError("No se pudo crear la lista"),
+  });
+
+  const deleteListMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/favorites/lists/${id}`),
+    onSuccess: () => {
+      invalidateFavorites();
+      setActiveListId(null);
+      toast({ title: "Lista eliminada", description: "Sus favoritos siguen guardados, sin lista." });
+    },
+    onError: onError("No se pudo eliminar la lista"),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ id, listId }: { id: number; listId: number | null }) =>
+      apiRequest("PATCH", `/api/favorites/${id}`, { listId }),
+    onSuccess: () => invalidateFavorites(),
+    onError: onError("No se pudo mover el favorito"),
+  });
+
+  if (!favorites || (favorites.services.length === 0 && favorites.providers.length === 0 && favorites.lists.length === 0)) {
+    return null;
+  }
+
+  const inActiveList = (item: { favorite: Favorite }) => activeListId === null || item.favorite.listId === activeListId;
+  const services = favorites.services.filter(inActiveList);
+  const providers = favorites.providers.filter(inActiveList);
+  const countIn = (listId: number) =>
+    [...favorites.services, ...favorites.providers].filter(item => item.favorite.listId === listId).length;
+
+  const move = (favorite: Favorite) => (listId: number | null) => moveMutation.mutate({ id: favorite.id, listId });
+
+  return (
+    <section className="py-16">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-foreground mb-2">Tus Favoritos</h2>
+          <p className="text-muted-foreground">Servicios y proveedores que guardaste</p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 mb-8">
+          <Button size="sm" variant={activeListId === null ? "default" : "outline"} onClick={() => setActiveListId(null)}>
+            Todos
+          </Button>
+          {favorites.lists.map((list) => (
+            <Button
+              key={list.id}
+              size="sm"
+              variant={activeListId === list.id ? "default" : "outline"}
+              onClick={() => setActiveListId(list.id)}
+            >
+              {list.name} ({countIn(list.id)})
+            </Button>
+          ))}
+          {activeListId !== null && (
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={deleteListMutation.isPending}
+              onClick={() => deleteListMutation.mutate(activeListId)}
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Eliminar lista
+            </Button>
+          )}
+          <form
+            className="flex items-center gap-2 ml-auto"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newListName.trim()) createListMutation.mutate(newListName.trim());
+            }}
+          >
+            <Input
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              placeholder="Nueva lista, p. ej. Para la casa"
+              maxLength={60}
+              className="h-9 w-56"
+            />
+            <Button type="submit" size="sm" variant="outline" disabled={!newListName.trim() || createListMutation.isPending}>
+              <Plus className="w-4 h-4 mr-1" />
+              Crear
+            </Button>
+          </form>
+        </div>
+
+        {services.length === 0 && providers.length === 0 ? (
+          <p className="text-muted-foreground py-8 text-center">
+            {activeListId === null
+              ? "Usa el corazón en un servicio o perfil para guardarlo aquí."
+              : "Esta lista está vacía. Mueve aquí tus favoritos desde \"Todos\"."}
+          </p>
+        ) : (
+          <div className="space-y-8">
+            {services.length > 0 && (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {services.map(({ favorite, service }) => (
+                  <div key={favorite.id} className="space-y-2">
+                    <ServiceCard service={service} />
+                    <MoveToList favorite={favorite} lists={favorites.lists} onMove={move(favorite)} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {providers.length > 0 && (
+              <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                {providers.map(({ favorite, provider }) => {
+                  const name = provider.displayName || provider.fullName || provider.username;
+                  return (
+                    <Card key={favorite.id}>
+                      <CardContent className="p-4 space-y-3">
+                        <div className="flex items-center gap-3">
+                          <Link href={providerPath(provider)} className="flex items-center gap-3 min-w-0 flex-1 group">
+                            <Avatar className="h-10 w-10">
+                              {provider.photoUrl && <AvatarImage src={provider.photoUrl} alt={name} />}
+                              <AvatarFallback className="bg-primary/10 text-primary">
+                                {name.substring(0, 2).toUpperCase()}
+                              </AvatarFallback>
+                            </Avatar>
+                            <span className="font-medium truncate group-hover:text-primary">{name}</span>
+                          </Link>
+                          <FavoriteButton target={{ providerId: provider.id.toString() }} />
+                        </div>
+                        <MoveToList favorite={favorite} lists={favorites.lists} onMove={move(favorite)} />
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
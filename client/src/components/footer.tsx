@@ -36,27 +36,27 @@ export default function Footer() {
             <h3 className="font-semibold mb-4">Servicios</h3>
             <ul className="space-y-2 text-slate-300">
               <li>
-                <Link href="/services?category=hogar" className="hover:text-white transition-colors">
+                <Link href="/categories/hogar" className="hover:text-white transition-colors">
                   Hogar
                 </Link>
               </li>
               <li>
-                <Link href="/services?category=tecnologia" className="hover:text-white transition-colors">
+                <Link href="/categories/tecnologia" className="hover:text-white transition-colors">
                   Tecnología
                 </Link>
               </li>
               <li>
-                <Link href="/services?category=automotriz" className="hover:text-white transition-colors">
+                <Link href="/categories/automotriz" className="hover:text-white transition-colors">
                   Automotriz
                 </Link>
               </li>
               <li>
-                <Link href="/services?category=belleza" className="hover:text-white transition-colors">
+                <Link href="/categories/belleza" className="hover:text-white transition-colors">
                   Belleza
                 </Link>
               </li>
               <li>
-                <Link href="/services?category=educacion" className="hover:text-white transition-colors">
+                <Link href="/categories/educacion" className="hover:text-white transition-colors">
                   Educación
                 </Link>
               </li>
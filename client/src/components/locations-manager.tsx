@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
+import { locationLevelLabels } from "@/lib/locations";
+import { Edit, Plus, Trash2 } from "lucide-react";
+import { locationLevels, type InsertLocation, type Location, type LocationLevel } from "@shared/schema";
+
+interface LocationDraft {
+  name: string;
+  level: LocationLevel;
+  parentId: string; // "" for a department
+  latitude: string;
+  longitude: string;
+}
+
+const emptyDraft: LocationDraft = { name: "", level: "barrio", parentId: "", latitude: "", longitude: "" };
+
+const toDraft = (location: Location): LocationDraft => ({
+  name: location.name,
+  level: location.level,
+  parentId: location.parentId?.toString() ?? "",
+  latitude: location.latitude?.toString() ?? "",
+  longitude: location.longitude?.toString() ?? "",
+});
+
+const toPayload = (draft: LocationDraft): InsertLocation => ({
+  name: draft.name.trim(),
+  level: draft.level,
+  parentId: draft.parentId ? parseInt(draft.parentId) : null,
+  latitude: draft.latitude ? parseFloat(draft.latitude) : null,
+  longitude: draft.longitude ? parseFloat(draft.longitude) : null,
+});
+
+export default function LocationsManager() {
+  const { toast } = useToast();
+  const { options, isLoading } = useLocations();
+  const [editing, setEditing] = useState<Location | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<LocationDraft>(emptyDraft);
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Renames and moves change the labels shown on service cards too
+  const invalidateLocations = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/locations"] });
+    queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === "/api/services" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: InsertLocation) => {
+      return editing
+        ? apiRequest("PUT", `/api/locations/${editing.id}`, payload)
+        : apiRequest("POST", "/api/locations", payload);
+    },
+    onSuccess: () => {
+      invalidateLocations();
+      toast({ title: editing ? "Ubicación actualizada" : "Ubicación creada" });
+      setDialogOpen(false);
+    },
+    onError: showError("No se pudo guardar la ubicación"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/locations/${id}`),
+    onSuccess: () => {
+      invalidateLocations();
+      toast({ title: "Ubicación eliminada" });
+    },
+    onError: showError("No se pudo eliminar la ubicación"),
+  });
+
+  const openDialog = (location: Location | null, parent?: Location) => {
+    setEditing(location);
+    if (location) {
+      setDraft(toDraft(location));
+    } else {
+      const childLevel = parent ? locationLevels[Math.min(locationLevels.indexOf(parent.level) + 1, locationLevels.length - 1)] : "department";
+      setDraft({ ...emptyDraft, level: childLevel, parentId: parent?.id.toString() ?? "" });
+    }
+    setDialogOpen(true);
+  };
+
+  // A parent sits at a shallower level, and a location can't move inside itself
+  const parentOptions = options.filter(option =>
+    locationLevels.indexOf(option.level) < locationLevels.indexOf(draft.level)
+    && (!editing || !option.path.startsWith(editing.path))
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Ubicaciones</CardTitle>
+          <Button className="btn-primary" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Nuevo Departamento
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3 animate-pulse">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <div key={i} className="h-10 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : options.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Nombre</TableHead>
+                <TableHead>Nivel</TableHead>
+                <TableHead>Coordenadas</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {options.map((option) => (
+                <TableRow key={option.id}>
+                  <TableCell className="font-medium">
+                    <span style={{ paddingLeft: `${option.depth * 1.25}rem` }}>{option.name}</span>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{locationLevelLabels[option.level]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {option.latitude !== null && option.longitude !== null
+                      ? `${option.latitude.toFixed(4)}, ${option.longitude.toFixed(4)}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      {option.level !== "barrio" && (
+                        <Button size="sm" variant="outline" onClick={() => openDialog(null, option)} aria-label="Agregar zona dentro">
+                          <Plus className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => openDialog(option)} aria-label="Editar">
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => {
+                          if (confirm(`¿Eliminar ${option.name}?`)) deleteMutation.mutate(option.id);
+                        }}
+                        aria-label="Eliminar"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">
+            Aún no hay ubicaciones. Ejecuta <code>npm run db:migrate-locations</code> para cargar el área metropolitana.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? `Editar ${editing.name}` : "Nueva ubicación"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label className="mb-2 block">Nombre</Label>
+              <Input value={draft.name} maxLength={80} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-2 block">Nivel</Label>
+                <Select
+                  value={draft.level}
+                  onValueChange={(value) => setDraft({ ...draft, level: value as LocationLevel, parentId: value === "department" ? "" : draft.parentId })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locationLevels.map((level) => (
+                      <SelectItem key={level} value={level}>{locationLevelLabels[level]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="mb-2 block">Dentro de</Label>
+                <Select
+                  value={draft.parentId}
+                  disabled={draft.level === "department"}
+                  onValueChange={(value) => setDraft({ ...draft, parentId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecciona" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {parentOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id.toString()}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-2 block">Latitud</Label>
+                <Input type="number" step="0.0001" placeholder="7.8939" value={draft.latitude} onChange={(e) => setDraft({ ...draft, latitude: e.target.value })} />
+              </div>
+              <div>
+                <Label className="mb-2 block">Longitud</Label>
+                <Input type="number" step="0.0001" placeholder="-72.5078" value={draft.longitude} onChange={(e) => setDraft({ ...draft, longitude: e.target.value })} />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button
+              className="btn-primary"
+              disabled={draft.name.trim().length < 2 || (draft.level !== "department" && !draft.parentId) || saveMutation.isPending}
+              onClick={() => saveMutation.mutate(toPayload(draft))}
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Archive, ArchiveRestore, Mail, MailOpen, Send } from "lucide-react";
+import type { InboxMessage, Service } from "@shared/schema";
+
+// Refreshes every inbox list and the unread badge
+export const invalidateInbox = () => {
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/messages") });
+};
+
+export default function MessagesInbox() {
+  const { toast } = useToast();
+  const [serviceFilter, setServiceFilter] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+  const [openMessageId, setOpenMessageId] = useState<number | null>(null);
+  const [replyText, setReplyText] = useState("");
+
+  const { data: userServices } = useQuery<Service[]>({
+    queryKey: ["/api/user/services"],
+  });
+
+  const params = new URLSearchParams({ archived: showArchived.toString() });
+  if (serviceFilter) params.set("serviceId", serviceFilter);
+
+  const { data: messages, isLoading } = useQuery<InboxMessage[]>({
+    queryKey: [`/api/messages?${params.toString()}`],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, action, body }: { id: number; action: "read" | "archive"; body: Record<string, boolean> }) => {
+      return apiRequest("PATCH", `/api/messages/${id}/${action}`, body);
+    },
+    onSuccess: () => invalidateInbox(),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo actualizar el mensaje",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ id, reply }: { id: number; reply: string }) => {
+      return apiRequest("POST", `/api/messages/${id}/reply`, { reply });
+    },
+    onSuccess: () => {
+      invalidateInbox();
+      setReplyText("");
+      toast({
+        title: "Respuesta guardada",
+        description: "Tu respuesta quedó registrada en el mensaje.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo enviar la respuesta",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMessage = (message: InboxMessage) => {
+    setReplyText("");
+    if (openMessageId === message.id) {
+      setOpenMessageId(null);
+      return;
+    }
+    setOpenMessageId(message.id);
+    if (!message.isRead) {
+      updateMutation.mutate({ id: message.id, action: "read", body: { isRead: true } });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <CardTitle>{showArchived ? "Mensajes archivados" : "Bandeja de entrada"}</CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={serviceFilter} onValueChange={setServiceFilter}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Todos los servicios" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="">Todos los servicios</SelectItem>
+                {userServices?.map((service) => (
+                  <SelectItem key={service.id} value={service.id.toString()}>
+                    {service.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => setShowArchived(!showArchived)}>
+              {showArchived ? "Ver bandeja" : "Ver archivados"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3 animate-pulse">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-16 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : messages && messages.length > 0 ? (
+          <div className="space-y-3">
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                className={`border border-border rounded-lg ${message.isRead ? "" : "bg-primary/5 border-primary/30"}`}
+              >
+                <button
+                  type="button"
+                  className="w-full text-left p-4 flex items-start justify-between gap-4"
+                  onClick={() => toggleMessage(message)}
+                >
+                  <div className="flex items-start gap-3 min-w-0">
+                    {message.isRead ? (
+                      <MailOpen className="w-5 h-5 text-muted-foreground mt-0.5 shrink-0" />
+                    ) : (
+                      <Mail className="w-5 h-5 text-primary mt-0.5 shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <div className={`text-foreground ${message.isRead ? "" : "font-semibold"}`}>
+                        {message.senderName}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{message.serviceTitle}</div>
+                      {openMessageId !== message.id && (
+                        <p className="text-sm text-muted-foreground truncate">{message.message}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 shrink-0">
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(message.createdAt!), "dd/MM/yyyy HH:mm", { locale: es })}
+                    </span>
+                    {message.repliedAt && <Badge variant="outline">Respondido</Badge>}
+                  </div>
+                </button>
+
+                {openMessageId === message.id && (
+                  <div className="px-4 pb-4 space-y-4">
+                    <p className="text-foreground whitespace-pre-line">{message.message}</p>
+                    <a href={`mailto:${message.senderEmail}`} className="text-sm text-primary hover:underline">
+                      {message.senderEmail}
+                    </a>
+
+                    {message.reply && (
+                      <div className="text-sm pl-4 border-l-2 border-border">
+                        <div className="text-xs text-muted-foreground mb-1">
+                          Tu respuesta · {format(new Date(message.repliedAt!), "dd/MM/yyyy HH:mm", { locale: es })}
+                        </div>
+                        <p className="whitespace-pre-line">{message.reply}</p>
+                      </div>
+                    )}
+
+                    <Textarea
+                      placeholder="Escribe tu respuesta..."
+                      value={replyText}
+                      onChange={(e) => setReplyText(e.target.value)}
+                      maxLength={2000}
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        className="btn-primary"
+                        disabled={!replyText.trim() || replyMutation.isPending}
+                        onClick={() => replyMutation.mutate({ id: message.id, reply: replyText })}
+                      >
+                        <Send className="w-4 h-4 mr-1" />
+                        Responder
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => updateMutation.mutate({ id: message.id, action: "read", body: { isRead: false } })}
+                      >
+                        <Mail className="w-4 h-4 mr-1" />
+                        Marcar como no leído
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setOpenMessageId(null);
+                          updateMutation.mutate({ id: message.id, action: "archive", body: { archived: !message.isArchived } });
+                        }}
+                      >
+                        {message.isArchived ? (
+                          <ArchiveRestore className="w-4 h-4 mr-1" />
+                        ) : (
+                          <Archive className="w-4 h-4 mr-1" />
+                        )}
+                        {message.isArchived ? "Restaurar" : "Archivar"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">
+            {showArchived ? "No tienes mensajes archivados." : "No tienes mensajes nuevos."}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,7 +8,7 @@ import {
   DropdownMenuTrigger 
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { MapPin, Menu, User, Settings, LogOut, Plus } from "lucide-react";
+import { MapPin, Menu, User, Settings, LogOut, Plus, MessageSquare } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { getDisplayName, getInitials, isAdmin, isProvider } from "@/lib/auth";
 import { useState } from "react";
@@ -108,6 +108,13 @@ export default function Navbar() {
                         <span>Mi Perfil</span>
                       </Link>
                     </DropdownMenuItem>
+
+                    <DropdownMenuItem asChild>
+                      <Link href="/messages" className="cursor-pointer">
+                        <MessageSquare className="mr-2 h-4 w-4" />
+                        <span>Mensajes</span>
+                      </Link>
+                    </DropdownMenuItem>
                     
                     {isProvider(user) && (
                       <DropdownMenuItem asChild>
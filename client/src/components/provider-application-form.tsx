@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_APPLICATION_UPLOAD_BYTES, MAX_UPLOAD_BYTES, readAsDataUrl } from "@/lib/uploads";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { FileText, Trash2, Upload } from "lucide-react";
+import type { ProviderApplication, ProviderDocumentKind } from "@shared/schema";
+
+const ACCEPTED_TYPES = "application/pdf,image/jpeg,image/png";
+
+const kindLabels: Record<ProviderDocumentKind, string> = {
+  identity: "Documento de identidad (cédula o RUT)",
+  certificate: "Certificados de oficio",
+  selfie: "Selfie sosteniendo tu documento",
+};
+
+const statusLabels: Record<ProviderApplication["status"], string> = {
+  pending: "En revisión",
+  approved: "Aprobada",
+  rejected: "Rechazada",
+};
+
+interface SelectedDocument {
+  kind: ProviderDocumentKind;
+  fileName: string;
+  dataUrl: string;
+  size: number;
+}
+
+export default function ProviderApplicationForm() {
+  const { toast } = useToast();
+  const [legalName, setLegalName] = useState("");
+  const [documentType, setDocumentType] = useState<"cedula" | "nit">("cedula");
+  const [documentNumber, setDocumentNumber] = useState("");
+  const [tradeDescription, setTradeDescription] = useState("");
+  const [documents, setDocuments] = useState<SelectedDocument[]>([]);
+
+  const { data: applications } = useQuery<ProviderApplication[]>({
+    queryKey: ["/api/provider-applications/mine"],
+  });
+
+  const latest = applications?.[0];
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/provider-applications", {
+        legalName,
+        documentType,
+        documentNumber,
+        tradeDescription: tradeDescription.trim() || undefined,
+        documents: documents.map(({ kind, fileName, dataUrl }) => ({ kind, fileName, dataUrl })),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/provider-applications/mine"] });
+      setDocuments([]);
+      toast({
+        title: "Solicitud enviada",
+        description: "Revisaremos tus documentos y te avisaremos cuando tengamos una respuesta.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo enviar la solicitud",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addFiles = async (kind: ProviderDocumentKind, files: FileList | null) => {
+    if (!files) return;
+    const added: SelectedDocument[] = [];
+    let total = documents.reduce((sum, doc) => sum + doc.size, 0);
+    for (const file of Array.from(files)) {
+      if (file.size > MAX_UPLOAD_BYTES) {
+        toast({
+          title: "Archivo muy grande",
+          description: `${file.name} supera los 5 MB.`,
+          variant: "destructive",
+        });
+        continue;
+      }
+      if (total + file.size > MAX_APPLICATION_UPLOAD_BYTES) {
+        toast({
+          title: "Demasiados archivos",
+          description: `Con ${file.name} los documentos superarían los 6 MB en total.`,
+          variant: "destructive",
+        });
+        continue;
+      }
+      total += file.size;
+      added.push({ kind, fileName: file.name, dataUrl: await readAsDataUrl(file), size: file.size });
+    }
+    setDocuments(current => [...current, ...added]);
+  };
+
+  const hasKind = (kind: ProviderDocumentKind) => documents.some(doc => doc.kind === kind);
+  const canSubmit = legalName.trim().length >= 3 && documentNumber.trim() !== "" &&
+    hasKind("identity") && hasKind("selfie");
+
+  if (latest && latest.status !== "rejected") {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Solicitud para ser proveedor</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-muted-foreground">Estado:</span>
+            <Badge variant={latest.status === "approved" ? "default" : "outline"}>
+              {statusLabels[latest.status]}
+            </Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Enviada el {format(new Date(latest.createdAt!), "dd/MM/yyyy", { locale: es })}.
+            {latest.status === "pending" && " Te notificaremos cuando un administrador la revise."}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>¿Ofreces servicios? Conviértete en proveedor</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {latest?.status === "rejected" && (
+          <div className="p-3 rounded-lg bg-destructive/10 text-sm">
+            Tu solicitud anterior fue rechazada{latest.reviewNotes && `: ${latest.reviewNotes}`}. Puedes enviar una nueva.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2 md:col-span-3">
+            <Label htmlFor="legalName">Nombre completo o razón social</Label>
+            <Input id="legalName" value={legalName} onChange={(e) => setLegalName(e.target.value)} maxLength={120} />
+          </div>
+          <div className="space-y-2">
+            <Label>Tipo de documento</Label>
+            <Select value={documentType} onValueChange={(value) => setDocumentType(value as "cedula" | "nit")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="cedula">Cédula</SelectItem>
+                <SelectItem value="nit">NIT</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="documentNumber">Número</Label>
+            <Input
+              id="documentNumber"
+              placeholder={documentType === "nit" ? "900123456-7" : "1090123456"}
+              value={documentNumber}
+              onChange={(e) => setDocumentNumber(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="tradeDescription">¿Qué oficio o servicios ofreces?</Label>
+          <Textarea
+            id="tradeDescription"
+            value={tradeDescription}
+            onChange={(e) => setTradeDescription(e.target.value)}
+            maxLength={1000}
+          />
+        </div>
+
+        <div className="space-y-3">
+          {(Object.keys(kindLabels) as ProviderDocumentKind[]).map((kind) => (
+            <div key={kind} className="p-3 border border-border rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">
+                  {kindLabels[kind]}
+                  {kind !== "certificate" && <span className="text-destructive"> *</span>}
+                </span>
+                <Button variant="outline" size="sm" asChild>
+                  <label className="cursor-pointer">
+                    <Upload className="w-4 h-4 mr-1" />
+                    Adjuntar
+                    <input
+                      type="file"
+                      className="hidden"
+                      accept={ACCEPTED_TYPES}
+                      multiple={kind === "certificate"}
+                      onChange={(e) => {
+                        addFiles(kind, e.target.files);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </Button>
+              </div>
+              {documents.map((doc, index) => doc.kind === kind && (
+                <div key={index} className="flex items-center justify-between text-sm text-muted-foreground">
+                  <span className="flex items-center">
+                    <FileText className="w-4 h-4 mr-1" />
+                    {doc.fileName}
+                  </span>
+                  <button
+                    type="button"
+                    className="hover:text-destructive"
+                    onClick={() => setDocuments(documents.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">PDF, JPG o PNG de máximo 5 MB cada uno y 6 MB entre todos.</p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            className="btn-primary"
+            disabled={!canSubmit || submitMutation.isPending}
+            onClick={() => submitMutation.mutate()}
+          >
+            {submitMutation.isPending ? <div className="loading-spinner mr-2" /> : null}
+            Enviar solicitud
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
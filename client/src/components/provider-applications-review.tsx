@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { CheckCircle, XCircle, FileText } from "lucide-react";
+import type { ProviderApplicationStatus, ProviderApplicationWithUser, ProviderDocumentKind } from "@shared/schema";
+
+const statusLabels: Record<ProviderApplicationStatus, string> = {
+  pending: "Pendientes",
+  approved: "Aprobadas",
+  rejected: "Rechazadas",
+};
+
+const kindLabels: Record<ProviderDocumentKind, string> = {
+  identity: "Identidad",
+  certificate: "Certificado",
+  selfie: "Selfie",
+};
+
+export default function ProviderApplicationsReview() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ProviderApplicationStatus>("pending");
+  const [rejecting, setRejecting] = useState<ProviderApplicationWithUser | null>(null);
+  const [notes, setNotes] = useState("");
+
+  const { data: applications, isLoading } = useQuery<ProviderApplicationWithUser[]>({
+    queryKey: [`/api/admin/provider-applications?status=${status}`],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, action, notes }: { id: number; action: "approve" | "reject"; notes?: string }) => {
+      return apiRequest("POST", `/api/admin/provider-applications/${id}/${action}`, { notes });
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/provider-applications"),
+      });
+      setRejecting(null);
+      setNotes("");
+      toast({
+        title: action === "approve" ? "Proveedor aprobado" : "Solicitud rechazada",
+        description: action === "approve"
+          ? "El usuario ahora es proveedor verificado."
+          : "Se notificó al solicitante.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo revisar la solicitud",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <CardTitle>Solicitudes de Proveedores</CardTitle>
+          <Select value={status} onValueChange={(value) => setStatus(value as ProviderApplicationStatus)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(statusLabels) as ProviderApplicationStatus[]).map((key) => (
+                <SelectItem key={key} value={key}>{statusLabels[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3 animate-pulse">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-12 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : applications && applications.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Solicitante</TableHead>
+                <TableHead>Documento</TableHead>
+                <TableHead>Oficio</TableHead>
+                <TableHead>Archivos</TableHead>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {applications.map((application) => (
+                <TableRow key={application.id}>
+                  <TableCell>
+                    <div className="font-medium">{application.legalName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {application.applicantName} · {application.applicantEmail}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <span className="uppercase text-xs text-muted-foreground mr-1">{application.documentType}</span>
+                    {application.documentNumber}
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <p className="text-sm line-clamp-3">{application.tradeDescription || "—"}</p>
+                    {application.reviewNotes && (
+                      <p className="text-xs text-muted-foreground mt-1">Notas: {application.reviewNotes}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      {application.documents.map((document, index) => (
+                        <a
+                          key={index}
+                          href={`/api/admin/provider-applications/${application.id}/documents/${index}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center text-sm text-primary hover:underline"
+                        >
+                          <FileText className="w-3 h-3 mr-1" />
+                          {kindLabels[document.kind]}
+                        </a>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {format(new Date(application.createdAt!), "dd/MM/yyyy", { locale: es })}
+                  </TableCell>
+                  <TableCell>
+                    {application.status === "pending" ? (
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          className="btn-secondary"
+                          disabled={reviewMutation.isPending}
+                          onClick={() => reviewMutation.mutate({ id: application.id, action: "approve" })}
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setRejecting(application)}>
+                          <XCircle className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant={application.status === "approved" ? "default" : "destructive"}>
+                        {application.status === "approved" ? "Aprobada" : "Rechazada"}
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">
+            No hay solicitudes en esta lista.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rechazar solicitud de {rejecting?.legalName}</DialogTitle>
+          </DialogHeader>
+          <Textarea
+            placeholder="Motivo del rechazo (se enviará al solicitante)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            maxLength={1000}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!notes.trim() || reviewMutation.isPending}
+              onClick={() => rejecting && reviewMutation.mutate({ id: rejecting.id, action: "reject", notes })}
+            >
+              Rechazar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
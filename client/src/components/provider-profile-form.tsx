@@ -0,0 +1,282 @@
+import { useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { IMAGE_UPLOAD_TYPES, MAX_UPLOAD_BYTES, readAsDataUrl } from "@/lib/uploads";
+import { Link } from "wouter";
+import { ExternalLink, Trash2, Upload } from "lucide-react";
+import type { InsertProviderProfile, ProviderProfile } from "@shared/schema";
+
+const optionalUrl = z.string().url("URL inválida").or(z.literal(""));
+
+const profileSchema = z.object({
+  displayName: z.string().max(80, "Máximo 80 caracteres"),
+  bio: z.string().max(2000, "Máximo 2000 caracteres"),
+  yearsOfExperience: z.string().regex(/^\d{0,2}$/, "Ingresa un número de años"),
+  serviceAreas: z.string(), // comma separated
+  website: optionalUrl,
+  facebook: optionalUrl,
+  instagram: optionalUrl,
+  whatsapp: z.string().regex(/^(\+?\d{7,15})?$/, "Número inválido"),
+  showEmail: z.boolean(),
+  showPhone: z.boolean(),
+});
+
+type ProfileFormData = z.infer<typeof profileSchema>;
+
+const toFormData = (profile?: ProviderProfile | null): ProfileFormData => ({
+  displayName: profile?.displayName || "",
+  bio: profile?.bio || "",
+  yearsOfExperience: profile?.yearsOfExperience?.toString() || "",
+  serviceAreas: profile?.serviceAreas.join(", ") || "",
+  website: profile?.socialLinks.website || "",
+  facebook: profile?.socialLinks.facebook || "",
+  instagram: profile?.socialLinks.instagram || "",
+  whatsapp: profile?.socialLinks.whatsapp || "",
+  showEmail: profile?.showEmail ?? false,
+  showPhone: profile?.showPhone ?? false,
+});
+
+export default function ProviderProfileForm({ userId }: { userId: string }) {
+  const { toast } = useToast();
+
+  const { data: profile } = useQuery<ProviderProfile | null>({
+    queryKey: ["/api/user/provider-profile"],
+  });
+
+  const form = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: toFormData(),
+  });
+
+  useEffect(() => {
+    if (profile !== undefined) form.reset(toFormData(profile));
+  }, [profile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ProfileFormData) => {
+      const payload: InsertProviderProfile = {
+        displayName: data.displayName.trim() || null,
+        bio: data.bio.trim() || null,
+        yearsOfExperience: data.yearsOfExperience ? parseInt(data.yearsOfExperience) : null,
+        serviceAreas: data.serviceAreas.split(",").map(area => area.trim()).filter(Boolean),
+        socialLinks: {
+          website: data.website || undefined,
+          facebook: data.facebook || undefined,
+          instagram: data.instagram || undefined,
+          whatsapp: data.whatsapp || undefined,
+        },
+        showEmail: data.showEmail,
+        showPhone: data.showPhone,
+      };
+      return apiRequest("PUT", "/api/user/provider-profile", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/provider-profile"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/providers/${userId}`] });
+      toast({
+        title: "Perfil actualizado",
+        description: "Los cambios ya se ven en tu perfil público.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo guardar el perfil",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onPhotoSaved = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user/provider-profile"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/providers/${userId}`] });
+  };
+
+  const uploadPhotoMutation = useMutation({
+    mutationFn: async (file: File) => {
+      return apiRequest("PUT", "/api/user/avatar", { fileName: file.name, dataUrl: await readAsDataUrl(file) });
+    },
+    onSuccess: onPhotoSaved,
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo subir la foto",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removePhotoMutation = useMutation({
+    mutationFn: async () => apiRequest("DELETE", "/api/user/avatar"),
+    onSuccess: onPhotoSaved,
+  });
+
+  const handlePhotoSelected = (file?: File) => {
+    if (!file) return;
+    if (file.size > MAX_UPLOAD_BYTES) {
+      toast({
+        title: "Archivo muy grande",
+        description: "La foto no puede superar los 5 MB.",
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadPhotoMutation.mutate(file);
+  };
+
+  const textField = (name: keyof ProfileFormData, label: string, placeholder?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input placeholder={placeholder} {...field} value={field.value as string} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const switchField = (name: "showEmail" | "showPhone", label: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex items-center justify-between gap-4">
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Switch checked={field.value} onCheckedChange={field.onChange} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Perfil público</CardTitle>
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/providers/${userId}`}>
+              <ExternalLink className="w-4 h-4 mr-1" />
+              Ver perfil
+            </Link>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center gap-4 mb-6">
+          <Avatar className="h-20 w-20">
+            {profile?.photoUrl && <AvatarImage src={profile.photoUrl} alt="Foto de perfil" />}
+            <AvatarFallback className="bg-primary/10 text-primary">
+              {(profile?.displayName || "?").substring(0, 2).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" asChild disabled={uploadPhotoMutation.isPending}>
+              <label className="cursor-pointer">
+                {uploadPhotoMutation.isPending ? <div className="loading-spinner mr-2" /> : <Upload className="w-4 h-4 mr-1" />}
+                {profile?.photoUrl ? "Cambiar foto" : "Subir foto"}
+                <input
+                  type="file"
+                  className="hidden"
+                  accept={IMAGE_UPLOAD_TYPES}
+                  onChange={(e) => {
+                    handlePhotoSelected(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </Button>
+            {profile?.photoUrl && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={removePhotoMutation.isPending}
+                onClick={() => removePhotoMutation.mutate()}
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Quitar
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            {textField("displayName", "Nombre público", "Ej: Plomería Rodríguez")}
+
+            <FormField
+              control={form.control}
+              name="bio"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sobre ti</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Cuéntale a tus clientes sobre tu experiencia" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {textField("yearsOfExperience", "Años de experiencia", "Ej: 5")}
+              <FormField
+                control={form.control}
+                name="serviceAreas"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Zonas de servicio</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Centro, La Riviera, Los Patios" {...field} />
+                    </FormControl>
+                    <FormDescription>Sepáralas con comas</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {textField("website", "Sitio web", "https://...")}
+              {textField("facebook", "Facebook", "https://facebook.com/...")}
+              {textField("instagram", "Instagram", "https://instagram.com/...")}
+              {textField("whatsapp", "WhatsApp", "+573001234567")}
+            </div>
+
+            <div className="space-y-3 p-4 border border-border rounded-lg">
+              <p className="text-sm text-muted-foreground">
+                Tu correo y teléfono solo se muestran si lo autorizas.
+              </p>
+              {switchField("showEmail", "Mostrar mi correo en el perfil")}
+              {switchField("showPhone", "Mostrar mi teléfono en el perfil")}
+            </div>
+
+            <div className="flex justify-end">
+              <Button type="submit" className="btn-primary" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? <div className="loading-spinner mr-2" /> : null}
+                Guardar perfil
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
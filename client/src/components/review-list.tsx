@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Star, Flag, ThumbsUp, Reply, BadgeCheck } from "lucide-react";
+import type { PublicReview, ReviewErrorCode, ReviewSort } from "@shared/schema";
+
+interface ReviewListProps {
+  serviceId: number;
+  providerId: string;
+}
+
+const reviewErrorMessages: Record<ReviewErrorCode, string> = {
+  INVALID_REVIEW: "Revisa la calificación y el comentario.",
+  SERVICE_NOT_FOUND: "Este servicio ya no está disponible.",
+  SELF_REVIEW: "No puedes calificar tu propio servicio.",
+  ALREADY_REVIEWED: "Ya calificaste este servicio.",
+};
+
+// apiRequest errors look like "409: {json body}"; the body carries the server's error code
+const getReviewErrorMessage = (error: Error): string | undefined => {
+  const body = error.message.slice(error.message.indexOf(":") + 1);
+  try {
+    return reviewErrorMessages[JSON.parse(body).code as ReviewErrorCode];
+  } catch {
+    return undefined;
+  }
+};
+
+export function StarRating({ rating, className = "w-4 h-4" }: { rating: number; className?: string }) {
+  return (
+    <div className="flex items-center">
+      {Array.from({ length: 5 }).map((_, i) => (
+        <Star
+          key={i}
+          className={`${className} ${i < Math.round(rating) ? 'text-yellow-400 fill-current' : 'text-muted-foreground'}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function ReviewList({ serviceId, providerId }: ReviewListProps) {
+  const { toast } = useToast();
+  const { user, isAuthenticated } = useAuth();
+  const userId = user?.id.toString();
+  const [sort, setSort] = useState<ReviewSort>("recent");
+  // Reviews this session marked as helpful, so the button can toggle
+  const [votedIds, setVotedIds] = useState<number[]>([]);
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [newRating, setNewRating] = useState(0);
+  const [newComment, setNewComment] = useState("");
+
+  const { data: reviews } = useQuery<PublicReview[]>({
+    queryKey: [`/api/services/${serviceId}/reviews?sort=${sort}`],
+  });
+
+  const invalidateReviews = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(`/api/services/${serviceId}/reviews`),
+    });
+  };
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const voteMutation = useMutation({
+    mutationFn: async ({ reviewId, helpful }: { reviewId: number; helpful: boolean }) => {
+      return apiRequest(helpful ? "POST" : "DELETE", `/api/reviews/${reviewId}/helpful`);
+    },
+    onSuccess: (_, { reviewId, helpful }) => {
+      setVotedIds(helpful ? [...votedIds, reviewId] : votedIds.filter(id => id !== reviewId));
+      invalidateReviews();
+    },
+    onError: showError("No se pudo registrar tu voto"),
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ reviewId, body }: { reviewId: number; body: string }) => {
+      return apiRequest("POST", `/api/reviews/${reviewId}/replies`, { body });
+    },
+    onSuccess: () => {
+      setReplyingTo(null);
+      setReplyText("");
+      invalidateReviews();
+    },
+    onError: showError("No se pudo publicar la respuesta"),
+  });
+
+  const reportMutation = useMutation({
+    mutationFn: async ({ reviewId, reason }: { reviewId: number; reason: string }) => {
+      return apiRequest("POST", `/api/reviews/${reviewId}/report`, { reason });
+    },
+    onSuccess: () => {
+      invalidateReviews();
+      toast({
+        title: "Reseña reportada",
+        description: "Gracias, un administrador la revisará.",
+      });
+    },
+    onError: showError("No se pudo reportar la reseña"),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/reviews", { serviceId, rating: newRating, comment: newComment.trim() || null });
+    },
+    onSuccess: () => {
+      setNewRating(0);
+      setNewComment("");
+      toast({
+        title: "¡Gracias por tu reseña!",
+        description: "Se publicará cuando un administrador la apruebe.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo enviar la reseña",
+        description: getReviewErrorMessage(error) || error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleReport = (reviewId: number) => {
+    const reason = prompt("¿Por qué quieres reportar esta reseña?");
+    if (reason && reason.trim().length >= 3) {
+      reportMutation.mutate({ reviewId, reason: reason.trim() });
+    }
+  };
+
+  const canWrite = isAuthenticated && userId !== providerId;
+
+  return (
+    <div className="space-y-4">
+      {canWrite && (
+        <div className="p-4 border border-border rounded-lg space-y-3">
+          <div className="flex items-center gap-3">
+            <span className="text-sm font-medium">Tu calificación</span>
+            <div className="flex items-center">
+              {[1, 2, 3, 4, 5].map((stars) => (
+                <button key={stars} type="button" onClick={() => setNewRating(stars)} aria-label={`${stars} estrellas`}>
+                  <Star className={`w-5 h-5 ${stars <= newRating ? 'text-yellow-400 fill-current' : 'text-muted-foreground'}`} />
+                </button>
+              ))}
+            </div>
+          </div>
+          <Textarea
+            placeholder="Cuéntanos cómo te fue con este servicio (opcional)"
+            value={newComment}
+            onChange={(e) => setNewComment(e.target.value)}
+            maxLength={2000}
+          />
+          <Button
+            size="sm"
+            className="btn-primary"
+            disabled={newRating === 0 || createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+          >
+            Publicar reseña
+          </Button>
+        </div>
+      )}
+
+      {!reviews || reviews.length === 0 ? (
+        <p className="text-muted-foreground text-center py-8">
+          Este servicio aún no tiene reseñas.
+        </p>
+      ) : (
+        <div className="flex justify-end">
+          <Select value={sort} onValueChange={(value) => setSort(value as ReviewSort)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="recent">Más recientes</SelectItem>
+              <SelectItem value="helpful">Más útiles</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {reviews?.map((review, index) => {
+        const hasVoted = votedIds.includes(review.id);
+        const canReply = !!userId && (userId === providerId || userId === review.userId);
+        return (
+          <div key={review.id}>
+            {index > 0 && <Separator className="mb-4" />}
+            <div className="flex items-center justify-between mb-2">
+              <div className="flex items-center gap-2">
+                <StarRating rating={review.rating} />
+                {review.verifiedVia && (
+                  <Badge variant="secondary" className="flex items-center gap-1">
+                    <BadgeCheck className="w-3 h-3" />
+                    Cliente verificado
+                  </Badge>
+                )}
+              </div>
+              <span className="text-sm text-muted-foreground">
+                {format(new Date(review.createdAt!), "dd/MM/yyyy", { locale: es })}
+              </span>
+            </div>
+            {review.comment && (
+              <p className="text-foreground">{review.comment}</p>
+            )}
+            {review.adminResponse && (
+              <p className="text-sm text-muted-foreground mt-2 pl-4 border-l-2 border-border">
+                {review.adminResponse}
+              </p>
+            )}
+
+            {review.replies.length > 0 && (
+              <div className="mt-3 space-y-2">
+                {review.replies.map((reply) => (
+                  <div key={reply.id} className="text-sm pl-4 border-l-2 border-primary/40">
+                    <div className="text-xs text-muted-foreground mb-1 flex items-center gap-2">
+                      <span className="font-medium text-foreground">{reply.authorName}</span>
+                      {reply.isProvider && <Badge variant="secondary">Proveedor</Badge>}
+                      <span>{format(new Date(reply.createdAt), "dd/MM/yyyy", { locale: es })}</span>
+                    </div>
+                    <p className="whitespace-pre-line">{reply.body}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center gap-4 mt-2 text-xs text-muted-foreground">
+              <button
+                type="button"
+                className={`flex items-center gap-1 ${hasVoted ? 'text-primary' : 'hover:text-foreground'}`}
+                disabled={!isAuthenticated || review.userId === userId || voteMutation.isPending}
+                onClick={() => voteMutation.mutate({ reviewId: review.id, helpful: !hasVoted })}
+              >
+                <ThumbsUp className="w-3 h-3" />
+                Útil ({review.helpfulCount})
+              </button>
+              {canReply && (
+                <button
+                  type="button"
+                  className="flex items-center gap-1 hover:text-foreground"
+                  onClick={() => {
+                    setReplyingTo(replyingTo === review.id ? null : review.id);
+                    setReplyText("");
+                  }}
+                >
+                  <Reply className="w-3 h-3" />
+                  Responder
+                </button>
+              )}
+              {isAuthenticated && (
+                <button
+                  type="button"
+                  className="flex items-center gap-1 hover:text-destructive"
+                  onClick={() => handleReport(review.id)}
+                >
+                  <Flag className="w-3 h-3" />
+                  Reportar
+                </button>
+              )}
+            </div>
+
+            {replyingTo === review.id && (
+              <div className="mt-3 space-y-2">
+                <Textarea
+                  placeholder="Escribe una respuesta pública..."
+                  value={replyText}
+                  onChange={(e) => setReplyText(e.target.value)}
+                  maxLength={2000}
+                />
+                <Button
+                  size="sm"
+                  className="btn-primary"
+                  disabled={!replyText.trim() || replyMutation.isPending}
+                  onClick={() => replyMutation.mutate({ reviewId: review.id, body: replyText })}
+                >
+                  Publicar respuesta
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { CheckCircle, XCircle, MessageCircle, Flag, Star } from "lucide-react";
+import type { ReviewQueueFilter, ReviewQueueItem } from "@shared/schema";
+
+const filterLabels: Record<ReviewQueueFilter, string> = {
+  pending: "Pendientes",
+  reported: "Reportadas",
+  low_rating: "Calificación baja",
+};
+
+const invalidateQueue = () => {
+  queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/reviews") });
+};
+
+function ReviewStatus({ review }: { review: ReviewQueueItem }) {
+  if (review.isApproved) return <Badge>Aprobada</Badge>;
+  if (review.moderatedAt) return <Badge variant="destructive">Rechazada</Badge>;
+  return <Badge variant="outline">Pendiente</Badge>;
+}
+
+export default function ReviewModeration() {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<ReviewQueueFilter>("pending");
+  const [selected, setSelected] = useState<number[]>([]);
+  // Ids waiting for a rejection reason
+  const [rejecting, setRejecting] = useState<number[] | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [responding, setResponding] = useState<ReviewQueueItem | null>(null);
+  const [responseText, setResponseText] = useState("");
+
+  const { data: queue, isLoading } = useQuery<ReviewQueueItem[]>({
+    queryKey: [`/api/admin/reviews?filter=${filter}`],
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async (data: { ids: number[]; action: "approve" | "reject"; reason?: string }) => {
+      return apiRequest("POST", "/api/admin/reviews/moderate", data);
+    },
+    onSuccess: (_, { ids, action }) => {
+      invalidateQueue();
+      setSelected([]);
+      setRejecting(null);
+      setRejectReason("");
+      toast({
+        title: action === "approve" ? "Reseñas aprobadas" : "Reseñas rechazadas",
+        description: `${ids.length} reseña(s) actualizada(s). Se notificó a sus autores.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudieron moderar las reseñas",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const responseMutation = useMutation({
+    mutationFn: async ({ id, adminResponse }: { id: number; adminResponse: string | null }) => {
+      return apiRequest("PATCH", `/api/admin/reviews/${id}/response`, { adminResponse });
+    },
+    onSuccess: () => {
+      invalidateQueue();
+      setResponding(null);
+      toast({
+        title: "Respuesta guardada",
+        description: "La respuesta se mostrará junto a la reseña.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo guardar la respuesta",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelected(checked ? [...selected, id] : selected.filter(selectedId => selectedId !== id));
+  };
+
+  const allSelected = !!queue && queue.length > 0 && selected.length === queue.length;
+
+  const openResponse = (review: ReviewQueueItem) => {
+    setResponding(review);
+    setResponseText(review.adminResponse || "");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <CardTitle>Moderación de Reseñas</CardTitle>
+          <div className="flex items-center gap-2">
+            {selected.length > 0 && (
+              <>
+                <Button
+                  size="sm"
+                  className="btn-secondary"
+                  disabled={moderateMutation.isPending}
+                  onClick={() => moderateMutation.mutate({ ids: selected, action: "approve" })}
+                >
+                  <CheckCircle className="w-4 h-4 mr-1" />
+                  Aprobar ({selected.length})
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => setRejecting(selected)}>
+                  <XCircle className="w-4 h-4 mr-1" />
+                  Rechazar ({selected.length})
+                </Button>
+              </>
+            )}
+            <Select
+              value={filter}
+              onValueChange={(value) => {
+                setFilter(value as ReviewQueueFilter);
+                setSelected([]);
+              }}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(filterLabels) as ReviewQueueFilter[]).map((key) => (
+                  <SelectItem key={key} value={key}>{filterLabels[key]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3 animate-pulse">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="h-12 bg-muted rounded"></div>
+            ))}
+          </div>
+        ) : queue && queue.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => setSelected(checked ? queue.map(review => review.id) : [])}
+                  />
+                </TableHead>
+                <TableHead>Servicio</TableHead>
+                <TableHead>Autor</TableHead>
+                <TableHead>Calificación</TableHead>
+                <TableHead>Comentario</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Fecha</TableHead>
+                <TableHead>Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {queue.map((review) => (
+                <TableRow key={review.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.includes(review.id)}
+                      onCheckedChange={(checked) => toggleSelected(review.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">{review.serviceTitle}</TableCell>
+                  <TableCell>
+                    {review.reviewerName}
+                    {review.verifiedVia && (
+                      <Badge variant="secondary" className="ml-2">Verificado</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <span className="flex items-center gap-1">
+                      {review.rating}
+                      <Star className="w-4 h-4 text-yellow-400 fill-current" />
+                    </span>
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <p className="text-sm line-clamp-3">{review.comment || "—"}</p>
+                    {review.reportCount > 0 && (
+                      <p className="text-xs text-destructive mt-1 flex items-center gap-1">
+                        <Flag className="w-3 h-3" />
+                        {review.reportCount} reporte(s){review.lastReportReason && `: ${review.lastReportReason}`}
+                      </p>
+                    )}
+                    {review.rejectionReason && !review.isApproved && (
+                      <p className="text-xs text-muted-foreground mt-1">Motivo: {review.rejectionReason}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <ReviewStatus review={review} />
+                  </TableCell>
+                  <TableCell>
+                    {format(new Date(review.createdAt!), "dd/MM/yyyy", { locale: es })}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      <Button
+                        size="sm"
+                        className="btn-secondary"
+                        disabled={moderateMutation.isPending}
+                        onClick={() => moderateMutation.mutate({ ids: [review.id], action: "approve" })}
+                      >
+                        <CheckCircle className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setRejecting([review.id])}>
+                        <XCircle className="w-4 h-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => openResponse(review)}>
+                        <MessageCircle className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">
+            No hay reseñas en esta cola.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rechazar {rejecting?.length === 1 ? "reseña" : `${rejecting?.length} reseñas`}</DialogTitle>
+          </DialogHeader>
+          <Textarea
+            placeholder="Motivo del rechazo (se enviará al autor)"
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            maxLength={500}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejecting(null)}>
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectReason.trim() || moderateMutation.isPending}
+              onClick={() => rejecting && moderateMutation.mutate({ ids: rejecting, action: "reject", reason: rejectReason })}
+            >
+              Rechazar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={responding !== null} onOpenChange={(open) => !open && setResponding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Respuesta de la administración</DialogTitle>
+          </DialogHeader>
+          {responding?.comment && (
+            <p className="text-sm text-muted-foreground pl-4 border-l-2 border-border">{responding.comment}</p>
+          )}
+          <Textarea
+            placeholder="Escribe una respuesta pública..."
+            value={responseText}
+            onChange={(e) => setResponseText(e.target.value)}
+            maxLength={1000}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResponding(null)}>
+              Cancelar
+            </Button>
+            <Button
+              className="btn-primary"
+              disabled={responseMutation.isPending}
+              onClick={() => responding && responseMutation.mutate({ id: responding.id, adminResponse: responseText.trim() || null })}
+            >
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
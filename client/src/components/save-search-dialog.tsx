@@ -0,0 +1,117 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
+import { describeSavedSearch, savedSearchFrequencyLabels } from "@/lib/saved-searches";
+import { BellPlus } from "lucide-react";
+import { savedSearchFrequencies, type Category, type SavedSearchFilters, type SavedSearchFrequency } from "@shared/schema";
+
+interface SaveSearchDialogProps {
+  filters: SavedSearchFilters;
+  defaultName: string;
+}
+
+// Saves the listing's current filters and asks how often to be emailed about new matches
+export default function SaveSearchDialog({ filters, defaultName }: SaveSearchDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [frequency, setFrequency] = useState<SavedSearchFrequency>("instant");
+  const { options: locationOptions } = useLocations();
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/saved-searches", { name: name.trim(), filters, frequency }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({
+        title: "Búsqueda guardada",
+        description: "Te avisaremos cuando se publique un servicio que coincida.",
+      });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo guardar la búsqueda",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasFilters = Object.keys(filters).length > 0;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!hasFilters}
+        title={hasFilters ? undefined : "Elige al menos un filtro para guardar la búsqueda"}
+        onClick={() => {
+          setName(defaultName);
+          setOpen(true);
+        }}
+      >
+        <BellPlus className="w-4 h-4 mr-2" />
+        Guardar búsqueda
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Guardar búsqueda</DialogTitle>
+            <DialogDescription>
+              Te avisaremos cuando se publique un servicio nuevo con estos filtros.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {describeSavedSearch(filters, categories ?? [], locationOptions).map((label) => (
+                <Badge key={label} variant="secondary">{label}</Badge>
+              ))}
+            </div>
+            <div>
+              <Label className="mb-2 block">Nombre</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={80} />
+            </div>
+            <div>
+              <Label className="mb-2 block">Avisos por correo</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as SavedSearchFrequency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {savedSearchFrequencies.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {savedSearchFrequencyLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancelar
+            </Button>
+            <Button disabled={!name.trim() || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
+import { describeSavedSearch, savedSearchFrequencyLabels, savedSearchHref } from "@/lib/saved-searches";
+import { Link } from "wouter";
+import { Search, Trash2 } from "lucide-react";
+import { savedSearchFrequencies, type Category, type SavedSearch, type SavedSearchFrequency } from "@shared/schema";
+
+// The user's saved searches, with their email frequency
+export default function SavedSearchesPanel() {
+  const { toast } = useToast();
+  const { options: locationOptions } = useLocations();
+
+  const { data: searches, isLoading } = useQuery<SavedSearch[]>({
+    queryKey: ["/api/saved-searches"],
+  });
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({ title: "Error", description: error.message || fallback, variant: "destructive" });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, frequency }: { id: number; frequency: SavedSearchFrequency }) =>
+      apiRequest("PATCH", `/api/saved-searches/${id}`, { frequency }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] }),
+    onError: onError("No se pudo actualizar la búsqueda"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/saved-searches/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      toast({ title: "Búsqueda eliminada", description: "Ya no recibirás avisos de esta búsqueda." });
+    },
+    onError: onError("No se pudo eliminar la búsqueda"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Búsquedas guardadas</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3 animate-pulse">
+            <div className="h-4 bg-muted rounded w-2/3"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+          </div>
+        ) : !searches || searches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Guarda una búsqueda desde la página de servicios para enterarte cuando se publique algo que coincida.
+          </p>
+        ) : (
+          <div className="divide-y divide-border">
+            {searches.map((search) => (
+              <div key={search.id} className="flex flex-col md:flex-row md:items-center gap-3 py-4">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground">{search.name}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {describeSavedSearch(search.filters, categories ?? [], locationOptions).map((label) => (
+                      <Badge key={label} variant="outline" className="text-xs">{label}</Badge>
+                    ))}
+                  </div>
+                </div>
+                <Select
+                  value={search.frequency}
+                  onValueChange={(value) => updateMutation.mutate({ id: search.id, frequency: value as SavedSearchFrequency })}
+                >
+                  <SelectTrigger className="md:w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {savedSearchFrequencies.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {savedSearchFrequencyLabels[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <div className="flex gap-2">
+                  <Button asChild variant="outline" size="sm">
+                    <Link href={savedSearchHref(search.filters)}>
+                      <Search className="w-4 h-4 mr-1" />
+                      Buscar
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    aria-label="Eliminar búsqueda"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => deleteMutation.mutate(search.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,79 +1,190 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, MapPin } from "lucide-react";
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { useQuery } from "@tanstack/react-query";
+import { Search, MapPin, TrendingUp, Tag, Briefcase } from "lucide-react";
 import { useLocation } from "wouter";
+import { useLocations } from "@/hooks/use-locations";
+import type { SearchSuggestion, SearchSuggestionType } from "@shared/schema";
 
 interface SearchBarProps {
-  onSearch?: (query: string, location: string) => void;
+  onSearch?: (query: string, locationId: string) => void; // "" for the whole area
+  onCategorySelect?: (categoryId: number) => void;
   className?: string;
 }
 
-export default function SearchBar({ onSearch, className = "" }: SearchBarProps) {
+const SUGGEST_MIN_LENGTH = 2;
+const SUGGEST_DEBOUNCE_MS = 200;
+
+const suggestionGroups: { type: SearchSuggestionType; heading: string; icon: typeof Search }[] = [
+  { type: "query", heading: "Búsquedas populares", icon: TrendingUp },
+  { type: "category", heading: "Categorías", icon: Tag },
+  { type: "service", heading: "Servicios", icon: Briefcase },
+  { type: "location", heading: "Ubicaciones", icon: MapPin },
+];
+
+export default function SearchBar({ onSearch, onCategorySelect, className = "" }: SearchBarProps) {
   const [, setLocation] = useLocation();
   const [query, setQuery] = useState("");
-  const [selectedLocation, setSelectedLocation] = useState("cucuta");
+  const [selectedLocation, setSelectedLocation] = useState("");
+  const { options: locationOptions } = useLocations();
+  const municipalities = locationOptions.filter(location => location.level === "municipality");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), SUGGEST_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: suggestions = [] } = useQuery<SearchSuggestion[]>({
+    queryKey: [`/api/search/suggest?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: debouncedQuery.length >= SUGGEST_MIN_LENGTH,
+    staleTime: 60 * 1000,
+  });
 
-  const handleSearch = () => {
+  const isOpen = isFocused && query.trim().length >= SUGGEST_MIN_LENGTH;
+
+  const runSearch = (searchQuery: string, searchLocation: string) => {
+    setIsFocused(false);
     if (onSearch) {
-      onSearch(query, selectedLocation);
+      onSearch(searchQuery, searchLocation);
     } else {
       // Navigate to services page with search params
       const params = new URLSearchParams();
-      if (query.trim()) params.set('search', query.trim());
-      if (selectedLocation !== 'cucuta') params.set('location', selectedLocation);
-      
+      if (searchQuery.trim()) params.set('search', searchQuery.trim());
+      if (searchLocation) params.set('location', searchLocation);
+
       const searchString = params.toString();
       setLocation(`/services${searchString ? `?${searchString}` : ''}`);
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
+  const handleSearch = () => runSearch(query, selectedLocation);
+
+  const handleSuggestion = (suggestion: SearchSuggestion) => {
+    setIsFocused(false);
+    switch (suggestion.type) {
+      case "service":
+        setLocation(`/services/${suggestion.id}`);
+        break;
+      case "category":
+        setQuery("");
+        if (onCategorySelect) {
+          onCategorySelect(suggestion.id!);
+        } else {
+          setLocation(`/services?category=${suggestion.id}`);
+        }
+        break;
+      case "location":
+        setQuery("");
+        runSearch("", suggestion.id!.toString());
+        break;
+      default:
+        setQuery(suggestion.label);
+        runSearch(suggestion.label, selectedLocation);
+    }
+  };
+
+  // While the dropdown is open, Enter belongs to the highlighted suggestion
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !isOpen) {
       handleSearch();
+    } else if (e.key === 'Escape') {
+      setIsFocused(false);
     }
   };
 
   return (
     <div className={`max-w-4xl mx-auto ${className}`}>
-      <div className="relative">
+      <Command shouldFilter={false} loop className="relative overflow-visible bg-transparent">
         <div className="flex bg-card border border-border rounded-2xl shadow-lg overflow-hidden trust-shadow">
           <div className="flex-1 flex items-center px-6">
             <Search className="w-5 h-5 text-muted-foreground mr-3" />
-            <Input 
-              type="text" 
-              placeholder="Buscar servicios..." 
+            <Input
+              type="text"
+              placeholder="Buscar servicios..."
               className="w-full py-4 text-lg border-none outline-none bg-transparent"
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
-              onKeyPress={handleKeyPress}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setIsFocused(true);
+              }}
+              onFocus={() => setIsFocused(true)}
+              onBlur={() => setIsFocused(false)}
+              onKeyDown={handleKeyDown}
+              role="combobox"
+              aria-expanded={isOpen}
+              aria-autocomplete="list"
             />
           </div>
-          
-          <div className="flex items-center px-6 border-l border-border">
+
+          {/* Keys pressed in the location picker must not move the suggestion highlight */}
+          <div className="flex items-center px-6 border-l border-border" onKeyDown={(e) => e.stopPropagation()}>
             <MapPin className="w-5 h-5 text-muted-foreground mr-3" />
             <Select value={selectedLocation} onValueChange={setSelectedLocation}>
               <SelectTrigger className="border-none bg-transparent text-lg">
-                <SelectValue />
+                <SelectValue placeholder="Toda el área" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="cucuta">Cúcuta</SelectItem>
-                <SelectItem value="los-patios">Los Patios</SelectItem>
-                <SelectItem value="villa-del-rosario">Villa del Rosario</SelectItem>
-                <SelectItem value="otra">Otra ubicación</SelectItem>
+                <SelectItem value="">Toda el área</SelectItem>
+                {municipalities.map((municipality) => (
+                  <SelectItem key={municipality.id} value={municipality.id.toString()}>
+                    {municipality.name}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
-          
-          <Button 
+
+          <Button
             className="bg-primary hover:bg-primary/90 text-primary-foreground px-8 py-4 font-semibold transition-colors rounded-none"
             onClick={handleSearch}
           >
             Buscar
           </Button>
         </div>
-      </div>
+
+        {isOpen && (
+          // preventDefault keeps focus in the input, so the click isn't lost to onBlur
+          <div
+            className="absolute top-full left-0 right-0 mt-2 z-50 bg-popover text-popover-foreground border border-border rounded-xl shadow-lg"
+            onMouseDown={(e) => e.preventDefault()}
+          >
+            <CommandList>
+              <CommandGroup>
+                <CommandItem value={`search:${query}`} onSelect={handleSearch}>
+                  <Search />
+                  Buscar “{query.trim()}”
+                </CommandItem>
+              </CommandGroup>
+              {suggestionGroups.map(({ type, heading, icon: Icon }) => {
+                const items = suggestions.filter(suggestion => suggestion.type === type);
+                if (items.length === 0) return null;
+                return (
+                  <CommandGroup key={type} heading={heading}>
+                    {items.map((suggestion) => (
+                      <CommandItem
+                        key={`${type}:${suggestion.id ?? suggestion.label}`}
+                        value={`${type}:${suggestion.id ?? suggestion.label}`}
+                        onSelect={() => handleSuggestion(suggestion)}
+                      >
+                        <Icon className="text-muted-foreground" />
+                        {suggestion.label}
+                        {suggestion.detail && (
+                          <span className="text-xs text-muted-foreground">{suggestion.detail}</span>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </div>
+        )}
+      </Command>
     </div>
   );
 }
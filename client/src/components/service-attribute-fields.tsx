@@ -0,0 +1,105 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CategoryAttributeDefinition, ServiceAttributes, ServiceAttributeValue } from "@shared/schema";
+
+interface ServiceAttributeFieldsProps {
+  definitions: CategoryAttributeDefinition[];
+  value: ServiceAttributes;
+  onChange: (value: ServiceAttributes) => void;
+  errors?: Partial<Record<string, string>>;
+}
+
+// Number fields hold the text typed so far; this converts them before validating
+export const parseAttributeDraft = (definitions: CategoryAttributeDefinition[], draft: ServiceAttributes): Record<string, unknown> =>
+  Object.fromEntries(definitions.map(definition => {
+    const value = draft[definition.key];
+    if (definition.type === "number" && typeof value === "string") {
+      return [definition.key, value.trim() === "" ? undefined : Number(value)];
+    }
+    return [definition.key, value];
+  }));
+
+// The fields a service's category (and the categories above it) asks providers to fill in
+export default function ServiceAttributeFields({ definitions, value, onChange, errors }: ServiceAttributeFieldsProps) {
+  const set = (key: string, fieldValue: ServiceAttributeValue | undefined) => {
+    const { [key]: _, ...rest } = value;
+    onChange(fieldValue === undefined ? rest : { ...rest, [key]: fieldValue });
+  };
+
+  if (definitions.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {definitions.map((definition) => {
+        const current = value[definition.key];
+        const id = `attribute-${definition.key}`;
+        return (
+          <div key={definition.key} className="space-y-2">
+            <Label htmlFor={id}>
+              {definition.label}
+              {definition.required && <span className="text-destructive"> *</span>}
+            </Label>
+
+            {definition.type === "boolean" && (
+              <div className="flex items-center gap-2 h-10">
+                <Switch id={id} checked={current === true} onCheckedChange={(checked) => set(definition.key, checked)} />
+                <span className="text-sm text-muted-foreground">{current === true ? "Sí" : "No"}</span>
+              </div>
+            )}
+
+            {(definition.type === "text" || definition.type === "number") && (
+              <Input
+                id={id}
+                type={definition.type === "number" ? "number" : "text"}
+                maxLength={200}
+                value={current?.toString() ?? ""}
+                onChange={(e) => set(definition.key, e.target.value === "" ? undefined : e.target.value)}
+              />
+            )}
+
+            {definition.type === "select" && (
+              <Select value={typeof current === "string" ? current : ""} onValueChange={(option) => set(definition.key, option || undefined)}>
+                <SelectTrigger id={id}>
+                  <SelectValue placeholder="Selecciona" />
+                </SelectTrigger>
+                <SelectContent>
+                  {!definition.required && <SelectItem value="">Sin especificar</SelectItem>}
+                  {definition.options?.map((option) => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {definition.type === "multiselect" && (
+              <div className="flex flex-wrap gap-x-4 gap-y-2 pt-1">
+                {definition.options?.map((option) => {
+                  const selected = Array.isArray(current) ? current : [];
+                  return (
+                    <label key={option} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={selected.includes(option)}
+                        onCheckedChange={(checked) => {
+                          const next = checked ? [...selected, option] : selected.filter(item => item !== option);
+                          set(definition.key, next.length > 0 ? next : undefined);
+                        }}
+                      />
+                      {option}
+                    </label>
+                  );
+                })}
+              </div>
+            )}
+
+            {errors?.[definition.key] && (
+              <p className="text-sm font-medium text-destructive">{errors[definition.key]}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,17 +1,46 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Star, MapPin, Clock } from "lucide-react";
+import FavoriteButton from "@/components/favorite-button";
+import { Star, MapPin, Clock, BadgeCheck, Navigation } from "lucide-react";
 import { Link } from "wouter";
-import type { Service } from "@shared/schema";
+import { formatSchedule } from "@/lib/availability";
+import { distanceKm, formatDistance } from "@/lib/geo";
+import { useGeolocation } from "@/hooks/use-geolocation";
+import { servicePath, type PublicProvider, type Service, type ServiceListItem } from "@shared/schema";
 
 interface ServiceCardProps {
-  service: Service;
+  // Listings carry providerVerified and the cover photo; other callers pass a plain service
+  service: Service & Partial<Pick<ServiceListItem, 'providerVerified' | 'coverImage' | 'searchMatch' | 'distanceKm'>>;
   category?: { name: string };
-  provider?: { firstName?: string; lastName?: string; fullName?: string; profileImageUrl?: string };
+  provider?: Pick<PublicProvider, 'displayName' | 'fullName' | 'username' | 'photoUrl'>;
+}
+
+// Search matches come wrapped in <mark></mark>; split on the markers and let React
+// escape the rest instead of rendering the text as HTML
+function Highlighted({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(<mark>.*?<\/mark>)/g).map((part, i) =>
+        part.startsWith("<mark>") && part.endsWith("</mark>")
+          ? <mark key={i} className="bg-yellow-200 text-foreground rounded-sm">{part.slice(6, -7)}</mark>
+          : part
+      )}
+    </>
+  );
 }
 
 export default function ServiceCard({ service, category, provider }: ServiceCardProps) {
+  const { position } = useGeolocation();
+
+  // Listings near a point come with the distance; otherwise it's computed here once
+  // the browser has shared its location
+  const distance = service.distanceKm ?? (
+    position && service.latitude !== null && service.longitude !== null
+      ? distanceKm(position, { latitude: service.latitude, longitude: service.longitude })
+      : null
+  );
+
   const formatPrice = (price: number) => {
     return new Intl.NumberFormat('es-CO', {
       style: 'currency',
@@ -21,12 +50,7 @@ export default function ServiceCard({ service, category, provider }: ServiceCard
   };
 
   const getProviderName = () => {
-    if (provider?.fullName) return provider.fullName;
-    if (provider?.firstName && provider?.lastName) {
-      return `${provider.firstName} ${provider.lastName}`;
-    }
-    if (provider?.firstName) return provider.firstName;
-    return 'Proveedor';
+    return provider?.displayName || provider?.fullName || provider?.username || 'Proveedor';
   };
 
   const getProviderInitials = () => {
@@ -39,16 +63,29 @@ export default function ServiceCard({ service, category, provider }: ServiceCard
   };
 
   return (
-    <Link href={`/services/${service.id}`}>
+    <Link href={servicePath(service)}>
       <Card className="service-card group cursor-pointer border border-border overflow-hidden hover:shadow-lg transition-all">
-        {/* Service Image Placeholder */}
+        {/* Cover photo, or a placeholder while the service has none */}
         <div className="w-full h-48 bg-gradient-to-br from-primary/10 to-secondary/10 relative overflow-hidden">
+          {service.coverImage && (
+            <img
+              src={service.coverImage.url}
+              alt={service.title}
+              loading="lazy"
+              className="absolute inset-0 w-full h-full object-cover group-hover:scale-105 transition-transform"
+            />
+          )}
           <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent" />
           {service.isFeatured && (
             <Badge className="absolute top-3 left-3 bg-accent text-accent-foreground">
               Destacado
             </Badge>
           )}
+          <FavoriteButton
+            target={{ serviceId: service.id }}
+            ownerId={service.userId}
+            className="absolute top-3 right-3"
+          />
         </div>
         
         <CardContent className="p-6">
@@ -70,24 +107,30 @@ export default function ServiceCard({ service, category, provider }: ServiceCard
           </div>
           
           <h3 className="text-xl font-semibold text-foreground mb-2 group-hover:text-primary transition-colors">
-            {service.title}
+            {service.searchMatch ? <Highlighted text={service.searchMatch.title} /> : service.title}
           </h3>
           
           <p className="text-muted-foreground mb-4 line-clamp-2">
-            {service.description}
+            {service.searchMatch?.snippet ? <Highlighted text={service.searchMatch.snippet} /> : service.description}
           </p>
 
-          {service.location && (
+          {(service.location || distance !== null) && (
             <div className="flex items-center text-sm text-muted-foreground mb-4">
-              <MapPin className="w-4 h-4 mr-1" />
-              {service.location}
+              <MapPin className="w-4 h-4 mr-1 shrink-0" />
+              <span className="truncate">{service.location}</span>
+              {distance !== null && (
+                <span className="flex items-center ml-auto pl-2 shrink-0 font-medium text-foreground">
+                  <Navigation className="w-3 h-3 mr-1" />
+                  a {formatDistance(distance)}
+                </span>
+              )}
             </div>
           )}
           
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-2">
               <Avatar className="h-8 w-8">
-                <AvatarImage src={provider?.profileImageUrl} alt={getProviderName()} />
+                <AvatarImage src={provider?.photoUrl ?? undefined} alt={getProviderName()} />
                 <AvatarFallback className="bg-primary/10 text-primary text-xs">
                   {getProviderInitials()}
                 </AvatarFallback>
@@ -95,6 +138,12 @@ export default function ServiceCard({ service, category, provider }: ServiceCard
               <span className="text-sm text-foreground font-medium">
                 {getProviderName()}
               </span>
+              {service.providerVerified && (
+                <Badge variant="secondary" className="flex items-center gap-1 px-2">
+                  <BadgeCheck className="w-3 h-3" />
+                  Verificado
+                </Badge>
+              )}
             </div>
             
             <div className="text-right">
@@ -108,7 +157,7 @@ export default function ServiceCard({ service, category, provider }: ServiceCard
           {service.availability && (
             <div className="flex items-center text-sm text-muted-foreground mt-3 pt-3 border-t border-border">
               <Clock className="w-4 h-4 mr-1" />
-              {service.availability}
+              {formatSchedule(service.availability)}
             </div>
           )}
         </CardContent>
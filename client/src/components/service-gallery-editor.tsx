@@ -0,0 +1,184 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { IMAGE_UPLOAD_TYPES, MAX_UPLOAD_BYTES, readAsDataUrl } from "@/lib/uploads";
+import { ChevronLeft, ChevronRight, ImagePlus, Star, Trash2 } from "lucide-react";
+import type { ServiceImage } from "@shared/schema";
+
+const MAX_IMAGES = 12;
+
+export default function ServiceGalleryEditor({ serviceId }: { serviceId: number }) {
+  const { toast } = useToast();
+  const imagesKey = `/api/services/${serviceId}/images`;
+
+  const { data: images = [], isLoading } = useQuery<ServiceImage[]>({
+    queryKey: [imagesKey],
+  });
+
+  // Cards in the dashboard and listings show the cover, so they have to refresh too
+  const invalidateGallery = () => {
+    queryClient.invalidateQueries({ queryKey: [imagesKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/services"] });
+    queryClient.invalidateQueries({ predicate: (query) => query.queryKey[0] === "/api/services" });
+  };
+
+  const showError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Sequential: each request carries one photo to stay under the body size limit
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      for (const file of files) {
+        await apiRequest("POST", imagesKey, { fileName: file.name, dataUrl: await readAsDataUrl(file) });
+      }
+    },
+    onSettled: invalidateGallery,
+    onError: showError("No se pudieron subir las fotos"),
+  });
+
+  const arrangeMutation = useMutation({
+    mutationFn: async ({ imageIds, coverImageId }: { imageIds: number[]; coverImageId: number }) => {
+      return apiRequest("PUT", `${imagesKey}/order`, { imageIds, coverImageId });
+    },
+    onSuccess: invalidateGallery,
+    onError: showError("No se pudo guardar el orden"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (imageId: number) => apiRequest("DELETE", `${imagesKey}/${imageId}`),
+    onSuccess: invalidateGallery,
+    onError: showError("No se pudo eliminar la foto"),
+  });
+
+  const coverId = images.find(image => image.isCover)?.id ?? images[0]?.id;
+
+  const move = (index: number, offset: number) => {
+    const ids = images.map(image => image.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    arrangeMutation.mutate({ imageIds: ids, coverImageId: coverId! });
+  };
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+    const files = Array.from(fileList);
+    const tooLarge = files.filter(file => file.size > MAX_UPLOAD_BYTES);
+    if (tooLarge.length > 0) {
+      toast({
+        title: "Archivo muy grande",
+        description: `${tooLarge.map(file => file.name).join(", ")} supera(n) los 5 MB.`,
+        variant: "destructive",
+      });
+    }
+    const accepted = files.filter(file => file.size <= MAX_UPLOAD_BYTES).slice(0, MAX_IMAGES - images.length);
+    if (accepted.length > 0) uploadMutation.mutate(accepted);
+  };
+
+  const busy = uploadMutation.isPending || arrangeMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {images.length}/{MAX_IMAGES} fotos. La portada es la que se muestra en las tarjetas.
+        </p>
+        <Button variant="outline" size="sm" asChild disabled={busy || images.length >= MAX_IMAGES}>
+          <label className="cursor-pointer">
+            {uploadMutation.isPending ? <div className="loading-spinner mr-2" /> : <ImagePlus className="w-4 h-4 mr-1" />}
+            Agregar fotos
+            <input
+              type="file"
+              className="hidden"
+              accept={IMAGE_UPLOAD_TYPES}
+              multiple
+              disabled={images.length >= MAX_IMAGES}
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+          </label>
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="grid grid-cols-3 gap-3 animate-pulse">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <div key={i} className="aspect-square bg-muted rounded"></div>
+          ))}
+        </div>
+      ) : images.length > 0 ? (
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {images.map((image, index) => (
+            <div key={image.id} className="relative group rounded-lg overflow-hidden border border-border">
+              <img
+                src={image.variants.thumb.url}
+                alt={image.fileName || `Foto ${index + 1}`}
+                className="w-full aspect-square object-cover"
+              />
+              {image.id === coverId && (
+                <Badge className="absolute top-2 left-2">Portada</Badge>
+              )}
+              <div className="absolute inset-x-0 bottom-0 flex justify-between p-1 bg-black/50">
+                <div className="flex">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-white"
+                    disabled={busy || index === 0}
+                    onClick={() => move(index, -1)}
+                    aria-label="Mover a la izquierda"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-white"
+                    disabled={busy || index === images.length - 1}
+                    onClick={() => move(index, 1)}
+                    aria-label="Mover a la derecha"
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+                <div className="flex">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-white"
+                    disabled={busy || image.id === coverId}
+                    onClick={() => arrangeMutation.mutate({ imageIds: images.map(i => i.id), coverImageId: image.id })}
+                    aria-label="Usar como portada"
+                  >
+                    <Star className={`w-4 h-4 ${image.id === coverId ? 'fill-current text-yellow-400' : ''}`} />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-white"
+                    disabled={busy}
+                    onClick={() => deleteMutation.mutate(image.id)}
+                    aria-label="Eliminar foto"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-muted-foreground text-center py-8">
+          Este servicio aún no tiene fotos.
+        </p>
+      )}
+    </div>
+  );
+}
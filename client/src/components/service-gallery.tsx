@@ -0,0 +1,40 @@
+import { useState } from "react";
+import type { ServiceImage } from "@shared/schema";
+
+export default function ServiceGallery({ images, title }: { images: ServiceImage[]; title: string }) {
+  const [selectedId, setSelectedId] = useState<number | undefined>(
+    images.find(image => image.isCover)?.id
+  );
+  const selected = images.find(image => image.id === selectedId) ?? images[0];
+
+  if (!selected) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg overflow-hidden bg-muted">
+        <img
+          src={selected.variants.large.url}
+          alt={title}
+          width={selected.variants.large.width}
+          height={selected.variants.large.height}
+          className="w-full max-h-[32rem] object-contain"
+        />
+      </div>
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setSelectedId(image.id)}
+              className={`shrink-0 rounded-md overflow-hidden border-2 ${image.id === selected.id ? 'border-primary' : 'border-transparent'}`}
+              aria-label={`Ver foto ${index + 1}`}
+            >
+              <img src={image.variants.thumb.url} alt="" loading="lazy" className="w-20 h-20 object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import type { UserFavorites } from "@shared/schema";
+
+export type FavoriteTarget = { serviceId: number } | { providerId: string };
+
+export const invalidateFavorites = () => queryClient.invalidateQueries({ queryKey: ["/api/favorites"] });
+
+// The current user's saved services and providers, plus the heart toggle used on cards
+export function useFavorites() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+
+  const { data: favorites, isLoading } = useQuery<UserFavorites>({
+    queryKey: ["/api/favorites"],
+    enabled: isAuthenticated,
+  });
+
+  const isSaved = (target: FavoriteTarget) =>
+    "serviceId" in target
+      ? !!favorites?.services.some(item => item.service.id === target.serviceId)
+      : !!favorites?.providers.some(item => item.provider.id.toString() === target.providerId);
+
+  const toggleMutation = useMutation({
+    mutationFn: async (target: FavoriteTarget) => {
+      if (!isSaved(target)) return apiRequest("POST", "/api/favorites", target);
+      return "serviceId" in target
+        ? apiRequest("DELETE", `/api/favorites/services/${target.serviceId}`)
+        : apiRequest("DELETE", `/api/favorites/providers/${target.providerId}`);
+    },
+    onSuccess: () => invalidateFavorites(),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo actualizar tus favoritos",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    favorites,
+    isLoading,
+    isSaved,
+    toggle: toggleMutation.mutate,
+    isToggling: toggleMutation.isPending,
+  };
+}
+
+const formatPrice = (price: number | null) =>
+  price === null
+    ? "a consultar"
+    : new Intl.NumberFormat("es-CO", { style: "currency", currency: "COP", minimumFractionDigits: 0 }).format(price / 100);
+
+// Toast for a "favorite_update" notification: a saved service changed price or got a review
+export const favoriteUpdateToast = (data: any) => ({
+  title: data.change === "price" ? "Cambio de precio en un favorito" : "Nueva reseña en un favorito",
+  description: data.change === "price"
+    ? `${data.serviceTitle}: de ${formatPrice(data.previousPrice)} a ${formatPrice(data.price)}.`
+    : `${data.serviceTitle} recibió una reseña de ${data.rating} estrella(s).`,
+});
@@ -0,0 +1,69 @@
+import { useSyncExternalStore } from "react";
+import type { GeoPoint } from "@shared/schema";
+
+export type GeolocationStatus = "idle" | "locating" | "denied" | "unavailable";
+
+interface GeolocationState {
+  position: GeoPoint | null;
+  status: GeolocationStatus;
+}
+
+// Kept for the browser session so every card and page shares one answer and the
+// browser only prompts when the user asks for it
+const STORAGE_KEY = "geolocation";
+
+const readStoredPosition = (): GeoPoint | null => {
+  try {
+    const stored = sessionStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+let state: GeolocationState = { position: readStoredPosition(), status: "idle" };
+const listeners = new Set<() => void>();
+
+const setState = (next: Partial<GeolocationState>) => {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener());
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const requestPosition = (): Promise<GeoPoint | null> => {
+  if (!("geolocation" in navigator)) {
+    setState({ status: "unavailable" });
+    return Promise.resolve(null);
+  }
+
+  setState({ status: "locating" });
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        const position = { latitude: coords.latitude, longitude: coords.longitude };
+        sessionStorage.setItem(STORAGE_KEY, JSON.stringify(position));
+        setState({ position, status: "idle" });
+        resolve(position);
+      },
+      (error) => {
+        setState({ status: error.code === error.PERMISSION_DENIED ? "denied" : "unavailable" });
+        resolve(null);
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 },
+    );
+  });
+};
+
+const clearPosition = () => {
+  sessionStorage.removeItem(STORAGE_KEY);
+  setState({ position: null, status: "idle" });
+};
+
+export function useGeolocation() {
+  const { position, status } = useSyncExternalStore(subscribe, () => state);
+  return { position, status, requestPosition, clearPosition };
+}
@@ -0,0 +1,17 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { flattenLocations } from "@/lib/locations";
+import type { Location } from "@shared/schema";
+
+// The location taxonomy, flat and in tree order. It rarely changes, so it's
+// fetched once per hour at most.
+export function useLocations() {
+  const { data: locations, isLoading } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const options = useMemo(() => flattenLocations(locations ?? []), [locations]);
+
+  return { locations: locations ?? [], options, isLoading };
+}
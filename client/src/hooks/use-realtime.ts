@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef } from "react";
+
+export interface RealtimeMessage {
+  type: string;
+  data: any;
+  timestamp: string;
+}
+
+const RECONNECT_DELAY_MS = 5000;
+
+// Subscribes to the /api/ws socket while `enabled`, reconnecting after drops.
+// The socket authenticates with a short-lived token since it can't use the session cookie.
+// The server greets every (re)connection with a "connected" message, which is the cue
+// to catch up on anything missed while offline.
+export function useRealtime(onMessage: (message: RealtimeMessage) => void, enabled: boolean = true) {
+  const handlerRef = useRef(onMessage);
+  handlerRef.current = onMessage;
+  const socketRef = useRef<WebSocket | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const connect = async () => {
+      try {
+        const res = await fetch("/api/auth/ws-token", { credentials: "include" });
+        if (!res.ok || disposed) return;
+        const { token } = await res.json();
+
+        const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+        socket = new WebSocket(`${protocol}//${window.location.host}/api/ws?token=${encodeURIComponent(token)}`);
+        socketRef.current = socket;
+        socket.onmessage = (event) => {
+          try {
+            handlerRef.current(JSON.parse(event.data));
+          } catch {
+            // Ignore frames that aren't JSON
+          }
+        };
+        socket.onclose = () => {
+          if (!disposed) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        };
+      } catch {
+        if (!disposed) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      socketRef.current = null;
+    };
+  }, [enabled]);
+
+  // False when the socket isn't open, so callers can fall back to the REST endpoints
+  const send = useCallback((message: Record<string, any>): boolean => {
+    const socket = socketRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(message));
+    return true;
+  }, []);
+
+  return { send };
+}
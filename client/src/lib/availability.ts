@@ -0,0 +1,50 @@
+import type { TimeRange, WeeklySchedule } from "@shared/schema";
+
+// Indexed like Date.getDay(): 0 = Sunday
+export const weekdayLabels = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+export const weekdayShortLabels = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
+
+export const createDefaultSchedule = (): WeeklySchedule => ({
+  timezone: 'America/Bogota',
+  slotMinutes: 60,
+  days: [
+    [],
+    [{ start: '08:00', end: '18:00' }],
+    [{ start: '08:00', end: '18:00' }],
+    [{ start: '08:00', end: '18:00' }],
+    [{ start: '08:00', end: '18:00' }],
+    [{ start: '08:00', end: '18:00' }],
+    [{ start: '08:00', end: '12:00' }],
+  ],
+  exceptions: [],
+});
+
+const formatRanges = (ranges: TimeRange[]) => ranges.map(range => `${range.start}-${range.end}`).join(', ');
+
+// Short summary such as "Lun-Vie 08:00-18:00 · Sáb 08:00-12:00", Monday first
+export const formatSchedule = (schedule: WeeklySchedule | null | undefined): string => {
+  if (!schedule) return '';
+
+  const order = [1, 2, 3, 4, 5, 6, 0];
+  const groups: { first: number; last: number; ranges: string }[] = [];
+  order.forEach(weekday => {
+    const ranges = formatRanges(schedule.days[weekday] || []);
+    const previous = groups[groups.length - 1];
+    if (ranges && previous && previous.ranges === ranges && order.indexOf(previous.last) === order.indexOf(weekday) - 1) {
+      previous.last = weekday;
+    } else if (ranges) {
+      groups.push({ first: weekday, last: weekday, ranges });
+    }
+  });
+
+  if (groups.length === 0) return 'Sin horario de atención';
+
+  return groups
+    .map(group => {
+      const days = group.first === group.last
+        ? weekdayShortLabels[group.first]
+        : `${weekdayShortLabels[group.first]}-${weekdayShortLabels[group.last]}`;
+      return `${days} ${group.ranges}`;
+    })
+    .join(' · ');
+};
@@ -0,0 +1,53 @@
+import type { Category, CategoryAttributeType, ServiceAttributeValue } from "@shared/schema";
+
+export const attributeTypeLabels: Record<CategoryAttributeType, string> = {
+  boolean: "Sí / No",
+  text: "Texto",
+  number: "Número",
+  select: "Lista (una opción)",
+  multiselect: "Lista (varias opciones)",
+};
+
+export interface CategoryOption extends Category {
+  depth: number;
+  // "Hogar › Plomería": the path from the root category
+  label: string;
+}
+
+// Depth-first with siblings by name, so every category follows its parent
+export const flattenCategories = (categories: Category[]): CategoryOption[] => {
+  const byParent = new Map<number | null, Category[]>();
+  for (const category of categories) {
+    const siblings = byParent.get(category.parentId) ?? [];
+    siblings.push(category);
+    byParent.set(category.parentId, siblings);
+  }
+
+  const options: CategoryOption[] = [];
+  const visit = (parentId: number | null, depth: number, prefix: string) => {
+    const children = [...(byParent.get(parentId) ?? [])].sort((a, b) => a.name.localeCompare(b.name, "es"));
+    for (const category of children) {
+      const label = `${prefix}${category.name}`;
+      options.push({ ...category, depth, label });
+      visit(category.id, depth + 1, `${label} › `);
+    }
+  };
+  visit(null, 0, "");
+  return options;
+};
+
+// "Marcas de vehículos" -> "marcas_de_vehiculos", the key format the API accepts
+export const toAttributeKey = (label: string): string =>
+  label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^[^a-z]+|_+$/g, "")
+    .slice(0, 40);
+
+export const formatAttributeValue = (value: ServiceAttributeValue): string => {
+  if (typeof value === "boolean") return value ? "Sí" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  return value.toString();
+};
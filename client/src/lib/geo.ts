@@ -0,0 +1,19 @@
+import type { GeoPoint } from "@shared/schema";
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+// Same haversine distance the server sorts by
+export const distanceKm = (from: GeoPoint, to: GeoPoint): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.asin(Math.sqrt(a));
+};
+
+export const formatDistance = (km: number): string => {
+  if (km < 1) return `${Math.max(Math.round(km * 1000 / 50) * 50, 50)} m`;
+  return `${km < 10 ? km.toFixed(1).replace('.', ',') : Math.round(km)} km`;
+};
@@ -0,0 +1,36 @@
+import type { Location, LocationLevel } from "@shared/schema";
+
+export const locationLevelLabels: Record<LocationLevel, string> = {
+  department: "Departamento",
+  municipality: "Municipio",
+  comuna: "Comuna",
+  barrio: "Barrio",
+};
+
+export interface LocationOption extends Location {
+  depth: number;
+  // "Caobos, Cúcuta": the name and the municipality it belongs to
+  label: string;
+}
+
+// Depth-first with siblings by name, so every location follows its parent
+export const flattenLocations = (locations: Location[]): LocationOption[] => {
+  const byParent = new Map<number | null, Location[]>();
+  for (const location of locations) {
+    const siblings = byParent.get(location.parentId) ?? [];
+    siblings.push(location);
+    byParent.set(location.parentId, siblings);
+  }
+
+  const options: LocationOption[] = [];
+  const visit = (parentId: number | null, depth: number, municipality: string | null) => {
+    const children = [...(byParent.get(parentId) ?? [])].sort((a, b) => a.name.localeCompare(b.name, "es"));
+    for (const location of children) {
+      const label = municipality && location.level !== "municipality" ? `${location.name}, ${municipality}` : location.name;
+      options.push({ ...location, depth, label });
+      visit(location.id, depth + 1, location.level === "municipality" ? location.name : municipality);
+    }
+  };
+  visit(null, 0, null);
+  return options;
+};
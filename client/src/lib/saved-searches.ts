@@ -0,0 +1,79 @@
+import type { AttributeFilterValues } from "@/components/attribute-filters";
+import type { LocationOption } from "@/lib/locations";
+import type { Category, GeoPoint, SavedSearchFilters, SavedSearchFrequency } from "@shared/schema";
+
+export const savedSearchFrequencyLabels: Record<SavedSearchFrequency, string> = {
+  instant: "Al momento",
+  daily: "Resumen diario",
+  weekly: "Resumen semanal",
+};
+
+// The services page's filters as typed in the form: ids as strings, prices in pesos
+export interface ServiceListFilters {
+  search: string;
+  categoryId: string;
+  location: string;
+  minPrice: string;
+  maxPrice: string;
+  radiusKm: string;
+  attributes: AttributeFilterValues;
+}
+
+// Availability and sorting are left out: they describe the moment, not the service.
+// The radius only counts while the browser has shared its location.
+export const toSavedSearchFilters = (filters: ServiceListFilters, position: GeoPoint | null): SavedSearchFilters => {
+  const saved: SavedSearchFilters = {};
+  if (filters.search.trim()) saved.search = filters.search.trim();
+  if (filters.categoryId) {
+    saved.categoryId = parseInt(filters.categoryId);
+    if (Object.keys(filters.attributes).length > 0) saved.attributes = filters.attributes;
+  }
+  if (filters.location) saved.locationId = parseInt(filters.location);
+  if (filters.minPrice) saved.minPrice = parseInt(filters.minPrice) * 100;
+  if (filters.maxPrice) saved.maxPrice = parseInt(filters.maxPrice) * 100;
+  if (position && filters.radiusKm) {
+    saved.near = { latitude: position.latitude, longitude: position.longitude };
+    saved.radiusKm = parseFloat(filters.radiusKm);
+  }
+  return saved;
+};
+
+const formatPesos = (cents: number) =>
+  new Intl.NumberFormat("es-CO", { style: "currency", currency: "COP", minimumFractionDigits: 0 }).format(cents / 100);
+
+// Short labels for each filter, e.g. ["\"plomero\"", "Hogar", "Caobos, Cúcuta", "Hasta $50.000"]
+export const describeSavedSearch = (
+  filters: SavedSearchFilters,
+  categories: Category[],
+  locations: LocationOption[],
+): string[] => {
+  const labels: string[] = [];
+  if (filters.search) labels.push(`"${filters.search}"`);
+  if (filters.categoryId) labels.push(categories.find(c => c.id === filters.categoryId)?.name ?? "Categoría eliminada");
+  if (filters.attributes) labels.push(`${Object.keys(filters.attributes).length} característica(s)`);
+  if (filters.locationId) labels.push(locations.find(l => l.id === filters.locationId)?.label ?? "Ubicación eliminada");
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined) {
+    labels.push(`${formatPesos(filters.minPrice)} - ${formatPesos(filters.maxPrice)}`);
+  } else if (filters.minPrice !== undefined) {
+    labels.push(`Desde ${formatPesos(filters.minPrice)}`);
+  } else if (filters.maxPrice !== undefined) {
+    labels.push(`Hasta ${formatPesos(filters.maxPrice)}`);
+  }
+  if (filters.near && filters.radiusKm) labels.push(`A menos de ${filters.radiusKm} km`);
+  return labels;
+};
+
+// The listing for the filters the services page reads from its URL
+export const savedSearchHref = (filters: SavedSearchFilters): string => {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  if (filters.categoryId) params.set("category", filters.categoryId.toString());
+  if (filters.locationId) params.set("location", filters.locationId.toString());
+  return params.toString() ? `/services?${params.toString()}` : "/services";
+};
+
+// Toast for a "saved_search_match" notification
+export const savedSearchMatchToast = (data: any) => ({
+  title: `Nuevo servicio para "${data.searchName}"`,
+  description: `${data.serviceTitle} coincide con tu búsqueda guardada.`,
+});
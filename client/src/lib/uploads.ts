@@ -0,0 +1,13 @@
+// Files are sent to the API as base64 data URLs inside JSON bodies; the server
+// re-checks type and size, these limits only save a pointless upload.
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+// Provider application documents are sent together, so they share one budget
+export const MAX_APPLICATION_UPLOAD_BYTES = 6 * 1024 * 1024;
+export const IMAGE_UPLOAD_TYPES = "image/jpeg,image/png,image/webp";
+
+export const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
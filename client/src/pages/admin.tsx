@@ -10,6 +10,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import ReviewModeration from "@/components/review-moderation";
+import ProviderApplicationsReview from "@/components/provider-applications-review";
+import LocationsManager from "@/components/locations-manager";
+import CategoryAttributesEditor, { cleanAttributeDefinitions } from "@/components/category-attributes-editor";
+import CategoryDeleteDialog, { RecentCategoryDeletions } from "@/components/category-delete-dialog";
+import { flattenCategories } from "@/lib/categories";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
@@ -21,21 +28,32 @@ import { isAdmin } from "@/lib/auth";
 import { CheckCircle, XCircle, Users, Activity, Star, Plus, Edit, Trash2, Eye, MessageCircle, Heart } from "lucide-react";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
-import type { Service, Category, Suggestion, Donation, SupportTicket } from "@shared/schema";
+import { categoryAttributeDefinitionsSchema, categoryLineage, effectiveAttributeDefinitions, type Service, type Category, type Suggestion, type Donation, type SupportTicket, type CategoryAttributeDefinition } from "@shared/schema";
 
 const categorySchema = z.object({
   name: z.string().min(1, "El nombre es requerido"),
   description: z.string().optional(),
   icon: z.string().optional(),
+  parentId: z.string(), // "" for a top-level category
+  attributeDefinitions: z.preprocess(
+    (value) => cleanAttributeDefinitions((value ?? []) as CategoryAttributeDefinition[]),
+    categoryAttributeDefinitionsSchema,
+  ),
 });
 
 type CategoryFormData = z.infer<typeof categorySchema>;
 
+const toCategoryPayload = ({ parentId, ...data }: CategoryFormData) => ({
+  ...data,
+  parentId: parentId ? parseInt(parentId) : null,
+});
+
 export default function Admin() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [categoryDialogOpen, setCategoryDialogOpen] = useState(false);
   const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const [deletingCategory, setDeletingCategory] = useState<Category | null>(null);
 
   const { data: pendingServices } = useQuery<Service[]>({
     queryKey: ["/api/admin/services/pending"],
@@ -71,9 +89,21 @@ export default function Admin() {
       name: "",
       description: "",
       icon: "",
+      parentId: "",
+      attributeDefinitions: [],
     },
   });
 
+  const categoryOptions = flattenCategories(categories ?? []);
+  const selectedParentId = categoryForm.watch("parentId");
+  const inheritedDefinitions = selectedParentId
+    ? effectiveAttributeDefinitions(parseInt(selectedParentId), categories ?? [])
+    : [];
+  // A category can't move inside itself or one of its subcategories
+  const parentOptions = categoryOptions.filter(option =>
+    !editingCategory || !categoryLineage(option.id, categories ?? []).some(c => c.id === editingCategory.id)
+  );
+
   const approveServiceMutation = useMutation({
     mutationFn: async (id: number) => {
       return apiRequest("PATCH", `/api/services/${id}/approve`);
@@ -102,7 +132,7 @@ export default function Admin() {
 
   const createCategoryMutation = useMutation({
     mutationFn: async (data: CategoryFormData) => {
-      return apiRequest("POST", "/api/categories", data);
+      return apiRequest("POST", "/api/categories", toCategoryPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
@@ -113,11 +143,18 @@ export default function Admin() {
       setCategoryDialogOpen(false);
       categoryForm.reset();
     },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo crear la categoría",
+        variant: "destructive",
+      });
+    },
   });
 
   const updateCategoryMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: CategoryFormData }) => {
-      return apiRequest("PUT", `/api/categories/${id}`, data);
+      return apiRequest("PUT", `/api/categories/${id}`, toCategoryPayload(data));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
@@ -129,17 +166,11 @@ export default function Admin() {
       setEditingCategory(null);
       categoryForm.reset();
     },
-  });
-
-  const deleteCategoryMutation = useMutation({
-    mutationFn: async (id: number) => {
-      return apiRequest("DELETE", `/api/categories/${id}`);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    onError: (error: any) => {
       toast({
-        title: "Categoría eliminada",
-        description: "La categoría ha sido eliminada exitosamente.",
+        title: "Error",
+        description: error.message || "No se pudo actualizar la categoría",
+        variant: "destructive",
       });
     },
   });
@@ -171,16 +202,12 @@ export default function Admin() {
       name: category.name,
       description: category.description || "",
       icon: category.icon || "",
+      parentId: category.parentId?.toString() ?? "",
+      attributeDefinitions: category.attributeDefinitions,
     });
     setCategoryDialogOpen(true);
   };
 
-  const handleDeleteCategory = (id: number) => {
-    if (confirm("¿Estás seguro de que quieres eliminar esta categoría?")) {
-      deleteCategoryMutation.mutate(id);
-    }
-  };
-
   if (!isAdmin(user)) {
     return (
       <div className="min-h-screen bg-background">
@@ -222,10 +249,13 @@ export default function Admin() {
       <section className="py-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <Tabs defaultValue="overview" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-6">
+            <TabsList className="grid w-full grid-cols-9">
               <TabsTrigger value="overview">Resumen</TabsTrigger>
               <TabsTrigger value="services">Servicios</TabsTrigger>
               <TabsTrigger value="categories">Categorías</TabsTrigger>
+              <TabsTrigger value="locations">Ubicaciones</TabsTrigger>
+              <TabsTrigger value="reviews">Reseñas</TabsTrigger>
+              <TabsTrigger value="providers">Proveedores</TabsTrigger>
               <TabsTrigger value="suggestions">Sugerencias</TabsTrigger>
               <TabsTrigger value="donations">Donaciones</TabsTrigger>
               <TabsTrigger value="support">Soporte</TabsTrigger>
@@ -412,7 +442,7 @@ export default function Admin() {
                       Nueva Categoría
                     </Button>
                   </DialogTrigger>
-                  <DialogContent>
+                  <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
                       <DialogTitle>
                         {editingCategory ? "Editar Categoría" : "Nueva Categoría"}
@@ -434,6 +464,32 @@ export default function Admin() {
                             </FormItem>
                           )}
                         />
+
+                        <FormField
+                          control={categoryForm.control}
+                          name="parentId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Dentro de</FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value}>
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Categoría principal" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value="">Categoría principal</SelectItem>
+                                  {parentOptions.map((option) => (
+                                    <SelectItem key={option.id} value={option.id.toString()}>
+                                      {option.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                         
                         <FormField
                           control={categoryForm.control}
@@ -463,6 +519,26 @@ export default function Admin() {
                           )}
                         />
 
+                        <FormField
+                          control={categoryForm.control}
+                          name="attributeDefinitions"
+                          render={({ field, fieldState }) => (
+                            <FormItem>
+                              <FormLabel>Campos para los servicios</FormLabel>
+                              <CategoryAttributesEditor
+                                value={field.value ?? []}
+                                onChange={field.onChange}
+                                inherited={inheritedDefinitions}
+                              />
+                              {fieldState.error && (
+                                <p className="text-sm font-medium text-destructive">
+                                  {fieldState.error.message || "Cada campo necesita un nombre, una clave válida y, si es una lista, sus opciones."}
+                                </p>
+                              )}
+                            </FormItem>
+                          )}
+                        />
+
                         <div className="flex justify-end space-x-3">
                           <Button
                             type="button"
@@ -492,15 +568,19 @@ export default function Admin() {
                       <TableRow>
                         <TableHead>Nombre</TableHead>
                         <TableHead>Descripción</TableHead>
+                        <TableHead>Campos</TableHead>
                         <TableHead>Estado</TableHead>
                         <TableHead>Acciones</TableHead>
                       </TableRow>
                     </TableHeader>
                     <TableBody>
-                      {categories?.map((category) => (
+                      {categoryOptions.map((category) => (
                         <TableRow key={category.id}>
-                          <TableCell className="font-medium">{category.name}</TableCell>
+                          <TableCell className="font-medium">
+                            <span style={{ paddingLeft: `${category.depth * 1.25}rem` }}>{category.name}</span>
+                          </TableCell>
                           <TableCell>{category.description || "-"}</TableCell>
+                          <TableCell>{category.attributeDefinitions.length || "-"}</TableCell>
                           <TableCell>
                             <Badge variant={category.isActive ? "default" : "secondary"}>
                               {category.isActive ? "Activa" : "Inactiva"}
@@ -518,7 +598,7 @@ export default function Admin() {
                               <Button
                                 size="sm"
                                 variant="destructive"
-                                onClick={() => handleDeleteCategory(category.id)}
+                                onClick={() => setDeletingCategory(category)}
                               >
                                 <Trash2 className="w-4 h-4" />
                               </Button>
@@ -530,6 +610,25 @@ export default function Admin() {
                   </Table>
                 </CardContent>
               </Card>
+
+              <RecentCategoryDeletions />
+              <CategoryDeleteDialog
+                category={deletingCategory}
+                categories={categories ?? []}
+                onClose={() => setDeletingCategory(null)}
+              />
+            </TabsContent>
+
+            <TabsContent value="locations" className="space-y-6">
+              <LocationsManager />
+            </TabsContent>
+
+            <TabsContent value="reviews" className="space-y-6">
+              <ReviewModeration />
+            </TabsContent>
+
+            <TabsContent value="providers" className="space-y-6">
+              <ProviderApplicationsReview />
             </TabsContent>
 
             <TabsContent value="suggestions" className="space-y-6">
@@ -2,6 +2,16 @@ import { useState } from "react";
 import Navbar from "@/components/navbar";
 import Footer from "@/components/footer";
 import ServiceCard from "@/components/service-card";
+import BookingsPanel from "@/components/bookings-panel";
+import AvailabilityEditor from "@/components/availability-editor";
+import MessagesInbox, { invalidateInbox } from "@/components/messages-inbox";
+import ProviderProfileForm from "@/components/provider-profile-form";
+import ProviderApplicationForm from "@/components/provider-application-form";
+import ServiceGalleryEditor from "@/components/service-gallery-editor";
+import CoverageAreaPicker from "@/components/coverage-area-picker";
+import ServiceAttributeFields, { parseAttributeDraft } from "@/components/service-attribute-fields";
+import SavedSearchesPanel from "@/components/saved-searches-panel";
+import { flattenCategories } from "@/lib/categories";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -11,7 +21,11 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtime } from "@/hooks/use-realtime";
+import { favoriteUpdateToast } from "@/hooks/use-favorites";
+import { savedSearchMatchToast } from "@/lib/saved-searches";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -19,18 +33,22 @@ import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { getDisplayName, isProvider } from "@/lib/auth";
-import { Plus, Edit, Trash2, Clock, CheckCircle, XCircle, Star, Users, Activity, TrendingUp } from "lucide-react";
-import type { Service, Category, InsertService } from "@shared/schema";
+import { createDefaultSchedule, formatSchedule } from "@/lib/availability";
+import { Plus, Edit, Trash2, Clock, CheckCircle, XCircle, Star, Users, Activity, TrendingUp, FileText, FileCode, Images } from "lucide-react";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { weeklyScheduleSchema, buildServiceAttributesSchema, effectiveAttributeDefinitions, type ServiceAttributes, type Service, type ServiceListItem, type Category, type InsertService, type Invoice } from "@shared/schema";
 
 const serviceSchema = z.object({
   title: z.string().min(1, "El título es requerido"),
   description: z.string().min(1, "La descripción es requerida"),
   categoryId: z.string().min(1, "La categoría es requerida"),
   price: z.string().optional(),
-  location: z.string().min(1, "La ubicación es requerida"),
+  coverageAreaIds: z.array(z.number()).min(1, "Elige al menos una zona de cobertura"),
   contactPhone: z.string().min(1, "El teléfono es requerido"),
   contactEmail: z.string().email("Email inválido"),
-  availability: z.string().min(1, "La disponibilidad es requerida"),
+  availability: weeklyScheduleSchema,
+  attributes: z.custom<ServiceAttributes>(), // checked against the category's fields on submit
 });
 
 type ServiceFormData = z.infer<typeof serviceSchema>;
@@ -40,16 +58,67 @@ export default function Dashboard() {
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingService, setEditingService] = useState<Service | null>(null);
+  const [galleryService, setGalleryService] = useState<Service | null>(null);
 
   const { data: categories } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
 
-  const { data: userServices, isLoading } = useQuery<Service[]>({
+  const { data: userServices, isLoading } = useQuery<ServiceListItem[]>({
     queryKey: ["/api/user/services"],
     enabled: !!user,
   });
 
+  const { data: invoices } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+    enabled: isProvider(user),
+  });
+
+  const { data: unreadMessages } = useQuery<{ count: number }>({
+    queryKey: ["/api/messages/unread-count"],
+    enabled: isProvider(user),
+  });
+
+  useRealtime((event) => {
+    if (event.type === 'message_received') {
+      invalidateInbox();
+      toast({
+        title: "Nuevo mensaje",
+        description: `${event.data.senderName} escribió sobre "${event.data.serviceTitle}".`,
+      });
+    } else if (event.type === 'booking_update') {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/bookings") });
+    } else if (event.type === 'notification' && event.data.kind === 'review_moderated') {
+      toast({
+        title: event.data.status === 'approved' ? "Reseña publicada" : "Reseña rechazada",
+        description: event.data.status === 'approved'
+          ? "Tu reseña ya es visible en el servicio."
+          : `Motivo: ${event.data.reason}`,
+        variant: event.data.status === 'approved' ? undefined : "destructive",
+      });
+    } else if (event.type === 'notification' && event.data.kind === 'review_reply') {
+      toast({
+        title: "Nueva respuesta a una reseña",
+        description: "Alguien respondió en la conversación de una reseña.",
+      });
+    } else if (event.type === 'notification' && event.data.kind === 'favorite_update') {
+      toast(favoriteUpdateToast(event.data));
+    } else if (event.type === 'notification' && event.data.kind === 'saved_search_match') {
+      toast(savedSearchMatchToast(event.data));
+    } else if (event.type === 'notification' && event.data.kind === 'provider_application') {
+      // Approval changes the role, so the panel switches to the provider view
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/provider-applications/mine"] });
+      toast({
+        title: event.data.status === 'approved' ? "¡Ya eres proveedor verificado!" : "Solicitud rechazada",
+        description: event.data.status === 'approved'
+          ? "Ya puedes publicar tus servicios."
+          : `Motivo: ${event.data.notes}`,
+        variant: event.data.status === 'approved' ? undefined : "destructive",
+      });
+    }
+  }, !!user);
+
   const form = useForm<ServiceFormData>({
     resolver: zodResolver(serviceSchema),
     defaultValues: {
@@ -57,10 +126,11 @@ export default function Dashboard() {
       description: "",
       categoryId: "",
       price: "",
-      location: "",
+      coverageAreaIds: [],
       contactPhone: "",
       contactEmail: user?.email || "",
-      availability: "",
+      availability: createDefaultSchedule(),
+      attributes: {},
     },
   });
 
@@ -70,7 +140,7 @@ export default function Dashboard() {
         ...data,
         categoryId: parseInt(data.categoryId),
         price: data.price ? parseInt(data.price) * 100 : null, // Convert to cents
-        userId: user!.id,
+        userId: user!.id.toString(),
       };
       return apiRequest("POST", "/api/services", serviceData);
     },
@@ -140,7 +210,25 @@ export default function Dashboard() {
     },
   });
 
-  const onSubmit = (data: ServiceFormData) => {
+  const categoryOptions = flattenCategories(categories ?? []);
+  const selectedCategoryId = form.watch("categoryId");
+  const attributeDefinitions = selectedCategoryId
+    ? effectiveAttributeDefinitions(parseInt(selectedCategoryId), categories ?? [])
+    : [];
+  const attributeErrors = form.formState.errors.attributes as Partial<Record<string, { message?: string }>> | undefined;
+
+  const onSubmit = (formData: ServiceFormData) => {
+    // The fields depend on the chosen category, so they can't be part of serviceSchema
+    const attributes = buildServiceAttributesSchema(attributeDefinitions)
+      .safeParse(parseAttributeDraft(attributeDefinitions, formData.attributes));
+    if (!attributes.success) {
+      for (const issue of attributes.error.errors) {
+        form.setError(`attributes.${String(issue.path[0])}`, { message: issue.message });
+      }
+      return;
+    }
+
+    const data = { ...formData, attributes: attributes.data };
     if (editingService) {
       updateServiceMutation.mutate({ id: editingService.id, service: data });
     } else {
@@ -148,7 +236,7 @@ export default function Dashboard() {
     }
   };
 
-  const handleEdit = (service: Service) => {
+  const handleEdit = (service: ServiceListItem) => {
     setEditingService(service);
     const category = categories?.find(c => c.id === service.categoryId);
     form.reset({
@@ -156,10 +244,11 @@ export default function Dashboard() {
       description: service.description || "",
       categoryId: service.categoryId.toString(),
       price: service.price ? (service.price / 100).toString() : "",
-      location: service.location || "",
+      coverageAreaIds: service.coverageAreaIds,
       contactPhone: service.contactPhone || "",
       contactEmail: service.contactEmail || "",
-      availability: service.availability || "",
+      availability: service.availability || createDefaultSchedule(),
+      attributes: service.attributes,
     });
     setIsDialogOpen(true);
   };
@@ -177,23 +266,29 @@ export default function Dashboard() {
     featured: userServices?.filter(s => s.isFeatured).length || 0,
   };
 
+  // Customers only get their own bookings and saved searches; the rest of the panel is for providers
   if (!isProvider(user)) {
     return (
       <div className="min-h-screen bg-background">
         <Navbar />
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
-          <div className="text-center">
-            <h1 className="text-3xl font-bold text-foreground mb-4">
-              Acceso Restringido
+        <section className="bg-gradient-to-br from-primary/5 via-background to-secondary/5 py-12">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <h1 className="text-3xl lg:text-4xl font-bold text-foreground mb-2">
+              Mi Panel
             </h1>
-            <p className="text-muted-foreground mb-8">
-              Necesitas permisos de proveedor para acceder a esta sección.
+            <p className="text-lg text-muted-foreground">
+              Bienvenido, {getDisplayName(user)}
             </p>
-            <Button asChild>
-              <a href="/api/logout">Cambiar de Cuenta</a>
-            </Button>
           </div>
-        </div>
+        </section>
+        <section className="py-8">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-8">
+            <BookingsPanel as="customer" />
+            <SavedSearchesPanel />
+            <ProviderApplicationForm />
+          </div>
+        </section>
+        <Footer />
       </div>
     );
   }
@@ -224,17 +319,18 @@ export default function Dashboard() {
                     description: "",
                     categoryId: "",
                     price: "",
-                    location: "",
+                    coverageAreaIds: [],
                     contactPhone: "",
                     contactEmail: user?.email || "",
-                    availability: "",
+                    availability: createDefaultSchedule(),
+                    attributes: {},
                   });
                 }}>
                   <Plus className="w-4 h-4 mr-2" />
                   Nuevo Servicio
                 </Button>
               </DialogTrigger>
-              <DialogContent className="max-w-2xl">
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>
                     {editingService ? "Editar Servicio" : "Crear Nuevo Servicio"}
@@ -271,9 +367,9 @@ export default function Dashboard() {
                                 </SelectTrigger>
                               </FormControl>
                               <SelectContent>
-                                {categories?.map((category) => (
+                                {categoryOptions.map((category) => (
                                   <SelectItem key={category.id} value={category.id.toString()}>
-                                    {category.name}
+                                    {category.label}
                                   </SelectItem>
                                 ))}
                               </SelectContent>
@@ -284,6 +380,26 @@ export default function Dashboard() {
                       />
                     </div>
 
+                    {attributeDefinitions.length > 0 && (
+                      <FormField
+                        control={form.control}
+                        name="attributes"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Características</FormLabel>
+                            <ServiceAttributeFields
+                              definitions={attributeDefinitions}
+                              value={field.value ?? {}}
+                              onChange={field.onChange}
+                              errors={Object.fromEntries(
+                                attributeDefinitions.map(definition => [definition.key, attributeErrors?.[definition.key]?.message])
+                              )}
+                            />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
                     <FormField
                       control={form.control}
                       name="description"
@@ -319,13 +435,11 @@ export default function Dashboard() {
                       
                       <FormField
                         control={form.control}
-                        name="location"
+                        name="coverageAreaIds"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Ubicación</FormLabel>
-                            <FormControl>
-                              <Input placeholder="Ej: Cúcuta, Centro" {...field} />
-                            </FormControl>
+                            <FormLabel>Zonas de cobertura</FormLabel>
+                            <CoverageAreaPicker value={field.value} onChange={field.onChange} />
                             <FormMessage />
                           </FormItem>
                         )}
@@ -369,7 +483,7 @@ export default function Dashboard() {
                         <FormItem>
                           <FormLabel>Disponibilidad</FormLabel>
                           <FormControl>
-                            <Input placeholder="Ej: Lunes a Viernes 8:00 AM - 6:00 PM" {...field} />
+                            <AvailabilityEditor value={field.value} onChange={field.onChange} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -402,6 +516,15 @@ export default function Dashboard() {
                 </Form>
               </DialogContent>
             </Dialog>
+
+            <Dialog open={galleryService !== null} onOpenChange={(open) => !open && setGalleryService(null)}>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Fotos de {galleryService?.title}</DialogTitle>
+                </DialogHeader>
+                {galleryService && <ServiceGalleryEditor serviceId={galleryService.id} />}
+              </DialogContent>
+            </Dialog>
           </div>
         </div>
       </section>
@@ -413,6 +536,16 @@ export default function Dashboard() {
             <TabsList>
               <TabsTrigger value="overview">Resumen</TabsTrigger>
               <TabsTrigger value="services">Mis Servicios</TabsTrigger>
+              <TabsTrigger value="bookings">Reservas</TabsTrigger>
+              <TabsTrigger value="messages">
+                Mensajes
+                {unreadMessages && unreadMessages.count > 0 ? (
+                  <Badge className="ml-2 h-5 px-1.5">{unreadMessages.count}</Badge>
+                ) : null}
+              </TabsTrigger>
+              <TabsTrigger value="invoices">Facturas</TabsTrigger>
+              <TabsTrigger value="profile">Perfil público</TabsTrigger>
+              <TabsTrigger value="searches">Búsquedas guardadas</TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-6">
@@ -496,7 +629,7 @@ export default function Dashboard() {
                             <div>
                               <h4 className="font-semibold text-foreground">{service.title}</h4>
                               <p className="text-sm text-muted-foreground">
-                                {service.location} • {service.availability}
+                                {service.location} • {formatSchedule(service.availability)}
                               </p>
                             </div>
                           </div>
@@ -587,6 +720,13 @@ export default function Dashboard() {
 
                         {/* Action Buttons */}
                         <div className="absolute top-3 right-3 flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => setGalleryService(service)}
+                          >
+                            <Images className="w-4 h-4" />
+                          </Button>
                           <Button
                             size="sm"
                             variant="secondary"
@@ -624,6 +764,90 @@ export default function Dashboard() {
                 </div>
               )}
             </TabsContent>
+
+            <TabsContent value="bookings" className="space-y-6">
+              <BookingsPanel as="provider" />
+              <BookingsPanel as="customer" />
+            </TabsContent>
+
+            <TabsContent value="messages" className="space-y-6">
+              <MessagesInbox />
+            </TabsContent>
+
+            <TabsContent value="searches" className="space-y-6">
+              <SavedSearchesPanel />
+            </TabsContent>
+
+            <TabsContent value="profile" className="space-y-6">
+              <ProviderProfileForm userId={user!.id.toString()} />
+            </TabsContent>
+
+            <TabsContent value="invoices" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Facturas Electrónicas</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {invoices && invoices.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Número</TableHead>
+                          <TableHead>Cliente</TableHead>
+                          <TableHead>Fecha</TableHead>
+                          <TableHead>Total</TableHead>
+                          <TableHead>Estado</TableHead>
+                          <TableHead>Descargar</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {invoices.map((invoice) => (
+                          <TableRow key={invoice.id}>
+                            <TableCell className="font-mono">{invoice.number}</TableCell>
+                            <TableCell>{invoice.customerName}</TableCell>
+                            <TableCell>
+                              {format(new Date(invoice.issuedAt), "dd/MM/yyyy", { locale: es })}
+                            </TableCell>
+                            <TableCell>
+                              {new Intl.NumberFormat('es-CO', {
+                                style: 'currency',
+                                currency: 'COP',
+                                minimumFractionDigits: 0,
+                              }).format(invoice.total)}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={invoice.status === 'issued' ? 'default' : 'destructive'}>
+                                {invoice.status === 'issued' ? 'Emitida' : 'Anulada'}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex space-x-2">
+                                <Button size="sm" variant="outline" asChild>
+                                  <a href={`/api/invoices/${invoice.id}/pdf`}>
+                                    <FileText className="w-4 h-4 mr-1" />
+                                    PDF
+                                  </a>
+                                </Button>
+                                <Button size="sm" variant="outline" asChild>
+                                  <a href={`/api/invoices/${invoice.id}/xml`}>
+                                    <FileCode className="w-4 h-4 mr-1" />
+                                    XML
+                                  </a>
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-muted-foreground text-center py-8">
+                      Aún no tienes facturas emitidas.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
           </Tabs>
         </div>
       </section>
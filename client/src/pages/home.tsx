@@ -4,25 +4,40 @@ import HeroSection from "@/components/hero-section";
 import SearchBar from "@/components/search-bar";
 import CategoryGrid from "@/components/category-grid";
 import ServiceCard from "@/components/service-card";
+import FavoritesSection from "@/components/favorites-section";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
+import { invalidateFavorites, favoriteUpdateToast } from "@/hooks/use-favorites";
+import { savedSearchMatchToast } from "@/lib/saved-searches";
 import { useQuery } from "@tanstack/react-query";
 import { getDisplayName } from "@/lib/auth";
 import { Plus, Star, TrendingUp, Users, Activity, Clock } from "lucide-react";
 import { Link } from "wouter";
-import type { Service } from "@shared/schema";
+import type { Service, ServiceListItem } from "@shared/schema";
 
 export default function Home() {
   const { user } = useAuth();
+  const { toast } = useToast();
 
-  const { data: recentServices, isLoading: servicesLoading } = useQuery<Service[]>({
+  useRealtime((event) => {
+    if (event.type === 'notification' && event.data.kind === 'favorite_update') {
+      invalidateFavorites();
+      toast(favoriteUpdateToast(event.data));
+    } else if (event.type === 'notification' && event.data.kind === 'saved_search_match') {
+      toast(savedSearchMatchToast(event.data));
+    }
+  }, !!user);
+
+  const { data: recentServices, isLoading: servicesLoading } = useQuery<ServiceListItem[]>({
     queryKey: ["/api/services", { recent: true }],
     queryFn: async () => {
-      const res = await fetch("/api/services?approved=true");
-      const services = await res.json();
-      return services.slice(0, 6);
+      const res = await fetch("/api/services?approved=true&sortBy=recent&pageSize=6");
+      const data = await res.json();
+      return data.items;
     },
   });
 
@@ -148,6 +163,8 @@ export default function Home() {
         </div>
       </section>
 
+      <FavoritesSection />
+
       {/* User's Services or Recent Services */}
       {userServices && userServices.length > 0 ? (
         <section className="py-16 bg-muted/50">
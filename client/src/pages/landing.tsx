@@ -9,15 +9,15 @@ import { Card, CardContent } from "@/components/ui/card";
 import { useQuery } from "@tanstack/react-query";
 import { Search, Users, CheckCircle, HelpCircle, BookOpen, MessageCircle, Lightbulb, UserPlus, TrendingUp, ShieldCheck } from "lucide-react";
 import { Link } from "wouter";
-import type { Service } from "@shared/schema";
+import type { ServiceListItem } from "@shared/schema";
 
 export default function Landing() {
-  const { data: featuredServices, isLoading: servicesLoading } = useQuery<Service[]>({
+  const { data: featuredServices, isLoading: servicesLoading } = useQuery<ServiceListItem[]>({
     queryKey: ["/api/services", { featured: true }],
     queryFn: async () => {
-      const res = await fetch("/api/services?approved=true");
-      const services = await res.json();
-      return services.filter((s: Service) => s.isFeatured).slice(0, 3);
+      const res = await fetch("/api/services?approved=true&featured=true&pageSize=3");
+      const data = await res.json();
+      return data.items;
     },
   });
 
@@ -0,0 +1,330 @@
+import { useEffect, useRef, useState } from "react";
+import Navbar from "@/components/navbar";
+import Footer from "@/components/footer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { useRealtime } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { format, isToday } from "date-fns";
+import { es } from "date-fns/locale";
+import { MessageSquare, Send, CheckCheck } from "lucide-react";
+import type { ChatMessage, ConversationSummary } from "@shared/schema";
+
+const TYPING_TIMEOUT_MS = 4000;
+
+const messagesKey = (conversationId: number) => [`/api/conversations/${conversationId}/messages`];
+
+// Appends messages to a conversation's cached history, skipping ones already there
+const mergeIntoCache = (incoming: ChatMessage[]) => {
+  const byConversation = new Map<number, ChatMessage[]>();
+  incoming.forEach(message => {
+    byConversation.set(message.conversationId, [...(byConversation.get(message.conversationId) || []), message]);
+  });
+
+  byConversation.forEach((newMessages, conversationId) => {
+    queryClient.setQueryData<ChatMessage[]>(messagesKey(conversationId), (current) => {
+      if (!current) return current;
+      const known = new Set(current.map(message => message.id));
+      return [...current, ...newMessages.filter(message => !known.has(message.id))].sort((a, b) => a.id - b.id);
+    });
+  });
+};
+
+const formatTime = (date: Date | string) => {
+  const value = new Date(date);
+  return isToday(value) ? format(value, "HH:mm") : format(value, "dd/MM HH:mm", { locale: es });
+};
+
+export default function Messages() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const userId = user?.id.toString();
+  const searchParams = new URLSearchParams(window.location.search);
+  const newServiceId = searchParams.get('service') ? parseInt(searchParams.get('service')!) : null;
+
+  const [selectedId, setSelectedId] = useState<number | null>(
+    searchParams.get('conversation') ? parseInt(searchParams.get('conversation')!) : null
+  );
+  const [draft, setDraft] = useState("");
+  const [typing, setTyping] = useState<{ conversationId: number; until: number } | null>(null);
+  const lastSeenIdRef = useRef(0);
+  const lastTypingSentRef = useRef(0);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const { data: conversations, isLoading } = useQuery<ConversationSummary[]>({
+    queryKey: ["/api/conversations"],
+  });
+
+  // A ?service= link opens the existing conversation about that service, if any
+  const pendingService = newServiceId && !conversations?.some(c => c.serviceId === newServiceId && c.role === 'customer')
+    ? newServiceId
+    : null;
+
+  useEffect(() => {
+    if (!conversations || selectedId) return;
+    const existing = newServiceId ? conversations.find(c => c.serviceId === newServiceId && c.role === 'customer') : undefined;
+    if (existing) {
+      setSelectedId(existing.id);
+    } else if (!newServiceId && conversations.length > 0) {
+      setSelectedId(conversations[0].id);
+    }
+  }, [conversations, selectedId, newServiceId]);
+
+  const selected = conversations?.find(c => c.id === selectedId);
+
+  const { data: messages } = useQuery<ChatMessage[]>({
+    queryKey: selectedId ? messagesKey(selectedId) : ["/api/conversations/none/messages"],
+    enabled: !!selectedId,
+  });
+
+  useEffect(() => {
+    messages?.forEach(message => {
+      lastSeenIdRef.current = Math.max(lastSeenIdRef.current, message.id);
+    });
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const refreshConversations = () => queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+
+  const { send } = useRealtime((event) => {
+    switch (event.type) {
+      case 'connected':
+        // Catch up on whatever arrived while this tab was offline
+        if (lastSeenIdRef.current > 0) {
+          fetch(`/api/chat/sync?since=${lastSeenIdRef.current}`, { credentials: "include" })
+            .then(res => (res.ok ? res.json() : []))
+            .then((missed: ChatMessage[]) => {
+              if (missed.length > 0) {
+                mergeIntoCache(missed);
+                refreshConversations();
+              }
+            });
+        }
+        break;
+      case 'chat_message':
+        lastSeenIdRef.current = Math.max(lastSeenIdRef.current, event.data.id);
+        mergeIntoCache([event.data]);
+        if (event.data.senderId !== userId) setTyping(null);
+        refreshConversations();
+        break;
+      case 'chat_typing':
+        setTyping(event.data.isTyping
+          ? { conversationId: event.data.conversationId, until: Date.now() + TYPING_TIMEOUT_MS }
+          : null);
+        break;
+      case 'chat_read':
+        queryClient.setQueryData<ConversationSummary[]>(["/api/conversations"], (current) => current?.map(c =>
+          c.id === event.data.conversationId && c.otherParticipant
+            ? { ...c, otherParticipant: { ...c.otherParticipant, lastReadMessageId: event.data.lastReadMessageId } }
+            : c
+        ));
+        break;
+    }
+  }, !!user);
+
+  // Hide a stale typing indicator if the "stopped typing" event never arrives
+  useEffect(() => {
+    if (!typing) return;
+    const timer = setTimeout(() => setTyping(null), Math.max(typing.until - Date.now(), 0));
+    return () => clearTimeout(timer);
+  }, [typing]);
+
+  // Mark the open conversation as read up to its newest message from the other side
+  useEffect(() => {
+    if (!selected || !messages || messages.length === 0 || selected.unreadCount === 0) return;
+    const newest = messages[messages.length - 1];
+    if (!send({ type: 'chat_read', conversationId: selected.id, messageId: newest.id })) {
+      apiRequest("POST", `/api/conversations/${selected.id}/read`, { messageId: newest.id });
+    }
+    queryClient.setQueryData<ConversationSummary[]>(["/api/conversations"], (current) => current?.map(c =>
+      c.id === selected.id ? { ...c, unreadCount: 0 } : c
+    ));
+  }, [selected?.id, selected?.unreadCount, messages, send]);
+
+  const sendMutation = useMutation({
+    mutationFn: async (body: string) => {
+      if (pendingService && !selectedId) {
+        const res = await apiRequest("POST", "/api/conversations", { serviceId: pendingService, body });
+        const { conversation } = await res.json();
+        setSelectedId(conversation.id);
+        return;
+      }
+
+      if (!send({ type: 'chat_send', conversationId: selectedId, body })) {
+        const res = await apiRequest("POST", `/api/conversations/${selectedId}/messages`, { body });
+        mergeIntoCache([await res.json()]);
+      }
+    },
+    onSuccess: () => {
+      setDraft("");
+      refreshConversations();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo enviar el mensaje",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    if (selectedId && Date.now() - lastTypingSentRef.current > TYPING_TIMEOUT_MS / 2) {
+      lastTypingSentRef.current = Date.now();
+      send({ type: 'chat_typing', conversationId: selectedId, isTyping: true });
+    }
+  };
+
+  const handleSend = () => {
+    const body = draft.trim();
+    if (!body) return;
+    if (selectedId) {
+      lastTypingSentRef.current = 0;
+      send({ type: 'chat_typing', conversationId: selectedId, isTyping: false });
+    }
+    sendMutation.mutate(body);
+  };
+
+  const otherReadUpTo = selected?.otherParticipant?.lastReadMessageId || 0;
+  const lastOwnMessage = messages?.filter(message => message.senderId === userId).pop();
+  const showComposer = !!selected || (!!pendingService && !selectedId);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <section className="py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <h1 className="text-3xl font-bold text-foreground mb-6">Mensajes</h1>
+
+          <div className="flex flex-col lg:flex-row gap-6">
+            {/* Conversation list */}
+            <Card className="lg:w-80">
+              <CardContent className="p-2">
+                {isLoading ? (
+                  <div className="space-y-2 animate-pulse p-2">
+                    {Array.from({ length: 4 }).map((_, i) => (
+                      <div key={i} className="h-14 bg-muted rounded"></div>
+                    ))}
+                  </div>
+                ) : conversations && conversations.length > 0 ? (
+                  <div className="space-y-1">
+                    {conversations.map((conversation) => (
+                      <button
+                        key={conversation.id}
+                        type="button"
+                        onClick={() => setSelectedId(conversation.id)}
+                        className={`w-full text-left p-3 rounded-md flex items-start gap-3 transition-colors ${
+                          conversation.id === selectedId ? "bg-primary/10" : "hover:bg-muted"
+                        }`}
+                      >
+                        <Avatar className="h-9 w-9">
+                          <AvatarFallback className="bg-primary/10 text-primary text-xs">
+                            {(conversation.otherParticipant?.name || 'U').substring(0, 2).toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium text-foreground truncate">
+                              {conversation.otherParticipant?.name || 'Usuario'}
+                            </span>
+                            {conversation.unreadCount > 0 && (
+                              <Badge className="h-5 px-1.5">{conversation.unreadCount}</Badge>
+                            )}
+                          </div>
+                          <div className="text-xs text-muted-foreground truncate">{conversation.serviceTitle}</div>
+                          {conversation.lastMessage && (
+                            <div className="text-sm text-muted-foreground truncate">{conversation.lastMessage.body}</div>
+                          )}
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-8 px-4">
+                    Aún no tienes conversaciones. Escríbele a un proveedor desde la página de su servicio.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Thread */}
+            <Card className="flex-1 flex flex-col min-h-[500px]">
+              {showComposer ? (
+                <>
+                  <CardHeader className="border-b border-border">
+                    <CardTitle className="text-lg">
+                      {selected ? selected.otherParticipant?.name || 'Usuario' : 'Nueva conversación'}
+                    </CardTitle>
+                    {selected && (
+                      <p className="text-sm text-muted-foreground">{selected.serviceTitle}</p>
+                    )}
+                  </CardHeader>
+                  <CardContent className="flex-1 overflow-y-auto max-h-[60vh] p-4 space-y-3">
+                    {messages?.map((message) => {
+                      const isOwn = message.senderId === userId;
+                      return (
+                        <div key={message.id} className={`flex ${isOwn ? "justify-end" : "justify-start"}`}>
+                          <div className={`max-w-[75%] rounded-lg px-3 py-2 ${isOwn ? "bg-primary text-primary-foreground" : "bg-muted text-foreground"}`}>
+                            <p className="whitespace-pre-line break-words">{message.body}</p>
+                            <div className={`text-xs mt-1 flex items-center gap-1 ${isOwn ? "text-primary-foreground/70 justify-end" : "text-muted-foreground"}`}>
+                              {formatTime(message.createdAt)}
+                              {isOwn && message.id === lastOwnMessage?.id && otherReadUpTo >= message.id && (
+                                <span className="flex items-center gap-0.5">
+                                  <CheckCheck className="w-3 h-3" />
+                                  Visto
+                                </span>
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    })}
+                    {typing && typing.conversationId === selectedId && (
+                      <div className="text-sm text-muted-foreground italic">
+                        {selected?.otherParticipant?.name || 'El otro usuario'} está escribiendo...
+                      </div>
+                    )}
+                    <div ref={bottomRef} />
+                  </CardContent>
+                  <div className="border-t border-border p-4 flex gap-2">
+                    <Textarea
+                      placeholder="Escribe un mensaje..."
+                      className="min-h-[44px] max-h-32"
+                      value={draft}
+                      maxLength={4000}
+                      onChange={(e) => handleDraftChange(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSend();
+                        }
+                      }}
+                    />
+                    <Button className="btn-primary" onClick={handleSend} disabled={!draft.trim() || sendMutation.isPending}>
+                      <Send className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <CardContent className="flex-1 flex flex-col items-center justify-center text-muted-foreground">
+                  <MessageSquare className="w-10 h-10 mb-3" />
+                  Selecciona una conversación
+                </CardContent>
+              )}
+            </Card>
+          </div>
+        </div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+}
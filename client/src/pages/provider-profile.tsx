@@ -0,0 +1,219 @@
+import { useEffect } from "react";
+import Navbar from "@/components/navbar";
+import Footer from "@/components/footer";
+import ServiceCard from "@/components/service-card";
+import FavoriteButton from "@/components/favorite-button";
+import { StarRating } from "@/components/review-list";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { BadgeCheck, Briefcase, Calendar, Globe, Mail, MapPin, Phone } from "lucide-react";
+import { providerPath, type ProviderPublicProfile } from "@shared/schema";
+
+const socialLabels: Record<string, string> = {
+  website: "Sitio web",
+  facebook: "Facebook",
+  instagram: "Instagram",
+  whatsapp: "WhatsApp",
+};
+
+const socialHref = (network: string, value: string) =>
+  network === "whatsapp" ? `https://wa.me/${value.replace(/^\+/, "")}` : value;
+
+export default function ProviderProfile() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data, isLoading } = useQuery<ProviderPublicProfile>({
+    queryKey: [`/api/providers/${id}`],
+  });
+
+  // Links by user id end up on the canonical address
+  useEffect(() => {
+    if (data && window.location.pathname !== providerPath(data.provider)) {
+      window.history.replaceState({}, '', providerPath(data.provider));
+    }
+  }, [data]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-pulse space-y-6">
+          <div className="flex items-center gap-4">
+            <div className="w-20 h-20 bg-muted rounded-full"></div>
+            <div className="h-8 bg-muted rounded w-1/3"></div>
+          </div>
+          <div className="h-4 bg-muted rounded w-full"></div>
+          <div className="h-4 bg-muted rounded w-2/3"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+          <h1 className="text-3xl font-bold text-foreground mb-4">
+            Proveedor no encontrado
+          </h1>
+          <p className="text-muted-foreground mb-8">
+            Es posible que el perfil ya no esté disponible o que el enlace sea incorrecto.
+          </p>
+          <Button asChild>
+            <Link href="/services">Ver todos los servicios</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const { provider, services, ratingSummary } = data;
+  const name = provider.displayName || provider.fullName || provider.username;
+  const socialLinks = Object.entries(provider.socialLinks).filter(([, value]) => !!value) as [string, string][];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      {/* Header Section */}
+      <section className="bg-gradient-to-br from-primary/5 via-background to-secondary/5 py-12">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex flex-col sm:flex-row sm:items-center gap-6">
+            <Avatar className="h-24 w-24">
+              {provider.photoUrl && <AvatarImage src={provider.photoUrl} alt={name} />}
+              <AvatarFallback className="bg-primary/10 text-primary text-2xl">
+                {name.substring(0, 2).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div>
+              <div className="flex flex-wrap items-center gap-3 mb-2">
+                <h1 className="text-3xl lg:text-4xl font-bold text-foreground">{name}</h1>
+                {provider.isVerified && (
+                  <Badge className="flex items-center gap-1">
+                    <BadgeCheck className="w-4 h-4" />
+                    Verificado
+                  </Badge>
+                )}
+                <FavoriteButton target={{ providerId: provider.id.toString() }} ownerId={provider.id.toString()} />
+              </div>
+              <div className="flex flex-wrap items-center gap-6 text-muted-foreground">
+                <div className="flex items-center space-x-2">
+                  <StarRating rating={ratingSummary.average} />
+                  <span className="font-medium text-foreground">
+                    {ratingSummary.count > 0 ? ratingSummary.average.toFixed(1) : 'Sin calificaciones'}
+                  </span>
+                  <span>({ratingSummary.count} reseñas)</span>
+                </div>
+                {provider.yearsOfExperience != null && (
+                  <div className="flex items-center">
+                    <Briefcase className="w-4 h-4 mr-1" />
+                    {provider.yearsOfExperience} años de experiencia
+                  </div>
+                )}
+                <div className="flex items-center">
+                  <Calendar className="w-4 h-4 mr-1" />
+                  En ServiLocal desde {format(new Date(provider.createdAt), "MMMM yyyy", { locale: es })}
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <section className="py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex flex-col lg:flex-row gap-8">
+            {/* Services */}
+            <div className="flex-1 space-y-6">
+              {provider.bio && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Sobre mí</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-foreground whitespace-pre-line">{provider.bio}</p>
+                  </CardContent>
+                </Card>
+              )}
+
+              <div>
+                <h2 className="text-2xl font-semibold text-foreground mb-4">
+                  Servicios ({services.length})
+                </h2>
+                {services.length > 0 ? (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {services.map((service) => (
+                      <ServiceCard key={service.id} service={service} provider={provider} />
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground text-center py-8">
+                    Este proveedor aún no tiene servicios publicados.
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {/* Sidebar */}
+            <div className="lg:w-80 space-y-6">
+              {provider.serviceAreas.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <MapPin className="w-5 h-5 mr-2" />
+                      Zonas de servicio
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="flex flex-wrap gap-2">
+                    {provider.serviceAreas.map((area) => (
+                      <Badge key={area} variant="secondary">{area}</Badge>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
+              {(provider.email || provider.phone || socialLinks.length > 0) && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Contacto</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm">
+                    {provider.phone && (
+                      <div className="flex items-center text-muted-foreground">
+                        <Phone className="w-4 h-4 mr-2" />
+                        <a href={`tel:${provider.phone}`} className="hover:text-primary">{provider.phone}</a>
+                      </div>
+                    )}
+                    {provider.email && (
+                      <div className="flex items-center text-muted-foreground">
+                        <Mail className="w-4 h-4 mr-2" />
+                        <a href={`mailto:${provider.email}`} className="hover:text-primary">{provider.email}</a>
+                      </div>
+                    )}
+                    {socialLinks.map(([network, value]) => (
+                      <div key={network} className="flex items-center text-muted-foreground">
+                        <Globe className="w-4 h-4 mr-2" />
+                        <a href={socialHref(network, value)} target="_blank" rel="noopener noreferrer" className="hover:text-primary">
+                          {socialLabels[network] || network}
+                        </a>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,556 @@
+import { useState, useEffect } from "react";
+import Navbar from "@/components/navbar";
+import Footer from "@/components/footer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Separator } from "@/components/ui/separator";
+import { Progress } from "@/components/ui/progress";
+import ReviewList, { StarRating } from "@/components/review-list";
+import ServiceGallery from "@/components/service-gallery";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatSchedule } from "@/lib/availability";
+import { formatAttributeValue } from "@/lib/categories";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { ArrowLeft, Star, MapPin, Clock, Phone, Mail, Send, MessageSquare, CalendarPlus, BadgeCheck } from "lucide-react";
+import { effectiveAttributeDefinitions, servicePath, providerPath, type AvailableSlot, type Category, type ServiceDetail as ServiceDetailData } from "@shared/schema";
+
+const contactSchema = z.object({
+  senderName: z.string().min(1, "El nombre es requerido"),
+  senderEmail: z.string().email("Email inválido"),
+  message: z.string().min(10, "El mensaje debe tener al menos 10 caracteres"),
+});
+
+type ContactFormData = z.infer<typeof contactSchema>;
+
+const bookingSchema = z.object({
+  startsAt: z.string().min(1, "Elige una fecha y hora")
+    .refine((value) => new Date(value) > new Date(), "La fecha debe ser futura"),
+  notes: z.string().max(1000, "Máximo 1000 caracteres").optional(),
+});
+
+type BookingFormData = z.infer<typeof bookingSchema>;
+
+const formatPrice = (price: number) => {
+  return new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(price / 100);
+};
+
+export default function ServiceDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { user, isAuthenticated } = useAuth();
+
+  const { data: service, isLoading } = useQuery<ServiceDetailData>({
+    queryKey: [`/api/services/${id}`],
+  });
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  // Links by id (or an old slug) end up on the canonical address
+  useEffect(() => {
+    if (service && window.location.pathname !== servicePath(service)) {
+      window.history.replaceState({}, '', servicePath(service));
+    }
+  }, [service]);
+
+  const [slotDate, setSlotDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+
+  const { data: slotData, isLoading: slotsLoading } = useQuery<{ timezone: string; slots: AvailableSlot[] }>({
+    queryKey: [`/api/services/${service?.id}/slots?from=${slotDate}&to=${slotDate}`],
+    enabled: !!service?.availability,
+  });
+
+  const form = useForm<ContactFormData>({
+    resolver: zodResolver(contactSchema),
+    defaultValues: {
+      senderName: "",
+      senderEmail: "",
+      message: "",
+    },
+  });
+
+  const sendMessageMutation = useMutation({
+    mutationFn: async (data: ContactFormData) => {
+      return apiRequest("POST", "/api/messages", { ...data, serviceId: service!.id });
+    },
+    onSuccess: () => {
+      toast({
+        title: "¡Mensaje enviado!",
+        description: "El proveedor recibirá tu mensaje y te contactará pronto.",
+      });
+      form.reset();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo enviar el mensaje",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: ContactFormData) => {
+    sendMessageMutation.mutate(data);
+  };
+
+  const bookingForm = useForm<BookingFormData>({
+    resolver: zodResolver(bookingSchema),
+    defaultValues: {
+      startsAt: "",
+      notes: "",
+    },
+  });
+
+  const createBookingMutation = useMutation({
+    mutationFn: async (data: BookingFormData) => {
+      return apiRequest("POST", "/api/bookings", {
+        serviceId: service!.id,
+        startsAt: new Date(data.startsAt).toISOString(),
+        notes: data.notes || undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "¡Reserva solicitada!",
+        description: "El proveedor confirmará tu cita. Puedes seguirla desde tu panel.",
+      });
+      bookingForm.reset();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo solicitar la reserva",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onBookingSubmit = (data: BookingFormData) => {
+    createBookingMutation.mutate(data);
+  };
+
+  const isOwnService = !!user && service?.userId === user.id.toString();
+
+  const providerName = service?.provider?.displayName || service?.provider?.fullName || service?.provider?.username || 'Proveedor';
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12 animate-pulse space-y-6">
+          <div className="h-8 bg-muted rounded w-1/3"></div>
+          <div className="w-full h-64 bg-muted rounded-xl"></div>
+          <div className="h-4 bg-muted rounded w-full"></div>
+          <div className="h-4 bg-muted rounded w-2/3"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!service) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+          <h1 className="text-3xl font-bold text-foreground mb-4">
+            Servicio no encontrado
+          </h1>
+          <p className="text-muted-foreground mb-8">
+            Es posible que el servicio haya sido eliminado o que el enlace sea incorrecto.
+          </p>
+          <Button asChild>
+            <Link href="/services">Ver todos los servicios</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Fields of the service's category and the ones it inherits, in that order
+  const attributes = effectiveAttributeDefinitions(service.categoryId, categories ?? [])
+    .filter(definition => service.attributes[definition.key] !== undefined)
+    .map(definition => ({ definition, value: service.attributes[definition.key] }));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      {/* Header Section */}
+      <section className="bg-gradient-to-br from-primary/5 via-background to-secondary/5 py-12">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <Link href="/services" className="inline-flex items-center text-sm text-muted-foreground hover:text-primary mb-6">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Volver a servicios
+          </Link>
+
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            {service.category && (
+              <Badge variant="secondary" className="capitalize">
+                {service.category.name}
+              </Badge>
+            )}
+            {service.isFeatured && (
+              <Badge className="bg-accent text-accent-foreground">
+                Destacado
+              </Badge>
+            )}
+          </div>
+
+          <h1 className="text-3xl lg:text-4xl font-bold text-foreground mb-4">
+            {service.title}
+          </h1>
+
+          <div className="flex flex-wrap items-center gap-6 text-muted-foreground">
+            <div className="flex items-center space-x-2">
+              <StarRating rating={service.ratingSummary.average} />
+              <span className="font-medium text-foreground">
+                {service.ratingSummary.count > 0 ? service.ratingSummary.average.toFixed(1) : 'Sin calificaciones'}
+              </span>
+              <span>({service.ratingSummary.count} reseñas)</span>
+            </div>
+            {service.location && (
+              <div className="flex items-center">
+                <MapPin className="w-4 h-4 mr-1" />
+                {service.location}
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      <section className="py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex flex-col lg:flex-row gap-8">
+            {/* Main Content */}
+            <div className="flex-1 space-y-6">
+              {service.images.length > 0 && (
+                <ServiceGallery images={service.images} title={service.title} />
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Descripción</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-muted-foreground whitespace-pre-line">
+                    {service.description || 'El proveedor no ha agregado una descripción.'}
+                  </p>
+                </CardContent>
+              </Card>
+
+              {attributes.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Características</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+                      {attributes.map(({ definition, value }) => (
+                        <div key={definition.key}>
+                          <dt className="text-sm text-muted-foreground">{definition.label}</dt>
+                          <dd className="font-medium text-foreground">{formatAttributeValue(value)}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Reseñas</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {service.ratingSummary.count > 0 && (
+                    <div className="space-y-1 mb-6">
+                      {[5, 4, 3, 2, 1].map((stars) => {
+                        const count = service.ratingSummary.distribution[stars - 1];
+                        return (
+                          <div key={stars} className="flex items-center gap-3 text-sm">
+                            <span className="w-10 flex items-center gap-1 text-muted-foreground">
+                              {stars} <Star className="w-3 h-3 text-yellow-400 fill-current" />
+                            </span>
+                            <Progress value={(count / service.ratingSummary.count) * 100} className="h-2 flex-1" />
+                            <span className="w-8 text-right text-muted-foreground">{count}</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  <ReviewList serviceId={service.id} providerId={service.userId} />
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Sidebar */}
+            <div className="lg:w-96 space-y-6">
+              <Card>
+                <CardContent className="p-6 space-y-4">
+                  <div>
+                    <div className="text-sm text-muted-foreground">Desde</div>
+                    <div className="text-3xl font-bold text-primary">
+                      {service.price ? formatPrice(service.price) : 'Consultar'}
+                    </div>
+                  </div>
+
+                  {service.availability && (
+                    <div className="flex items-center text-sm text-muted-foreground">
+                      <Clock className="w-4 h-4 mr-2" />
+                      {formatSchedule(service.availability)}
+                    </div>
+                  )}
+                  {service.contactPhone && (
+                    <div className="flex items-center text-sm text-muted-foreground">
+                      <Phone className="w-4 h-4 mr-2" />
+                      <a href={`tel:${service.contactPhone}`} className="hover:text-primary">
+                        {service.contactPhone}
+                      </a>
+                    </div>
+                  )}
+                  {service.contactEmail && (
+                    <div className="flex items-center text-sm text-muted-foreground">
+                      <Mail className="w-4 h-4 mr-2" />
+                      <a href={`mailto:${service.contactEmail}`} className="hover:text-primary">
+                        {service.contactEmail}
+                      </a>
+                    </div>
+                  )}
+
+                  <Separator />
+
+                  <Link href={providerPath({ id: service.userId, slug: service.provider?.slug ?? null })} className="flex items-center space-x-3 group">
+                    <Avatar className="h-10 w-10">
+                      {service.provider?.photoUrl && (
+                        <AvatarImage src={service.provider.photoUrl} alt={providerName} />
+                      )}
+                      <AvatarFallback className="bg-primary/10 text-primary text-sm">
+                        {providerName.substring(0, 2).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <div className="font-medium text-foreground group-hover:text-primary flex items-center gap-1">
+                        {providerName}
+                        {service.provider?.isVerified && (
+                          <BadgeCheck className="w-4 h-4 text-primary" aria-label="Proveedor verificado" />
+                        )}
+                      </div>
+                      {service.provider?.createdAt && (
+                        <div className="text-xs text-muted-foreground">
+                          En ServiLocal desde {format(new Date(service.provider.createdAt), "MMMM yyyy", { locale: es })}
+                        </div>
+                      )}
+                    </div>
+                  </Link>
+                </CardContent>
+              </Card>
+
+              {!isOwnService && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center">
+                      <CalendarPlus className="w-5 h-5 mr-2" />
+                      Reservar una cita
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {isAuthenticated ? (
+                      <Form {...bookingForm}>
+                        <form onSubmit={bookingForm.handleSubmit(onBookingSubmit)} className="space-y-4">
+                          <FormField
+                            control={bookingForm.control}
+                            name="startsAt"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Fecha y hora</FormLabel>
+                                {service.availability ? (
+                                  <div className="space-y-3">
+                                    <Input
+                                      type="date"
+                                      value={slotDate}
+                                      min={format(new Date(), "yyyy-MM-dd")}
+                                      onChange={(e) => {
+                                        setSlotDate(e.target.value);
+                                        field.onChange("");
+                                      }}
+                                    />
+                                    {slotsLoading ? (
+                                      <div className="h-10 bg-muted rounded animate-pulse"></div>
+                                    ) : slotData && slotData.slots.length > 0 ? (
+                                      <div className="grid grid-cols-3 gap-2">
+                                        {slotData.slots.map((slot) => (
+                                          <Button
+                                            key={slot.startsAt}
+                                            type="button"
+                                            size="sm"
+                                            variant={field.value === slot.startsAt ? "default" : "outline"}
+                                            onClick={() => field.onChange(slot.startsAt)}
+                                          >
+                                            {format(new Date(slot.startsAt), "HH:mm")}
+                                          </Button>
+                                        ))}
+                                      </div>
+                                    ) : (
+                                      <p className="text-sm text-muted-foreground">
+                                        No hay horarios libres ese día.
+                                      </p>
+                                    )}
+                                  </div>
+                                ) : (
+                                  <FormControl>
+                                    <Input type="datetime-local" {...field} />
+                                  </FormControl>
+                                )}
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <FormField
+                            control={bookingForm.control}
+                            name="notes"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Notas (opcional)</FormLabel>
+                                <FormControl>
+                                  <Textarea placeholder="Detalles para el proveedor..." {...field} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+
+                          <Button
+                            type="submit"
+                            className="w-full btn-primary"
+                            disabled={createBookingMutation.isPending}
+                          >
+                            {createBookingMutation.isPending ? (
+                              <div className="loading-spinner mr-2" />
+                            ) : (
+                              <CalendarPlus className="w-4 h-4 mr-2" />
+                            )}
+                            Solicitar Reserva
+                          </Button>
+                        </form>
+                      </Form>
+                    ) : (
+                      <div className="text-center space-y-3">
+                        <p className="text-sm text-muted-foreground">
+                          Inicia sesión para reservar una cita con este proveedor.
+                        </p>
+                        <Button className="w-full" variant="outline" asChild>
+                          <a href="/api/login">Iniciar Sesión</a>
+                        </Button>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <MessageSquare className="w-5 h-5 mr-2" />
+                    Contactar al proveedor
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {isAuthenticated && !isOwnService && (
+                    <Button className="w-full mb-4" variant="outline" asChild>
+                      <Link href={`/messages?service=${service.id}`}>
+                        <MessageSquare className="w-4 h-4 mr-2" />
+                        Chatear con el proveedor
+                      </Link>
+                    </Button>
+                  )}
+                  <Form {...form}>
+                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                      <FormField
+                        control={form.control}
+                        name="senderName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Nombre</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Tu nombre" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="senderEmail"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Email</FormLabel>
+                            <FormControl>
+                              <Input type="email" placeholder="tu@email.com" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="message"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Mensaje</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                placeholder="Cuéntale al proveedor qué necesitas..."
+                                className="min-h-[100px]"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <Button
+                        type="submit"
+                        className="w-full btn-primary"
+                        disabled={sendMessageMutation.isPending}
+                      >
+                        {sendMessageMutation.isPending ? (
+                          <div className="loading-spinner mr-2" />
+                        ) : (
+                          <Send className="w-4 h-4 mr-2" />
+                        )}
+                        Enviar Mensaje
+                      </Button>
+                    </form>
+                  </Form>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      <Footer />
+    </div>
+  );
+}
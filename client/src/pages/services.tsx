@@ -3,6 +3,8 @@ import Navbar from "@/components/navbar";
 import Footer from "@/components/footer";
 import SearchBar from "@/components/search-bar";
 import ServiceCard from "@/components/service-card";
+import AttributeFilters, { appendAttributeParams, type AttributeFilterValues } from "@/components/attribute-filters";
+import SaveSearchDialog from "@/components/save-search-dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -10,13 +12,44 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
 import { useQuery } from "@tanstack/react-query";
-import { useLocation } from "wouter";
-import { Filter, SlidersHorizontal, X, MapPin, DollarSign } from "lucide-react";
-import type { Service, Category } from "@shared/schema";
+import { useGeolocation } from "@/hooks/use-geolocation";
+import { useToast } from "@/hooks/use-toast";
+import { useLocations } from "@/hooks/use-locations";
+import { useAuth } from "@/hooks/useAuth";
+import { flattenCategories } from "@/lib/categories";
+import { toSavedSearchFilters } from "@/lib/saved-searches";
+import { useLocation, useParams } from "wouter";
+import { Filter, SlidersHorizontal, X, MapPin, DollarSign, Clock, LocateFixed } from "lucide-react";
+import { effectiveAttributeDefinitions, type ServiceListItem, type Category, type PaginatedResult } from "@shared/schema";
+
+const PAGE_SIZE = 24;
+
+// First, last and the pages around the current one; null marks a gap
+const getPageNumbers = (current: number, total: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let i = 1; i <= total; i++) {
+    if (i === 1 || i === total || Math.abs(i - current) <= 1) {
+      pages.push(i);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
 
 export default function Services() {
   const [location, setLocation] = useLocation();
+  const { slug: categorySlug } = useParams<{ slug?: string }>();
   const [searchParams, setSearchParams] = useState(new URLSearchParams(window.location.search));
   const [showFilters, setShowFilters] = useState(false);
   const [localFilters, setLocalFilters] = useState({
@@ -25,74 +58,107 @@ export default function Services() {
     location: searchParams.get('location') || '',
     minPrice: '',
     maxPrice: '',
-    sortBy: 'recent'
+    available: '',
+    radiusKm: '',
+    attributes: {} as AttributeFilterValues,
+    sortBy: 'relevance'
   });
+  const [page, setPage] = useState(1);
+  const { position, status: geolocationStatus, requestPosition, clearPosition } = useGeolocation();
+  const { toast } = useToast();
+  const { options: locationOptions } = useLocations();
+  const { isAuthenticated } = useAuth();
 
   const { data: categories } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
   });
+  const selectedCategory = categories?.find(c => c.id.toString() === localFilters.categoryId);
+
+  // On /categories/<slug> the category is only known once the list has loaded
+  const [pendingCategorySlug, setPendingCategorySlug] = useState(categorySlug);
+  useEffect(() => {
+    // A link to another category page while this one is open
+    if (categorySlug && categorySlug !== selectedCategory?.slug) setPendingCategorySlug(categorySlug);
+  }, [categorySlug]);
+  useEffect(() => {
+    if (!pendingCategorySlug || !categories) return;
+    const category = categories.find(c => c.slug === pendingCategorySlug);
+    setLocalFilters(prev => ({ ...prev, categoryId: category ? category.id.toString() : '', attributes: {} }));
+    setPendingCategorySlug(undefined);
+  }, [pendingCategorySlug, categories]);
 
-  const { data: services, isLoading, refetch } = useQuery<Service[]>({
-    queryKey: ["/api/services", localFilters],
+  const { data: servicesPage, isLoading } = useQuery<PaginatedResult<ServiceListItem>>({
+    queryKey: ["/api/services", localFilters, position, page],
     queryFn: async () => {
       const params = new URLSearchParams();
       if (localFilters.search) params.set('search', localFilters.search);
-      if (localFilters.categoryId) params.set('categoryId', localFilters.categoryId);
-      if (localFilters.location) params.set('location', localFilters.location);
-      params.set('approved', 'true');
-      
-      const res = await fetch(`/api/services?${params.toString()}`);
-      const data = await res.json();
-      
-      // Apply client-side filtering for price range
-      let filtered = data;
-      if (localFilters.minPrice) {
-        const minPrice = parseInt(localFilters.minPrice) * 100; // Convert to cents
-        filtered = filtered.filter((s: Service) => !s.price || s.price >= minPrice);
+      if (localFilters.categoryId) {
+        params.set('categoryId', localFilters.categoryId);
+        appendAttributeParams(params, localFilters.attributes);
       }
-      if (localFilters.maxPrice) {
-        const maxPrice = parseInt(localFilters.maxPrice) * 100; // Convert to cents
-        filtered = filtered.filter((s: Service) => !s.price || s.price <= maxPrice);
-      }
-      
-      // Apply sorting
-      if (localFilters.sortBy === 'price-low') {
-        filtered.sort((a: Service, b: Service) => (a.price || 0) - (b.price || 0));
-      } else if (localFilters.sortBy === 'price-high') {
-        filtered.sort((a: Service, b: Service) => (b.price || 0) - (a.price || 0));
-      } else if (localFilters.sortBy === 'rating') {
-        filtered.sort((a: Service, b: Service) => Number(b.rating || 0) - Number(a.rating || 0));
+      if (localFilters.location) params.set('locationId', localFilters.location);
+      // Prices are entered in pesos and filtered in cents
+      if (localFilters.minPrice) params.set('minPrice', (parseInt(localFilters.minPrice) * 100).toString());
+      if (localFilters.maxPrice) params.set('maxPrice', (parseInt(localFilters.maxPrice) * 100).toString());
+      if (localFilters.available) params.set('available', localFilters.available);
+      if (position) {
+        params.set('near', `${position.latitude},${position.longitude}`);
+        if (localFilters.radiusKm) params.set('radiusKm', localFilters.radiusKm);
       }
+      params.set('sortBy', localFilters.sortBy);
+      params.set('approved', 'true');
+      params.set('page', page.toString());
+      params.set('pageSize', PAGE_SIZE.toString());
       
-      return filtered;
+      const res = await fetch(`/api/services?${params.toString()}`);
+      return await res.json();
     },
+    enabled: !pendingCategorySlug,
   });
 
-  // Update URL when filters change
+  const categoryOptions = flattenCategories(categories ?? []);
+  // Filters for the fields of the chosen category and the ones it inherits
+  const attributeDefinitions = localFilters.categoryId
+    ? effectiveAttributeDefinitions(parseInt(localFilters.categoryId), categories ?? []).filter(definition => definition.filterable)
+    : [];
+
+  const services = servicesPage?.items;
+  const totalPages = servicesPage ? Math.max(Math.ceil(servicesPage.total / servicesPage.pageSize), 1) : 1;
+
+  // Back to the first page whenever the filters change
   useEffect(() => {
+    setPage(1);
+  }, [localFilters]);
+
+  // Update URL when filters change; a category with a slug gets its own page
+  useEffect(() => {
+    if (pendingCategorySlug) return;
     const params = new URLSearchParams();
     if (localFilters.search) params.set('search', localFilters.search);
-    if (localFilters.categoryId) params.set('category', localFilters.categoryId);
+    if (localFilters.categoryId && !selectedCategory?.slug) params.set('category', localFilters.categoryId);
     if (localFilters.location) params.set('location', localFilters.location);
     
-    const newUrl = params.toString() ? `/services?${params.toString()}` : '/services';
+    const path = selectedCategory?.slug ? `/categories/${selectedCategory.slug}` : '/services';
+    const newUrl = params.toString() ? `${path}?${params.toString()}` : path;
     if (newUrl !== location) {
       window.history.replaceState({}, '', newUrl);
     }
-  }, [localFilters.search, localFilters.categoryId, localFilters.location, location]);
+  }, [localFilters.search, localFilters.categoryId, localFilters.location, location, selectedCategory, pendingCategorySlug]);
 
-  const handleSearch = (query: string, searchLocation: string) => {
+  const handleSearch = (query: string, locationId: string) => {
     setLocalFilters(prev => ({
       ...prev,
       search: query,
-      location: searchLocation === 'cucuta' ? '' : searchLocation
+      location: locationId
     }));
   };
 
   const handleFilterChange = (key: string, value: string) => {
     setLocalFilters(prev => ({
       ...prev,
-      [key]: value
+      [key]: value,
+      // Each category has its own fields
+      ...(key === 'categoryId' ? { attributes: {} } : {}),
     }));
   };
 
@@ -103,10 +169,36 @@ export default function Services() {
       location: '',
       minPrice: '',
       maxPrice: '',
-      sortBy: 'recent'
+      available: '',
+      radiusKm: '',
+      attributes: {},
+      sortBy: 'relevance'
     });
   };
 
+  const handleUseMyLocation = async () => {
+    const point = await requestPosition();
+    if (point) {
+      handleFilterChange('sortBy', 'distance');
+    } else {
+      toast({
+        title: "No pudimos obtener tu ubicación",
+        description: "Revisa los permisos de ubicación de tu navegador.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Distance filters and sorting only make sense while the location is shared
+  const handleForgetLocation = () => {
+    clearPosition();
+    setLocalFilters(prev => ({
+      ...prev,
+      radiusKm: '',
+      sortBy: prev.sortBy === 'distance' ? 'relevance' : prev.sortBy,
+    }));
+  };
+
   const getCategoryName = (categoryId: string) => {
     const category = categories?.find(c => c.id.toString() === categoryId);
     return category?.name || '';
@@ -117,7 +209,10 @@ export default function Services() {
     localFilters.categoryId,
     localFilters.location,
     localFilters.minPrice,
-    localFilters.maxPrice
+    localFilters.maxPrice,
+    localFilters.available,
+    position && localFilters.radiusKm,
+    ...Object.keys(localFilters.attributes)
   ].filter(Boolean).length;
 
   return (
@@ -136,7 +231,10 @@ export default function Services() {
             </p>
           </div>
 
-          <SearchBar onSearch={handleSearch} />
+          <SearchBar
+            onSearch={handleSearch}
+            onCategorySelect={(categoryId) => handleFilterChange('categoryId', categoryId.toString())}
+          />
         </div>
       </section>
 
@@ -179,15 +277,27 @@ export default function Services() {
                           </SelectTrigger>
                           <SelectContent>
                             <SelectItem value="">Todas las categorías</SelectItem>
-                            {categories?.map((category) => (
+                            {categoryOptions.map((category) => (
                               <SelectItem key={category.id} value={category.id.toString()}>
-                                {category.name}
+                                {/* Indented under their parent category */}
+                                <span style={{ paddingLeft: `${category.depth * 0.75}rem` }}>{category.name}</span>
                               </SelectItem>
                             ))}
                           </SelectContent>
                         </Select>
                       </div>
 
+                      {attributeDefinitions.length > 0 && (
+                        <div>
+                          <Label className="text-sm font-medium mb-3 block">Características</Label>
+                          <AttributeFilters
+                            definitions={attributeDefinitions}
+                            value={localFilters.attributes}
+                            onChange={(attributes) => setLocalFilters(prev => ({ ...prev, attributes }))}
+                          />
+                        </div>
+                      )}
+
                       <Separator />
 
                       {/* Location Filter */}
@@ -202,15 +312,62 @@ export default function Services() {
                           </SelectTrigger>
                           <SelectContent>
                             <SelectItem value="">Todas las ubicaciones</SelectItem>
-                            <SelectItem value="cucuta">Cúcuta</SelectItem>
-                            <SelectItem value="los-patios">Los Patios</SelectItem>
-                            <SelectItem value="villa-del-rosario">Villa del Rosario</SelectItem>
+                            {locationOptions
+                              .filter(option => option.level !== 'department')
+                              .map((option) => (
+                                <SelectItem key={option.id} value={option.id.toString()}>
+                                  {/* Indented under their municipality */}
+                                  <span style={{ paddingLeft: `${(option.depth - 1) * 0.75}rem` }}>{option.name}</span>
+                                </SelectItem>
+                              ))}
                           </SelectContent>
                         </Select>
                       </div>
 
                       <Separator />
 
+                      {/* Distance */}
+                      <div>
+                        <Label className="text-sm font-medium mb-3 block">Cerca de mí</Label>
+                        {position ? (
+                          <div className="space-y-3">
+                            <Select
+                              value={localFilters.radiusKm}
+                              onValueChange={(value) => handleFilterChange('radiusKm', value)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Cualquier distancia" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="">Cualquier distancia</SelectItem>
+                                <SelectItem value="2">Hasta 2 km</SelectItem>
+                                <SelectItem value="5">Hasta 5 km</SelectItem>
+                                <SelectItem value="10">Hasta 10 km</SelectItem>
+                                <SelectItem value="25">Hasta 25 km</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Button variant="ghost" size="sm" className="w-full" onClick={handleForgetLocation}>
+                              <X className="w-4 h-4 mr-2" />
+                              Dejar de usar mi ubicación
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            className="w-full"
+                            disabled={geolocationStatus === 'locating'}
+                            onClick={handleUseMyLocation}
+                          >
+                            {geolocationStatus === 'locating'
+                              ? <div className="loading-spinner mr-2" />
+                              : <LocateFixed className="w-4 h-4 mr-2" />}
+                            Usar mi ubicación
+                          </Button>
+                        )}
+                      </div>
+
+                      <Separator />
+
                       {/* Price Range */}
                       <div>
                         <Label className="text-sm font-medium mb-3 block">Rango de Precios (COP)</Label>
@@ -238,6 +395,26 @@ export default function Services() {
 
                       <Separator />
 
+                      {/* Availability */}
+                      <div>
+                        <Label className="text-sm font-medium mb-3 block">Disponibilidad</Label>
+                        <Select
+                          value={localFilters.available}
+                          onValueChange={(value) => handleFilterChange('available', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Cualquier momento" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="">Cualquier momento</SelectItem>
+                            <SelectItem value="today">Disponible hoy</SelectItem>
+                            <SelectItem value="weekend">Este fin de semana</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+
+                      <Separator />
+
                       {/* Sort Options */}
                       <div>
                         <Label className="text-sm font-medium mb-3 block">Ordenar por</Label>
@@ -249,10 +426,13 @@ export default function Services() {
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
+                            <SelectItem value="relevance">Más relevantes</SelectItem>
+                            {position && <SelectItem value="distance">Más cercanos</SelectItem>}
                             <SelectItem value="recent">Más recientes</SelectItem>
+                            <SelectItem value="featured">Destacados primero</SelectItem>
                             <SelectItem value="rating">Mejor calificados</SelectItem>
-                            <SelectItem value="price-low">Precio: menor a mayor</SelectItem>
-                            <SelectItem value="price-high">Precio: mayor a menor</SelectItem>
+                            <SelectItem value="price_asc">Precio: menor a mayor</SelectItem>
+                            <SelectItem value="price_desc">Precio: mayor a menor</SelectItem>
                           </SelectContent>
                         </Select>
                       </div>
@@ -303,13 +483,43 @@ export default function Services() {
                     {localFilters.location && (
                       <Badge variant="secondary" className="gap-2">
                         <MapPin className="w-3 h-3" />
-                        {localFilters.location}
+                        {locationOptions.find(option => option.id.toString() === localFilters.location)?.label ?? localFilters.location}
                         <X 
                           className="w-3 h-3 cursor-pointer" 
                           onClick={() => handleFilterChange('location', '')}
                         />
                       </Badge>
                     )}
+                    {localFilters.available && (
+                      <Badge variant="secondary" className="gap-2">
+                        <Clock className="w-3 h-3" />
+                        {localFilters.available === 'today' ? 'Disponible hoy' : 'Este fin de semana'}
+                        <X 
+                          className="w-3 h-3 cursor-pointer" 
+                          onClick={() => handleFilterChange('available', '')}
+                        />
+                      </Badge>
+                    )}
+                    {position && localFilters.radiusKm && (
+                      <Badge variant="secondary" className="gap-2">
+                        <LocateFixed className="w-3 h-3" />
+                        Hasta {localFilters.radiusKm} km
+                        <X 
+                          className="w-3 h-3 cursor-pointer" 
+                          onClick={() => handleFilterChange('radiusKm', '')}
+                        />
+                      </Badge>
+                    )}
+                    {Object.keys(localFilters.attributes).length > 0 && (
+                      <Badge variant="secondary" className="gap-2">
+                        <SlidersHorizontal className="w-3 h-3" />
+                        {Object.keys(localFilters.attributes).length} característica(s)
+                        <X 
+                          className="w-3 h-3 cursor-pointer" 
+                          onClick={() => setLocalFilters(prev => ({ ...prev, attributes: {} }))}
+                        />
+                      </Badge>
+                    )}
                     {(localFilters.minPrice || localFilters.maxPrice) && (
                       <Badge variant="secondary" className="gap-2">
                         <DollarSign className="w-3 h-3" />
@@ -331,24 +541,39 @@ export default function Services() {
               <div className="flex items-center justify-between mb-6">
                 <div>
                   <h2 className="text-xl font-semibold text-foreground">
-                    {isLoading ? 'Cargando...' : `${services?.length || 0} servicios encontrados`}
+                    {isLoading ? 'Cargando...' : `${servicesPage?.total || 0} servicios encontrados`}
                   </h2>
                 </div>
                 
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setShowFilters(!showFilters)}
-                  className="lg:hidden"
-                >
-                  <Filter className="w-4 h-4 mr-2" />
-                  Filtros
-                  {activeFiltersCount > 0 && (
-                    <Badge variant="secondary" className="ml-2 text-xs">
-                      {activeFiltersCount}
-                    </Badge>
+                <div className="flex items-center gap-2">
+                  {/* Alerts for services published later that match these filters */}
+                  {isAuthenticated && (
+                    <SaveSearchDialog
+                      filters={toSavedSearchFilters(localFilters, position)}
+                      defaultName={
+                        localFilters.search
+                        || getCategoryName(localFilters.categoryId)
+                        || locationOptions.find(option => option.id.toString() === localFilters.location)?.label
+                        || 'Mi búsqueda'
+                      }
+                    />
                   )}
-                </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowFilters(!showFilters)}
+                    className="lg:hidden"
+                  >
+                    <Filter className="w-4 h-4 mr-2" />
+                    Filtros
+                    {activeFiltersCount > 0 && (
+                      <Badge variant="secondary" className="ml-2 text-xs">
+                        {activeFiltersCount}
+                      </Badge>
+                    )}
+                  </Button>
+                </div>
               </div>
 
               {/* Services Grid */}
@@ -369,18 +594,65 @@ export default function Services() {
                   ))}
                 </div>
               ) : services && services.length > 0 ? (
-                <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-6">
-                  {services.map((service) => {
-                    const category = categories?.find(c => c.id === service.categoryId);
-                    return (
-                      <ServiceCard 
-                        key={service.id} 
-                        service={service}
-                        category={category}
-                      />
-                    );
-                  })}
-                </div>
+                <>
+                  <div className="grid md:grid-cols-2 xl:grid-cols-3 gap-6">
+                    {services.map((service) => {
+                      const category = categories?.find(c => c.id === service.categoryId);
+                      return (
+                        <ServiceCard 
+                          key={service.id} 
+                          service={service}
+                          category={category}
+                        />
+                      );
+                    })}
+                  </div>
+
+                  {totalPages > 1 && (
+                    <Pagination className="mt-8">
+                      <PaginationContent>
+                        <PaginationItem>
+                          <PaginationPrevious
+                            href="#"
+                            className={page === 1 ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              setPage(p => Math.max(p - 1, 1));
+                            }}
+                          />
+                        </PaginationItem>
+                        {getPageNumbers(page, totalPages).map((pageNumber, index) => (
+                          <PaginationItem key={index}>
+                            {pageNumber === null ? (
+                              <PaginationEllipsis />
+                            ) : (
+                              <PaginationLink
+                                href="#"
+                                isActive={pageNumber === page}
+                                onClick={(e) => {
+                                  e.preventDefault();
+                                  setPage(pageNumber);
+                                }}
+                              >
+                                {pageNumber}
+                              </PaginationLink>
+                            )}
+                          </PaginationItem>
+                        ))}
+                        <PaginationItem>
+                          <PaginationNext
+                            href="#"
+                            className={page === totalPages ? 'pointer-events-none opacity-50' : 'cursor-pointer'}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              setPage(p => Math.min(p + 1, totalPages));
+                            }}
+                          />
+                        </PaginationItem>
+                      </PaginationContent>
+                    </Pagination>
+                  )}
+                </>
               ) : (
                 <div className="text-center py-12">
                   <div className="w-24 h-24 bg-muted rounded-full mx-auto mb-4 flex items-center justify-center">
@@ -36,6 +36,16 @@ export const generateRefreshToken = (userId: number, version: number = 1): strin
   }, JWT_SECRET, { expiresIn: '7d' });
 };
 
+// Short-lived token issued after a valid password when the account has 2FA;
+// it only authorizes POST /api/auth/2fa/verify, never regular API access.
+export const generateTwoFactorChallengeToken = (userId: number): string => {
+  return jwt.sign({ 
+    userId, 
+    type: '2fa_challenge',
+    iat: Math.floor(Date.now() / 1000) 
+  }, JWT_SECRET, { expiresIn: '5m' });
+};
+
 export const verifyToken = (token: string): { userId: number; version?: number; type?: string } | null => {
   try {
     const decoded = jwt.verify(token, JWT_SECRET) as { 
@@ -79,7 +89,7 @@ export const authenticate = async (req: AuthRequest, res: Response, next: NextFu
       }
       
       const decoded = verifyToken(token);
-      if (decoded) {
+      if (decoded && decoded.type !== '2fa_challenge') {
         userId = decoded.userId;
       }
     }
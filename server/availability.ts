@@ -0,0 +1,96 @@
+import type { AvailableSlot, ServiceAvailabilityFilter, TimeRange, WeeklySchedule } from '@shared/schema';
+
+// Colombia has not observed daylight saving time since 1993, so America/Bogota
+// is always UTC-5 and local times can be converted with a fixed offset.
+const BOGOTA_OFFSET = '-05:00';
+const BOGOTA_OFFSET_MS = -5 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LocalDay {
+  date: string; // yyyy-MM-dd
+  weekday: number; // 0 = Sunday
+}
+
+// Local calendar date, weekday and "HH:mm" of an instant in Bogotá
+export const toLocalTime = (instant: Date): LocalDay & { time: string } => {
+  const local = new Date(instant.getTime() + BOGOTA_OFFSET_MS);
+  const iso = local.toISOString();
+  return { date: iso.slice(0, 10), weekday: local.getUTCDay(), time: iso.slice(11, 16) };
+};
+
+export const toInstant = (date: string, time: string): Date => {
+  return new Date(`${date}T${time}:00${BOGOTA_OFFSET}`);
+};
+
+export const eachLocalDay = (from: string, to: string): LocalDay[] => {
+  const days: LocalDay[] = [];
+  for (let day = new Date(`${from}T00:00:00Z`); day <= new Date(`${to}T00:00:00Z`); day = new Date(day.getTime() + DAY_MS)) {
+    days.push({ date: day.toISOString().slice(0, 10), weekday: day.getUTCDay() });
+  }
+  return days;
+};
+
+export const getRangesForDay = (schedule: WeeklySchedule, day: LocalDay): TimeRange[] => {
+  const exception = schedule.exceptions.find(e => e.date === day.date);
+  return exception ? exception.ranges : schedule.days[day.weekday] || [];
+};
+
+// Splits the working ranges into fixed-length slots and drops the ones that have
+// already started or overlap a busy period (confirmed bookings).
+export const computeOpenSlots = (
+  schedule: WeeklySchedule,
+  from: string,
+  to: string,
+  busy: { startsAt: Date; endsAt: Date }[],
+  now: Date = new Date()
+): AvailableSlot[] => {
+  const slotMs = schedule.slotMinutes * 60 * 1000;
+  const slots: AvailableSlot[] = [];
+
+  for (const day of eachLocalDay(from, to)) {
+    for (const range of getRangesForDay(schedule, day)) {
+      const rangeEnd = toInstant(day.date, range.end).getTime();
+      for (let start = toInstant(day.date, range.start).getTime(); start + slotMs <= rangeEnd; start += slotMs) {
+        const end = start + slotMs;
+        if (start <= now.getTime()) continue;
+        if (busy.some(period => period.startsAt.getTime() < end && period.endsAt.getTime() > start)) continue;
+        slots.push({ startsAt: new Date(start).toISOString(), endsAt: new Date(end).toISOString() });
+      }
+    }
+  }
+
+  return slots;
+};
+
+// True when the whole appointment fits inside one working range of its local day
+export const isWithinSchedule = (schedule: WeeklySchedule, startsAt: Date, endsAt: Date): boolean => {
+  const start = toLocalTime(startsAt);
+  const end = toLocalTime(endsAt);
+  if (start.date !== end.date) return false;
+
+  return getRangesForDay(schedule, start).some(range => range.start <= start.time && end.time <= range.end);
+};
+
+// Local days (and the earliest time still useful on each) for the listing filters
+export const getAvailabilityWindow = (
+  filter: ServiceAvailabilityFilter,
+  now: Date = new Date()
+): (LocalDay & { after: string })[] => {
+  const today = toLocalTime(now);
+  const todayWindow = { date: today.date, weekday: today.weekday, after: today.time };
+
+  if (filter === 'today') {
+    return [todayWindow];
+  }
+
+  // Saturday and Sunday of the current weekend; on Sunday only what is left of today
+  if (today.weekday === 0) {
+    return [todayWindow];
+  }
+  const saturday = new Date(`${today.date}T00:00:00Z`).getTime() + (6 - today.weekday) * DAY_MS;
+  return [saturday, saturday + DAY_MS].map(time => {
+    const day = new Date(time);
+    const date = day.toISOString().slice(0, 10);
+    return { date, weekday: day.getUTCDay(), after: date === today.date ? today.time : '00:00' };
+  });
+};
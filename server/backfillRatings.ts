@@ -0,0 +1,18 @@
+// One-off: recompute every service's rating and reviewCount from its approved reviews.
+// Run with `npm run db:backfill-ratings` after deploying the review aggregate maintenance.
+import { pool } from './db';
+import { storage } from './storage';
+
+async function backfillRatings() {
+  try {
+    const updated = await storage.recomputeAllServiceRatings();
+    console.log(`✅ Recomputed ratings for ${updated} services`);
+  } catch (error) {
+    console.error('❌ Rating backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+backfillRatings();
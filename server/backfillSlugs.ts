@@ -0,0 +1,18 @@
+// One-off: give categories, services and provider profiles created before slugs
+// existed their public URL slug. Run with `npm run db:backfill-slugs` after `db:push`.
+import { pool } from './db';
+import { storage } from './storage';
+
+async function backfillSlugs() {
+  try {
+    const assigned = await storage.assignMissingSlugs();
+    console.log(`✅ Assigned ${assigned} slugs`);
+  } catch (error) {
+    console.error('❌ Slug backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+backfillSlugs();
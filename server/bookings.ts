@@ -0,0 +1,72 @@
+import { wsManager } from './websocket';
+import type { Booking, BookingStatus } from '@shared/schema';
+
+export const bookingActions = ['accept', 'decline', 'reschedule', 'cancel', 'complete', 'no-show'] as const;
+export type BookingAction = typeof bookingActions[number];
+
+interface BookingTransition {
+  from: BookingStatus[];
+  to: BookingStatus;
+  providerOnly: boolean;
+  afterStart?: boolean; // only once the appointment time has passed
+}
+
+// Lifecycle: requested -> confirmed -> completed | no_show, and requested/confirmed -> cancelled.
+// A reschedule moves the slot and leaves the booking confirmed with the new time.
+const transitions: Record<BookingAction, BookingTransition> = {
+  accept: { from: ['requested'], to: 'confirmed', providerOnly: true },
+  decline: { from: ['requested'], to: 'cancelled', providerOnly: true },
+  reschedule: { from: ['requested', 'confirmed'], to: 'confirmed', providerOnly: true },
+  cancel: { from: ['requested', 'confirmed'], to: 'cancelled', providerOnly: false },
+  complete: { from: ['confirmed'], to: 'completed', providerOnly: true, afterStart: true },
+  'no-show': { from: ['confirmed'], to: 'no_show', providerOnly: true, afterStart: true },
+};
+
+export type BookingTransitionResult =
+  | { ok: true; status: BookingStatus }
+  | { ok: false; httpStatus: 403 | 409; message: string };
+
+export const resolveBookingTransition = (
+  booking: Booking,
+  action: BookingAction,
+  userId: string,
+  isAdmin: boolean = false
+): BookingTransitionResult => {
+  const transition = transitions[action];
+  const isProvider = booking.providerId === userId || isAdmin;
+  const isCustomer = booking.customerId === userId;
+
+  if (transition.providerOnly ? !isProvider : !(isProvider || isCustomer)) {
+    return { ok: false, httpStatus: 403, message: 'Access denied' };
+  }
+
+  if (!transition.from.includes(booking.status)) {
+    return { ok: false, httpStatus: 409, message: `Cannot ${action} a booking that is ${booking.status}` };
+  }
+
+  if (transition.afterStart && booking.startsAt > new Date()) {
+    return { ok: false, httpStatus: 409, message: 'The appointment has not started yet' };
+  }
+
+  return { ok: true, status: transition.to };
+};
+
+// Both sides get every transition so open dashboards stay in sync
+export const notifyBookingUpdate = (booking: Booking, action: BookingAction | 'request'): void => {
+  const timestamp = new Date().toISOString();
+  [booking.customerId, booking.providerId].forEach(userId => {
+    wsManager.sendToUser(userId, {
+      type: 'booking_update',
+      data: {
+        bookingId: booking.id,
+        serviceId: booking.serviceId,
+        action,
+        status: booking.status,
+        startsAt: booking.startsAt,
+        endsAt: booking.endsAt,
+      },
+      userId,
+      timestamp,
+    });
+  });
+};
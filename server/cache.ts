@@ -1,6 +1,7 @@
 
 import NodeCache from 'node-cache';
 import { storage } from './storage';
+import type { Location, SearchSuggestion } from '@shared/schema';
 
 // In-memory cache for development (Redis alternative for Replit)
 const cache = new NodeCache({ 
@@ -36,6 +37,27 @@ export class CacheManager {
     return data;
   }
 
+  // Search bar suggestions per normalized prefix. Keys start with "services" so
+  // invalidatePattern('services') drops them whenever services change.
+  async getSearchSuggestions(prefix: string, fetcher: () => Promise<SearchSuggestion[]>, ttl: number = 120): Promise<SearchSuggestion[]> {
+    return this.getServices(`services:suggest:${prefix}`, fetcher, ttl);
+  }
+
+  // Under the services prefix, so approving, editing or deleting a service regenerates it
+  async getSitemap(fetcher: () => Promise<string>, ttl: number = 3600): Promise<string> {
+    return this.getServices('services:sitemap', fetcher, ttl);
+  }
+
+  // Meta tags for a server-rendered page, e.g. /services/plomeria-24-horas
+  async getPageMeta<T>(path: string, fetcher: () => Promise<T>, ttl: number = 300): Promise<T> {
+    return this.getServices(`services:meta:${path}`, fetcher, ttl);
+  }
+
+  // The whole location taxonomy; it only changes through the admin panel
+  async getLocations(fetcher: () => Promise<Location[]>, ttl: number = 3600): Promise<Location[]> {
+    return this.getServices('locations:all', fetcher, ttl);
+  }
+
   // User-specific rate limiting
   async checkUserRateLimit(userId: string, action: string, maxAttempts: number = 10, windowMs: number = 15 * 60 * 1000): Promise<boolean> {
     const key = `rate_limit:${userId}:${action}`;
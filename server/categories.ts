@@ -0,0 +1,134 @@
+import { sql, type SQL } from 'drizzle-orm';
+import {
+  categories,
+  categoryLineage,
+  effectiveAttributeDefinitions,
+  services,
+  type Category,
+  type CategoryAttributeDefinition,
+} from '@shared/schema';
+
+export type AttributeFilter =
+  | { key: string; type: 'boolean'; value: boolean }
+  | { key: string; type: 'select' | 'multiselect'; values: string[] }
+  | { key: string; type: 'number'; min?: number; max?: number }
+  | { key: string; type: 'text'; value: string };
+
+// A category can't be placed inside itself or one of its own subcategories
+export const validateCategoryParent = (
+  categoryId: number | undefined,
+  parentId: number | null | undefined,
+  all: Category[],
+): string | undefined => {
+  if (!parentId) return undefined;
+  if (!all.some(category => category.id === parentId)) {
+    return 'Parent category not found';
+  }
+  if (categoryId !== undefined && categoryLineage(parentId, all).some(category => category.id === categoryId)) {
+    return 'A category cannot be placed inside itself or its subcategories';
+  }
+  return undefined;
+};
+
+// Fields a subcategory defines must not reuse a key inherited from above it
+export const findInheritedKeyClash = (
+  definitions: CategoryAttributeDefinition[],
+  parentId: number | null | undefined,
+  all: Category[],
+): string | undefined => {
+  if (!parentId) return undefined;
+  const inherited = new Set(effectiveAttributeDefinitions(parentId, all).map(definition => definition.key));
+  return definitions.find(definition => inherited.has(definition.key))?.key;
+};
+
+// Services in the category or any of its subcategories
+export const inCategoryTree = (categoryId: number): SQL => sql`${services.categoryId} IN (
+  WITH RECURSIVE tree AS (
+    SELECT ${categories.id} AS id FROM ${categories} WHERE ${categories.id} = ${categoryId}
+    UNION
+    SELECT child.id FROM ${categories} child JOIN tree ON child.parent_id = tree.id
+  )
+  SELECT id FROM tree
+)`;
+
+const queryValues = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value]).filter((item): item is string => typeof item === 'string' && item.length > 0);
+
+const parseNumber = (value: unknown): number | undefined => {
+  const [first] = queryValues(value);
+  const number = first !== undefined ? parseFloat(first) : NaN;
+  return isFinite(number) ? number : undefined;
+};
+
+// Reads attr.<key>=value query parameters (attr.<key>.min/.max for numbers, repeated
+// parameters to accept several options) for the filterable fields of a category.
+// Unknown keys and values outside a field's options are ignored.
+export const parseAttributeFilters = (
+  query: Record<string, unknown>,
+  definitions: CategoryAttributeDefinition[],
+): AttributeFilter[] => {
+  const filters: AttributeFilter[] = [];
+  for (const definition of definitions.filter(definition => definition.filterable)) {
+    const param = `attr.${definition.key}`;
+    switch (definition.type) {
+      case 'boolean': {
+        const [value] = queryValues(query[param]);
+        if (value === 'true' || value === 'false') {
+          filters.push({ key: definition.key, type: 'boolean', value: value === 'true' });
+        }
+        break;
+      }
+      case 'select':
+      case 'multiselect': {
+        const values = queryValues(query[param]).filter(value => definition.options?.includes(value));
+        if (values.length > 0) {
+          filters.push({ key: definition.key, type: definition.type, values });
+        }
+        break;
+      }
+      case 'number': {
+        const min = parseNumber(query[`${param}.min`]);
+        const max = parseNumber(query[`${param}.max`]);
+        if (min !== undefined || max !== undefined) {
+          filters.push({ key: definition.key, type: 'number', min, max });
+        }
+        break;
+      }
+      case 'text': {
+        const [value] = queryValues(query[param]);
+        if (value?.trim()) {
+          filters.push({ key: definition.key, type: 'text', value: value.trim().slice(0, 100) });
+        }
+        break;
+      }
+    }
+  }
+  return filters;
+};
+
+// Drizzle spreads arrays into separate parameters, so build the literal explicitly
+const textArray = (values: string[]): SQL => sql`ARRAY[${sql.join(values.map(value => sql`${value}`), sql`, `)}]::text[]`;
+
+export const matchesAttributeFilter = (filter: AttributeFilter): SQL => {
+  const value = sql`${services.attributes}->${filter.key}`;
+  switch (filter.type) {
+    case 'boolean':
+      // Containment can use the GIN index on services.attributes
+      return sql`${services.attributes} @> ${JSON.stringify({ [filter.key]: filter.value })}::jsonb`;
+    case 'select':
+      return sql`(${services.attributes}->>${filter.key}) = ANY(${textArray(filter.values)})`;
+    case 'multiselect':
+      // Any of the chosen options
+      return sql`jsonb_exists_any(${value}, ${textArray(filter.values)})`;
+    case 'number': {
+      const number = sql`(CASE WHEN jsonb_typeof(${value}) = 'number' THEN (${value})::numeric END)`;
+      const bounds = [
+        ...(filter.min !== undefined ? [sql`${number} >= ${filter.min}`] : []),
+        ...(filter.max !== undefined ? [sql`${number} <= ${filter.max}`] : []),
+      ];
+      return sql`(${sql.join(bounds, sql` AND `)})`;
+    }
+    case 'text':
+      return sql`(${services.attributes}->>${filter.key}) ILIKE ${`%${filter.value.replace(/[\\%_]/g, '\\$&')}%`}`;
+  }
+};
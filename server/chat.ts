@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { storage } from './storage';
+import { wsManager, type WSMessage } from './websocket';
+import type { ChatMessage, ConversationParticipant } from '@shared/schema';
+
+export const chatMessageBodySchema = z.string().trim().min(1).max(4000);
+
+// Events a connected client can send over /api/ws
+const chatEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('chat_send'),
+    conversationId: z.number().int().positive(),
+    body: chatMessageBodySchema,
+    clientId: z.string().max(64).optional(), // echoed back so the sender can match its optimistic copy
+  }),
+  z.object({
+    type: z.literal('chat_typing'),
+    conversationId: z.number().int().positive(),
+    isTyping: z.boolean(),
+  }),
+  z.object({
+    type: z.literal('chat_read'),
+    conversationId: z.number().int().positive(),
+    messageId: z.number().int().positive(),
+  }),
+]);
+
+const broadcast = (
+  participants: ConversationParticipant[],
+  type: WSMessage['type'],
+  data: any,
+  exceptUserId?: string
+): void => {
+  const timestamp = new Date().toISOString();
+  participants
+    .filter(participant => participant.userId !== exceptUserId)
+    .forEach(participant => {
+      wsManager.sendToUser(participant.userId, { type, data, userId: participant.userId, timestamp });
+    });
+};
+
+// Returns undefined when the sender isn't part of the conversation
+export const sendChatMessage = async (
+  conversationId: number,
+  senderId: string,
+  body: string
+): Promise<ChatMessage | undefined> => {
+  const participants = await storage.getConversationParticipants(conversationId);
+  if (!participants.some(participant => participant.userId === senderId)) return undefined;
+
+  const message = await storage.createChatMessage(conversationId, senderId, body);
+  // The sender's other tabs get it too
+  broadcast(participants, 'chat_message', message);
+  return message;
+};
+
+export const markChatRead = async (
+  conversationId: number,
+  userId: string,
+  messageId: number
+): Promise<ConversationParticipant | undefined> => {
+  const participant = await storage.markConversationRead(conversationId, userId, messageId);
+  if (!participant) return undefined;
+
+  const participants = await storage.getConversationParticipants(conversationId);
+  broadcast(participants, 'chat_read', {
+    conversationId,
+    userId,
+    lastReadMessageId: participant.lastReadMessageId,
+  }, userId);
+  return participant;
+};
+
+// Handles a chat event from the socket; the result, if any, is sent back to that socket only
+export const handleChatEvent = async (userId: string, event: unknown): Promise<Record<string, any> | undefined> => {
+  const parsed = chatEventSchema.safeParse(event);
+  if (!parsed.success) {
+    return { type: 'error', message: 'Invalid chat event' };
+  }
+
+  const data = parsed.data;
+  switch (data.type) {
+    case 'chat_send': {
+      const message = await sendChatMessage(data.conversationId, userId, data.body);
+      if (!message) return { type: 'error', message: 'Conversation not found' };
+      return { type: 'chat_ack', data: { clientId: data.clientId, message } };
+    }
+    case 'chat_typing': {
+      const participants = await storage.getConversationParticipants(data.conversationId);
+      if (!participants.some(participant => participant.userId === userId)) {
+        return { type: 'error', message: 'Conversation not found' };
+      }
+      broadcast(participants, 'chat_typing', { conversationId: data.conversationId, userId, isTyping: data.isTyping }, userId);
+      return undefined;
+    }
+    case 'chat_read': {
+      const participant = await markChatRead(data.conversationId, userId, data.messageId);
+      if (!participant) return { type: 'error', message: 'Conversation not found' };
+      return undefined;
+    }
+  }
+};
@@ -0,0 +1,75 @@
+import { storage, type FavoriteTarget } from './storage';
+import { wsManager } from './websocket';
+import { captureError } from './monitoring';
+import { servicePath, type Review, type Service } from '@shared/schema';
+
+export type FavoriteTargetResult =
+  | { ok: true; target: FavoriteTarget }
+  | { ok: false; httpStatus: 400 | 404; message: string };
+
+// Approved services and public providers can be saved, but not your own
+export const checkFavoriteTarget = async (
+  data: { serviceId?: number; providerId?: string },
+  userId: string
+): Promise<FavoriteTargetResult> => {
+  if (data.serviceId !== undefined) {
+    const service = await storage.getServiceById(data.serviceId);
+    if (!service || !service.isApproved) {
+      return { ok: false, httpStatus: 404, message: 'Service not found' };
+    }
+    if (service.userId === userId) {
+      return { ok: false, httpStatus: 400, message: 'You cannot save your own service' };
+    }
+    return { ok: true, target: { serviceId: service.id } };
+  }
+
+  const providerId = data.providerId!;
+  if (!await storage.getProviderPublicProfile(providerId)) {
+    return { ok: false, httpStatus: 404, message: 'Provider not found' };
+  }
+  if (providerId === userId) {
+    return { ok: false, httpStatus: 400, message: 'You cannot save yourself' };
+  }
+  return { ok: true, target: { providerId } };
+};
+
+type FavoriteUpdate =
+  | { change: 'price'; previousPrice: number | null; price: number | null }
+  | { change: 'review'; rating: number };
+
+// Everyone who saved the service except whoever made the change
+const notifyFavoriters = async (service: Service, update: FavoriteUpdate, actorId: string): Promise<void> => {
+  const userIds = await storage.getServiceFavoriters(service.id);
+  const timestamp = new Date().toISOString();
+  userIds.filter(userId => userId !== actorId).forEach(userId => {
+    wsManager.sendToUser(userId, {
+      type: 'notification',
+      data: {
+        kind: 'favorite_update',
+        serviceId: service.id,
+        serviceTitle: service.title,
+        path: servicePath(service),
+        ...update,
+      },
+      userId,
+      timestamp,
+    });
+  });
+};
+
+export const notifyFavoritePriceChange = (before: Service, after: Service): void => {
+  if (!after.isApproved || before.price === after.price) return;
+  notifyFavoriters(after, { change: 'price', previousPrice: before.price, price: after.price }, after.userId)
+    .catch(error => captureError(error as Error, { serviceId: after.id }));
+};
+
+// A review only counts once an admin has published it
+export const notifyFavoriteReviews = (moderated: Review[]): void => {
+  moderated.filter(review => review.isApproved && review.isActive).forEach(review => {
+    storage.getServiceById(review.serviceId)
+      .then(service => service?.isApproved
+        ? notifyFavoriters(service, { change: 'review', rating: review.rating }, review.userId)
+        : undefined)
+      .catch(error => captureError(error as Error, { reviewId: review.id }));
+  });
+};
@@ -0,0 +1,85 @@
+// Seed data for the locations taxonomy: the Área Metropolitana de Cúcuta. Coordinates
+// are approximate centres, good enough for "how far away is this provider" but not
+// for routing. Admins maintain the taxonomy afterwards; this is only loaded into an
+// empty locations table by `npm run db:migrate-locations`.
+
+export interface GazetteerPlace {
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface GazetteerBarrio extends GazetteerPlace {
+  municipality: string; // GazetteerPlace name
+  comuna?: string; // only Cúcuta is divided into comunas
+}
+
+export const department: GazetteerPlace = { name: 'Norte de Santander', latitude: 7.9463, longitude: -72.8988 };
+
+export const municipalities: GazetteerPlace[] = [
+  { name: 'Cúcuta', latitude: 7.8939, longitude: -72.5078 },
+  { name: 'Los Patios', latitude: 7.8375, longitude: -72.5040 },
+  { name: 'Villa del Rosario', latitude: 7.8340, longitude: -72.4740 },
+  { name: 'El Zulia', latitude: 7.9330, longitude: -72.6030 },
+  { name: 'San Cayetano', latitude: 7.8760, longitude: -72.6230 },
+  { name: 'Puerto Santander', latitude: 8.3620, longitude: -72.4090 },
+];
+
+export const comunas: (GazetteerPlace & { municipality: string })[] = [
+  { name: 'Comuna 1 Centro', municipality: 'Cúcuta', latitude: 7.8870, longitude: -72.5030 },
+  { name: 'Comuna 2 Centro Oriental', municipality: 'Cúcuta', latitude: 7.8960, longitude: -72.4910 },
+  { name: 'Comuna 5 Norte', municipality: 'Cúcuta', latitude: 7.9140, longitude: -72.4900 },
+  { name: 'Comuna 8 Occidental', municipality: 'Cúcuta', latitude: 7.8860, longitude: -72.5370 },
+];
+
+// Barrios without a comuna hang directly from their municipality
+export const barrios: GazetteerBarrio[] = [
+  // Cúcuta
+  { name: 'Centro', municipality: 'Cúcuta', comuna: 'Comuna 1 Centro', latitude: 7.8890, longitude: -72.5050 },
+  { name: 'La Playa', municipality: 'Cúcuta', comuna: 'Comuna 1 Centro', latitude: 7.8850, longitude: -72.5010 },
+  { name: 'Latino', municipality: 'Cúcuta', latitude: 7.8920, longitude: -72.4990 },
+  { name: 'Popular', municipality: 'Cúcuta', comuna: 'Comuna 2 Centro Oriental', latitude: 7.8980, longitude: -72.4990 },
+  { name: 'Barrio Blanco', municipality: 'Cúcuta', latitude: 7.8870, longitude: -72.4990 },
+  { name: 'Caobos', municipality: 'Cúcuta', comuna: 'Comuna 2 Centro Oriental', latitude: 7.8990, longitude: -72.4930 },
+  { name: 'Quinta Oriental', municipality: 'Cúcuta', comuna: 'Comuna 2 Centro Oriental', latitude: 7.8870, longitude: -72.4960 },
+  { name: 'Colsag', municipality: 'Cúcuta', comuna: 'Comuna 2 Centro Oriental', latitude: 7.8870, longitude: -72.4900 },
+  { name: 'Quinta Bosch', municipality: 'Cúcuta', comuna: 'Comuna 2 Centro Oriental', latitude: 7.8920, longitude: -72.4880 },
+  { name: 'Prados del Este', municipality: 'Cúcuta', comuna: 'Comuna 2 Centro Oriental', latitude: 7.8920, longitude: -72.4830 },
+  { name: 'La Riviera', municipality: 'Cúcuta', comuna: 'Comuna 2 Centro Oriental', latitude: 7.9040, longitude: -72.4930 },
+  { name: 'Los Acacios', municipality: 'Cúcuta', comuna: 'Comuna 2 Centro Oriental', latitude: 7.9030, longitude: -72.4880 },
+  { name: 'Ceiba II', municipality: 'Cúcuta', comuna: 'Comuna 5 Norte', latitude: 7.9120, longitude: -72.4890 },
+  { name: 'Niza', municipality: 'Cúcuta', comuna: 'Comuna 5 Norte', latitude: 7.9180, longitude: -72.4850 },
+  { name: 'Guaimaral', municipality: 'Cúcuta', comuna: 'Comuna 5 Norte', latitude: 7.9130, longitude: -72.4960 },
+  { name: 'Zulima', municipality: 'Cúcuta', latitude: 7.9230, longitude: -72.5000 },
+  { name: 'Sevilla', municipality: 'Cúcuta', latitude: 7.9180, longitude: -72.5100 },
+  { name: 'Aeropuerto', municipality: 'Cúcuta', latitude: 7.9260, longitude: -72.5110 },
+  { name: 'El Salado', municipality: 'Cúcuta', latitude: 7.9330, longitude: -72.5060 },
+  { name: 'Chapinero', municipality: 'Cúcuta', latitude: 7.8870, longitude: -72.5150 },
+  { name: 'El Contento', municipality: 'Cúcuta', latitude: 7.8830, longitude: -72.5120 },
+  { name: 'Motilones', municipality: 'Cúcuta', latitude: 7.8750, longitude: -72.5080 },
+  { name: 'La Libertad', municipality: 'Cúcuta', latitude: 7.8720, longitude: -72.5010 },
+  { name: 'San Luis', municipality: 'Cúcuta', latitude: 7.8780, longitude: -72.4920 },
+  { name: 'San Rafael', municipality: 'Cúcuta', latitude: 7.8810, longitude: -72.5040 },
+  { name: 'Belén', municipality: 'Cúcuta', latitude: 7.8770, longitude: -72.5180 },
+  { name: 'Atalaya', municipality: 'Cúcuta', comuna: 'Comuna 8 Occidental', latitude: 7.8820, longitude: -72.5350 },
+  { name: 'Antonia Santos', municipality: 'Cúcuta', latitude: 7.8700, longitude: -72.5250 },
+  { name: 'Juan Atalaya', municipality: 'Cúcuta', comuna: 'Comuna 8 Occidental', latitude: 7.8900, longitude: -72.5380 },
+  { name: 'Motilones Norte', municipality: 'Cúcuta', latitude: 7.9060, longitude: -72.5200 },
+  { name: 'Claret', municipality: 'Cúcuta', latitude: 7.8700, longitude: -72.4920 },
+  // Los Patios
+  { name: 'Centro', municipality: 'Los Patios', latitude: 7.8375, longitude: -72.5040 },
+  { name: 'La Sabana', municipality: 'Los Patios', latitude: 7.8440, longitude: -72.5100 },
+  { name: 'Patio Centro', municipality: 'Los Patios', latitude: 7.8360, longitude: -72.5000 },
+  { name: 'Videlso', municipality: 'Los Patios', latitude: 7.8300, longitude: -72.5080 },
+  { name: 'Pisarreal', municipality: 'Los Patios', latitude: 7.8280, longitude: -72.5130 },
+  { name: 'Tasajero', municipality: 'Los Patios', latitude: 7.8200, longitude: -72.5180 },
+  // Villa del Rosario
+  { name: 'Centro', municipality: 'Villa del Rosario', latitude: 7.8340, longitude: -72.4740 },
+  { name: 'La Parada', municipality: 'Villa del Rosario', latitude: 7.8190, longitude: -72.4450 },
+  { name: 'Lomitas', municipality: 'Villa del Rosario', latitude: 7.8420, longitude: -72.4800 },
+  { name: 'Santa Bárbara', municipality: 'Villa del Rosario', latitude: 7.8290, longitude: -72.4700 },
+  { name: 'Gramalote', municipality: 'Villa del Rosario', latitude: 7.8380, longitude: -72.4670 },
+  // El Zulia
+  { name: 'Centro', municipality: 'El Zulia', latitude: 7.9330, longitude: -72.6030 },
+  { name: 'Campo Alicia', municipality: 'El Zulia', latitude: 7.9400, longitude: -72.5950 },
+];
@@ -0,0 +1,39 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { services, type GeoPoint } from '@shared/schema';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export const MAX_RADIUS_KM = 100;
+
+// "lat,lng" as sent in the `near` query parameter
+export const parseGeoPoint = (value: string): GeoPoint | undefined => {
+  const parts = value.split(',');
+  if (parts.length !== 2) return undefined;
+  const [latitude, longitude] = parts.map(part => Number(part.trim()));
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return undefined;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return undefined;
+  return { latitude, longitude };
+};
+
+// Great-circle (haversine) distance from the point to each service, null when the
+// service has no coordinates
+export const distanceKm = (point: GeoPoint): SQL<number | null> => sql<number | null>`(
+  ${sql.raw(String(EARTH_RADIUS_KM))} * 2 * asin(sqrt(
+    power(sin(radians(${services.latitude} - ${point.latitude}) / 2), 2)
+    + cos(radians(${point.latitude})) * cos(radians(${services.latitude}))
+      * power(sin(radians(${services.longitude} - ${point.longitude}) / 2), 2)
+  ))
+)`;
+
+// The bounding box lets the coordinates index discard most rows before the exact
+// distance is computed
+export const withinRadius = (point: GeoPoint, radiusKm: number): SQL => {
+  const latitudeDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const longitudeDelta = radiusKm / (KM_PER_DEGREE_LATITUDE * Math.max(Math.cos(point.latitude * Math.PI / 180), 0.01));
+  return sql`(
+    ${services.latitude} BETWEEN ${point.latitude - latitudeDelta} AND ${point.latitude + latitudeDelta}
+    AND ${services.longitude} BETWEEN ${point.longitude - longitudeDelta} AND ${point.longitude + longitudeDelta}
+    AND ${distanceKm(point)} <= ${radiusKm}
+  )`;
+};
@@ -0,0 +1,287 @@
+import crypto from 'crypto';
+import PDFDocument from 'pdfkit';
+import type { Invoice, InvoiceResolution } from '@shared/schema';
+
+// Datos del facturador (ServiLocal) según el RUT registrado ante la DIAN
+const issuer = {
+  nit: process.env.SERVILOCAL_NIT || '900000000',
+  checkDigit: process.env.SERVILOCAL_NIT_DV || '0',
+  name: process.env.SERVILOCAL_RAZON_SOCIAL || 'ServiLocal S.A.S.',
+  address: process.env.SERVILOCAL_DIRECCION || 'Cúcuta, Norte de Santander',
+  cityCode: '54001', // Cúcuta (DIVIPOLA)
+  departmentCode: '54', // Norte de Santander
+};
+
+// 1 = producción, 2 = habilitación/pruebas
+const DIAN_ENVIRONMENT = process.env.DIAN_ENVIRONMENT || '2';
+
+// DIAN identification document codes
+const DOCUMENT_TYPE_CODES: Record<Invoice['customerIdType'], string> = {
+  CC: '13',
+  CE: '22',
+  NIT: '31',
+};
+
+const money = (value: number): string => value.toFixed(2);
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// La DIAN exige fecha y hora de expedición en hora de Colombia (UTC-5)
+const toColombiaDateTime = (date: Date): { date: string; time: string } => {
+  const local = new Date(date.getTime() - 5 * 60 * 60 * 1000).toISOString();
+  return {
+    date: local.substring(0, 10),
+    time: `${local.substring(11, 19)}-05:00`,
+  };
+};
+
+// CUFE = SHA-384(NumFac + FecFac + HorFac + ValFac + 01 + ValIVA + 04 + ValINC + 03 + ValICA + ValTot + NitOFE + NumAdq + ClTec + TipoAmbiente)
+export const computeCufe = (
+  invoice: Pick<Invoice, 'number' | 'issuedAt' | 'subtotal' | 'taxTotal' | 'total' | 'customerId'>,
+  technicalKey: string | null,
+): string => {
+  const { date, time } = toColombiaDateTime(invoice.issuedAt);
+  const source = [
+    invoice.number,
+    date,
+    time,
+    money(invoice.subtotal),
+    '01', money(invoice.taxTotal),
+    '04', money(0),
+    '03', money(0),
+    money(invoice.total),
+    issuer.nit,
+    invoice.customerId,
+    technicalKey || '',
+    DIAN_ENVIRONMENT,
+  ].join('');
+
+  return crypto.createHash('sha384').update(source).digest('hex');
+};
+
+const partyXml = (
+  role: 'AccountingSupplierParty' | 'AccountingCustomerParty',
+  party: { id: string; schemeCode: string; checkDigit?: string; name: string; email?: string; organization: boolean },
+): string => `
+  <cac:${role}>
+    <cbc:AdditionalAccountID>${party.organization ? '1' : '2'}</cbc:AdditionalAccountID>
+    <cac:Party>
+      <cac:PartyName>
+        <cbc:Name>${escapeXml(party.name)}</cbc:Name>
+      </cac:PartyName>
+      <cac:PartyTaxScheme>
+        <cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>
+        <cbc:CompanyID schemeAgencyID="195" schemeAgencyName="CO, DIAN (Dirección de Impuestos y Aduanas Nacionales)"${party.checkDigit ? ` schemeID="${party.checkDigit}"` : ''} schemeName="${party.schemeCode}">${escapeXml(party.id)}</cbc:CompanyID>
+        <cbc:TaxLevelCode listName="48">R-99-PN</cbc:TaxLevelCode>
+        <cac:TaxScheme>
+          <cbc:ID>01</cbc:ID>
+          <cbc:Name>IVA</cbc:Name>
+        </cac:TaxScheme>
+      </cac:PartyTaxScheme>
+      <cac:PartyLegalEntity>
+        <cbc:RegistrationName>${escapeXml(party.name)}</cbc:RegistrationName>
+        <cbc:CompanyID schemeAgencyID="195" schemeAgencyName="CO, DIAN (Dirección de Impuestos y Aduanas Nacionales)" schemeName="${party.schemeCode}">${escapeXml(party.id)}</cbc:CompanyID>
+      </cac:PartyLegalEntity>${party.email ? `
+      <cac:Contact>
+        <cbc:ElectronicMail>${escapeXml(party.email)}</cbc:ElectronicMail>
+      </cac:Contact>` : ''}
+    </cac:Party>
+  </cac:${role}>`;
+
+const taxTotalXml = (taxAmount: number, taxableAmount: number, taxRate: number): string => `
+    <cbc:TaxAmount currencyID="COP">${money(taxAmount)}</cbc:TaxAmount>
+    <cac:TaxSubtotal>
+      <cbc:TaxableAmount currencyID="COP">${money(taxableAmount)}</cbc:TaxableAmount>
+      <cbc:TaxAmount currencyID="COP">${money(taxAmount)}</cbc:TaxAmount>
+      <cac:TaxCategory>
+        <cbc:Percent>${money(taxRate)}</cbc:Percent>
+        <cac:TaxScheme>
+          <cbc:ID>01</cbc:ID>
+          <cbc:Name>IVA</cbc:Name>
+        </cac:TaxScheme>
+      </cac:TaxCategory>
+    </cac:TaxSubtotal>`;
+
+// Factura electrónica de venta en UBL 2.1 según el Anexo Técnico DIAN 1.9.
+// El documento se entrega sin firma XAdES; la firma la agrega el proveedor tecnológico.
+export const buildInvoiceXml = (invoice: Invoice, resolution: InvoiceResolution): string => {
+  const { date, time } = toColombiaDateTime(invoice.issuedAt);
+
+  const taxTotals = invoice.taxBreakdown
+    .map(tax => `
+  <cac:TaxTotal>${taxTotalXml(tax.taxAmount, tax.taxableAmount, tax.taxRate)}
+  </cac:TaxTotal>`)
+    .join('');
+
+  const lines = invoice.items
+    .map((item, index) => `
+  <cac:InvoiceLine>
+    <cbc:ID>${index + 1}</cbc:ID>
+    <cbc:InvoicedQuantity unitCode="94">${item.quantity}</cbc:InvoicedQuantity>
+    <cbc:LineExtensionAmount currencyID="COP">${money(item.lineTotal)}</cbc:LineExtensionAmount>
+    <cac:TaxTotal>${taxTotalXml(item.taxAmount, item.lineTotal, item.taxRate)}
+    </cac:TaxTotal>
+    <cac:Item>
+      <cbc:Description>${escapeXml(item.description)}</cbc:Description>
+    </cac:Item>
+    <cac:Price>
+      <cbc:PriceAmount currencyID="COP">${money(item.unitPrice)}</cbc:PriceAmount>
+      <cbc:BaseQuantity unitCode="94">1</cbc:BaseQuantity>
+    </cac:Price>
+  </cac:InvoiceLine>`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2"
+  xmlns:ext="urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2"
+  xmlns:sts="dian:gov:co:facturaelectronica:Structures-2-1"
+  xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+  <ext:UBLExtensions>
+    <ext:UBLExtension>
+      <ext:ExtensionContent>
+        <sts:DianExtensions>
+          <sts:InvoiceControl>
+            <sts:InvoiceAuthorization>${escapeXml(resolution.resolutionNumber)}</sts:InvoiceAuthorization>
+            <sts:AuthorizationPeriod>
+              <cbc:StartDate>${resolution.validFrom.toISOString().substring(0, 10)}</cbc:StartDate>
+              <cbc:EndDate>${resolution.validTo.toISOString().substring(0, 10)}</cbc:EndDate>
+            </sts:AuthorizationPeriod>
+            <sts:AuthorizedInvoices>
+              <sts:Prefix>${escapeXml(resolution.prefix)}</sts:Prefix>
+              <sts:From>${resolution.rangeFrom}</sts:From>
+              <sts:To>${resolution.rangeTo}</sts:To>
+            </sts:AuthorizedInvoices>
+          </sts:InvoiceControl>
+          <sts:InvoiceSource>
+            <cbc:IdentificationCode listAgencyID="6" listAgencyName="United Nations Economic Commission for Europe" listSchemeURI="urn:oasis:names:specification:ubl:codelist:gc:CountryIdentificationCode-2.1">CO</cbc:IdentificationCode>
+          </sts:InvoiceSource>
+          <sts:AuthorizationProvider>
+            <sts:AuthorizationProviderID schemeAgencyID="195" schemeAgencyName="CO, DIAN (Dirección de Impuestos y Aduanas Nacionales)" schemeID="4" schemeName="31">800197268</sts:AuthorizationProviderID>
+          </sts:AuthorizationProvider>
+        </sts:DianExtensions>
+      </ext:ExtensionContent>
+    </ext:UBLExtension>
+  </ext:UBLExtensions>
+  <cbc:UBLVersionID>UBL 2.1</cbc:UBLVersionID>
+  <cbc:CustomizationID>10</cbc:CustomizationID>
+  <cbc:ProfileID>DIAN 2.1: Factura Electrónica de Venta</cbc:ProfileID>
+  <cbc:ProfileExecutionID>${DIAN_ENVIRONMENT}</cbc:ProfileExecutionID>
+  <cbc:ID>${escapeXml(invoice.number)}</cbc:ID>
+  <cbc:UUID schemeID="${DIAN_ENVIRONMENT}" schemeName="CUFE-SHA384">${invoice.cufe || ''}</cbc:UUID>
+  <cbc:IssueDate>${date}</cbc:IssueDate>
+  <cbc:IssueTime>${time}</cbc:IssueTime>
+  <cbc:InvoiceTypeCode>01</cbc:InvoiceTypeCode>
+  <cbc:DocumentCurrencyCode>${escapeXml(invoice.currency)}</cbc:DocumentCurrencyCode>
+  <cbc:LineCountNumeric>${invoice.items.length}</cbc:LineCountNumeric>${invoice.paymentId ? `
+  <cac:PaymentMeans>
+    <cbc:ID>1</cbc:ID>
+    <cbc:PaymentMeansCode>48</cbc:PaymentMeansCode>
+    <cbc:PaymentID>${escapeXml(invoice.paymentId)}</cbc:PaymentID>
+  </cac:PaymentMeans>` : ''}${partyXml('AccountingSupplierParty', {
+    id: issuer.nit,
+    schemeCode: '31',
+    checkDigit: issuer.checkDigit,
+    name: issuer.name,
+    organization: true,
+  })}${partyXml('AccountingCustomerParty', {
+    id: invoice.customerId,
+    schemeCode: DOCUMENT_TYPE_CODES[invoice.customerIdType],
+    name: invoice.customerName,
+    email: invoice.customerEmail,
+    organization: invoice.customerIdType === 'NIT',
+  })}${taxTotals}
+  <cac:LegalMonetaryTotal>
+    <cbc:LineExtensionAmount currencyID="COP">${money(invoice.subtotal)}</cbc:LineExtensionAmount>
+    <cbc:TaxExclusiveAmount currencyID="COP">${money(invoice.subtotal)}</cbc:TaxExclusiveAmount>
+    <cbc:TaxInclusiveAmount currencyID="COP">${money(invoice.total)}</cbc:TaxInclusiveAmount>
+    <cbc:PayableAmount currencyID="COP">${money(invoice.total)}</cbc:PayableAmount>
+  </cac:LegalMonetaryTotal>${lines}
+</Invoice>
+`;
+};
+
+const formatCOP = (value: number): string =>
+  new Intl.NumberFormat('es-CO', {
+    style: 'currency',
+    currency: 'COP',
+    minimumFractionDigits: 0,
+  }).format(value);
+
+// Representación gráfica imprimible de la factura
+export const renderInvoicePdf = (invoice: Invoice, resolution: InvoiceResolution): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: 50 });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const { date, time } = toColombiaDateTime(invoice.issuedAt);
+
+    doc.fontSize(18).text(issuer.name);
+    doc.fontSize(9)
+      .text(`NIT ${issuer.nit}-${issuer.checkDigit}`)
+      .text(issuer.address);
+
+    doc.moveDown();
+    doc.fontSize(14).text(`Factura electrónica de venta ${invoice.number}`);
+    doc.fontSize(9)
+      .text(`Fecha de expedición: ${date} ${time}`)
+      .text(`Resolución DIAN ${resolution.resolutionNumber} del ${resolution.validFrom.toISOString().substring(0, 10)}, ` +
+        `prefijo ${resolution.prefix} del ${resolution.rangeFrom} al ${resolution.rangeTo}`);
+
+    doc.moveDown();
+    doc.fontSize(11).text('Adquiriente');
+    doc.fontSize(9)
+      .text(invoice.customerName)
+      .text(`${invoice.customerIdType} ${invoice.customerId}`)
+      .text(invoice.customerEmail);
+
+    doc.moveDown();
+    const columns = [50, 280, 330, 400, 450];
+    const header = doc.y;
+    doc.fontSize(9)
+      .text('Descripción', columns[0], header)
+      .text('Cant.', columns[1], header)
+      .text('Valor unit.', columns[2], header)
+      .text('IVA', columns[3], header)
+      .text('Total', columns[4], header);
+    doc.moveTo(50, doc.y + 2).lineTo(562, doc.y + 2).stroke();
+    doc.moveDown(0.5);
+
+    invoice.items.forEach(item => {
+      const row = doc.y;
+      doc.text(item.description, columns[0], row, { width: 220 });
+      const next = doc.y;
+      doc.text(String(item.quantity), columns[1], row)
+        .text(formatCOP(item.unitPrice), columns[2], row)
+        .text(`${item.taxRate}%`, columns[3], row)
+        .text(formatCOP(item.lineTotal + item.taxAmount), columns[4], row);
+      doc.y = Math.max(next, doc.y);
+      doc.moveDown(0.3);
+    });
+
+    doc.moveDown();
+    doc.text(`Subtotal: ${formatCOP(invoice.subtotal)}`, 50, doc.y, { align: 'right' });
+    invoice.taxBreakdown.forEach(tax => {
+      doc.text(`IVA ${tax.taxRate}% sobre ${formatCOP(tax.taxableAmount)}: ${formatCOP(tax.taxAmount)}`, { align: 'right' });
+    });
+    doc.fontSize(11).text(`Total: ${formatCOP(invoice.total)}`, { align: 'right' });
+
+    doc.moveDown(2);
+    doc.fontSize(7)
+      .text(`CUFE: ${invoice.cufe || ''}`, 50)
+      .text(invoice.status === 'voided' ? 'DOCUMENTO ANULADO' : '');
+
+    doc.end();
+  });
+};
@@ -0,0 +1,84 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { locations, locationLevels, serviceCoverageAreas, services, type GeoPoint, type Location, type LocationLevel } from '@shared/schema';
+
+export const childPath = (parent: Pick<Location, 'path'> | undefined, id: number): string =>
+  `${parent?.path ?? '/'}${id}/`;
+
+// A child must sit at a deeper level than its parent, and only departments are roots
+export const validateLocationPlacement = (level: LocationLevel, parent: Location | undefined): string | undefined => {
+  if (!parent) {
+    return level === 'department' ? undefined : 'Only departments can be created without a parent';
+  }
+  if (locationLevels.indexOf(level) <= locationLevels.indexOf(parent.level)) {
+    return `A ${level} cannot be placed inside a ${parent.level}`;
+  }
+  return undefined;
+};
+
+// Matches services whose coverage contains the requested location (a service for
+// all of Cúcuta matches a barrio search) or lies inside it (a barrio-only service
+// matches a search for its municipality)
+export const coversLocation = (locationId: number): SQL => sql`EXISTS (
+  SELECT 1 FROM ${serviceCoverageAreas}
+  JOIN ${locations} covered ON covered.id = ${serviceCoverageAreas.locationId}
+  JOIN ${locations} requested ON requested.id = ${locationId}
+  WHERE ${serviceCoverageAreas.serviceId} = ${services.id}
+    AND (requested.path LIKE covered.path || '%' OR covered.path LIKE requested.path || '%')
+)`;
+
+export const coverageAreaIds = (): SQL<number[]> => sql<number[]>`coalesce((
+  SELECT array_agg(${serviceCoverageAreas.locationId} ORDER BY ${serviceCoverageAreas.position})
+  FROM ${serviceCoverageAreas}
+  WHERE ${serviceCoverageAreas.serviceId} = ${services.id}
+), '{}')`;
+
+const ancestors = (location: Location, byId: Map<number, Location>): Location[] => {
+  const chain: Location[] = [];
+  for (let current = byId.get(location.parentId ?? -1); current; current = byId.get(current.parentId ?? -1)) {
+    chain.push(current);
+  }
+  return chain;
+};
+
+// "Caobos, Ceiba II, Cúcuta": the areas plus the municipalities they belong to,
+// so text search and cards still show the town
+export const coverageLabel = (areas: Location[], byId: Map<number, Location>): string => {
+  const names = areas.map(area => area.name);
+  for (const area of areas) {
+    const municipality = ancestors(area, byId).find(a => a.level === 'municipality');
+    if (municipality && !names.includes(municipality.name)) {
+      names.push(municipality.name);
+    }
+  }
+  return names.join(', ');
+};
+
+// The first area's centre, or its closest ancestor's when it has none
+export const coveragePoint = (areas: Location[], byId: Map<number, Location>): GeoPoint | undefined => {
+  for (const area of areas) {
+    const located = [area, ...ancestors(area, byId)].find(a => a.latitude !== null && a.longitude !== null);
+    if (located) return { latitude: located.latitude!, longitude: located.longitude! };
+  }
+  return undefined;
+};
+
+// Lowercase, no accents and single spaces, padded so names only match whole words
+const normalizePlace = (text: string): string =>
+  ` ${text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+// Maps a free-text location such as "Barrio Caobos, Cúcuta" to the most specific
+// location named in it: the longest matching name below the municipality (within
+// that municipality when one is named), else the municipality itself
+export const resolveLocationText = (text: string, all: Location[]): Location | undefined => {
+  const normalized = normalizePlace(text);
+  const byId = new Map(all.map(location => [location.id, location]));
+  const mentioned = all.filter(location => normalized.includes(normalizePlace(location.name)));
+
+  const municipality = mentioned.find(location => location.level === 'municipality');
+  const candidates = mentioned
+    .filter(location => location.level === 'comuna' || location.level === 'barrio')
+    .filter(location => !municipality || ancestors(location, byId).includes(municipality))
+    .sort((a, b) => b.name.length - a.name.length || a.path.localeCompare(b.path));
+
+  return candidates[0] ?? municipality;
+};
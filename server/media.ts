@@ -0,0 +1,170 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { z } from 'zod';
+import type { ImageVariant, ImageVariantFile } from '@shared/schema';
+
+export const UPLOADS_ROOT = path.resolve(process.env.UPLOADS_DIR || 'uploads');
+export const PUBLIC_UPLOADS_URL = '/uploads';
+
+// Where uploaded files end up. Only the local disk is implemented; another backend
+// (S3, GCS...) only has to implement this interface and replace `mediaStorage`.
+export interface IFileStorage {
+  put(key: string, content: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
+
+export class LocalFileStorage implements IFileStorage {
+  constructor(private root: string, private baseUrl?: string) {}
+
+  resolvePath(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(this.root + path.sep)) {
+      throw new Error('Invalid storage key');
+    }
+    return resolved;
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    if (!this.baseUrl) throw new Error('Files in this storage are not publicly served');
+    return `${this.baseUrl}/${key}`;
+  }
+}
+
+// Files under UPLOADS_ROOT/public are served statically at PUBLIC_UPLOADS_URL
+export const mediaStorage: IFileStorage = new LocalFileStorage(path.join(UPLOADS_ROOT, 'public'), PUBLIC_UPLOADS_URL);
+
+// Accepted upload types and the magic bytes their content must start with
+export interface UploadType {
+  extension: string;
+  signature: number[];
+}
+
+export const imageUploadTypes: Record<string, UploadType> = {
+  'image/jpeg': { extension: 'jpg', signature: [0xff, 0xd8, 0xff] },
+  'image/png': { extension: 'png', signature: [0x89, 0x50, 0x4e, 0x47] },
+  'image/webp': { extension: 'webp', signature: [0x52, 0x49, 0x46, 0x46] }, // "RIFF"
+};
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const fileUploadSchema = z.object({
+  fileName: z.string().trim().min(1).max(200),
+  // data:<mime>;base64,<content> as produced by FileReader.readAsDataURL
+  dataUrl: z.string().regex(/^data:[\w.+/-]+;base64,/, 'Expected a base64 data URL'),
+});
+
+export type FileUpload = z.infer<typeof fileUploadSchema>;
+
+export type DecodeResult =
+  | { ok: true; mimeType: string; extension: string; content: Buffer }
+  | { ok: false; message: string };
+
+// Checks the declared type, the size and the file signature, so a renamed
+// executable can't pass as an image
+export const decodeUpload = (
+  upload: FileUpload,
+  types: Record<string, UploadType>,
+  maxBytes: number,
+): DecodeResult => {
+  const separator = upload.dataUrl.indexOf(';base64,');
+  const mimeType = upload.dataUrl.slice('data:'.length, separator);
+  const type = types[mimeType];
+  if (!type) {
+    const accepted = Object.values(types).map(t => t.extension.toUpperCase()).join(', ');
+    return { ok: false, message: `${upload.fileName}: only ${accepted} files are accepted` };
+  }
+
+  const content = Buffer.from(upload.dataUrl.slice(separator + ';base64,'.length), 'base64');
+  if (content.length === 0 || content.length > maxBytes) {
+    return { ok: false, message: `${upload.fileName}: files must be between 1 byte and ${maxBytes / (1024 * 1024)} MB` };
+  }
+  if (!type.signature.every((byte, i) => content[i] === byte)) {
+    return { ok: false, message: `${upload.fileName}: content does not match ${mimeType}` };
+  }
+  return { ok: true, mimeType, extension: type.extension, content };
+};
+
+interface VariantSpec {
+  width: number;
+  height?: number; // crops to fill when set, otherwise keeps the aspect ratio
+}
+
+const serviceImageVariants: Record<ImageVariant, VariantSpec> = {
+  thumb: { width: 160, height: 160 },
+  card: { width: 640, height: 384 },
+  large: { width: 1600 },
+};
+
+const avatarVariants = {
+  small: { width: 64, height: 64 },
+  medium: { width: 256, height: 256 },
+} satisfies Record<string, VariantSpec>;
+
+type AvatarVariant = keyof typeof avatarVariants;
+
+const variantKey = (storageKey: string, variant: string) => `${storageKey}/${variant}.webp`;
+
+export type ProcessedImage<V extends string> =
+  | { ok: true; storageKey: string; variants: Record<V, ImageVariantFile> }
+  | { ok: false; message: string };
+
+// Re-encodes every variant as WebP. Besides resizing, this drops EXIF data such as
+// the GPS position phones embed in photos.
+const storeImageVariants = async <V extends string>(
+  prefix: string,
+  upload: FileUpload,
+  specs: Record<V, VariantSpec>,
+): Promise<ProcessedImage<V>> => {
+  const decoded = decodeUpload(upload, imageUploadTypes, MAX_IMAGE_BYTES);
+  if (!decoded.ok) return decoded;
+
+  const storageKey = `${prefix}/${randomUUID()}`;
+  const variants = {} as Record<V, ImageVariantFile>;
+  try {
+    for (const variant of Object.keys(specs) as V[]) {
+      const spec = specs[variant];
+      const { data, info } = await sharp(decoded.content)
+        .rotate()
+        .resize(spec.width, spec.height, { fit: spec.height ? 'cover' : 'inside', withoutEnlargement: !spec.height })
+        .webp({ quality: 80 })
+        .toBuffer({ resolveWithObject: true });
+
+      const key = variantKey(storageKey, variant);
+      await mediaStorage.put(key, data, 'image/webp');
+      variants[variant] = { url: mediaStorage.getUrl(key), width: info.width, height: info.height };
+    }
+  } catch (error) {
+    await deleteImageVariants(storageKey, specs);
+    return { ok: false, message: `${upload.fileName}: the image could not be processed` };
+  }
+  return { ok: true, storageKey, variants };
+};
+
+const deleteImageVariants = async (storageKey: string, specs: Record<string, VariantSpec>) => {
+  await Promise.all(Object.keys(specs).map(variant => mediaStorage.delete(variantKey(storageKey, variant))));
+};
+
+export const storeServiceImage = (serviceId: number, upload: FileUpload) =>
+  storeImageVariants(`services/${serviceId}`, upload, serviceImageVariants);
+
+export const deleteServiceImageFiles = (storageKey: string) =>
+  deleteImageVariants(storageKey, serviceImageVariants);
+
+export const storeAvatar = (userId: string, upload: FileUpload): Promise<ProcessedImage<AvatarVariant>> =>
+  storeImageVariants(`avatars/${userId}`, upload, avatarVariants);
+
+export const deleteAvatarFiles = (storageKey: string) =>
+  deleteImageVariants(storageKey, avatarVariants);
@@ -0,0 +1,54 @@
+// One-off: converts services.availability from free text to the jsonb weekly schedule.
+// Values that already hold a valid schedule are kept; free text like "Lunes a viernes"
+// can't be read reliably, so it is cleared and the provider sets the schedule again.
+// Run with `npm run db:migrate-availability` BEFORE `npm run db:push`, which can't cast
+// the text column by itself.
+import { sql } from 'drizzle-orm';
+import { db, pool } from './db';
+import { weeklyScheduleSchema } from '@shared/schema';
+
+const parseSchedule = (value: string) => {
+  try {
+    return weeklyScheduleSchema.safeParse(JSON.parse(value)).success;
+  } catch {
+    return false;
+  }
+};
+
+async function migrateAvailability() {
+  try {
+    await db.transaction(async (tx) => {
+      const { rows: [column] } = await tx.execute<{ data_type: string }>(sql`
+        SELECT data_type FROM information_schema.columns
+        WHERE table_name = 'services' AND column_name = 'availability'
+      `);
+      if (!column || column.data_type === 'jsonb') {
+        console.log('ℹ️  services.availability is already jsonb, nothing to do');
+        return;
+      }
+
+      const { rows } = await tx.execute<{ id: number; availability: string }>(sql`
+        SELECT id, availability FROM services WHERE availability IS NOT NULL
+      `);
+      const cleared = rows.filter(row => !parseSchedule(row.availability)).map(row => row.id);
+      if (cleared.length > 0) {
+        await tx.execute(sql`
+          UPDATE services SET availability = NULL
+          WHERE id IN (${sql.join(cleared.map(id => sql`${id}`), sql`, `)})
+        `);
+      }
+
+      await tx.execute(sql`
+        ALTER TABLE services ALTER COLUMN availability TYPE jsonb USING availability::jsonb
+      `);
+      console.log(`✅ Converted availability to jsonb: kept ${rows.length - cleared.length} schedules, cleared ${cleared.length} free-text values`);
+    });
+  } catch (error) {
+    console.error('❌ Availability migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateAvailability();
@@ -0,0 +1,50 @@
+// One-off: loads the Área Metropolitana de Cúcuta gazetteer into an empty locations
+// table, then gives services that still have a free-text location the area it names
+// as their coverage. Run with `npm run db:migrate-locations` after `npm run db:push`.
+import { pool } from './db';
+import { storage } from './storage';
+import { department, municipalities, comunas, barrios, type GazetteerPlace } from './gazetteer';
+
+async function seedLocations(): Promise<number> {
+  const create = async (place: GazetteerPlace, level: 'department' | 'municipality' | 'comuna' | 'barrio', parentId: number | null) => {
+    const result = await storage.createLocation({ ...place, level, parentId });
+    if (!result.ok) throw new Error(`${place.name}: ${result.message}`);
+    return result.location.id;
+  };
+
+  const departmentId = await create(department, 'department', null);
+  const municipalityIds = new Map<string, number>();
+  for (const municipality of municipalities) {
+    municipalityIds.set(municipality.name, await create(municipality, 'municipality', departmentId));
+  }
+  const comunaIds = new Map<string, number>();
+  for (const { municipality, ...comuna } of comunas) {
+    comunaIds.set(comuna.name, await create(comuna, 'comuna', municipalityIds.get(municipality)!));
+  }
+  for (const { municipality, comuna, ...barrio } of barrios) {
+    await create(barrio, 'barrio', comuna ? comunaIds.get(comuna)! : municipalityIds.get(municipality)!);
+  }
+  return 1 + municipalities.length + comunas.length + barrios.length;
+}
+
+async function migrateLocations() {
+  try {
+    const existing = await storage.getLocations();
+    if (existing.length === 0) {
+      const seeded = await seedLocations();
+      console.log(`✅ Loaded ${seeded} locations from the gazetteer`);
+    } else {
+      console.log(`ℹ️  ${existing.length} locations already exist, skipping the gazetteer`);
+    }
+
+    const assigned = await storage.assignLegacyServiceLocations();
+    console.log(`✅ Assigned coverage areas to ${assigned} services from their free-text location`);
+  } catch (error) {
+    console.error('❌ Location migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+migrateLocations();
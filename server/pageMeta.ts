@@ -0,0 +1,48 @@
+import type { Request } from 'express';
+import { storage } from './storage';
+import { cacheManager } from './cache';
+import { captureError } from './monitoring';
+import { injectPageMeta, serviceMeta, providerMeta, categoryMeta, type PageMeta } from './seo';
+
+// Behind the proxy, req.protocol comes from X-Forwarded-Proto ('trust proxy' is set)
+export const requestOrigin = (req: Request): string => `${req.protocol}://${req.get('host')}`;
+
+// Service, provider and category pages; anything else keeps the template's defaults.
+// Unapproved services get nothing so their pages aren't previewed or indexed.
+const resolvePageMeta = async (pathname: string, origin: string): Promise<PageMeta | undefined> => {
+  const [, section, param] = pathname.match(/^\/(services|providers|categories)\/([^/]+)\/?$/) ?? [];
+  if (!section) return undefined;
+  const key = decodeURIComponent(param);
+
+  switch (section) {
+    case 'services': {
+      const id = await storage.resolveServiceId(key);
+      const service = id !== undefined ? await storage.getServiceDetail(id) : undefined;
+      return service?.isApproved ? serviceMeta(service, origin) : undefined;
+    }
+    case 'providers': {
+      const userId = await storage.resolveProviderId(key);
+      const profile = userId ? await storage.getProviderPublicProfile(userId) : undefined;
+      return profile ? providerMeta(profile, origin) : undefined;
+    }
+    default: {
+      const category = await storage.getCategoryBySlug(key);
+      return category ? categoryMeta(category) : undefined;
+    }
+  }
+};
+
+// Crawlers and link previews don't run the client, so the page's title, description,
+// Open Graph tags and structured data go into the HTML shell. Failures fall back to
+// the plain shell rather than breaking the page.
+export const withPageMeta = async (html: string, req: Request): Promise<string> => {
+  try {
+    const origin = requestOrigin(req);
+    const pathname = req.originalUrl.split('?')[0];
+    const meta = await cacheManager.getPageMeta(`${origin}${pathname}`, () => resolvePageMeta(pathname, origin));
+    return meta ? injectPageMeta(html, meta, origin) : html;
+  } catch (error) {
+    captureError(error as Error, { url: req.originalUrl });
+    return html;
+  }
+};
@@ -1,7 +1,9 @@
 
 import Stripe from 'stripe';
+import { z } from 'zod';
 import { storage } from './storage';
 import { logSecurityEvent } from './monitoring';
+import type { Invoice, InvoiceLineItem, InvoiceTaxBreakdown } from '@shared/schema';
 
 // Configuración de Stripe
 const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY, {
@@ -23,13 +25,17 @@ export interface PSEPayment {
   documentNumber: string;
   amount: number;
   description: string;
+  userId?: string;
+  serviceId?: number;
+  donationId?: number;
 }
 
 // Integración con Stripe para pagos internacionales
 export const createStripePayment = async (
   amount: number,
   currency: string = 'cop',
-  serviceId?: number
+  serviceId?: number,
+  userId?: string
 ): Promise<PaymentIntent> => {
   if (!stripe) {
     throw new Error('Stripe not configured');
@@ -45,6 +51,17 @@ export const createStripePayment = async (
       },
     });
 
+    await storage.createPaymentRecord({
+      id: paymentIntent.id,
+      userId,
+      serviceId,
+      amount,
+      currency: currency.toUpperCase(),
+      status: 'pending',
+      paymentMethod: 'stripe',
+      metadata: paymentIntent.metadata,
+    });
+
     logSecurityEvent('payment_created', {
       paymentId: paymentIntent.id,
       amount,
@@ -87,6 +104,9 @@ export const createPSEPayment = async (payment: PSEPayment): Promise<PaymentInte
   // Simular proceso PSE
   await storage.createPaymentRecord({
     id: paymentId,
+    userId: payment.userId,
+    serviceId: payment.serviceId,
+    donationId: payment.donationId,
     amount: payment.amount,
     currency: 'COP',
     status: 'pending',
@@ -128,13 +148,37 @@ export const handlePaymentWebhook = async (event: any, signature: string): Promi
       if (stripeEvent.type === 'payment_intent.succeeded') {
         const paymentIntent = stripeEvent.data.object as Stripe.PaymentIntent;
         
-        await storage.updatePaymentStatus(paymentIntent.id, 'succeeded');
+        const payment = await storage.updatePaymentStatus(paymentIntent.id, 'succeeded', {
+          eventId: stripeEvent.id,
+        });
+
+        // Las donaciones pagadas en línea se completan con la confirmación del pago
+        if (payment?.donationId) {
+          await storage.updateDonationStatus(payment.donationId, 'completed');
+        }
         
         logSecurityEvent('payment_confirmed', {
           paymentId: paymentIntent.id,
           amount: paymentIntent.amount / 100,
         }, 'info');
       }
+
+      if (stripeEvent.type === 'payment_intent.payment_failed') {
+        const paymentIntent = stripeEvent.data.object as Stripe.PaymentIntent;
+
+        const payment = await storage.updatePaymentStatus(paymentIntent.id, 'failed', {
+          eventId: stripeEvent.id,
+          reason: paymentIntent.last_payment_error?.message,
+        });
+
+        if (payment?.donationId) {
+          await storage.updateDonationStatus(payment.donationId, 'failed');
+        }
+
+        logSecurityEvent('payment_failed', {
+          paymentId: paymentIntent.id,
+        }, 'warning');
+      }
     } catch (error) {
       logSecurityEvent('webhook_error', {
         error: error.message,
@@ -145,50 +189,107 @@ export const handlePaymentWebhook = async (event: any, signature: string): Promi
 };
 
 // Facturación electrónica DIAN (Colombia)
-export interface InvoiceData {
-  customerName: string;
-  customerId: string;
-  customerEmail: string;
-  items: Array<{
-    description: string;
-    quantity: number;
-    unitPrice: number;
-    tax: number;
-  }>;
-  paymentId: string;
-}
+export const invoiceDataSchema = z.object({
+  customerName: z.string().trim().min(1).max(200),
+  customerIdType: z.enum(['CC', 'CE', 'NIT']).optional(),
+  customerId: z.string().trim().min(1).max(20),
+  customerEmail: z.string().trim().email(),
+  items: z.array(z.object({
+    description: z.string().trim().min(1).max(500),
+    quantity: z.number().int().positive(),
+    unitPrice: z.number().int().nonnegative(),
+    taxRate: z.number().min(0).max(100).optional(), // IVA %, por defecto 19
+  })).min(1).max(100),
+  paymentId: z.string().min(1),
+});
 
-export const generateInvoice = async (data: InvoiceData): Promise<string> => {
-  // En producción, integrar con proveedor de facturación DIAN
-  // Ejemplo: FacturAPI, Alegra, Siigo
-  
-  const invoiceNumber = `FE-${Date.now()}`;
-  const subtotal = data.items.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0);
-  const taxes = data.items.reduce((sum, item) => sum + item.tax, 0);
-  const total = subtotal + taxes;
-
-  const invoice = {
-    number: invoiceNumber,
-    date: new Date().toISOString(),
-    customer: {
-      name: data.customerName,
-      id: data.customerId,
-      email: data.customerEmail,
-    },
-    items: data.items,
-    subtotal,
-    taxes,
-    total,
-    paymentReference: data.paymentId,
-  };
+export type InvoiceData = z.infer<typeof invoiceDataSchema>;
+
+export type InvoiceResult =
+  | { ok: true; invoice: Invoice; created: boolean }
+  | { ok: false; httpStatus: 400 | 403 | 404 | 409; message: string };
 
-  await storage.saveInvoice(invoice);
+const DEFAULT_IVA_RATE = 19;
+
+// Solo el proveedor del servicio pagado o un administrador facturan un pago,
+// y cada pago se factura una sola vez: repetir la solicitud devuelve la misma factura
+export const generateInvoice = async (
+  data: InvoiceData,
+  requester: { userId: string; isAdmin: boolean },
+): Promise<InvoiceResult> => {
+  // El XML UBL se genera localmente; en producción se firma y transmite
+  // a través del proveedor tecnológico (FacturAPI, Alegra, Siigo)
+
+  const payment = await storage.getPaymentById(data.paymentId);
+  if (!payment) {
+    return { ok: false, httpStatus: 404, message: 'Pago no encontrado' };
+  }
+
+  const service = payment.serviceId ? await storage.getServiceById(payment.serviceId) : undefined;
+  if (!requester.isAdmin && service?.userId !== requester.userId) {
+    return { ok: false, httpStatus: 403, message: 'Solo el proveedor del servicio puede facturar este pago' };
+  }
+
+  if (payment.status !== 'succeeded') {
+    return { ok: false, httpStatus: 409, message: 'Solo se pueden facturar pagos confirmados' };
+  }
+
+  const existing = await storage.getInvoiceByPaymentId(payment.id);
+  if (existing) {
+    return { ok: true, invoice: existing, created: false };
+  }
+
+  const items: InvoiceLineItem[] = data.items.map(item => {
+    const taxRate = item.taxRate ?? DEFAULT_IVA_RATE;
+    const lineTotal = item.quantity * item.unitPrice;
+    return {
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      taxRate,
+      taxAmount: Math.round(lineTotal * taxRate / 100),
+      lineTotal,
+    };
+  });
+
+  // Discriminación del IVA por tarifa
+  const taxBreakdown: InvoiceTaxBreakdown[] = [];
+  items.forEach(item => {
+    const entry = taxBreakdown.find(tax => tax.taxRate === item.taxRate);
+    if (entry) {
+      entry.taxableAmount += item.lineTotal;
+      entry.taxAmount += item.taxAmount;
+    } else {
+      taxBreakdown.push({ taxRate: item.taxRate, taxableAmount: item.lineTotal, taxAmount: item.taxAmount });
+    }
+  });
+
+  const subtotal = items.reduce((sum, item) => sum + item.lineTotal, 0);
+  const taxTotal = items.reduce((sum, item) => sum + item.taxAmount, 0);
+
+  const invoice = await storage.saveInvoice({
+    paymentId: payment.id,
+    providerId: service?.userId,
+    customerName: data.customerName,
+    customerIdType: data.customerIdType || 'CC',
+    customerId: data.customerId,
+    customerEmail: data.customerEmail,
+    items,
+    taxBreakdown,
+    subtotal,
+    taxTotal,
+    total: subtotal + taxTotal,
+    currency: payment.currency,
+  });
+  if (!invoice) {
+    return { ok: false, httpStatus: 400, message: 'No hay una resolución de facturación DIAN vigente con consecutivos disponibles' };
+  }
 
   logSecurityEvent('invoice_generated', {
-    invoiceNumber,
-    total,
+    invoiceNumber: invoice.number,
+    total: invoice.total,
     paymentId: data.paymentId,
   }, 'info');
 
-  return invoiceNumber;
+  return { ok: true, invoice, created: true };
 };
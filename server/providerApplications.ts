@@ -0,0 +1,83 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { z } from 'zod';
+import { wsManager } from './websocket';
+import { LocalFileStorage, UPLOADS_ROOT, decodeUpload, fileUploadSchema, imageUploadTypes, type UploadType } from './media';
+import {
+  providerDocumentKinds,
+  type ProviderApplication,
+  type ProviderApplicationDocument,
+} from '@shared/schema';
+
+// Documents live outside any statically served directory; admins download them through the API
+const documentStorage = new LocalFileStorage(path.join(UPLOADS_ROOT, 'private', 'provider-applications'));
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+// All documents travel in one JSON body, which express.json caps at 10 MB.
+// Base64 adds a third, so 6 MB of files stays under the limit with room for the rest.
+export const MAX_APPLICATION_DOCUMENTS_BYTES = 6 * 1024 * 1024;
+
+const decodedSize = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 3 / 4);
+
+const documentTypes: Record<string, UploadType> = {
+  'application/pdf': { extension: 'pdf', signature: [0x25, 0x50, 0x44, 0x46] },
+  'image/jpeg': imageUploadTypes['image/jpeg'],
+  'image/png': imageUploadTypes['image/png'],
+};
+
+const documentUploadSchema = fileUploadSchema.extend({
+  kind: z.enum(providerDocumentKinds),
+});
+
+export const providerApplicationSchema = z.object({
+  legalName: z.string().trim().min(3).max(120),
+  documentType: z.enum(['cedula', 'nit']),
+  documentNumber: z.string().trim().regex(/^\d{5,12}(-\d)?$/, 'Invalid document number'),
+  tradeDescription: z.string().trim().max(1000).optional(),
+  documents: z.array(documentUploadSchema).min(1).max(8)
+    .refine(docs => docs.some(doc => doc.kind === 'identity'), 'An identity document is required')
+    .refine(docs => docs.some(doc => doc.kind === 'selfie'), 'A selfie is required')
+    .refine(
+      docs => docs.reduce((total, doc) => total + decodedSize(doc.dataUrl), 0) <= MAX_APPLICATION_DOCUMENTS_BYTES,
+      `Documents can add up to ${MAX_APPLICATION_DOCUMENTS_BYTES / (1024 * 1024)} MB in total`,
+    ),
+});
+
+export type DocumentUpload = z.infer<typeof documentUploadSchema>;
+
+export type SaveDocumentsResult =
+  | { ok: true; documents: ProviderApplicationDocument[] }
+  | { ok: false; message: string };
+
+// Validates every upload before writing any of them, so a bad file leaves nothing behind
+export const saveApplicationDocuments = async (userId: string, uploads: DocumentUpload[]): Promise<SaveDocumentsResult> => {
+  const decoded = [];
+  for (const upload of uploads) {
+    const result = decodeUpload(upload, documentTypes, MAX_DOCUMENT_BYTES);
+    if (!result.ok) return result;
+    decoded.push({ upload, ...result });
+  }
+
+  const documents = await Promise.all(decoded.map(async ({ upload, mimeType, extension, content }) => {
+    const storageKey = `${userId}/${randomUUID()}.${extension}`;
+    await documentStorage.put(storageKey, content);
+    return { kind: upload.kind, fileName: upload.fileName, mimeType, size: content.length, storageKey };
+  }));
+  return { ok: true, documents };
+};
+
+export const resolveDocumentPath = (document: ProviderApplicationDocument): string =>
+  documentStorage.resolvePath(document.storageKey);
+
+export const notifyApplicationReviewed = (application: ProviderApplication): void => {
+  wsManager.sendToUser(application.userId, {
+    type: 'notification',
+    data: {
+      kind: 'provider_application',
+      applicationId: application.id,
+      status: application.status,
+      notes: application.reviewNotes,
+    },
+    userId: application.userId,
+    timestamp: new Date().toISOString(),
+  });
+};
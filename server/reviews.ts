@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { storage } from './storage';
+import { wsManager } from './websocket';
+import type { Review, ReviewErrorCode, ReviewVerificationSource } from '@shared/schema';
+
+// Open reports needed to hide a review until an admin looks at it
+export const REVIEW_REPORT_HIDE_THRESHOLD = parseInt(process.env.REVIEW_REPORT_HIDE_THRESHOLD || '3');
+
+export const reviewDecisionSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(100),
+  action: z.enum(['approve', 'reject']),
+  reason: z.string().trim().max(500).optional(),
+}).refine(data => data.action === 'approve' || !!data.reason, {
+  message: 'A reason is required to reject a review',
+  path: ['reason'],
+});
+
+export type ReviewEligibility =
+  | { ok: true; verifiedVia: ReviewVerificationSource | null }
+  | { ok: false; httpStatus: 403 | 404 | 409; code: ReviewErrorCode; message: string };
+
+// One review per user per service and never on your own service. Anyone else may review;
+// the review is marked verified when there is a booking, payment or contact behind it.
+export const checkReviewEligibility = async (serviceId: number, userId: string): Promise<ReviewEligibility> => {
+  const service = await storage.getServiceById(serviceId);
+  if (!service || !service.isApproved) {
+    return { ok: false, httpStatus: 404, code: 'SERVICE_NOT_FOUND', message: 'Service not found' };
+  }
+
+  if (service.userId === userId) {
+    return { ok: false, httpStatus: 403, code: 'SELF_REVIEW', message: 'You cannot review your own service' };
+  }
+
+  if (await storage.getReviewByServiceAndUser(serviceId, userId)) {
+    return { ok: false, httpStatus: 409, code: 'ALREADY_REVIEWED', message: 'You already reviewed this service' };
+  }
+
+  return { ok: true, verifiedVia: await storage.getReviewVerification(serviceId, userId) };
+};
+
+// Tells each reviewer what happened to their review; rejections carry the admin's reason
+export const notifyReviewModerated = (moderated: Review[]): void => {
+  const timestamp = new Date().toISOString();
+  moderated.forEach(review => {
+    wsManager.sendToUser(review.userId, {
+      type: 'notification',
+      data: {
+        kind: 'review_moderated',
+        reviewId: review.id,
+        serviceId: review.serviceId,
+        status: review.isApproved ? 'approved' : 'rejected',
+        reason: review.rejectionReason,
+      },
+      userId: review.userId,
+      timestamp,
+    });
+  });
+};
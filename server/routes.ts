@@ -1,4 +1,5 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
+import path from "path";
 import { createServer, type Server } from "http";
 import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
@@ -8,15 +9,18 @@ import cors from "cors";
 import { body, validationResult } from "express-validator";
 import { encode } from "html-entities";
 import { storage } from "./storage";
-import { authenticate, requireAdmin, requireProvider, hashPassword, comparePassword, generateToken, generateRefreshToken, type AuthRequest } from "./auth";
+import { authenticate, requireAdmin, requireProvider, hashPassword, comparePassword, generateToken, generateRefreshToken, generateTwoFactorChallengeToken, verifyToken, type AuthRequest } from "./auth";
 import { cacheManager } from "./cache";
 import { wsManager } from "./websocket";
 import { healthMonitor } from "./healthCheck";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, serviceSortOptions, serviceAvailabilityFilters, bookingStatuses, reviewQueueFilters, reviewSortOptions, providerApplicationStatuses, type ServiceSort, type ServiceAvailabilityFilter, type BookingStatus, type ReviewQueueFilter, type ReviewSort, type ProviderApplicationStatus } from "@shared/schema";
 import { z } from "zod";
 import {
   insertCategorySchema,
+  categoryDeletionSchema,
   insertServiceSchema,
+  insertLocationSchema,
+  serviceCoverageSchema,
   insertContentSchema,
   insertSuggestionSchema,
   insertDonationSchema,
@@ -27,6 +31,22 @@ import {
   insertSupportArticleSchema,
   insertFaqItemSchema,
   insertSupportTicketSchema,
+  insertInvoiceResolutionSchema,
+  insertProviderProfileSchema,
+  buildServiceAttributesSchema,
+  effectiveAttributeDefinitions,
+  servicePath,
+  providerPath,
+  categoryPath,
+  favoriteSchema,
+  favoriteListSchema,
+  favoriteMoveSchema,
+  insertSavedSearchSchema,
+  updateSavedSearchSchema,
+  paymentStatuses,
+  paymentMethods,
+  type InsertCategory,
+  type ServiceAttributes,
 } from "@shared/schema";
 
 // Nuevas importaciones para funcionalidades avanzadas
@@ -36,14 +56,32 @@ import {
   verify2FAToken, 
   enable2FA, 
   validate2FALogin, 
-  disable2FA 
+  disable2FA,
+  isTwoFactorEnabled
 } from './twoFactorAuth';
 import { 
   createStripePayment, 
   createPSEPayment, 
   handlePaymentWebhook, 
-  generateInvoice 
+  generateInvoice,
+  invoiceDataSchema
 } from './payments';
+import { buildInvoiceXml, renderInvoicePdf } from './invoices';
+import { bookingActions, resolveBookingTransition, notifyBookingUpdate, type BookingAction } from './bookings';
+import { reviewDecisionSchema, notifyReviewModerated, checkReviewEligibility, REVIEW_REPORT_HIDE_THRESHOLD } from './reviews';
+import { computeOpenSlots, isWithinSchedule, toInstant, toLocalTime } from './availability';
+import { chatMessageBodySchema, sendChatMessage, markChatRead } from './chat';
+import { providerApplicationSchema, saveApplicationDocuments, resolveDocumentPath, notifyApplicationReviewed } from './providerApplications';
+import { normalizeQuery } from './search';
+import { parseGeoPoint, MAX_RADIUS_KM } from './geo';
+import { validateCategoryParent, findInheritedKeyClash, parseAttributeFilters } from './categories';
+import { renderSitemap, renderRobots } from './seo';
+import { checkFavoriteTarget, notifyFavoritePriceChange, notifyFavoriteReviews } from './favorites';
+import { checkSavedSearch, alertSavedSearches, startSavedSearchDigests } from './savedSearches';
+import { requestOrigin } from './pageMeta';
+import { UPLOADS_ROOT, PUBLIC_UPLOADS_URL, fileUploadSchema, storeServiceImage, deleteServiceImageFiles, storeAvatar, deleteAvatarFiles } from './media';
+
+const MAX_SERVICE_IMAGES = 12;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Initialize monitoring system
@@ -51,6 +89,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Start health monitoring
   healthMonitor.startMonitoring();
+  startSavedSearchDigests();
   
   // Configure trust proxy for rate limiting
   app.set('trust proxy', 1);
@@ -141,6 +180,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/', apiLimiter);
   app.use('/api/login', authLimiter);
   app.use('/api/register', authLimiter);
+  app.use('/api/auth/2fa/verify', authLimiter);
+
+  // Uploaded photos. Every file gets a random name, so it can be cached for good.
+  app.use(PUBLIC_UPLOADS_URL, express.static(path.join(UPLOADS_ROOT, 'public'), {
+    index: false,
+    immutable: true,
+    maxAge: '1y',
+  }));
 
   // Session configuration for JWT + Express Sessions
   const PgSession = connectPgSimple(session);
@@ -304,6 +351,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: 'Invalid credentials' });
       }
 
+      // Accounts with 2FA get a challenge instead of a session
+      if (await isTwoFactorEnabled(user.id.toString())) {
+        logSecurityEvent('2fa_challenge_issued', {
+          username: validated.username,
+          ip: req.ip,
+          userId: user.id
+        }, 'info');
+
+        return res.json({
+          requires2FA: true,
+          challengeToken: generateTwoFactorChallengeToken(user.id),
+          message: 'Two-factor verification required'
+        });
+      }
+
       logSecurityEvent('successful_login', {
         username: validated.username,
         ip: req.ip,
@@ -372,6 +434,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/auth/ws-token - Token for the /api/ws socket, which can't use the session cookie
+  app.get('/api/auth/ws-token', authenticate, async (req: any, res) => {
+    res.json({ token: generateToken(req.user!.id) });
+  });
+
+  // Crawlers
+  app.get('/sitemap.xml', async (req, res) => {
+    try {
+      const origin = requestOrigin(req);
+      const sitemap = await cacheManager.getSitemap(async () => {
+        const { categories, services, providers } = await storage.getSitemapData();
+        return renderSitemap([
+          { path: '/', priority: 1 },
+          { path: '/services', priority: 0.9 },
+          { path: '/about', priority: 0.3 },
+          { path: '/support', priority: 0.3 },
+          ...categories.map(category => ({ path: categoryPath(category), lastModified: category.updatedAt, priority: 0.8 })),
+          ...services.map(service => ({ path: servicePath(service), lastModified: service.updatedAt, priority: 0.7 })),
+          ...providers.map(provider => ({ path: providerPath(provider), lastModified: provider.updatedAt, priority: 0.5 })),
+        ], origin);
+      });
+      res.type('application/xml').send(sitemap);
+    } catch (error) {
+      captureError(error as Error);
+      res.status(500).json({ message: "Failed to generate sitemap" });
+    }
+  });
+
+  app.get('/robots.txt', (req, res) => {
+    res.type('text/plain').send(renderRobots(requestOrigin(req)));
+  });
+
   // Categories
   app.get('/api/categories', async (req, res) => {
     try {
@@ -383,13 +477,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The parent must exist without creating a cycle, and a subcategory's fields can't
+  // reuse the keys it inherits; responds 400 otherwise
+  const checkCategoryPlacement = async (
+    id: number | undefined,
+    categoryData: Partial<InsertCategory>,
+    res: any,
+  ): Promise<boolean> => {
+    const all = await storage.getCategories();
+    const current = all.find(category => category.id === id);
+    const parentId = categoryData.parentId !== undefined ? categoryData.parentId : current?.parentId;
+    const parentError = validateCategoryParent(id, categoryData.parentId, all);
+    if (parentError) {
+      res.status(400).json({ message: parentError });
+      return false;
+    }
+    const clash = findInheritedKeyClash(categoryData.attributeDefinitions ?? current?.attributeDefinitions ?? [], parentId, all);
+    if (clash) {
+      res.status(400).json({ message: `Attribute "${clash}" is already defined by a parent category` });
+      return false;
+    }
+    return true;
+  };
+
   app.post('/api/categories', authenticate, requireAdmin, async (req: any, res) => {
     try {
-      
       const categoryData = insertCategorySchema.parse(req.body);
+      if (!await checkCategoryPlacement(undefined, categoryData, res)) return;
+
       const category = await storage.createCategory(categoryData);
       res.json(category);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
       console.error("Error creating category:", error);
       res.status(500).json({ message: "Failed to create category" });
     }
@@ -397,55 +518,232 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/categories/:id', authenticate, requireAdmin, async (req: any, res) => {
     try {
-      
       const id = parseInt(req.params.id);
       const categoryData = insertCategorySchema.partial().parse(req.body);
+      if (!await checkCategoryPlacement(id, categoryData, res)) return;
+
       const category = await storage.updateCategory(id, categoryData);
       res.json(category);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
       console.error("Error updating category:", error);
       res.status(500).json({ message: "Failed to update category" });
     }
   });
 
+  // What a deletion would touch, shown before the admin confirms it
+  app.get('/api/categories/:id/impact', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const impact = await storage.getCategoryImpact(parseInt(req.params.id));
+      if (!impact) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      res.json(impact);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch category impact" });
+    }
+  });
+
+  // Deactivates the category and moves its services to replacementCategoryId
   app.delete('/api/categories/:id', authenticate, requireAdmin, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user!.id.toString());
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const { replacementCategoryId } = categoryDeletionSchema.parse(req.body ?? {});
+      const result = await storage.deleteCategory(parseInt(req.params.id), replacementCategoryId, req.user!.id.toString());
+      if (!result.ok) {
+        return res.status(result.httpStatus).json({ message: result.message });
       }
-      
-      const id = parseInt(req.params.id);
-      await storage.deleteCategory(id);
-      res.json({ message: "Category deleted successfully" });
+      res.json(result.deletion);
     } catch (error) {
-      console.error("Error deleting category:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
       res.status(500).json({ message: "Failed to delete category" });
     }
   });
 
+  // Deletions that can still be undone
+  app.get('/api/categories/deletions', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      res.json(await storage.getUndoableCategoryDeletions());
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch category deletions" });
+    }
+  });
+
+  app.post('/api/categories/deletions/:id/undo', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const result = await storage.undoCategoryDeletion(parseInt(req.params.id));
+      if (!result.ok) {
+        return res.status(result.httpStatus).json({ message: result.message });
+      }
+      res.json(result.deletion);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to undo category deletion" });
+    }
+  });
+
+  // Locations
+  app.get('/api/locations', async (req, res) => {
+    try {
+      const locations = await cacheManager.getLocations(() => storage.getLocations());
+      res.json(locations);
+    } catch (error) {
+      captureError(error as Error);
+      res.status(500).json({ message: "Failed to fetch locations" });
+    }
+  });
+
+  app.post('/api/locations', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const locationData = insertLocationSchema.parse(req.body);
+      const result = await storage.createLocation(locationData);
+      if (!result.ok) {
+        return res.status(result.httpStatus).json({ message: result.message });
+      }
+      res.status(201).json(result.location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to create location" });
+    }
+  });
+
+  app.put('/api/locations/:id', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const locationData = insertLocationSchema.partial().parse(req.body);
+      const result = await storage.updateLocation(parseInt(req.params.id), locationData);
+      if (!result.ok) {
+        return res.status(result.httpStatus).json({ message: result.message });
+      }
+      res.json(result.location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to update location" });
+    }
+  });
+
+  app.delete('/api/locations/:id', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const result = await storage.deleteLocation(parseInt(req.params.id));
+      if (!result.ok) {
+        return res.status(result.httpStatus).json({ message: result.message });
+      }
+      res.json({ message: "Location deleted successfully" });
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to delete location" });
+    }
+  });
+
   // Services
   app.get('/api/services', async (req, res) => {
     try {
-      const { categoryId, search, location, approved = 'true' } = req.query;
+      const { categoryId, search, locationId, approved = 'true', featured, minPrice, maxPrice, available, near, radiusKm, sortBy, page, pageSize, cursor } = req.query;
+      const category = categoryId ? parseInt(categoryId as string) || undefined : undefined;
+
+      // The cursor is an opaque token for the next page; page/pageSize work too
+      let currentPage = page ? Math.max(parseInt(page as string) || 1, 1) : 1;
+      if (cursor) {
+        try {
+          currentPage = z.object({ page: z.number().int().positive() })
+            .parse(JSON.parse(Buffer.from(String(cursor), 'base64url').toString())).page;
+        } catch {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+      }
+      const size = Math.min(Math.max(parseInt(pageSize as string) || 24, 1), 100);
+
+      // near=lat,lng adds each service's distance, and radiusKm limits the listing to it
+      const nearPoint = near ? parseGeoPoint(near as string) : undefined;
+      if (near && !nearPoint) {
+        return res.status(400).json({ message: "Invalid near parameter, expected lat,lng" });
+      }
+      // Prices are whole cents, like services.price
+      const prices = z.object({
+        minPrice: z.coerce.number().int().nonnegative().optional(),
+        maxPrice: z.coerce.number().int().nonnegative().optional(),
+      }).safeParse({ minPrice: minPrice || undefined, maxPrice: maxPrice || undefined });
+      if (!prices.success) {
+        return res.status(400).json({ message: "Invalid price filter" });
+      }
+
+      const radius = radiusKm ? Math.min(Math.max(parseFloat(radiusKm as string) || MAX_RADIUS_KM, 0.1), MAX_RADIUS_KM) : undefined;
+
+      // attr.<key> filters apply to the fields of the chosen category and its ancestors
+      const attributeFilters = category
+        ? parseAttributeFilters(req.query, effectiveAttributeDefinitions(category, await storage.getCategories()))
+        : [];
+
       const filters = {
-        categoryId: categoryId ? parseInt(categoryId as string) : undefined,
+        categoryId: category,
+        attributes: attributeFilters,
         search: search as string,
-        location: location as string,
+        locationId: locationId ? parseInt(locationId as string) || undefined : undefined,
         approved: approved === 'true',
+        featured: featured !== undefined ? featured === 'true' : undefined,
+        minPrice: prices.data.minPrice,
+        maxPrice: prices.data.maxPrice,
+        available: serviceAvailabilityFilters.includes(available as any) ? available as ServiceAvailabilityFilter : undefined,
+        near: nearPoint,
+        radiusKm: nearPoint ? radius : undefined,
+        sortBy: serviceSortOptions.includes(sortBy as any) ? sortBy as ServiceSort : undefined,
       };
-      const services = await storage.getServices(filters);
-      res.json(services);
+
+      const [items, total] = await Promise.all([
+        storage.getServices({ ...filters, page: currentPage, pageSize: size }),
+        storage.countServices(filters),
+      ]);
+
+      // Searches that found something feed the popular suggestions
+      if (filters.search && total > 0 && currentPage === 1) {
+        storage.recordSearchQuery(filters.search).catch(error => captureError(error as Error));
+      }
+
+      const hasMore = currentPage * size < total;
+      res.json({
+        items,
+        total,
+        page: currentPage,
+        pageSize: size,
+        nextCursor: hasMore ? Buffer.from(JSON.stringify({ page: currentPage + 1 })).toString('base64url') : null,
+      });
     } catch (error) {
       console.error("Error fetching services:", error);
       res.status(500).json({ message: "Failed to fetch services" });
     }
   });
 
+  app.get('/api/search/suggest', async (req, res) => {
+    try {
+      const prefix = normalizeQuery(typeof req.query.q === 'string' ? req.query.q : '');
+      if (prefix.length < 2) {
+        return res.json([]);
+      }
+
+      const suggestions = await cacheManager.getSearchSuggestions(prefix, () => storage.getSearchSuggestions(prefix));
+      res.json(suggestions);
+    } catch (error) {
+      captureError(error as Error);
+      res.status(500).json({ message: "Failed to fetch suggestions" });
+    }
+  });
+
+  // By id or by slug
   app.get('/api/services/:id', async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const service = await storage.getServiceById(id);
+      const id = await storage.resolveServiceId(req.params.id);
+      const service = id !== undefined ? await storage.getServiceDetail(id) : undefined;
       if (!service) {
         return res.status(404).json({ message: "Service not found" });
       }
@@ -456,15 +754,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Open slots between two local dates (yyyy-MM-dd, America/Bogota), at most a month
+  app.get('/api/services/:id/slots', async (req, res) => {
+    try {
+      const service = await storage.getServiceById(parseInt(req.params.id));
+      if (!service || !service.isApproved) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+
+      const today = toLocalTime(new Date()).date;
+      const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+      const from = datePattern.test(req.query.from as string) ? req.query.from as string : today;
+      const to = datePattern.test(req.query.to as string) ? req.query.to as string : from;
+      const rangeDays = (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+      if (isNaN(rangeDays) || rangeDays < 0 || rangeDays > 31) {
+        return res.status(400).json({ message: "Invalid date range" });
+      }
+
+      if (!service.availability) {
+        return res.json({ timezone: 'America/Bogota', slots: [] });
+      }
+
+      const busy = await storage.getConfirmedBookingsBetween(
+        service.userId,
+        toInstant(from, '00:00'),
+        new Date(toInstant(to, '00:00').getTime() + 24 * 60 * 60 * 1000)
+      );
+      res.json({
+        timezone: service.availability.timezone,
+        slots: computeOpenSlots(service.availability, from, to, busy),
+      });
+    } catch (error) {
+      console.error("Error computing slots:", error);
+      res.status(500).json({ message: "Failed to compute available slots" });
+    }
+  });
+
+  // Every id must name an existing location; responds 400 otherwise
+  const checkCoverageAreas = async (coverageAreaIds: number[] | undefined, res: any): Promise<boolean> => {
+    if (!coverageAreaIds) return true;
+    const areas = await storage.getLocationsByIds(coverageAreaIds);
+    if (areas.length !== coverageAreaIds.length) {
+      res.status(400).json({ message: "Unknown coverage area" });
+      return false;
+    }
+    return true;
+  };
+
+  // Validates the attributes against the category's fields (and those it inherits),
+  // throwing a ZodError; responds 400 and returns undefined for an unknown category
+  const checkServiceAttributes = async (
+    categoryId: number,
+    attributes: Record<string, unknown> | undefined,
+    res: any,
+  ): Promise<ServiceAttributes | undefined> => {
+    const all = await storage.getCategories();
+    if (!all.some(category => category.id === categoryId)) {
+      res.status(400).json({ message: "Unknown category" });
+      return undefined;
+    }
+    return buildServiceAttributesSchema(effectiveAttributeDefinitions(categoryId, all))
+      .parse(attributes ?? {}, { path: ['attributes'] });
+  };
+
   app.post('/api/services', authenticate, async (req: any, res) => {
     try {
       const serviceData = insertServiceSchema.parse({
         ...req.body,
         userId: req.user!.id.toString(),
       });
-      const service = await storage.createService(serviceData);
+      const { coverageAreaIds } = serviceCoverageSchema.parse(req.body);
+      if (!await checkCoverageAreas(coverageAreaIds, res)) return;
+      const attributes = await checkServiceAttributes(serviceData.categoryId, serviceData.attributes, res);
+      if (!attributes) return;
+
+      const service = await storage.createService({ ...serviceData, attributes }, coverageAreaIds);
       res.json(service);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
       console.error("Error creating service:", error);
       res.status(500).json({ message: "Failed to create service" });
     }
@@ -485,9 +854,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const serviceData = insertServiceSchema.partial().parse(req.body);
-      const updatedService = await storage.updateService(id, serviceData);
+      const { coverageAreaIds } = serviceCoverageSchema.partial().parse(req.body);
+      if (!await checkCoverageAreas(coverageAreaIds, res)) return;
+
+      // A new category can have other required fields than the old one
+      if (serviceData.categoryId !== undefined || serviceData.attributes !== undefined) {
+        const attributes = await checkServiceAttributes(
+          serviceData.categoryId ?? service.categoryId,
+          serviceData.attributes ?? service.attributes,
+          res,
+        );
+        if (!attributes) return;
+        serviceData.attributes = attributes;
+      }
+
+      const updatedService = await storage.updateService(id, serviceData, coverageAreaIds);
+      notifyFavoritePriceChange(service, updatedService);
       res.json(updatedService);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
       console.error("Error updating service:", error);
       res.status(500).json({ message: "Failed to update service" });
     }
@@ -496,6 +883,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/services/:id', authenticate, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
+      if (Number.isNaN(id)) {
+        return res.status(400).json({ message: "Invalid service id" });
+      }
       const user = await storage.getUser(req.user!.id.toString());
       const service = await storage.getServiceById(id);
       
@@ -507,7 +897,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" });
       }
       
-      await storage.deleteService(id);
+      const images = await storage.getServiceImages(id);
+      const result = await storage.deleteService(id);
+      if (!result.ok) {
+        return res.status(result.httpStatus).json({ message: result.message });
+      }
+      // Rows go with the service (ON DELETE CASCADE); the files have to be removed here
+      await Promise.all(images.map(image => deleteServiceImageFiles(image.storageKey)));
       res.json({ message: "Service deleted successfully" });
     } catch (error) {
       console.error("Error deleting service:", error);
@@ -523,7 +919,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const id = parseInt(req.params.id);
-      const service = await storage.approveService(id);
+      const { service, firstApproval } = await storage.approveService(id);
+      // Saved searches hear about a service when it first goes public
+      if (firstApproval) {
+        alertSavedSearches(service);
+      }
       res.json(service);
     } catch (error) {
       console.error("Error approving service:", error);
@@ -548,210 +948,1291 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/user/services', authenticate, async (req: any, res) => {
+  // Service gallery
+  // Loads a service the current user may edit (owner or admin); responds 404/403 otherwise
+  const loadEditableService = async (req: any, res: any) => {
+    const service = await storage.getServiceById(parseInt(req.params.id));
+    if (!service) {
+      res.status(404).json({ message: "Service not found" });
+      return undefined;
+    }
+    if (service.userId !== req.user!.id.toString() && req.user!.role !== 'admin') {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+    return service;
+  };
+
+  app.get('/api/services/:id/images', async (req, res) => {
     try {
-      const services = await storage.getServicesByUserId(req.user!.id.toString());
-      res.json(services);
+      const images = await storage.getServiceImages(parseInt(req.params.id));
+      res.json(images);
     } catch (error) {
-      console.error("Error fetching user services:", error);
-      res.status(500).json({ message: "Failed to fetch user services" });
+      captureError(error as Error);
+      res.status(500).json({ message: "Failed to fetch service images" });
     }
   });
 
-  app.get('/api/admin/services/pending', authenticate, async (req: any, res) => {
+  // One image per request; the JSON body limit leaves no room for several 5 MB photos
+  app.post('/api/services/:id/images', authenticate, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user!.id.toString());
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const upload = fileUploadSchema.parse(req.body);
+      const service = await loadEditableService(req, res);
+      if (!service) return;
+
+      const existing = await storage.getServiceImages(service.id);
+      if (existing.length >= MAX_SERVICE_IMAGES) {
+        return res.status(400).json({ message: `A service can have at most ${MAX_SERVICE_IMAGES} images` });
       }
-      
-      const services = await storage.getServices({ approved: false });
-      res.json(services);
+
+      const stored = await storeServiceImage(service.id, upload);
+      if (!stored.ok) {
+        return res.status(400).json({ message: stored.message });
+      }
+
+      const [image] = await storage.addServiceImages(service.id, [{
+        storageKey: stored.storageKey,
+        fileName: upload.fileName,
+        variants: stored.variants,
+      }]);
+      res.status(201).json(image);
     } catch (error) {
-      console.error("Error fetching pending services:", error);
-      res.status(500).json({ message: "Failed to fetch pending services" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to upload image" });
     }
   });
 
-  // Content
-  app.get('/api/content', async (req, res) => {
+  app.put('/api/services/:id/images/order', authenticate, async (req: any, res) => {
     try {
-      const content = await storage.getContent();
-      res.json(content);
+      const { imageIds, coverImageId } = z.object({
+        imageIds: z.array(z.number().int()).max(MAX_SERVICE_IMAGES),
+        coverImageId: z.number().int(),
+      }).parse(req.body);
+      const service = await loadEditableService(req, res);
+      if (!service) return;
+
+      const images = await storage.arrangeServiceImages(service.id, imageIds, coverImageId);
+      if (!images) {
+        return res.status(400).json({ message: "The order must list every image of the service once" });
+      }
+      res.json(images);
     } catch (error) {
-      console.error("Error fetching content:", error);
-      res.status(500).json({ message: "Failed to fetch content" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to reorder images" });
     }
   });
 
-  app.get('/api/content/:key', async (req, res) => {
+  app.delete('/api/services/:id/images/:imageId', authenticate, async (req: any, res) => {
     try {
-      const content = await storage.getContentByKey(req.params.key);
-      if (!content) {
-        return res.status(404).json({ message: "Content not found" });
+      const service = await loadEditableService(req, res);
+      if (!service) return;
+
+      const image = await storage.deleteServiceImage(service.id, parseInt(req.params.imageId));
+      if (!image) {
+        return res.status(404).json({ message: "Image not found" });
       }
-      res.json(content);
+      await deleteServiceImageFiles(image.storageKey);
+      res.json({ message: "Image deleted" });
     } catch (error) {
-      console.error("Error fetching content:", error);
-      res.status(500).json({ message: "Failed to fetch content" });
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to delete image" });
     }
   });
 
-  app.post('/api/content', authenticate, async (req: any, res) => {
+  app.get('/api/user/services', authenticate, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user!.id.toString());
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-      
-      const contentData = insertContentSchema.parse(req.body);
-      const content = await storage.createContent(contentData);
-      res.json(content);
+      const services = await storage.getServicesByUserId(req.user!.id.toString());
+      res.json(services);
     } catch (error) {
-      console.error("Error creating content:", error);
-      res.status(500).json({ message: "Failed to create content" });
+      console.error("Error fetching user services:", error);
+      res.status(500).json({ message: "Failed to fetch user services" });
     }
   });
 
-  app.put('/api/content/:id', authenticate, async (req: any, res) => {
+  app.get('/api/admin/services/pending', authenticate, async (req: any, res) => {
     try {
       const user = await storage.getUser(req.user!.id.toString());
       if (user?.role !== 'admin') {
         return res.status(403).json({ message: "Admin access required" });
       }
       
-      const id = parseInt(req.params.id);
-      const contentData = insertContentSchema.partial().parse(req.body);
-      const content = await storage.updateContent(id, contentData);
-      res.json(content);
+      const services = await storage.getServices({ approved: false });
+      res.json(services);
     } catch (error) {
-      console.error("Error updating content:", error);
-      res.status(500).json({ message: "Failed to update content" });
+      console.error("Error fetching pending services:", error);
+      res.status(500).json({ message: "Failed to fetch pending services" });
     }
   });
 
-  // Suggestions
-  app.get('/api/suggestions', authenticate, async (req: any, res) => {
+  // Provider profiles
+  // By user id or by slug
+  app.get('/api/providers/:id', async (req, res) => {
     try {
-      const user = await storage.getUser(req.user!.id.toString());
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const providerId = await storage.resolveProviderId(req.params.id);
+      if (!providerId) {
+        return res.status(404).json({ message: "Provider not found" });
       }
-      
-      const suggestions = await storage.getSuggestions();
-      res.json(suggestions);
+
+      const profile = await storage.getProviderPublicProfile(providerId);
+      if (!profile) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+      res.json(profile);
     } catch (error) {
-      console.error("Error fetching suggestions:", error);
-      res.status(500).json({ message: "Failed to fetch suggestions" });
+      captureError(error as Error, { providerId: req.params.id });
+      res.status(500).json({ message: "Failed to fetch provider" });
     }
   });
 
-  app.post('/api/suggestions', async (req, res) => {
+  app.get('/api/user/provider-profile', authenticate, async (req: any, res) => {
     try {
-      const suggestionData = insertSuggestionSchema.parse(req.body);
-      const suggestion = await storage.createSuggestion(suggestionData);
-      res.json(suggestion);
+      const profile = await storage.getProviderProfile(req.user!.id.toString());
+      res.json(profile || null);
     } catch (error) {
-      console.error("Error creating suggestion:", error);
-      res.status(500).json({ message: "Failed to create suggestion" });
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch provider profile" });
     }
   });
 
-  app.patch('/api/suggestions/:id/status', authenticate, async (req: any, res) => {
+  app.put('/api/user/provider-profile', authenticate, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user!.id.toString());
-      if (user?.role !== 'admin') {
+      const profileData = insertProviderProfileSchema.parse(req.body);
+      const profile = await storage.upsertProviderProfile(req.user!.id.toString(), profileData);
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to save provider profile" });
+    }
+  });
+
+  app.put('/api/user/avatar', authenticate, async (req: any, res) => {
+    try {
+      const userId = req.user!.id.toString();
+      const upload = fileUploadSchema.parse(req.body);
+      const stored = await storeAvatar(userId, upload);
+      if (!stored.ok) {
+        return res.status(400).json({ message: stored.message });
+      }
+
+      const previousKey = await storage.setProviderPhoto(userId, { url: stored.variants.medium.url, storageKey: stored.storageKey });
+      if (previousKey) await deleteAvatarFiles(previousKey);
+      res.json({ photoUrl: stored.variants.medium.url });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to upload avatar" });
+    }
+  });
+
+  app.delete('/api/user/avatar', authenticate, async (req: any, res) => {
+    try {
+      const previousKey = await storage.setProviderPhoto(req.user!.id.toString(), null);
+      if (previousKey) await deleteAvatarFiles(previousKey);
+      res.json({ photoUrl: null });
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to remove avatar" });
+    }
+  });
+
+  // Provider applications
+  app.get('/api/provider-applications/mine', authenticate, async (req: any, res) => {
+    try {
+      const applications = await storage.getProviderApplicationsByUser(req.user!.id.toString());
+      res.json(applications);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch provider applications" });
+    }
+  });
+
+  app.post('/api/provider-applications', authenticate, async (req: any, res) => {
+    try {
+      const userId = req.user!.id.toString();
+      if (req.user!.role !== 'user') {
+        return res.status(409).json({ message: "You already have provider access" });
+      }
+
+      const applicationData = providerApplicationSchema.parse(req.body);
+      const previous = await storage.getProviderApplicationsByUser(userId);
+      if (previous.some(application => application.status === 'pending')) {
+        return res.status(409).json({ message: "You already have an application under review" });
+      }
+
+      const saved = await saveApplicationDocuments(userId, applicationData.documents);
+      if (!saved.ok) {
+        return res.status(400).json({ message: saved.message });
+      }
+
+      const application = await storage.createProviderApplication({
+        ...applicationData,
+        userId,
+        documents: saved.documents,
+      });
+
+      // The application is already saved; a failed notification must not fail the request
+      wsManager.broadcastToAdmins({
+        type: 'notification',
+        data: { kind: 'provider_application_submitted', applicationId: application.id },
+        timestamp: new Date().toISOString(),
+      }).catch(error => captureError(error as Error, { userId }));
+      res.status(201).json(application);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to submit provider application" });
+    }
+  });
+
+  app.get('/api/admin/provider-applications', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const { status } = req.query;
+      const applications = await storage.getProviderApplications(
+        providerApplicationStatuses.includes(status as any) ? status as ProviderApplicationStatus : undefined
+      );
+      res.json(applications);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch provider applications" });
+    }
+  });
+
+  app.get('/api/admin/provider-applications/:id/documents/:index', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const application = await storage.getProviderApplicationById(parseInt(req.params.id));
+      const document = application?.documents[parseInt(req.params.index)];
+      if (!document) {
+        return res.status(404).json({ message: "Document not found" });
+      }
+
+      res.setHeader('Content-Type', document.mimeType);
+      res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(document.fileName)}"`);
+      res.setHeader('Cache-Control', 'private, no-store');
+      res.sendFile(resolveDocumentPath(document));
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch document" });
+    }
+  });
+
+  app.post('/api/admin/provider-applications/:id/:action', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const action = req.params.action;
+      if (action !== 'approve' && action !== 'reject') {
+        return res.status(404).json({ message: "Unknown action" });
+      }
+
+      const { notes } = z.object({ notes: z.string().trim().max(1000).optional() })
+        .refine(data => action === 'approve' || !!data.notes, {
+          message: 'A reason is required to reject an application',
+          path: ['notes'],
+        })
+        .parse(req.body);
+
+      const application = await storage.reviewProviderApplication(parseInt(req.params.id), {
+        approved: action === 'approve',
+        reviewerId: req.user!.id.toString(),
+        notes,
+      });
+      if (!application) {
+        return res.status(409).json({ message: "Application not found or already reviewed" });
+      }
+
+      if (application.status === 'approved') {
+        logSecurityEvent('provider_role_granted', {
+          userId: application.userId,
+          applicationId: application.id,
+          approvedBy: req.user!.id,
+        }, 'info');
+      }
+      notifyApplicationReviewed(application);
+      res.json(application);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to review provider application" });
+    }
+  });
+
+  // Content
+  app.get('/api/content', async (req, res) => {
+    try {
+      const content = await storage.getContent();
+      res.json(content);
+    } catch (error) {
+      console.error("Error fetching content:", error);
+      res.status(500).json({ message: "Failed to fetch content" });
+    }
+  });
+
+  app.get('/api/content/:key', async (req, res) => {
+    try {
+      const content = await storage.getContentByKey(req.params.key);
+      if (!content) {
+        return res.status(404).json({ message: "Content not found" });
+      }
+      res.json(content);
+    } catch (error) {
+      console.error("Error fetching content:", error);
+      res.status(500).json({ message: "Failed to fetch content" });
+    }
+  });
+
+  app.post('/api/content', authenticate, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id.toString());
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const contentData = insertContentSchema.parse(req.body);
+      const content = await storage.createContent(contentData);
+      res.json(content);
+    } catch (error) {
+      console.error("Error creating content:", error);
+      res.status(500).json({ message: "Failed to create content" });
+    }
+  });
+
+  app.put('/api/content/:id', authenticate, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id.toString());
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const id = parseInt(req.params.id);
+      const contentData = insertContentSchema.partial().parse(req.body);
+      const content = await storage.updateContent(id, contentData);
+      res.json(content);
+    } catch (error) {
+      console.error("Error updating content:", error);
+      res.status(500).json({ message: "Failed to update content" });
+    }
+  });
+
+  // Suggestions
+  app.get('/api/suggestions', authenticate, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id.toString());
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const suggestions = await storage.getSuggestions();
+      res.json(suggestions);
+    } catch (error) {
+      console.error("Error fetching suggestions:", error);
+      res.status(500).json({ message: "Failed to fetch suggestions" });
+    }
+  });
+
+  app.post('/api/suggestions', async (req, res) => {
+    try {
+      const suggestionData = insertSuggestionSchema.parse(req.body);
+      const suggestion = await storage.createSuggestion(suggestionData);
+      res.json(suggestion);
+    } catch (error) {
+      console.error("Error creating suggestion:", error);
+      res.status(500).json({ message: "Failed to create suggestion" });
+    }
+  });
+
+  app.patch('/api/suggestions/:id/status', authenticate, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id.toString());
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const id = parseInt(req.params.id);
+      const { status, adminResponse } = req.body;
+      const suggestion = await storage.updateSuggestionStatus(id, status, adminResponse);
+      res.json(suggestion);
+    } catch (error) {
+      console.error("Error updating suggestion status:", error);
+      res.status(500).json({ message: "Failed to update suggestion status" });
+    }
+  });
+
+  // Donations
+  app.get('/api/donations', authenticate, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id.toString());
+      if (user?.role !== 'admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      
+      const donations = await storage.getDonations();
+      res.json(donations);
+    } catch (error) {
+      console.error("Error fetching donations:", error);
+      res.status(500).json({ message: "Failed to fetch donations" });
+    }
+  });
+
+  app.post('/api/donations', async (req, res) => {
+    try {
+      const donationData = insertDonationSchema.parse(req.body);
+      const donation = await storage.createDonation(donationData);
+      res.json(donation);
+    } catch (error) {
+      console.error("Error creating donation:", error);
+      res.status(500).json({ message: "Failed to create donation" });
+    }
+  });
+
+  // Reviews
+  app.get('/api/services/:id/reviews', async (req, res) => {
+    try {
+      const serviceId = parseInt(req.params.id);
+      const { sort } = req.query;
+      const reviews = await storage.getReviewsByServiceId(
+        serviceId,
+        reviewSortOptions.includes(sort as any) ? sort as ReviewSort : 'recent'
+      );
+      res.json(reviews);
+    } catch (error) {
+      console.error("Error fetching reviews:", error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  });
+
+  app.post('/api/reviews', authenticate, async (req: any, res) => {
+    try {
+      // Moderation and verification fields are never taken from the client
+      const reviewData = insertReviewSchema
+        .pick({ serviceId: true, rating: true, comment: true })
+        .parse(req.body);
+      const userId = req.user!.id.toString();
+
+      const eligibility = await checkReviewEligibility(reviewData.serviceId, userId);
+      if (!eligibility.ok) {
+        return res.status(eligibility.httpStatus).json({ message: eligibility.message, code: eligibility.code });
+      }
+
+      const review = await storage.createReview({ ...reviewData, userId, verifiedVia: eligibility.verifiedVia });
+      res.status(201).json(review);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', code: 'INVALID_REVIEW', errors: error.errors });
+      }
+      // Two concurrent submissions: the unique index lets only one through
+      if (error?.code === '23505') {
+        return res.status(409).json({ message: 'You already reviewed this service', code: 'ALREADY_REVIEWED' });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to create review" });
+    }
+  });
+
+  app.patch('/api/reviews/:id/approve', authenticate, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id.toString());
+      if (user?.role !== 'admin') {
         return res.status(403).json({ message: "Admin access required" });
       }
-      
-      const id = parseInt(req.params.id);
-      const { status, adminResponse } = req.body;
-      const suggestion = await storage.updateSuggestionStatus(id, status, adminResponse);
-      res.json(suggestion);
+      
+      const id = parseInt(req.params.id);
+      const [review] = await storage.moderateReviews([id], { approved: true, moderatorId: req.user!.id.toString() });
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      notifyReviewModerated([review]);
+      notifyFavoriteReviews([review]);
+      res.json(review);
+    } catch (error) {
+      console.error("Error approving review:", error);
+      res.status(500).json({ message: "Failed to approve review" });
+    }
+  });
+
+  // Loads a review that is publicly visible; responds 404 otherwise
+  const loadPublicReview = async (req: any, res: any) => {
+    const review = await storage.getReviewById(parseInt(req.params.id));
+    if (!review || !review.isApproved || !review.isActive) {
+      res.status(404).json({ message: "Review not found" });
+      return undefined;
+    }
+    return review;
+  };
+
+  app.post('/api/reviews/:id/report', authenticate, async (req: any, res) => {
+    try {
+      const { reason } = z.object({ reason: z.string().trim().min(3).max(500) }).parse(req.body);
+      const review = await loadPublicReview(req, res);
+      if (!review) return;
+
+      const result = await storage.reportReview(review.id, req.user!.id.toString(), reason, REVIEW_REPORT_HIDE_THRESHOLD);
+      if (!result) {
+        return res.status(409).json({ message: "You already reported this review" });
+      }
+
+      // The report is already saved; a failed notification must not fail the request
+      wsManager.broadcastToAdmins({
+        type: 'notification',
+        data: { kind: 'review_reported', reviewId: review.id, serviceId: review.serviceId, hidden: result.hidden },
+        timestamp: new Date().toISOString(),
+      }).catch(error => captureError(error as Error, { reviewId: review.id }));
+      res.status(201).json(result.report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to report review" });
+    }
+  });
+
+  app.post('/api/reviews/:id/replies', authenticate, async (req: any, res) => {
+    try {
+      const { body } = z.object({ body: z.string().trim().min(1).max(2000) }).parse(req.body);
+      const review = await loadPublicReview(req, res);
+      if (!review) return;
+
+      // The thread is between the service's provider and the reviewer
+      const userId = req.user!.id.toString();
+      const service = await storage.getServiceById(review.serviceId);
+      if (service?.userId !== userId && review.userId !== userId) {
+        return res.status(403).json({ message: "Only the provider or the reviewer can reply" });
+      }
+
+      const reply = await storage.createReviewReply(review.id, userId, body);
+      const recipientId = userId === review.userId ? service?.userId : review.userId;
+      if (recipientId) {
+        wsManager.sendToUser(recipientId, {
+          type: 'notification',
+          data: { kind: 'review_reply', reviewId: review.id, serviceId: review.serviceId, replyId: reply.id },
+          userId: recipientId,
+          timestamp: new Date().toISOString(),
+        });
+      }
+      res.status(201).json(reply);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to reply to review" });
+    }
+  });
+
+  app.post('/api/reviews/:id/helpful', authenticate, async (req: any, res) => {
+    try {
+      const review = await loadPublicReview(req, res);
+      if (!review) return;
+
+      const userId = req.user!.id.toString();
+      if (review.userId === userId) {
+        return res.status(403).json({ message: "You cannot vote on your own review" });
+      }
+
+      const added = await storage.addReviewVote(review.id, userId);
+      if (!added) {
+        return res.status(409).json({ message: "You already marked this review as helpful" });
+      }
+      res.status(201).json({ reviewId: review.id, helpful: true });
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to vote on review" });
+    }
+  });
+
+  app.delete('/api/reviews/:id/helpful', authenticate, async (req: any, res) => {
+    try {
+      const removed = await storage.removeReviewVote(parseInt(req.params.id), req.user!.id.toString());
+      if (!removed) {
+        return res.status(404).json({ message: "Vote not found" });
+      }
+      res.json({ reviewId: parseInt(req.params.id), helpful: false });
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to remove vote" });
+    }
+  });
+
+  // Review moderation
+  app.get('/api/admin/reviews', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const { filter } = req.query;
+      const queueFilter = reviewQueueFilters.includes(filter as any) ? filter as ReviewQueueFilter : 'pending';
+      const queue = await storage.getReviewQueue(queueFilter);
+      res.json(queue);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch review queue" });
+    }
+  });
+
+  app.post('/api/admin/reviews/moderate', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const { ids, action, reason } = reviewDecisionSchema.parse(req.body);
+      const moderated = await storage.moderateReviews(ids, {
+        approved: action === 'approve',
+        moderatorId: req.user!.id.toString(),
+        reason,
+      });
+      notifyReviewModerated(moderated);
+      notifyFavoriteReviews(moderated);
+      res.json(moderated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to moderate reviews" });
+    }
+  });
+
+  app.patch('/api/admin/reviews/:id/response', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const { adminResponse } = z.object({
+        adminResponse: z.string().trim().max(1000).nullable(),
+      }).parse(req.body);
+      const review = await storage.updateReviewResponse(parseInt(req.params.id), adminResponse || null);
+      if (!review) {
+        return res.status(404).json({ message: "Review not found" });
+      }
+      res.json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to update review response" });
+    }
+  });
+
+  // Favorites
+  app.get('/api/favorites', authenticate, async (req: any, res) => {
+    try {
+      res.json(await storage.getFavorites(req.user!.id.toString()));
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch favorites" });
+    }
+  });
+
+  // The list must belong to the current user; responds 404 otherwise
+  const checkFavoriteList = async (listId: number | null | undefined, userId: string, res: any): Promise<boolean> => {
+    if (!listId) return true;
+    if (!await storage.getFavoriteList(userId, listId)) {
+      res.status(404).json({ message: "List not found" });
+      return false;
+    }
+    return true;
+  };
+
+  // Saves a service or a provider; saving it again moves it to listId
+  app.post('/api/favorites', authenticate, async (req: any, res) => {
+    try {
+      const data = favoriteSchema.parse(req.body);
+      const userId = req.user!.id.toString();
+
+      const result = await checkFavoriteTarget(data, userId);
+      if (!result.ok) {
+        return res.status(result.httpStatus).json({ message: result.message });
+      }
+      if (!await checkFavoriteList(data.listId, userId, res)) return;
+
+      const favorite = await storage.addFavorite(userId, result.target, data.listId ?? null);
+      res.status(201).json(favorite);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to save favorite" });
+    }
+  });
+
+  app.delete('/api/favorites/services/:serviceId', authenticate, async (req: any, res) => {
+    try {
+      const removed = await storage.removeFavorite(req.user!.id.toString(), { serviceId: parseInt(req.params.serviceId) });
+      if (!removed) {
+        return res.status(404).json({ message: "Favorite not found" });
+      }
+      res.json({ message: "Favorite removed" });
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to remove favorite" });
+    }
+  });
+
+  app.delete('/api/favorites/providers/:providerId', authenticate, async (req: any, res) => {
+    try {
+      const removed = await storage.removeFavorite(req.user!.id.toString(), { providerId: req.params.providerId });
+      if (!removed) {
+        return res.status(404).json({ message: "Favorite not found" });
+      }
+      res.json({ message: "Favorite removed" });
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to remove favorite" });
+    }
+  });
+
+  // Moves a favorite to another list, or out of any list with listId null
+  app.patch('/api/favorites/:id', authenticate, async (req: any, res) => {
+    try {
+      const { listId } = favoriteMoveSchema.parse(req.body);
+      const userId = req.user!.id.toString();
+      if (!await checkFavoriteList(listId, userId, res)) return;
+
+      const favorite = await storage.moveFavorite(userId, parseInt(req.params.id), listId);
+      if (!favorite) {
+        return res.status(404).json({ message: "Favorite not found" });
+      }
+      res.json(favorite);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to move favorite" });
+    }
+  });
+
+  app.post('/api/favorites/lists', authenticate, async (req: any, res) => {
+    try {
+      const { name } = favoriteListSchema.parse(req.body);
+      const list = await storage.createFavoriteList(req.user!.id.toString(), name);
+      res.status(201).json(list);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      if (error?.code === '23505') {
+        return res.status(409).json({ message: 'You already have a list with that name' });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to create list" });
+    }
+  });
+
+  app.put('/api/favorites/lists/:id', authenticate, async (req: any, res) => {
+    try {
+      const { name } = favoriteListSchema.parse(req.body);
+      const list = await storage.renameFavoriteList(req.user!.id.toString(), parseInt(req.params.id), name);
+      if (!list) {
+        return res.status(404).json({ message: "List not found" });
+      }
+      res.json(list);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      if (error?.code === '23505') {
+        return res.status(409).json({ message: 'You already have a list with that name' });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to rename list" });
+    }
+  });
+
+  // Its favorites stay saved, outside any list
+  app.delete('/api/favorites/lists/:id', authenticate, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteFavoriteList(req.user!.id.toString(), parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "List not found" });
+      }
+      res.json({ message: "List deleted" });
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to delete list" });
+    }
+  });
+
+  // Saved searches
+  app.get('/api/saved-searches', authenticate, async (req: any, res) => {
+    try {
+      res.json(await storage.getSavedSearches(req.user!.id.toString()));
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch saved searches" });
+    }
+  });
+
+  // Alerts start with the services approved from now on
+  app.post('/api/saved-searches', authenticate, async (req: any, res) => {
+    try {
+      const data = insertSavedSearchSchema.parse(req.body);
+      const userId = req.user!.id.toString();
+
+      const check = await checkSavedSearch(data.filters, userId);
+      if (!check.ok) {
+        return res.status(check.httpStatus).json({ message: check.message });
+      }
+
+      const search = await storage.createSavedSearch(userId, data);
+      res.status(201).json(search);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to save search" });
+    }
+  });
+
+  app.patch('/api/saved-searches/:id', authenticate, async (req: any, res) => {
+    try {
+      const changes = updateSavedSearchSchema.parse(req.body);
+      const search = await storage.updateSavedSearch(req.user!.id.toString(), parseInt(req.params.id), changes);
+      if (!search) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      res.json(search);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to update saved search" });
+    }
+  });
+
+  app.delete('/api/saved-searches/:id', authenticate, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteSavedSearch(req.user!.id.toString(), parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      res.json({ message: "Saved search deleted" });
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to delete saved search" });
+    }
+  });
+
+  // Messages
+  app.post('/api/messages', async (req, res) => {
+    try {
+      const messageData = insertMessageSchema
+        .pick({ serviceId: true, senderName: true, senderEmail: true, message: true })
+        .parse(req.body);
+      const service = await storage.getServiceById(messageData.serviceId);
+      if (!service) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+
+      const message = await storage.createMessage({
+        ...messageData,
+        senderUserId: req.session?.userId ? req.session.userId.toString() : undefined,
+      });
+
+      wsManager.sendToUser(service.userId, {
+        type: 'message_received',
+        data: { messageId: message.id, serviceId: service.id, serviceTitle: service.title, senderName: message.senderName },
+        userId: service.userId,
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json(message);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      console.error("Error creating message:", error);
+      res.status(500).json({ message: "Failed to create message" });
+    }
+  });
+
+  // Provider inbox
+  app.get('/api/messages', authenticate, requireProvider, async (req: any, res) => {
+    try {
+      const { serviceId, archived } = req.query;
+      const messages = await storage.getInboxMessages(req.user!.id.toString(), {
+        serviceId: serviceId ? parseInt(serviceId as string) : undefined,
+        archived: archived === 'true',
+      });
+      res.json(messages);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.get('/api/messages/unread-count', authenticate, requireProvider, async (req: any, res) => {
+    try {
+      const count = await storage.countUnreadMessages(req.user!.id.toString());
+      res.json({ count });
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to count unread messages" });
+    }
+  });
+
+  // Loads a message sent to one of the current provider's services, or responds with 404/403
+  const loadInboxMessage = async (req: any, res: any) => {
+    const message = await storage.getMessageById(parseInt(req.params.id));
+    const service = message ? await storage.getServiceById(message.serviceId) : undefined;
+    if (!message || !service) {
+      res.status(404).json({ message: "Message not found" });
+      return undefined;
+    }
+
+    if (service.userId !== req.user!.id.toString() && req.user!.role !== 'admin') {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+
+    return message;
+  };
+
+  app.patch('/api/messages/:id/read', authenticate, requireProvider, async (req: any, res) => {
+    try {
+      const { isRead } = z.object({ isRead: z.boolean().optional() }).parse(req.body ?? {});
+      const message = await loadInboxMessage(req, res);
+      if (!message) return;
+
+      const updatedMessage = await storage.updateMessage(message.id, { isRead: isRead ?? true });
+      res.json(updatedMessage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to update message" });
+    }
+  });
+
+  app.patch('/api/messages/:id/archive', authenticate, requireProvider, async (req: any, res) => {
+    try {
+      const { archived } = z.object({ archived: z.boolean().optional() }).parse(req.body ?? {});
+      const message = await loadInboxMessage(req, res);
+      if (!message) return;
+
+      const updatedMessage = await storage.updateMessage(message.id, { isArchived: archived ?? true });
+      res.json(updatedMessage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to archive message" });
+    }
+  });
+
+  app.post('/api/messages/:id/reply', authenticate, requireProvider, async (req: any, res) => {
+    try {
+      const { reply } = z.object({ reply: z.string().trim().min(1).max(2000) }).parse(req.body);
+      const message = await loadInboxMessage(req, res);
+      if (!message) return;
+
+      const updatedMessage = await storage.updateMessage(message.id, { reply, repliedAt: new Date(), isRead: true });
+
+      // Senders who were signed in also get the reply in real time
+      if (message.senderUserId) {
+        wsManager.sendToUser(message.senderUserId, {
+          type: 'notification',
+          data: { kind: 'message_reply', messageId: message.id, serviceId: message.serviceId, reply },
+          userId: message.senderUserId,
+          timestamp: new Date().toISOString(),
+        });
+      }
+
+      res.json(updatedMessage);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to reply to message" });
+    }
+  });
+
+  // Chat
+  app.get('/api/conversations', authenticate, async (req: any, res) => {
+    try {
+      const conversations = await storage.getConversationsForUser(req.user!.id.toString());
+      res.json(conversations);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  // Opens (or reuses) the customer's conversation about a service and posts the first message
+  app.post('/api/conversations', authenticate, async (req: any, res) => {
+    try {
+      const { serviceId, body } = z.object({
+        serviceId: z.number().int().positive(),
+        body: chatMessageBodySchema,
+      }).parse(req.body);
+
+      const service = await storage.getServiceById(serviceId);
+      if (!service || !service.isApproved) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+
+      const customerId = req.user!.id.toString();
+      if (service.userId === customerId) {
+        return res.status(400).json({ message: "You cannot start a conversation with yourself" });
+      }
+
+      const conversation = await storage.findConversation(serviceId, customerId)
+        || await storage.createConversation(serviceId, customerId, service.userId);
+      const message = await sendChatMessage(conversation.id, customerId, body);
+      res.json({ conversation, message });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to start conversation" });
+    }
+  });
+
+  // Participants only; admins don't read private chats
+  const loadConversation = async (req: any, res: any) => {
+    const conversationId = parseInt(req.params.id);
+    const participants = await storage.getConversationParticipants(conversationId);
+    if (!participants.some(participant => participant.userId === req.user!.id.toString())) {
+      res.status(404).json({ message: "Conversation not found" });
+      return undefined;
+    }
+    return conversationId;
+  };
+
+  app.get('/api/conversations/:id/messages', authenticate, async (req: any, res) => {
+    try {
+      const conversationId = await loadConversation(req, res);
+      if (!conversationId) return;
+
+      const { before, limit } = req.query;
+      const messages = await storage.getChatMessages(conversationId, {
+        beforeId: before ? parseInt(before as string) : undefined,
+        limit: Math.min(Math.max(parseInt(limit as string) || 50, 1), 200),
+      });
+      res.json(messages);
     } catch (error) {
-      console.error("Error updating suggestion status:", error);
-      res.status(500).json({ message: "Failed to update suggestion status" });
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch messages" });
     }
   });
 
-  // Donations
-  app.get('/api/donations', authenticate, async (req: any, res) => {
+  // REST fallback for clients without an open socket
+  app.post('/api/conversations/:id/messages', authenticate, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user!.id.toString());
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const body = chatMessageBodySchema.parse(req.body?.body);
+      const message = await sendChatMessage(parseInt(req.params.id), req.user!.id.toString(), body);
+      if (!message) {
+        return res.status(404).json({ message: "Conversation not found" });
       }
-      
-      const donations = await storage.getDonations();
-      res.json(donations);
+      res.json(message);
     } catch (error) {
-      console.error("Error fetching donations:", error);
-      res.status(500).json({ message: "Failed to fetch donations" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to send message" });
     }
   });
 
-  app.post('/api/donations', async (req, res) => {
+  app.post('/api/conversations/:id/read', authenticate, async (req: any, res) => {
     try {
-      const donationData = insertDonationSchema.parse(req.body);
-      const donation = await storage.createDonation(donationData);
-      res.json(donation);
+      const messageId = z.number().int().positive().parse(req.body?.messageId);
+      const participant = await markChatRead(parseInt(req.params.id), req.user!.id.toString(), messageId);
+      if (!participant) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+      res.json({ lastReadMessageId: participant.lastReadMessageId });
     } catch (error) {
-      console.error("Error creating donation:", error);
-      res.status(500).json({ message: "Failed to create donation" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to mark conversation as read" });
     }
   });
 
-  // Reviews
-  app.get('/api/services/:id/reviews', async (req, res) => {
+  // Messages from any of the user's conversations newer than the last id the client has seen
+  app.get('/api/chat/sync', authenticate, async (req: any, res) => {
     try {
-      const serviceId = parseInt(req.params.id);
-      const reviews = await storage.getReviewsByServiceId(serviceId);
-      res.json(reviews);
+      const since = Math.max(parseInt(req.query.since as string) || 0, 0);
+      const messages = await storage.getChatMessagesSince(req.user!.id.toString(), since);
+      res.json(messages);
     } catch (error) {
-      console.error("Error fetching reviews:", error);
-      res.status(500).json({ message: "Failed to fetch reviews" });
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to sync messages" });
     }
   });
 
-  app.post('/api/reviews', authenticate, async (req: any, res) => {
+  // Bookings
+  const bookingRequestSchema = z.object({
+    serviceId: z.number().int().positive(),
+    startsAt: z.coerce.date(),
+    endsAt: z.coerce.date().optional(),
+    notes: z.string().max(1000).optional(),
+  });
+
+  const DEFAULT_BOOKING_MINUTES = 60;
+
+  app.post('/api/bookings', authenticate, async (req: any, res) => {
     try {
-      const reviewData = insertReviewSchema.parse({
-        ...req.body,
-        userId: req.user!.id.toString(),
+      const bookingData = bookingRequestSchema.parse(req.body);
+      const service = await storage.getServiceById(bookingData.serviceId);
+      if (!service || !service.isApproved) {
+        return res.status(404).json({ message: "Service not found" });
+      }
+
+      const customerId = req.user!.id.toString();
+      if (service.userId === customerId) {
+        return res.status(400).json({ message: "You cannot book your own service" });
+      }
+
+      const startsAt = bookingData.startsAt;
+      const minutes = service.availability?.slotMinutes || DEFAULT_BOOKING_MINUTES;
+      const endsAt = bookingData.endsAt || new Date(startsAt.getTime() + minutes * 60 * 1000);
+      if (startsAt <= new Date() || endsAt <= startsAt) {
+        return res.status(400).json({ message: "Invalid booking time" });
+      }
+
+      if (service.availability && !isWithinSchedule(service.availability, startsAt, endsAt)) {
+        return res.status(409).json({ message: "The provider does not work at that time" });
+      }
+
+      if (await storage.hasBookingConflict(service.userId, startsAt, endsAt)) {
+        return res.status(409).json({ message: "The provider is not available at that time" });
+      }
+
+      const booking = await storage.createBooking({
+        serviceId: service.id,
+        customerId,
+        providerId: service.userId,
+        startsAt,
+        endsAt,
+        notes: bookingData.notes,
       });
-      const review = await storage.createReview(reviewData);
-      res.json(review);
+      notifyBookingUpdate(booking, 'request');
+      res.json(booking);
     } catch (error) {
-      console.error("Error creating review:", error);
-      res.status(500).json({ message: "Failed to create review" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to create booking" });
     }
   });
 
-  app.patch('/api/reviews/:id/approve', authenticate, async (req: any, res) => {
+  // ?as=provider lists bookings for the current user's services; default is the ones they made
+  app.get('/api/bookings', authenticate, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user!.id.toString());
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const { as, status } = req.query;
+      const userId = req.user!.id.toString();
+      const bookings = await storage.getBookings({
+        ...(as === 'provider' ? { providerId: userId } : { customerId: userId }),
+        status: bookingStatuses.includes(status as any) ? status as BookingStatus : undefined,
+      });
+      res.json(bookings);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch bookings" });
+    }
+  });
+
+  app.get('/api/bookings/:id', authenticate, async (req: any, res) => {
+    try {
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
       }
-      
-      const id = parseInt(req.params.id);
-      const review = await storage.approveReview(id);
-      res.json(review);
+
+      const userId = req.user!.id.toString();
+      if (booking.customerId !== userId && booking.providerId !== userId && req.user!.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(booking);
     } catch (error) {
-      console.error("Error approving review:", error);
-      res.status(500).json({ message: "Failed to approve review" });
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch booking" });
     }
   });
 
-  // Messages
-  app.post('/api/messages', async (req, res) => {
+  const bookingTransitionSchema = z.object({
+    reason: z.string().max(500).optional(),
+    startsAt: z.coerce.date().optional(),
+    endsAt: z.coerce.date().optional(),
+  });
+
+  app.patch('/api/bookings/:id/:action', authenticate, async (req: any, res) => {
     try {
-      const messageData = insertMessageSchema.parse(req.body);
-      const message = await storage.createMessage(messageData);
-      res.json(message);
+      const action = req.params.action as BookingAction;
+      if (!bookingActions.includes(action)) {
+        return res.status(404).json({ message: "Unknown booking action" });
+      }
+
+      const input = bookingTransitionSchema.parse(req.body || {});
+      const booking = await storage.getBookingById(parseInt(req.params.id));
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+
+      const userId = req.user!.id.toString();
+      const transition = resolveBookingTransition(booking, action, userId, req.user!.role === 'admin');
+      if (!transition.ok) {
+        return res.status(transition.httpStatus).json({ message: transition.message });
+      }
+
+      let times: { startsAt: string; endsAt: string } | undefined;
+      if (action === 'reschedule') {
+        if (!input.startsAt) {
+          return res.status(400).json({ message: "A new start time is required" });
+        }
+        const duration = booking.endsAt.getTime() - booking.startsAt.getTime();
+        const endsAt = input.endsAt || new Date(input.startsAt.getTime() + duration);
+        if (input.startsAt <= new Date() || endsAt <= input.startsAt) {
+          return res.status(400).json({ message: "Invalid booking time" });
+        }
+        times = { startsAt: input.startsAt.toISOString(), endsAt: endsAt.toISOString() };
+      }
+
+      if (transition.status === 'confirmed') {
+        const startsAt = times ? new Date(times.startsAt) : booking.startsAt;
+        const endsAt = times ? new Date(times.endsAt) : booking.endsAt;
+        if (await storage.hasBookingConflict(booking.providerId, startsAt, endsAt, booking.id)) {
+          return res.status(409).json({ message: "Another confirmed booking overlaps that time" });
+        }
+      }
+
+      const updatedBooking = await storage.updateBookingStatus(booking.id, booking.status, {
+        status: transition.status,
+        action,
+        by: userId,
+        at: new Date().toISOString(),
+        reason: input.reason,
+        ...times,
+      });
+      if (!updatedBooking) {
+        return res.status(409).json({ message: "The booking was changed by someone else, reload and try again" });
+      }
+
+      notifyBookingUpdate(updatedBooking, action);
+      res.json(updatedBooking);
     } catch (error) {
-      console.error("Error creating message:", error);
-      res.status(500).json({ message: "Failed to create message" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to update booking" });
     }
   });
 
@@ -835,7 +2316,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/auth/refresh', async (req, res) => {
     try {
       const { refreshToken } = req.body;
-      const { verifyToken } = await import('./auth');
       
       const decoded = verifyToken(refreshToken);
       if (!decoded || decoded.type !== 'refresh') {
@@ -922,6 +2402,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/auth/2fa/verify', async (req, res) => {
+    try {
+      const { challengeToken, code } = req.body;
+      if (typeof challengeToken !== 'string' || typeof code !== 'string' || !code.trim()) {
+        return res.status(400).json({ message: "Challenge token and code are required" });
+      }
+
+      const decoded = verifyToken(challengeToken);
+      if (!decoded || decoded.type !== '2fa_challenge') {
+        return res.status(401).json({ message: "Invalid or expired challenge" });
+      }
+
+      // A challenge issued before 2FA was turned off must not skip the password
+      const user = await storage.getUser(decoded.userId.toString());
+      if (!user || !user.isActive || !await isTwoFactorEnabled(user.id.toString())) {
+        return res.status(401).json({ message: "Invalid or expired challenge" });
+      }
+
+      const valid = await validate2FALogin(user.id.toString(), code);
+      if (!valid) {
+        logSecurityEvent('failed_2fa_attempt', {
+          userId: user.id,
+          ip: req.ip
+        }, 'warning');
+        return res.status(401).json({ message: "Invalid verification code" });
+      }
+
+      logSecurityEvent('successful_login', {
+        username: user.username,
+        ip: req.ip,
+        userId: user.id,
+        twoFactor: true
+      }, 'info');
+
+      const token = generateToken(user.id);
+
+      if (req.session) {
+        req.session.userId = user.id;
+      }
+
+      const { password, ...userWithoutPassword } = user;
+
+      res.json({
+        user: userWithoutPassword,
+        token,
+        message: 'Login successful'
+      });
+    } catch (error) {
+      captureError(error as Error);
+      res.status(500).json({ message: "Failed to verify 2FA" });
+    }
+  });
+
   app.post('/api/auth/2fa/disable', authenticate, async (req: any, res) => {
     try {
       const { password } = req.body;
@@ -950,7 +2483,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Stripe not configured" });
       }
 
-      const payment = await createStripePayment(amount, currency, serviceId);
+      const payment = await createStripePayment(amount, currency, serviceId, req.user!.id.toString());
       res.json(payment);
     } catch (error) {
       captureError(error as Error, { userId: req.user?.id });
@@ -958,9 +2491,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/payments/pse', async (req, res) => {
+  app.post('/api/payments/pse', authenticate, async (req: any, res) => {
     try {
-      const { bank, documentType, documentNumber, amount, description } = req.body;
+      const { bank, documentType, documentNumber, amount, description, serviceId, donationId } = req.body;
       
       const payment = await createPSEPayment({
         bank,
@@ -968,11 +2501,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         documentNumber,
         amount,
         description,
+        userId: req.user!.id.toString(),
+        serviceId: serviceId ? parseInt(serviceId) : undefined,
+        donationId: donationId ? parseInt(donationId) : undefined,
       });
       
       res.json(payment);
     } catch (error) {
-      captureError(error as Error);
+      captureError(error as Error, { userId: req.user?.id });
       res.status(500).json({ message: "Failed to create PSE payment" });
     }
   });
@@ -988,23 +2524,199 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/payments', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const { status, method } = req.query;
+      const payments = await storage.getPayments({
+        status: paymentStatuses.find(option => option === status),
+        paymentMethod: paymentMethods.find(option => option === method),
+      });
+      res.json(payments);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+
+  app.get('/api/user/payments', authenticate, async (req: any, res) => {
+    try {
+      const payments = await storage.getPaymentsByUserId(req.user!.id.toString());
+      res.json(payments);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch user payments" });
+    }
+  });
+
+  app.get('/api/payments/:id', authenticate, async (req: any, res) => {
+    try {
+      const payment = await storage.getPaymentById(req.params.id);
+      if (!payment) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+
+      if (payment.userId !== req.user!.id.toString() && req.user!.role !== 'admin') {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.json(payment);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch payment" });
+    }
+  });
+
   app.post('/api/invoices/generate', authenticate, async (req: any, res) => {
     try {
-      const invoiceData = req.body;
-      const invoiceNumber = await generateInvoice(invoiceData);
-      
-      logSecurityEvent('invoice_generated', {
-        invoiceNumber,
-        userId: req.user!.id
-      }, 'info');
-      
-      res.json({ invoiceNumber, message: "Invoice generated successfully" });
+      const invoiceData = invoiceDataSchema.parse(req.body);
+      const result = await generateInvoice(invoiceData, {
+        userId: req.user!.id.toString(),
+        isAdmin: req.user!.role === 'admin',
+      });
+      if (!result.ok) {
+        return res.status(result.httpStatus).json({ message: result.message });
+      }
+
+      const { invoice, created } = result;
+      if (created) {
+        logSecurityEvent('invoice_generated', {
+          invoiceNumber: invoice.number,
+          userId: req.user!.id
+        }, 'info');
+      }
+
+      res.json({
+        invoiceNumber: invoice.number,
+        invoice,
+        message: created ? "Invoice generated successfully" : "Payment already invoiced",
+      });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
       captureError(error as Error, { userId: req.user?.id });
       res.status(500).json({ message: "Failed to generate invoice" });
     }
   });
 
+  app.get('/api/invoices', authenticate, requireProvider, async (req: any, res) => {
+    try {
+      const invoices = await storage.getInvoices(
+        req.user!.role === 'admin' ? undefined : { providerId: req.user!.id.toString() }
+      );
+      res.json(invoices);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  // Loads an invoice the current provider/admin is allowed to see, or responds with 404/403
+  const loadInvoice = async (req: any, res: any) => {
+    const invoice = await storage.getInvoiceById(parseInt(req.params.id));
+    if (!invoice) {
+      res.status(404).json({ message: "Invoice not found" });
+      return undefined;
+    }
+
+    if (invoice.providerId !== req.user!.id.toString() && req.user!.role !== 'admin') {
+      res.status(403).json({ message: "Access denied" });
+      return undefined;
+    }
+
+    return invoice;
+  };
+
+  app.get('/api/invoices/:id', authenticate, requireProvider, async (req: any, res) => {
+    try {
+      const invoice = await loadInvoice(req, res);
+      if (!invoice) return;
+      res.json(invoice);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch invoice" });
+    }
+  });
+
+  app.get('/api/invoices/:id/xml', authenticate, requireProvider, async (req: any, res) => {
+    try {
+      const invoice = await loadInvoice(req, res);
+      if (!invoice) return;
+
+      const resolution = await storage.getInvoiceResolutionById(invoice.resolutionId);
+      if (!resolution) {
+        return res.status(500).json({ message: "Invoice resolution not found" });
+      }
+
+      res
+        .status(200)
+        .set({
+          "Content-Type": "application/xml; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${invoice.number}.xml"`,
+        })
+        .send(buildInvoiceXml(invoice, resolution));
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to generate invoice XML" });
+    }
+  });
+
+  app.get('/api/invoices/:id/pdf', authenticate, requireProvider, async (req: any, res) => {
+    try {
+      const invoice = await loadInvoice(req, res);
+      if (!invoice) return;
+
+      const resolution = await storage.getInvoiceResolutionById(invoice.resolutionId);
+      if (!resolution) {
+        return res.status(500).json({ message: "Invoice resolution not found" });
+      }
+
+      const pdf = await renderInvoicePdf(invoice, resolution);
+      res
+        .status(200)
+        .set({
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${invoice.number}.pdf"`,
+        })
+        .send(pdf);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to generate invoice PDF" });
+    }
+  });
+
+  app.get('/api/admin/invoice-resolutions', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const resolutions = await storage.getInvoiceResolutions();
+      res.json(resolutions);
+    } catch (error) {
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to fetch invoice resolutions" });
+    }
+  });
+
+  app.post('/api/admin/invoice-resolutions', authenticate, requireAdmin, async (req: any, res) => {
+    try {
+      const resolutionData = insertInvoiceResolutionSchema
+        .omit({ currentNumber: true })
+        .extend({ validFrom: z.coerce.date(), validTo: z.coerce.date() })
+        .parse(req.body);
+
+      if (resolutionData.rangeFrom > resolutionData.rangeTo) {
+        return res.status(400).json({ message: "Invalid numbering range" });
+      }
+
+      const resolution = await storage.createInvoiceResolution(resolutionData);
+      res.json(resolution);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid input data', errors: error.errors });
+      }
+      captureError(error as Error, { userId: req.user?.id });
+      res.status(500).json({ message: "Failed to create invoice resolution" });
+    }
+  });
+
   // Comprehensive Health Check
   app.get('/api/health', async (req, res) => {
     try {
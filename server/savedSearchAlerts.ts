@@ -0,0 +1,66 @@
+import { effectiveAttributeDefinitions, servicePath, type Category, type SavedSearch, type SavedSearchFilters, type Service } from '@shared/schema';
+import { parseAttributeFilters } from './categories';
+import { SITE_NAME } from './seo';
+import type { ServiceFilters } from './storage';
+
+// Emails are written outside any request, so links need the public address
+const SITE_URL = (process.env.PUBLIC_URL || 'http://localhost:5000').replace(/\/+$/, '');
+
+export const DIGEST_PERIOD_MS = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+} as const;
+export type DigestFrequency = keyof typeof DIGEST_PERIOD_MS;
+
+// The listing filters a saved search stands for. Attribute filters are read against the
+// category's current fields, so fields removed since the search was saved are ignored.
+export const savedSearchServiceFilters = (filters: SavedSearchFilters, all: Category[]): ServiceFilters => ({
+  approved: true,
+  search: filters.search,
+  categoryId: filters.categoryId,
+  attributes: filters.categoryId && filters.attributes
+    ? parseAttributeFilters(filters.attributes, effectiveAttributeDefinitions(filters.categoryId, all))
+    : [],
+  locationId: filters.locationId,
+  minPrice: filters.minPrice,
+  maxPrice: filters.maxPrice,
+  near: filters.near,
+  radiusKm: filters.near ? filters.radiusKm : undefined,
+});
+
+export interface AlertEmail {
+  subject: string;
+  body: string;
+}
+
+const serviceLine = (service: Service): string => `- ${service.title}${service.location ? ` (${service.location})` : ''}: ${SITE_URL}${servicePath(service)}`;
+
+const footer = [
+  '',
+  `Puedes cambiar la frecuencia o eliminar tus búsquedas guardadas en ${SITE_URL}/dashboard.`,
+  `— ${SITE_NAME}`,
+];
+
+export const instantAlertEmail = (search: SavedSearch, service: Service): AlertEmail => ({
+  subject: `Nuevo servicio para "${search.name}"`,
+  body: [
+    `Se publicó un servicio que coincide con tu búsqueda "${search.name}":`,
+    '',
+    serviceLine(service),
+    ...footer,
+  ].join('\n'),
+});
+
+export const digestEmail = (frequency: DigestFrequency, matches: { search: SavedSearch; services: Service[] }[]): AlertEmail => {
+  const total = matches.reduce((sum, match) => sum + match.services.length, 0);
+  return {
+    subject: `${total} servicio(s) nuevo(s) para tus búsquedas ${frequency === 'daily' ? 'de hoy' : 'de la semana'}`,
+    body: [
+      frequency === 'daily'
+        ? 'Estos son los servicios publicados hoy que coinciden con tus búsquedas guardadas:'
+        : 'Estos son los servicios publicados esta semana que coinciden con tus búsquedas guardadas:',
+      ...matches.flatMap(({ search, services }) => ['', `${search.name}:`, ...services.map(serviceLine)]),
+      ...footer,
+    ].join('\n'),
+  };
+};
@@ -0,0 +1,65 @@
+import { storage } from './storage';
+import { captureError } from './monitoring';
+import { wsManager } from './websocket';
+import { servicePath, type SavedSearchFilters, type Service } from '@shared/schema';
+
+export const MAX_SAVED_SEARCHES = 20;
+const DIGEST_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export type SavedSearchCheck =
+  | { ok: true }
+  | { ok: false; httpStatus: 400 | 409; message: string };
+
+// The category and location must exist, and each user keeps a bounded number of searches
+export const checkSavedSearch = async (filters: SavedSearchFilters, userId: string): Promise<SavedSearchCheck> => {
+  if (filters.categoryId && !await storage.getCategoryById(filters.categoryId)) {
+    return { ok: false, httpStatus: 400, message: 'Unknown category' };
+  }
+  if (filters.locationId && (await storage.getLocationsByIds([filters.locationId])).length === 0) {
+    return { ok: false, httpStatus: 400, message: 'Unknown location' };
+  }
+  if ((await storage.getSavedSearches(userId)).length >= MAX_SAVED_SEARCHES) {
+    return { ok: false, httpStatus: 409, message: `You can save up to ${MAX_SAVED_SEARCHES} searches` };
+  }
+  return { ok: true };
+};
+
+// Runs after the approval has committed, so a slow or failing match never holds up
+// or fails the approval itself
+export const alertSavedSearches = (service: Service): void => {
+  storage.recordSavedSearchMatches(service)
+    .then(matched => {
+      const timestamp = new Date().toISOString();
+      matched.forEach(search => {
+        wsManager.sendToUser(search.userId, {
+          type: 'notification',
+          data: {
+            kind: 'saved_search_match',
+            savedSearchId: search.id,
+            searchName: search.name,
+            serviceId: service.id,
+            serviceTitle: service.title,
+            path: servicePath(service),
+          },
+          userId: search.userId,
+          timestamp,
+        });
+      });
+    })
+    .catch(error => captureError(error as Error, { serviceId: service.id }));
+};
+
+// Instant alerts go out on approval; daily and weekly digests are queued from here.
+// Checking every hour keeps each digest within an hour of its period.
+export const startSavedSearchDigests = (intervalMs: number = DIGEST_CHECK_INTERVAL_MS): void => {
+  setInterval(async () => {
+    try {
+      await storage.queueSavedSearchDigests('daily');
+      await storage.queueSavedSearchDigests('weekly');
+    } catch (error) {
+      captureError(error as Error, { job: 'saved_search_digests' });
+    }
+  }, intervalMs);
+
+  console.log('✅ Saved search digests scheduled');
+};
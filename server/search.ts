@@ -0,0 +1,102 @@
+import { sql, type AnyColumn, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import { categories, services, serviceSearchDocuments, type ServiceSearchMatch } from '@shared/schema';
+
+// Spanish stemming on top of unaccent, so "plomería", "plomeria" and "plomeros" all
+// reduce to the same lexeme. Created by ensureSearchSetup().
+const SEARCH_CONFIG = 'es_unaccent';
+
+const HIGHLIGHT_OPTIONS = 'StartSel=<mark>, StopSel=</mark>';
+
+const config = sql.raw(`'${SEARCH_CONFIG}'::regconfig`);
+
+// Extensions and the text search configuration can't be expressed in the drizzle
+// schema. pg_trgm must exist before `db:push` creates the trigram index.
+export const ensureSearchSetup = async (): Promise<void> => {
+  await db.execute(sql`CREATE EXTENSION IF NOT EXISTS unaccent`);
+  await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+  await db.execute(sql.raw(`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = '${SEARCH_CONFIG}') THEN
+        CREATE TEXT SEARCH CONFIGURATION ${SEARCH_CONFIG} (COPY = spanish);
+        ALTER TEXT SEARCH CONFIGURATION ${SEARCH_CONFIG}
+          ALTER MAPPING FOR hword, hword_part, word WITH unaccent, spanish_stem;
+      END IF;
+    END
+    $$;
+  `));
+};
+
+const weighted = (value: AnyColumn, weight: 'A' | 'B' | 'C' | 'D') =>
+  sql`setweight(to_tsvector(${config}, coalesce(${value}, '')), ${sql.raw(`'${weight}'`)})`;
+
+// Rebuilds the documents of the services matching `where` (every service when omitted)
+export const refreshSearchDocuments = async (where?: SQL): Promise<number> => {
+  const rows = await db
+    .insert(serviceSearchDocuments)
+    .select(
+      db
+        .select({
+          serviceId: services.id,
+          document: sql<string>`${weighted(services.title, 'A')}
+            || ${weighted(categories.name, 'B')}
+            || ${weighted(services.location, 'C')}
+            || ${weighted(services.description, 'D')}`.as('document'),
+          plainText: sql<string>`lower(unaccent(${services.title} || ' ' || coalesce(${categories.name}, '')))`.as('plain_text'),
+          updatedAt: sql<Date>`now()`.as('updated_at'),
+        })
+        .from(services)
+        .leftJoin(categories, sql`${categories.id} = ${services.categoryId}`)
+        .where(where)
+    )
+    .onConflictDoUpdate({
+      target: serviceSearchDocuments.serviceId,
+      set: {
+        document: sql`excluded.document`,
+        plainText: sql`excluded.plain_text`,
+        updatedAt: sql`excluded.updated_at`,
+      },
+    })
+    .returning({ serviceId: serviceSearchDocuments.serviceId });
+  return rows.length;
+};
+
+// websearch syntax: quoted phrases, "or", and -exclusions work as users expect
+const tsQuery = (term: string) => sql`websearch_to_tsquery(${config}, ${term})`;
+
+const normalizedTerm = (term: string) => sql`lower(unaccent(${term}))`;
+
+// Full-text match, or a close enough spelling of a word in the title or category
+export const matchesSearch = (term: string): SQL => sql`${services.id} IN (
+  SELECT ${serviceSearchDocuments.serviceId} FROM ${serviceSearchDocuments}
+  WHERE ${serviceSearchDocuments.document} @@ ${tsQuery(term)}
+    OR ${normalizedTerm(term)} <% ${serviceSearchDocuments.plainText}
+)`;
+
+// Expects service_search_documents to be joined to the query
+export const searchRank = (term: string): SQL => sql`(
+  ts_rank_cd(${serviceSearchDocuments.document}, ${tsQuery(term)})
+  + word_similarity(${normalizedTerm(term)}, ${serviceSearchDocuments.plainText})
+)`;
+
+export const searchMatch = (term: string): SQL<ServiceSearchMatch> => sql<ServiceSearchMatch>`json_build_object(
+  'title', ts_headline(${config}, ${services.title}, ${tsQuery(term)}, ${`HighlightAll=true, ${HIGHLIGHT_OPTIONS}`}),
+  'snippet', ts_headline(${config}, coalesce(${services.description}, ''), ${tsQuery(term)},
+    ${`MaxFragments=2, MaxWords=25, MinWords=8, FragmentDelimiter=" … ", ${HIGHLIGHT_OPTIONS}`})
+)`;
+
+// How queries are stored for popular suggestions and used as cache keys
+export const normalizeQuery = (query: string): string =>
+  query.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, 100);
+
+// Escapes LIKE wildcards so user input only matches literally
+export const escapeLike = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+// Accent- and case-insensitive "starts with", or contains when anywhere is set
+export const matchesPrefix = (column: AnyColumn | SQL, prefix: string, anywhere = false): SQL =>
+  sql`lower(unaccent(${column})) LIKE ${anywhere ? '%' : ''} || lower(unaccent(${escapeLike(prefix)})) || '%'`;
+
+// Substring match on the search documents' plain text, which the trigram index serves
+export const plainTextContains = (text: string): SQL =>
+  sql`${serviceSearchDocuments.plainText} LIKE '%' || lower(unaccent(${escapeLike(text)})) || '%'`;
@@ -0,0 +1,186 @@
+import { encode } from 'html-entities';
+import { servicePath, providerPath, categoryPath, type Category, type ProviderPublicProfile, type ServiceDetail } from '@shared/schema';
+
+export const SITE_NAME = 'ServiLocal';
+const DEFAULT_DESCRIPTION = 'Encuentra proveedores de servicios locales confiables en Cúcuta y Norte de Santander.';
+const DESCRIPTION_LENGTH = 160;
+
+// "Plomería 24 horas en Cúcuta" -> "plomeria-24-horas-en-cucuta"
+export const slugify = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80)
+    .replace(/-+$/, '');
+
+// The first free one of base, base-2, base-3... among the slugs already taken
+export const nextFreeSlug = (base: string, taken: string[]): string => {
+  const used = new Set(taken);
+  if (!used.has(base)) return base;
+  let suffix = 2;
+  while (used.has(`${base}-${suffix}`)) suffix++;
+  return `${base}-${suffix}`;
+};
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  path: string; // canonical, from the site root
+  image?: string;
+  type: 'website' | 'profile' | 'product';
+  structuredData: Record<string, unknown>[];
+}
+
+const excerpt = (text: string | null | undefined, fallback: string): string => {
+  const clean = (text ?? '').replace(/\s+/g, ' ').trim();
+  if (!clean) return fallback;
+  return clean.length > DESCRIPTION_LENGTH ? `${clean.slice(0, DESCRIPTION_LENGTH - 1).trimEnd()}…` : clean;
+};
+
+const absolute = (origin: string, url: string): string => (/^https?:\/\//.test(url) ? url : `${origin}${url}`);
+
+const aggregateRating = (rating: { average: number; count: number }) =>
+  rating.count > 0
+    ? { aggregateRating: { '@type': 'AggregateRating', ratingValue: rating.average.toFixed(1), reviewCount: rating.count } }
+    : {};
+
+export const serviceMeta = (service: ServiceDetail, origin: string): PageMeta => {
+  const path = servicePath(service);
+  const cover = service.images.find(image => image.isCover) ?? service.images[0];
+  const providerName = service.provider?.displayName || service.provider?.fullName || service.provider?.username;
+  const place = service.location ? ` en ${service.location}` : '';
+
+  return {
+    title: `${service.title}${place} | ${SITE_NAME}`,
+    description: excerpt(service.description, `${service.title}${place}. ${DEFAULT_DESCRIPTION}`),
+    path,
+    image: cover?.variants.large.url,
+    type: 'product',
+    structuredData: [{
+      '@context': 'https://schema.org',
+      '@type': 'Service',
+      name: service.title,
+      description: service.description ?? undefined,
+      url: `${origin}${path}`,
+      serviceType: service.category?.name,
+      image: cover ? absolute(origin, cover.variants.large.url) : undefined,
+      areaServed: service.coverageAreas.map(area => ({ '@type': 'Place', name: area.name })),
+      provider: service.provider ? {
+        '@type': 'LocalBusiness',
+        name: providerName,
+        url: `${origin}${providerPath({ id: service.provider.id, slug: service.provider.slug })}`,
+        telephone: service.contactPhone ?? undefined,
+        ...(service.latitude !== null && service.longitude !== null
+          ? { geo: { '@type': 'GeoCoordinates', latitude: service.latitude, longitude: service.longitude } }
+          : {}),
+      } : undefined,
+      ...(service.price !== null
+        ? { offers: { '@type': 'Offer', price: (service.price / 100).toFixed(0), priceCurrency: 'COP' } }
+        : {}),
+      ...aggregateRating(service.ratingSummary),
+    }],
+  };
+};
+
+export const providerMeta = ({ provider, services, ratingSummary }: ProviderPublicProfile, origin: string): PageMeta => {
+  const path = providerPath(provider);
+  const name = provider.displayName || provider.fullName || provider.username;
+
+  return {
+    title: `${name} | ${SITE_NAME}`,
+    description: excerpt(provider.bio, `${name} ofrece ${services.length} servicio(s) en ${SITE_NAME}.`),
+    path,
+    image: provider.photoUrl ?? undefined,
+    type: 'profile',
+    structuredData: [{
+      '@context': 'https://schema.org',
+      '@type': 'LocalBusiness',
+      name,
+      description: provider.bio ?? undefined,
+      url: `${origin}${path}`,
+      image: provider.photoUrl ? absolute(origin, provider.photoUrl) : undefined,
+      telephone: provider.phone ?? undefined,
+      email: provider.email,
+      areaServed: provider.serviceAreas.map(area => ({ '@type': 'Place', name: area })),
+      sameAs: Object.values(provider.socialLinks).filter(Boolean),
+      makesOffer: services.map(service => ({
+        '@type': 'Offer',
+        itemOffered: { '@type': 'Service', name: service.title, url: `${origin}${servicePath(service)}` },
+      })),
+      ...aggregateRating(ratingSummary),
+    }],
+  };
+};
+
+export const categoryMeta = (category: Category): PageMeta => ({
+  title: `${category.name} en Cúcuta | ${SITE_NAME}`,
+  description: excerpt(category.description, `Proveedores de ${category.name.toLowerCase()} en Cúcuta y Norte de Santander.`),
+  path: categoryPath(category),
+  type: 'website',
+  structuredData: [],
+});
+
+// Embedded in a <script> tag, so "</" must not close it early
+const jsonLd = (data: Record<string, unknown>): string =>
+  `<script type="application/ld+json">${JSON.stringify(data).replace(/</g, '\\u003c')}</script>`;
+
+export const renderMetaTags = (meta: PageMeta, origin: string): string => {
+  const url = `${origin}${meta.path}`;
+  const tags = [
+    `<meta name="description" content="${encode(meta.description)}" />`,
+    `<link rel="canonical" href="${encode(url)}" />`,
+    `<meta property="og:site_name" content="${encode(SITE_NAME)}" />`,
+    `<meta property="og:type" content="${meta.type}" />`,
+    `<meta property="og:title" content="${encode(meta.title)}" />`,
+    `<meta property="og:description" content="${encode(meta.description)}" />`,
+    `<meta property="og:url" content="${encode(url)}" />`,
+    `<meta property="og:locale" content="es_CO" />`,
+    ...(meta.image ? [`<meta property="og:image" content="${encode(absolute(origin, meta.image))}" />`] : []),
+    `<meta name="twitter:card" content="${meta.image ? 'summary_large_image' : 'summary'}" />`,
+    ...meta.structuredData.map(jsonLd),
+  ];
+  return tags.join('\n    ');
+};
+
+// Replaces the template's <title> and adds the tags at the end of <head>
+export const injectPageMeta = (html: string, meta: PageMeta, origin: string): string => {
+  const title = `<title>${encode(meta.title)}</title>`;
+  // Replacer functions, so a "$" in a title or price isn't read as a replacement pattern
+  const withTitle = /<title>[\s\S]*?<\/title>/.test(html)
+    ? html.replace(/<title>[\s\S]*?<\/title>/, () => title)
+    : html.replace('</head>', () => `  ${title}\n  </head>`);
+  return withTitle.replace('</head>', () => `  ${renderMetaTags(meta, origin)}\n  </head>`);
+};
+
+export interface SitemapEntry {
+  path: string;
+  lastModified?: Date | null;
+  priority?: number;
+}
+
+export const renderSitemap = (entries: SitemapEntry[], origin: string): string => {
+  const urls = entries.map(entry => [
+    '  <url>',
+    `    <loc>${encode(`${origin}${entry.path}`)}</loc>`,
+    ...(entry.lastModified ? [`    <lastmod>${entry.lastModified.toISOString().slice(0, 10)}</lastmod>`] : []),
+    ...(entry.priority !== undefined ? [`    <priority>${entry.priority.toFixed(1)}</priority>`] : []),
+    '  </url>',
+  ].join('\n'));
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls.join('\n')}\n</urlset>\n`;
+};
+
+// Account pages and the API have nothing to index
+export const renderRobots = (origin: string): string => [
+  'User-agent: *',
+  'Allow: /',
+  'Disallow: /api/',
+  'Disallow: /admin',
+  'Disallow: /dashboard',
+  'Disallow: /messages',
+  '',
+  `Sitemap: ${origin}/sitemap.xml`,
+  '',
+].join('\n');
@@ -0,0 +1,29 @@
+// Prepares Postgres for full-text search and (re)builds every service's search document.
+// Run `npm run db:setup-search` once before `npm run db:push` so pg_trgm exists for the
+// trigram index, then again afterwards to fill service_search_documents.
+import { sql } from 'drizzle-orm';
+import { db, pool } from './db';
+import { ensureSearchSetup, refreshSearchDocuments } from './search';
+
+async function setupSearch() {
+  try {
+    await ensureSearchSetup();
+    console.log('✅ unaccent, pg_trgm and the es_unaccent text search configuration are ready');
+
+    const { rows } = await db.execute(sql`SELECT to_regclass('service_search_documents') AS name`);
+    if (!rows[0]?.name) {
+      console.log('ℹ️  service_search_documents does not exist yet: run `npm run db:push`, then this script again');
+      return;
+    }
+
+    const refreshed = await refreshSearchDocuments();
+    console.log(`✅ Rebuilt search documents for ${refreshed} services`);
+  } catch (error) {
+    console.error('❌ Search setup failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+setupSearch();
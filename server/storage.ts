@@ -1,21 +1,49 @@
 import {
   users,
   categories,
+  categoryDeletions,
   services,
   content,
   suggestions,
   donations,
   messages,
   reviews,
+  reviewReports,
+  reviewReplies,
+  reviewVotes,
+  favoriteLists,
+  favorites,
+  savedSearches,
+  savedSearchMatches,
+  emailOutbox,
+  providerProfiles,
+  providerApplications,
+  serviceImages,
+  serviceSearchDocuments,
+  searchQueries,
+  locations,
+  serviceCoverageAreas,
   advertisements,
   supportCategories,
   supportArticles,
   faqItems,
   supportTickets,
+  payments,
+  userTwoFactor,
+  invoiceResolutions,
+  invoices,
+  bookings,
+  conversations,
+  conversationParticipants,
+  chatMessages,
   type User,
   type InsertUser,
   type Category,
   type InsertCategory,
+  type CategoryImpact,
+  type CategoryDeletionSummary,
+  CATEGORY_UNDO_WINDOW_MINUTES,
+  categoryLineage,
   type Service,
   type InsertService,
   type Content,
@@ -38,35 +66,206 @@ import {
   type InsertFaqItem,
   type SupportTicket,
   type InsertSupportTicket,
+  type Payment,
+  type InsertPayment,
+  type TwoFactorSecretData,
+  type InvoiceResolution,
+  type InsertInvoiceResolution,
+  type Invoice,
+  type InsertInvoice,
+  type PublicProvider,
+  type RatingSummary,
+  type ServiceDetail,
+  type ServiceSort,
+  type ServiceAvailabilityFilter,
+  type Booking,
+  type InsertBooking,
+  type BookingStatus,
+  type BookingStatusChange,
+  type BookingWithDetails,
+  type InboxMessage,
+  type Conversation,
+  type ConversationParticipant,
+  type ConversationSummary,
+  type ChatMessage,
+  type ReviewReport,
+  type ReviewQueueFilter,
+  type ReviewQueueItem,
+  type ReviewReply,
+  type ReviewSort,
+  type PublicReview,
+  type ReviewReplyWithAuthor,
+  type ReviewVerificationSource,
+  type Favorite,
+  type FavoriteList,
+  type UserFavorites,
+  type SavedSearch,
+  type InsertSavedSearch,
+  type InsertEmailOutboxMessage,
+  type ProviderProfile,
+  type InsertProviderProfile,
+  type ProviderPublicProfile,
+  type ProviderApplication,
+  type ProviderApplicationStatus,
+  type ProviderApplicationWithUser,
+  type ServiceListItem,
+  type InsertProviderApplication,
+  type ServiceImage,
+  type InsertServiceImage,
+  type ImageVariantFile,
+  type ServiceSearchMatch,
+  type SearchSuggestion,
+  type GeoPoint,
+  type Location,
+  type InsertLocation,
 } from "@shared/schema";
 import { db } from "./db";
 import { cacheManager } from "./cache";
 import { wsManager } from "./websocket";
-import { eq, desc, and, like, sql, ilike } from "drizzle-orm";
+import { computeCufe } from "./invoices";
+import { getAvailabilityWindow, type LocalDay } from "./availability";
+import { refreshSearchDocuments, matchesSearch, matchesPrefix, plainTextContains, searchRank, searchMatch, normalizeQuery } from "./search";
+import { distanceKm, withinRadius } from "./geo";
+import { childPath, validateLocationPlacement, coversLocation, coverageAreaIds, coverageLabel, coveragePoint, resolveLocationText } from "./locations";
+import { inCategoryTree, matchesAttributeFilter, type AttributeFilter } from "./categories";
+import { slugify, nextFreeSlug } from "./seo";
+import { savedSearchServiceFilters, instantAlertEmail, digestEmail, DIGEST_PERIOD_MS, type DigestFrequency } from "./savedSearchAlerts";
+import { eq, desc, and, like, sql, ilike, lt, lte, gt, gte, ne, inArray, isNull, getTableColumns, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+// Transaction handle as passed to db.transaction callbacks
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Saved searches checked per query when a service is approved
+const SAVED_SEARCH_BATCH_SIZE = 200;
+
+export interface ProviderApplicationDecision {
+  approved: boolean;
+  reviewerId: string;
+  notes?: string;
+}
+
+export interface ReviewDecision {
+  approved: boolean;
+  moderatorId: string;
+  reason?: string; // required by the routes when rejecting
+}
+
+// Reviews at or below this rating show up in the "low_rating" moderation filter
+const LOW_RATING_THRESHOLD = 2;
+
+export interface ServiceFilters {
+  categoryId?: number; // includes its subcategories
+  attributes?: AttributeFilter[]; // for fields of the category or its ancestors
+  search?: string;
+  locationId?: number; // services covering it, or covering any area inside it
+  approved?: boolean;
+  featured?: boolean;
+  minPrice?: number; // in cents; services without a price always match
+  maxPrice?: number; // in cents
+  available?: ServiceAvailabilityFilter;
+  near?: GeoPoint; // lists each service's distance to it
+  radiusKm?: number; // with near, only services this close match
+  sortBy?: ServiceSort;
+  page?: number;
+  pageSize?: number;
+}
+
+export type FavoriteTarget = { serviceId: number } | { providerId: string };
+
+// Everything /sitemap.xml lists
+export interface SitemapData {
+  categories: Pick<Category, 'id' | 'slug' | 'updatedAt'>[];
+  services: Pick<Service, 'id' | 'slug' | 'updatedAt'>[];
+  providers: { id: string; slug: string | null; updatedAt: Date | null }[];
+}
+
+export type CategoryDeletionResult =
+  | { ok: true; deletion: CategoryDeletionSummary }
+  | { ok: false; httpStatus: 400 | 404 | 409; message: string };
+
+export type LocationResult =
+  | { ok: true; location: Location }
+  | { ok: false; httpStatus: 400 | 404 | 409; message: string };
+
+// Bookings and chats are the customer's record too, so they keep their service alive
+export type ServiceDeletionResult =
+  | { ok: true }
+  | { ok: false; httpStatus: 409; message: string };
 
 export interface IStorage {
   // User operations (required for JWT Auth)
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUsersByRole(role: User['role']): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User>;
 
+  // Two-factor authentication
+  saveTempTwoFactorSecret(userId: string, data: TwoFactorSecretData): Promise<void>;
+  getTempTwoFactorSecret(userId: string): Promise<TwoFactorSecretData | undefined>;
+  deleteTempTwoFactorSecret(userId: string): Promise<void>;
+  activateTwoFactor(userId: string, data: TwoFactorSecretData): Promise<void>;
+  getUserTwoFactor(userId: string): Promise<TwoFactorSecretData | undefined>;
+  removeUsedBackupCode(userId: string, codeHash: string): Promise<void>;
+  deactivateTwoFactor(userId: string): Promise<void>;
+
   // Categories
   getCategories(): Promise<Category[]>;
   getCategoryById(id: number): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
   updateCategory(id: number, category: Partial<InsertCategory>): Promise<Category>;
-  deleteCategory(id: number): Promise<void>;
+  getCategoryBySlug(slug: string): Promise<Category | undefined>;
+  getCategoryImpact(id: number): Promise<CategoryImpact | undefined>;
+  deleteCategory(id: number, replacementCategoryId: number | undefined, deletedBy: string): Promise<CategoryDeletionResult>;
+  getUndoableCategoryDeletions(): Promise<CategoryDeletionSummary[]>;
+  undoCategoryDeletion(deletionId: number): Promise<CategoryDeletionResult>;
 
   // Services
-  getServices(filters?: { categoryId?: number; search?: string; location?: string; approved?: boolean }): Promise<Service[]>;
+  getServices(filters?: ServiceFilters): Promise<ServiceListItem[]>;
+  countServices(filters?: ServiceFilters): Promise<number>;
   getServiceById(id: number): Promise<Service | undefined>;
-  getServicesByUserId(userId: string): Promise<Service[]>;
-  createService(service: InsertService): Promise<Service>;
-  updateService(id: number, service: Partial<InsertService>): Promise<Service>;
-  deleteService(id: number): Promise<void>;
-  approveService(id: number): Promise<Service>;
+  getServiceDetail(id: number): Promise<ServiceDetail | undefined>;
+  resolveServiceId(idOrSlug: string): Promise<number | undefined>;
+  getServicesByUserId(userId: string): Promise<ServiceListItem[]>;
+
+  // Locations
+  getLocations(): Promise<Location[]>;
+  getLocationsByIds(ids: number[]): Promise<Location[]>;
+  createLocation(location: InsertLocation): Promise<LocationResult>;
+  updateLocation(id: number, location: Partial<InsertLocation>): Promise<LocationResult>;
+  deleteLocation(id: number): Promise<LocationResult>;
+  assignLegacyServiceLocations(): Promise<number>;
+
+  // Search suggestions
+  getSearchSuggestions(prefix: string, limitPerType?: number): Promise<SearchSuggestion[]>;
+  recordSearchQuery(query: string): Promise<void>;
+
+  // Service images
+  getServiceImages(serviceId: number): Promise<ServiceImage[]>;
+  addServiceImages(serviceId: number, images: Omit<InsertServiceImage, 'serviceId'>[]): Promise<ServiceImage[]>;
+  arrangeServiceImages(serviceId: number, orderedIds: number[], coverId: number): Promise<ServiceImage[] | undefined>;
+  deleteServiceImage(serviceId: number, imageId: number): Promise<ServiceImage | undefined>;
+
+  // Provider profiles
+  getProviderProfile(userId: string): Promise<ProviderProfile | undefined>;
+  upsertProviderProfile(userId: string, profile: InsertProviderProfile): Promise<ProviderProfile>;
+  setProviderPhoto(userId: string, photo: { url: string; storageKey: string } | null): Promise<string | null>;
+  getProviderPublicProfile(userId: string): Promise<ProviderPublicProfile | undefined>;
+  resolveProviderId(idOrSlug: string): Promise<string | undefined>;
+
+  // Provider applications
+  getProviderApplications(status?: ProviderApplicationStatus): Promise<ProviderApplicationWithUser[]>;
+  getProviderApplicationsByUser(userId: string): Promise<ProviderApplication[]>;
+  getProviderApplicationById(id: number): Promise<ProviderApplication | undefined>;
+  createProviderApplication(application: InsertProviderApplication): Promise<ProviderApplication>;
+  reviewProviderApplication(id: number, decision: ProviderApplicationDecision): Promise<ProviderApplication | undefined>;
+  createService(service: InsertService, coverageAreaIds?: number[]): Promise<Service>;
+  updateService(id: number, service: Partial<InsertService>, coverageAreaIds?: number[]): Promise<Service>;
+  deleteService(id: number): Promise<ServiceDeletionResult>;
+  approveService(id: number): Promise<{ service: Service; firstApproval: boolean }>;
+  recordSavedSearchMatches(service: Service): Promise<SavedSearch[]>;
   featureService(id: number, featured: boolean): Promise<Service>;
 
   // Content
@@ -88,13 +287,49 @@ export interface IStorage {
 
   // Messages
   getMessagesByServiceId(serviceId: number): Promise<Message[]>;
+  getMessageById(id: number): Promise<Message | undefined>;
+  getInboxMessages(providerId: string, filters?: { serviceId?: number; archived?: boolean }): Promise<InboxMessage[]>;
+  countUnreadMessages(providerId: string): Promise<number>;
   createMessage(message: InsertMessage): Promise<Message>;
+  updateMessage(id: number, message: Partial<Pick<Message, 'isRead' | 'isArchived' | 'reply' | 'repliedAt'>>): Promise<Message>;
 
   // Reviews
-  getReviewsByServiceId(serviceId: number): Promise<Review[]>;
+  getReviewsByServiceId(serviceId: number, sort?: ReviewSort): Promise<PublicReview[]>;
+  getReviewById(id: number): Promise<Review | undefined>;
+  getReviewByServiceAndUser(serviceId: number, userId: string): Promise<Review | undefined>;
+  getReviewVerification(serviceId: number, userId: string): Promise<ReviewVerificationSource | null>;
   createReview(review: InsertReview): Promise<Review>;
-  approveReview(id: number): Promise<Review>;
   deleteReview(id: number): Promise<void>;
+  getReviewQueue(filter: ReviewQueueFilter): Promise<ReviewQueueItem[]>;
+  moderateReviews(ids: number[], decision: ReviewDecision): Promise<Review[]>;
+  updateReviewResponse(id: number, adminResponse: string | null): Promise<Review | undefined>;
+  reportReview(reviewId: number, reporterId: string, reason: string, hideThreshold: number): Promise<{ report: ReviewReport; hidden: boolean } | undefined>;
+  createReviewReply(reviewId: number, authorId: string, body: string): Promise<ReviewReply>;
+  addReviewVote(reviewId: number, userId: string): Promise<boolean>;
+  removeReviewVote(reviewId: number, userId: string): Promise<boolean>;
+  recomputeAllServiceRatings(): Promise<number>;
+
+  // Favorites; lists are only ever touched through their owner
+  getFavorites(userId: string): Promise<UserFavorites>;
+  addFavorite(userId: string, target: FavoriteTarget, listId: number | null): Promise<Favorite>;
+  removeFavorite(userId: string, target: FavoriteTarget): Promise<boolean>;
+  moveFavorite(userId: string, id: number, listId: number | null): Promise<Favorite | undefined>;
+  getFavoriteList(userId: string, id: number): Promise<FavoriteList | undefined>;
+  createFavoriteList(userId: string, name: string): Promise<FavoriteList>;
+  renameFavoriteList(userId: string, id: number, name: string): Promise<FavoriteList | undefined>;
+  deleteFavoriteList(userId: string, id: number): Promise<boolean>;
+  getServiceFavoriters(serviceId: number): Promise<string[]>;
+
+  // Saved searches
+  getSavedSearches(userId: string): Promise<SavedSearch[]>;
+  createSavedSearch(userId: string, search: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(userId: string, id: number, changes: Partial<Pick<SavedSearch, 'name' | 'frequency'>>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(userId: string, id: number): Promise<boolean>;
+  queueSavedSearchDigests(frequency: DigestFrequency, now?: Date): Promise<number>;
+
+  // Sitemap and slugs
+  getSitemapData(): Promise<SitemapData>;
+  assignMissingSlugs(): Promise<number>;
 
   // Advertisements
   getAdvertisements(): Promise<Advertisement[]>;
@@ -117,6 +352,41 @@ export interface IStorage {
   getSupportTickets(): Promise<SupportTicket[]>;
   createSupportTicket(ticket: InsertSupportTicket): Promise<SupportTicket>;
   updateSupportTicket(id: number, ticket: Partial<InsertSupportTicket>): Promise<SupportTicket>;
+
+  // Payments
+  getPayments(filters?: { status?: Payment['status']; paymentMethod?: Payment['paymentMethod'] }): Promise<Payment[]>;
+  getPaymentById(id: string): Promise<Payment | undefined>;
+  getPaymentsByUserId(userId: string): Promise<Payment[]>;
+  createPaymentRecord(payment: InsertPayment): Promise<Payment>;
+  updatePaymentStatus(id: string, status: Payment['status'], details?: Record<string, any>): Promise<Payment | undefined>;
+
+  // Invoices
+  getInvoiceResolutions(): Promise<InvoiceResolution[]>;
+  getInvoiceResolutionById(id: number): Promise<InvoiceResolution | undefined>;
+  createInvoiceResolution(resolution: Omit<InsertInvoiceResolution, 'currentNumber'>): Promise<InvoiceResolution>;
+  getInvoices(filters?: { providerId?: string }): Promise<Invoice[]>;
+  getInvoiceById(id: number): Promise<Invoice | undefined>;
+  getInvoiceByPaymentId(paymentId: string): Promise<Invoice | undefined>;
+  saveInvoice(invoice: Omit<InsertInvoice, 'number' | 'sequence' | 'resolutionId' | 'cufe' | 'issuedAt'>): Promise<Invoice | undefined>;
+
+  // Bookings
+  getBookingById(id: number): Promise<Booking | undefined>;
+  getBookings(filters: { customerId?: string; providerId?: string; status?: BookingStatus }): Promise<BookingWithDetails[]>;
+  createBooking(booking: InsertBooking): Promise<Booking>;
+  updateBookingStatus(id: number, expectedStatus: BookingStatus, change: BookingStatusChange): Promise<Booking | undefined>;
+  hasBookingConflict(providerId: string, startsAt: Date, endsAt: Date, excludeId?: number): Promise<boolean>;
+  getConfirmedBookingsBetween(providerId: string, from: Date, to: Date): Promise<Booking[]>;
+
+  // Chat
+  getConversationById(id: number): Promise<Conversation | undefined>;
+  findConversation(serviceId: number, customerId: string): Promise<Conversation | undefined>;
+  createConversation(serviceId: number, customerId: string, providerId: string): Promise<Conversation>;
+  getConversationParticipants(conversationId: number): Promise<ConversationParticipant[]>;
+  getConversationsForUser(userId: string): Promise<ConversationSummary[]>;
+  getChatMessages(conversationId: number, options?: { beforeId?: number; limit?: number }): Promise<ChatMessage[]>;
+  getChatMessagesSince(userId: string, sinceId: number, limit?: number): Promise<ChatMessage[]>;
+  createChatMessage(conversationId: number, senderId: string, body: string): Promise<ChatMessage>;
+  markConversationRead(conversationId: number, userId: string, messageId: number): Promise<ConversationParticipant | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -136,6 +406,10 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUsersByRole(role: User['role']): Promise<User[]> {
+    return await db.select().from(users).where(and(eq(users.role, role), eq(users.isActive, true)));
+  }
+
   async createUser(userData: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -153,6 +427,63 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Two-factor authentication
+  async saveTempTwoFactorSecret(userId: string, data: TwoFactorSecretData): Promise<void> {
+    await db
+      .insert(userTwoFactor)
+      .values({ userId, pendingSecret: data.secret, pendingBackupCodes: data.backupCodes })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { pendingSecret: data.secret, pendingBackupCodes: data.backupCodes, updatedAt: new Date() },
+      });
+  }
+
+  async getTempTwoFactorSecret(userId: string): Promise<TwoFactorSecretData | undefined> {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    if (!record?.pendingSecret) return undefined;
+    return { secret: record.pendingSecret, backupCodes: record.pendingBackupCodes || [], isActive: false };
+  }
+
+  async deleteTempTwoFactorSecret(userId: string): Promise<void> {
+    await db
+      .update(userTwoFactor)
+      .set({ pendingSecret: null, pendingBackupCodes: null, updatedAt: new Date() })
+      .where(eq(userTwoFactor.userId, userId));
+  }
+
+  async activateTwoFactor(userId: string, data: TwoFactorSecretData): Promise<void> {
+    await db
+      .update(userTwoFactor)
+      .set({
+        secret: data.secret,
+        backupCodes: data.backupCodes,
+        isActive: true,
+        enabledAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(userTwoFactor.userId, userId));
+  }
+
+  async getUserTwoFactor(userId: string): Promise<TwoFactorSecretData | undefined> {
+    const [record] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    if (!record?.secret) return undefined;
+    return { secret: record.secret, backupCodes: record.backupCodes, isActive: record.isActive };
+  }
+
+  async removeUsedBackupCode(userId: string, codeHash: string): Promise<void> {
+    await db
+      .update(userTwoFactor)
+      .set({ backupCodes: sql`array_remove(${userTwoFactor.backupCodes}, ${codeHash})`, updatedAt: new Date() })
+      .where(eq(userTwoFactor.userId, userId));
+  }
+
+  async deactivateTwoFactor(userId: string): Promise<void> {
+    await db
+      .update(userTwoFactor)
+      .set({ secret: null, backupCodes: [], isActive: false, enabledAt: null, updatedAt: new Date() })
+      .where(eq(userTwoFactor.userId, userId));
+  }
+
   // Categories
   async getCategories(): Promise<Category[]> {
     return await db.select().from(categories).where(eq(categories.isActive, true)).orderBy(categories.name);
@@ -163,8 +494,17 @@ export class DatabaseStorage implements IStorage {
     return category;
   }
 
+  async getCategoryBySlug(slug: string): Promise<Category | undefined> {
+    const [category] = await db
+      .select()
+      .from(categories)
+      .where(and(eq(categories.slug, slug), eq(categories.isActive, true)));
+    return category;
+  }
+
   async createCategory(category: InsertCategory): Promise<Category> {
-    const [newCategory] = await db.insert(categories).values(category).returning();
+    const slug = await this.availableSlug(categories, category.name, 'categoria');
+    const [newCategory] = await db.insert(categories).values({ ...category, slug }).returning();
     return newCategory;
   }
 
@@ -174,42 +514,313 @@ export class DatabaseStorage implements IStorage {
       .set({ ...category, updatedAt: new Date() })
       .where(eq(categories.id, id))
       .returning();
+    // The category name is part of its services' search documents
+    if (category.name !== undefined) {
+      await refreshSearchDocuments(eq(services.categoryId, id));
+    }
     return updatedCategory;
   }
 
-  async deleteCategory(id: number): Promise<void> {
-    await db.delete(categories).where(eq(categories.id, id));
+  async getCategoryImpact(id: number): Promise<CategoryImpact | undefined> {
+    const category = await this.getCategoryById(id);
+    if (!category?.isActive) return undefined;
+
+    const [[serviceCounts], subcategories] = await Promise.all([
+      db
+        .select({
+          total: sql<number>`count(*)::int`,
+          approved: sql<number>`(count(*) filter (where ${services.isApproved}))::int`,
+        })
+        .from(services)
+        .where(eq(services.categoryId, id)),
+      db
+        .select({ id: categories.id, name: categories.name })
+        .from(categories)
+        .where(and(eq(categories.parentId, id), eq(categories.isActive, true)))
+        .orderBy(categories.name),
+    ]);
+    return {
+      category,
+      services: { ...serviceCounts, pending: serviceCounts.total - serviceCounts.approved },
+      subcategories,
+    };
+  }
+
+  // Services can't be left without a category, so they move to the replacement;
+  // subcategories move up to the deleted category's parent
+  async deleteCategory(id: number, replacementCategoryId: number | undefined, deletedBy: string): Promise<CategoryDeletionResult> {
+    const result = await db.transaction(async (tx): Promise<CategoryDeletionResult | { ok: true; deletionId: number; movedServiceIds: number[] }> => {
+      const [category] = await tx
+        .select()
+        .from(categories)
+        .where(and(eq(categories.id, id), eq(categories.isActive, true)))
+        .for('update');
+      if (!category) {
+        return { ok: false, httpStatus: 404, message: 'Category not found' };
+      }
+
+      const affected = await tx.select({ id: services.id }).from(services).where(eq(services.categoryId, id));
+      if (affected.length > 0) {
+        if (!replacementCategoryId) {
+          return { ok: false, httpStatus: 400, message: `Choose a category to move its ${affected.length} services to` };
+        }
+        const [replacement] = await tx
+          .select({ id: categories.id })
+          .from(categories)
+          .where(and(eq(categories.id, replacementCategoryId), eq(categories.isActive, true), ne(categories.id, id)));
+        if (!replacement) {
+          return { ok: false, httpStatus: 400, message: 'Replacement category not found' };
+        }
+        await tx
+          .update(services)
+          .set({ categoryId: replacementCategoryId, updatedAt: new Date() })
+          .where(eq(services.categoryId, id));
+      }
+
+      const movedSubcategories = await tx
+        .update(categories)
+        .set({ parentId: category.parentId, updatedAt: new Date() })
+        .where(eq(categories.parentId, id))
+        .returning({ id: categories.id });
+      await tx
+        .update(categories)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(eq(categories.id, id));
+
+      const movedServiceIds = affected.map(service => service.id);
+      const [deletion] = await tx
+        .insert(categoryDeletions)
+        .values({
+          categoryId: id,
+          replacementCategoryId: movedServiceIds.length > 0 ? replacementCategoryId : null,
+          movedServiceIds,
+          movedSubcategoryIds: movedSubcategories.map(subcategory => subcategory.id),
+          deletedBy,
+        })
+        .returning({ id: categoryDeletions.id });
+      return { ok: true, deletionId: deletion.id, movedServiceIds };
+    });
+    if (!result.ok || !('deletionId' in result)) return result;
+
+    await this.refreshMovedServices(result.movedServiceIds);
+    const [deletion] = await this.getCategoryDeletionSummaries(eq(categoryDeletions.id, result.deletionId));
+    return { ok: true, deletion };
+  }
+
+  async getUndoableCategoryDeletions(): Promise<CategoryDeletionSummary[]> {
+    return this.getCategoryDeletionSummaries(and(
+      sql`${categoryDeletions.undoneAt} IS NULL`,
+      gt(categoryDeletions.createdAt, new Date(Date.now() - CATEGORY_UNDO_WINDOW_MINUTES * 60 * 1000)),
+    ));
+  }
+
+  // Puts back only what is still where the deletion left it: services a provider has
+  // since moved elsewhere, or subcategories an admin has re-parented, stay put
+  async undoCategoryDeletion(deletionId: number): Promise<CategoryDeletionResult> {
+    const result = await db.transaction(async (tx): Promise<CategoryDeletionResult | { ok: true; restoredServiceIds: number[] }> => {
+      const [deletion] = await tx
+        .select()
+        .from(categoryDeletions)
+        .where(and(eq(categoryDeletions.id, deletionId), sql`${categoryDeletions.undoneAt} IS NULL`))
+        .for('update');
+      if (!deletion) {
+        return { ok: false, httpStatus: 404, message: 'Deletion not found' };
+      }
+      if (deletion.createdAt.getTime() + CATEGORY_UNDO_WINDOW_MINUTES * 60 * 1000 < Date.now()) {
+        return { ok: false, httpStatus: 409, message: 'The undo window for this deletion has passed' };
+      }
+
+      const [category] = await tx
+        .update(categories)
+        .set({ isActive: true, updatedAt: new Date() })
+        .where(eq(categories.id, deletion.categoryId))
+        .returning();
+
+      const restoredServices = deletion.movedServiceIds.length > 0 && deletion.replacementCategoryId
+        ? await tx
+          .update(services)
+          .set({ categoryId: deletion.categoryId, updatedAt: new Date() })
+          .where(and(inArray(services.id, deletion.movedServiceIds), eq(services.categoryId, deletion.replacementCategoryId)))
+          .returning({ id: services.id })
+        : [];
+      if (deletion.movedSubcategoryIds.length > 0) {
+        await tx
+          .update(categories)
+          .set({ parentId: deletion.categoryId, updatedAt: new Date() })
+          .where(and(
+            inArray(categories.id, deletion.movedSubcategoryIds),
+            sql`${categories.parentId} IS NOT DISTINCT FROM ${category.parentId}`,
+          ));
+      }
+
+      await tx
+        .update(categoryDeletions)
+        .set({ undoneAt: new Date() })
+        .where(eq(categoryDeletions.id, deletionId));
+      return { ok: true, restoredServiceIds: restoredServices.map(service => service.id) };
+    });
+    if (!result.ok || !('restoredServiceIds' in result)) return result;
+
+    await this.refreshMovedServices(result.restoredServiceIds);
+    const [deletion] = await this.getCategoryDeletionSummaries(eq(categoryDeletions.id, deletionId));
+    return { ok: true, deletion };
+  }
+
+  // The category name is part of the search documents
+  private async refreshMovedServices(serviceIds: number[]): Promise<void> {
+    if (serviceIds.length > 0) {
+      await refreshSearchDocuments(inArray(services.id, serviceIds));
+    }
+    cacheManager.invalidatePattern('services');
+  }
+
+  private async getCategoryDeletionSummaries(where: SQL | undefined): Promise<CategoryDeletionSummary[]> {
+    const replacement = alias(categories, 'replacement');
+    const rows = await db
+      .select({
+        deletion: categoryDeletions,
+        categoryName: categories.name,
+        replacementCategoryName: replacement.name,
+      })
+      .from(categoryDeletions)
+      .innerJoin(categories, eq(categories.id, categoryDeletions.categoryId))
+      .leftJoin(replacement, eq(replacement.id, categoryDeletions.replacementCategoryId))
+      .where(where)
+      .orderBy(desc(categoryDeletions.createdAt));
+    return rows.map(({ deletion, categoryName, replacementCategoryName }) => ({
+      ...deletion,
+      categoryName,
+      replacementCategoryName,
+      undoUntil: new Date(deletion.createdAt.getTime() + CATEGORY_UNDO_WINDOW_MINUTES * 60 * 1000).toISOString(),
+    }));
   }
 
   // Services
-  async getServices(filters?: { categoryId?: number; search?: string; location?: string; approved?: boolean }): Promise<Service[]> {
-    let query = db.select().from(services);
+  async getServices(filters?: ServiceFilters): Promise<ServiceListItem[]> {
+    let query = this.selectServiceListItems(filters?.search, filters?.near)
+      .where(this.buildServiceConditions(filters))
+      .orderBy(...this.buildServiceOrder(filters?.sortBy, filters?.search, filters?.near))
+      .$dynamic();
+
+    if (filters?.pageSize) {
+      const page = Math.max(filters.page || 1, 1);
+      query = query.limit(filters.pageSize).offset((page - 1) * filters.pageSize);
+    }
+
+    return await query;
+  }
+
+  // Card data: the service plus its provider's verification and cover photo, and
+  // the highlighted match or the distance when listing a search or a point
+  private selectServiceListItems(search?: string, near?: GeoPoint) {
+    return db
+      .select({
+        ...getTableColumns(services),
+        providerVerified: sql<boolean>`coalesce(${users.isVerified}, false)`,
+        coverImage: sql<ImageVariantFile | null>`(
+          select ${serviceImages.variants} -> 'card' from ${serviceImages}
+          where ${serviceImages.serviceId} = ${services.id} and ${serviceImages.isCover}
+          limit 1
+        )`,
+        searchMatch: search ? searchMatch(search) : sql<ServiceSearchMatch | null>`null`,
+        distanceKm: near ? distanceKm(near) : sql<number | null>`null`,
+        coverageAreaIds: coverageAreaIds(),
+      })
+      .from(services)
+      .leftJoin(users, sql`${users.id}::text = ${services.userId}`)
+      .leftJoin(serviceSearchDocuments, eq(serviceSearchDocuments.serviceId, services.id))
+      .$dynamic();
+  }
+
+  async countServices(filters?: ServiceFilters): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(services)
+      .where(this.buildServiceConditions(filters));
+    return result?.count || 0;
+  }
 
+  private buildServiceConditions(filters?: ServiceFilters): SQL | undefined {
     const conditions = [];
 
     if (filters?.approved !== undefined) {
       conditions.push(eq(services.isApproved, filters.approved));
     }
 
+    if (filters?.featured !== undefined) {
+      conditions.push(eq(services.isFeatured, filters.featured));
+    }
+
     if (filters?.categoryId) {
-      conditions.push(eq(services.categoryId, filters.categoryId));
+      conditions.push(inCategoryTree(filters.categoryId));
+    }
+
+    for (const attributeFilter of filters?.attributes ?? []) {
+      conditions.push(matchesAttributeFilter(attributeFilter));
     }
 
     if (filters?.search) {
-      conditions.push(
-        sql`(${services.title} ILIKE ${'%' + filters.search + '%'} OR ${services.description} ILIKE ${'%' + filters.search + '%'})`
-      );
+      conditions.push(matchesSearch(filters.search));
     }
 
-    if (filters?.location) {
-      conditions.push(ilike(services.location, `%${filters.location}%`));
+    if (filters?.locationId) {
+      conditions.push(coversLocation(filters.locationId));
     }
 
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions));
+    if (filters?.near && filters.radiusKm) {
+      conditions.push(withinRadius(filters.near, filters.radiusKm));
     }
 
-    return await query.orderBy(desc(services.createdAt));
+    if (filters?.minPrice !== undefined) {
+      conditions.push(sql`(${services.price} IS NULL OR ${services.price} >= ${filters.minPrice})`);
+    }
+
+    if (filters?.maxPrice !== undefined) {
+      conditions.push(sql`(${services.price} IS NULL OR ${services.price} <= ${filters.maxPrice})`);
+    }
+
+    if (filters?.available) {
+      const days = getAvailabilityWindow(filters.available);
+      conditions.push(sql`(${sql.join(days.map(day => this.buildOpenOnDayCondition(day)), sql` OR `)})`);
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  // A service is open on a day when the exception for that date (or else the weekly
+  // ranges for its weekday) has a range that ends after the given local time
+  private buildOpenOnDayCondition(day: LocalDay & { after: string }): SQL {
+    return sql`EXISTS (
+      SELECT 1 FROM jsonb_array_elements(coalesce(
+        jsonb_path_query_first(${services.availability}, '$.exceptions[*] ? (@.date == $date).ranges', jsonb_build_object('date', ${day.date}::text)),
+        ${services.availability}->'days'->${day.weekday}::int
+      )) AS open_range
+      WHERE open_range->>'end' > ${day.after}
+    )`;
+  }
+
+  // Every ordering ends with the id so pages stay stable between requests
+  private buildServiceOrder(sortBy?: ServiceSort, search?: string, near?: GeoPoint): SQL[] {
+    switch (sortBy ?? (search ? 'relevance' : near ? 'distance' : 'recent')) {
+      case 'relevance':
+        return search
+          ? [sql`${searchRank(search)} DESC`, desc(services.id)]
+          : [desc(services.createdAt), desc(services.id)];
+      case 'distance':
+        return near
+          ? [sql`${distanceKm(near)} ASC NULLS LAST`, desc(services.id)]
+          : [desc(services.createdAt), desc(services.id)];
+      case 'price_asc':
+        return [sql`${services.price} ASC NULLS LAST`, desc(services.id)];
+      case 'price_desc':
+        return [sql`${services.price} DESC NULLS LAST`, desc(services.id)];
+      case 'rating':
+        return [sql`${services.rating} DESC NULLS LAST`, desc(services.reviewCount), desc(services.id)];
+      case 'featured':
+        return [desc(services.isFeatured), desc(services.createdAt), desc(services.id)];
+      default:
+        return [desc(services.createdAt), desc(services.id)];
+    }
   }
 
   async getServiceById(id: number): Promise<Service | undefined> {
@@ -217,15 +828,550 @@ export class DatabaseStorage implements IStorage {
     return service;
   }
 
-  async getServicesByUserId(userId: string): Promise<Service[]> {
-    return await db.select().from(services).where(eq(services.userId, userId)).orderBy(desc(services.createdAt));
+  // Public URLs use the slug; ids keep working for links made before slugs existed
+  async resolveServiceId(idOrSlug: string): Promise<number | undefined> {
+    if (/^\d+$/.test(idOrSlug)) return parseInt(idOrSlug);
+    const [service] = await db.select({ id: services.id }).from(services).where(eq(services.slug, idOrSlug));
+    return service?.id;
   }
 
-  async createService(data: InsertService): Promise<Service> {
-    const [service] = await db
-      .insert(services)
-      .values(data)
+  async getServiceDetail(id: number): Promise<ServiceDetail | undefined> {
+    const service = await this.getServiceById(id);
+    if (!service) return undefined;
+
+    const [category, provider, ratingSummary, images, coverageAreas] = await Promise.all([
+      this.getCategoryById(service.categoryId),
+      this.getPublicProvider(service.userId),
+      this.getRatingSummary({ serviceId: service.id }),
+      this.getServiceImages(service.id),
+      this.getServiceCoverageAreas(service.id),
+    ]);
+
+    return { ...service, category: category || null, provider: provider || null, ratingSummary, images, coverageAreas };
+  }
+
+  private async getServiceCoverageAreas(serviceId: number): Promise<Location[]> {
+    const rows = await db
+      .select({ location: locations })
+      .from(serviceCoverageAreas)
+      .innerJoin(locations, eq(locations.id, serviceCoverageAreas.locationId))
+      .where(eq(serviceCoverageAreas.serviceId, serviceId))
+      .orderBy(serviceCoverageAreas.position);
+    return rows.map(row => row.location);
+  }
+
+  // Only the fields that are safe to show to anonymous visitors; email and phone
+  // are added when the provider opted in
+  private async getPublicProvider(userId: string): Promise<PublicProvider | undefined> {
+    const [row] = await db
+      .select({ user: users, profile: providerProfiles })
+      .from(users)
+      .leftJoin(providerProfiles, eq(providerProfiles.userId, sql`${users.id}::text`))
+      .where(and(eq(users.id, parseInt(userId)), eq(users.isActive, true)));
+    if (!row) return undefined;
+
+    const { user, profile } = row;
+    return {
+      id: user.id,
+      username: user.username,
+      fullName: user.fullName,
+      isVerified: user.isVerified,
+      createdAt: user.createdAt,
+      slug: profile?.slug ?? null,
+      displayName: profile?.displayName ?? null,
+      bio: profile?.bio ?? null,
+      photoUrl: profile?.photoUrl ?? null,
+      yearsOfExperience: profile?.yearsOfExperience ?? null,
+      serviceAreas: profile?.serviceAreas ?? [],
+      socialLinks: profile?.socialLinks ?? {},
+      ...(profile?.showEmail ? { email: user.email } : {}),
+      ...(profile?.showPhone ? { phone: user.phone } : {}),
+    };
+  }
+
+  // Scoped to one service, or to every approved service of a provider
+  private async getRatingSummary(scope: { serviceId: number } | { providerId: string }): Promise<RatingSummary> {
+    const rows = await db
+      .select({ rating: reviews.rating, count: sql<number>`count(*)::int` })
+      .from(reviews)
+      .innerJoin(services, eq(reviews.serviceId, services.id))
+      .where(and(
+        'serviceId' in scope
+          ? eq(reviews.serviceId, scope.serviceId)
+          : and(eq(services.userId, scope.providerId), eq(services.isApproved, true)),
+        eq(reviews.isApproved, true),
+        eq(reviews.isActive, true)
+      ))
+      .groupBy(reviews.rating);
+
+    const distribution: RatingSummary['distribution'] = [0, 0, 0, 0, 0];
+    rows.forEach(row => {
+      if (row.rating >= 1 && row.rating <= 5) distribution[row.rating - 1] = row.count;
+    });
+    const count = distribution.reduce((sum, n) => sum + n, 0);
+    const total = distribution.reduce((sum, n, i) => sum + n * (i + 1), 0);
+
+    return {
+      average: count > 0 ? Math.round((total / count) * 10) / 10 : 0,
+      count,
+      distribution,
+    };
+  }
+
+  async getServicesByUserId(userId: string): Promise<ServiceListItem[]> {
+    return await this.selectServiceListItems()
+      .where(eq(services.userId, userId))
+      .orderBy(desc(services.createdAt));
+  }
+
+  // Search suggestions
+  // Popular past searches, categories, approved service titles and locations for the
+  // search bar. Titles match anywhere (the trigram index covers it), the rest by prefix.
+  async getSearchSuggestions(prefix: string, limitPerType: number = 5): Promise<SearchSuggestion[]> {
+    const [popular, matchingCategories, titles, places] = await Promise.all([
+      db
+        .select({ query: searchQueries.query })
+        .from(searchQueries)
+        .where(matchesPrefix(searchQueries.query, prefix))
+        .orderBy(desc(searchQueries.count))
+        .limit(limitPerType),
+      db
+        .select({ id: categories.id, name: categories.name })
+        .from(categories)
+        .where(and(eq(categories.isActive, true), matchesPrefix(categories.name, prefix)))
+        .orderBy(categories.name)
+        .limit(limitPerType),
+      db
+        .select({ id: services.id, title: services.title })
+        .from(services)
+        .innerJoin(serviceSearchDocuments, eq(serviceSearchDocuments.serviceId, services.id))
+        .where(and(
+          eq(services.isApproved, true),
+          plainTextContains(prefix),
+        ))
+        .orderBy(sql`${services.rating} DESC NULLS LAST`, desc(services.reviewCount))
+        .limit(limitPerType),
+      db
+        .select({
+          id: locations.id,
+          name: locations.name,
+          municipality: sql<string | null>`(
+            SELECT m.name FROM ${locations} m
+            WHERE m.level = 'municipality' AND m.id <> ${locations.id} AND ${locations.path} LIKE m.path || '%'
+          )`,
+        })
+        .from(locations)
+        .where(and(inArray(locations.level, ['municipality', 'comuna', 'barrio']), matchesPrefix(locations.name, prefix)))
+        .orderBy(sql`array_position(array['municipality', 'comuna', 'barrio']::varchar[], ${locations.level})`, locations.name)
+        .limit(limitPerType),
+    ]);
+
+    return [
+      ...popular.map(({ query }): SearchSuggestion => ({ type: 'query', label: query })),
+      ...matchingCategories.map(({ id, name }): SearchSuggestion => ({ type: 'category', label: name, id })),
+      ...titles.map(({ id, title }): SearchSuggestion => ({ type: 'service', label: title, id })),
+      ...places.map(({ id, name, municipality }): SearchSuggestion => ({
+        type: 'location',
+        label: name,
+        id,
+        detail: municipality ?? undefined,
+      })),
+    ];
+  }
+
+  async recordSearchQuery(query: string): Promise<void> {
+    const normalized = normalizeQuery(query);
+    if (normalized.length < 2) return;
+
+    await db
+      .insert(searchQueries)
+      .values({ query: normalized })
+      .onConflictDoUpdate({
+        target: searchQueries.query,
+        set: { count: sql`${searchQueries.count} + 1`, lastSearchedAt: new Date() },
+      });
+  }
+
+  // Locations
+  async getLocations(): Promise<Location[]> {
+    return await db.select().from(locations).orderBy(locations.name);
+  }
+
+  async getLocationsByIds(ids: number[]): Promise<Location[]> {
+    if (ids.length === 0) return [];
+    return await db.select().from(locations).where(inArray(locations.id, ids));
+  }
+
+  private async getLocationById(id: number): Promise<Location | undefined> {
+    const [location] = await db.select().from(locations).where(eq(locations.id, id));
+    return location;
+  }
+
+  private async hasSiblingNamed(parentId: number | null, name: string, exceptId?: number): Promise<boolean> {
+    const [sibling] = await db
+      .select({ id: locations.id })
+      .from(locations)
+      .where(and(
+        parentId === null ? sql`${locations.parentId} IS NULL` : eq(locations.parentId, parentId),
+        sql`lower(${locations.name}) = lower(${name})`,
+        exceptId !== undefined ? ne(locations.id, exceptId) : undefined,
+      ));
+    return sibling !== undefined;
+  }
+
+  // Location suggestions are cached with the service ones
+  private invalidateLocationCaches(): void {
+    cacheManager.invalidatePattern('locations');
+    cacheManager.invalidatePattern('services:suggest');
+  }
+
+  async createLocation(data: InsertLocation): Promise<LocationResult> {
+    const parent = data.parentId ? await this.getLocationById(data.parentId) : undefined;
+    if (data.parentId && !parent) {
+      return { ok: false, httpStatus: 404, message: 'Parent location not found' };
+    }
+    const invalid = validateLocationPlacement(data.level, parent);
+    if (invalid) {
+      return { ok: false, httpStatus: 400, message: invalid };
+    }
+    if (await this.hasSiblingNamed(parent?.id ?? null, data.name)) {
+      return { ok: false, httpStatus: 409, message: `${data.name} already exists there` };
+    }
+
+    const location = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(locations).values({ ...data, parentId: parent?.id ?? null }).returning();
+      const [located] = await tx
+        .update(locations)
+        .set({ path: childPath(parent, created.id) })
+        .where(eq(locations.id, created.id))
+        .returning();
+      return located;
+    });
+    this.invalidateLocationCaches();
+    return { ok: true, location };
+  }
+
+  // Moving a location moves its whole subtree; services covering any of it get
+  // their labels rewritten
+  async updateLocation(id: number, data: Partial<InsertLocation>): Promise<LocationResult> {
+    const current = await this.getLocationById(id);
+    if (!current) {
+      return { ok: false, httpStatus: 404, message: 'Location not found' };
+    }
+
+    const parentId = data.parentId !== undefined ? data.parentId : current.parentId;
+    const parent = parentId ? await this.getLocationById(parentId) : undefined;
+    if (parentId && !parent) {
+      return { ok: false, httpStatus: 404, message: 'Parent location not found' };
+    }
+    if (parent && parent.path.startsWith(current.path)) {
+      return { ok: false, httpStatus: 400, message: 'A location cannot be moved inside itself' };
+    }
+    const level = data.level ?? current.level;
+    const invalid = validateLocationPlacement(level, parent);
+    if (invalid) {
+      return { ok: false, httpStatus: 400, message: invalid };
+    }
+    const children = await db.select().from(locations).where(eq(locations.parentId, id));
+    const misplacedChild = children.find(child => validateLocationPlacement(child.level, { ...current, level }));
+    if (misplacedChild) {
+      return { ok: false, httpStatus: 400, message: `${misplacedChild.name} would no longer fit inside a ${level}` };
+    }
+    const name = data.name ?? current.name;
+    if (await this.hasSiblingNamed(parent?.id ?? null, name, id)) {
+      return { ok: false, httpStatus: 409, message: `${name} already exists there` };
+    }
+
+    const path = childPath(parent, id);
+    const { location, affectedServiceIds } = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(locations)
+        .set({ ...data, parentId: parent?.id ?? null, path, updatedAt: new Date() })
+        .where(eq(locations.id, id))
+        .returning();
+      if (path !== current.path) {
+        await tx
+          .update(locations)
+          .set({ path: sql`${path} || substr(${locations.path}, ${current.path.length + 1})` })
+          .where(and(sql`${locations.path} LIKE ${current.path + '%'}`, ne(locations.id, id)));
+      }
+
+      let affectedServiceIds: number[] = [];
+      if (name !== current.name || path !== current.path) {
+        affectedServiceIds = (await tx
+          .selectDistinct({ serviceId: serviceCoverageAreas.serviceId })
+          .from(serviceCoverageAreas)
+          .innerJoin(locations, eq(locations.id, serviceCoverageAreas.locationId))
+          .where(sql`${locations.path} LIKE ${path + '%'}`)).map(row => row.serviceId);
+        await this.syncCoverageLabels(tx, affectedServiceIds);
+      }
+      return { location: updated, affectedServiceIds };
+    });
+
+    if (affectedServiceIds.length > 0) {
+      await refreshSearchDocuments(inArray(services.id, affectedServiceIds));
+      cacheManager.invalidatePattern('services');
+    }
+    this.invalidateLocationCaches();
+    return { ok: true, location };
+  }
+
+  // Only unused leaves can be deleted, so no service silently loses its coverage
+  async deleteLocation(id: number): Promise<LocationResult> {
+    const location = await this.getLocationById(id);
+    if (!location) {
+      return { ok: false, httpStatus: 404, message: 'Location not found' };
+    }
+    const [{ children }] = await db
+      .select({ children: sql<number>`count(*)::int` })
+      .from(locations)
+      .where(eq(locations.parentId, id));
+    if (children > 0) {
+      return { ok: false, httpStatus: 409, message: 'Move or delete the areas inside this location first' };
+    }
+    const [{ covering }] = await db
+      .select({ covering: sql<number>`count(*)::int` })
+      .from(serviceCoverageAreas)
+      .where(eq(serviceCoverageAreas.locationId, id));
+    if (covering > 0) {
+      return { ok: false, httpStatus: 409, message: `${covering} services cover this location` };
+    }
+
+    await db.delete(locations).where(eq(locations.id, id));
+    this.invalidateLocationCaches();
+    return { ok: true, location };
+  }
+
+  // Service images
+  async getServiceImages(serviceId: number): Promise<ServiceImage[]> {
+    return await db
+      .select()
+      .from(serviceImages)
+      .where(eq(serviceImages.serviceId, serviceId))
+      .orderBy(serviceImages.position, serviceImages.id);
+  }
+
+  // Appends to the end of the gallery; the first image of an empty gallery becomes the cover
+  async addServiceImages(serviceId: number, images: Omit<InsertServiceImage, 'serviceId'>[]): Promise<ServiceImage[]> {
+    const created = await db.transaction(async (tx) => {
+      await this.lockService(tx, serviceId);
+      const [{ nextPosition, hasCover }] = await tx
+        .select({
+          nextPosition: sql<number>`coalesce(max(${serviceImages.position}) + 1, 0)::int`,
+          hasCover: sql<boolean>`coalesce(bool_or(${serviceImages.isCover}), false)`,
+        })
+        .from(serviceImages)
+        .where(eq(serviceImages.serviceId, serviceId));
+
+      return await tx
+        .insert(serviceImages)
+        .values(images.map((image, i) => ({
+          ...image,
+          serviceId,
+          position: nextPosition + i,
+          isCover: !hasCover && i === 0,
+        })))
+        .returning();
+    });
+
+    await cacheManager.invalidatePattern('services');
+    return created;
+  }
+
+  // orderedIds must list every image of the service exactly once
+  async arrangeServiceImages(serviceId: number, orderedIds: number[], coverId: number): Promise<ServiceImage[] | undefined> {
+    const arranged = await db.transaction(async (tx) => {
+      await this.lockService(tx, serviceId);
+      const current = await tx
+        .select({ id: serviceImages.id })
+        .from(serviceImages)
+        .where(eq(serviceImages.serviceId, serviceId));
+
+      const currentIds = new Set(current.map(image => image.id));
+      if (orderedIds.length !== currentIds.size || !orderedIds.every(id => currentIds.has(id)) || !currentIds.has(coverId)) {
+        return undefined;
+      }
+
+      for (let position = 0; position < orderedIds.length; position++) {
+        const id = orderedIds[position];
+        await tx
+          .update(serviceImages)
+          .set({ position, isCover: id === coverId })
+          .where(eq(serviceImages.id, id));
+      }
+      return await tx
+        .select()
+        .from(serviceImages)
+        .where(eq(serviceImages.serviceId, serviceId))
+        .orderBy(serviceImages.position);
+    });
+
+    if (arranged) await cacheManager.invalidatePattern('services');
+    return arranged;
+  }
+
+  // Deleting the cover promotes the next image in the gallery
+  async deleteServiceImage(serviceId: number, imageId: number): Promise<ServiceImage | undefined> {
+    const deleted = await db.transaction(async (tx) => {
+      await this.lockService(tx, serviceId);
+      const [image] = await tx
+        .delete(serviceImages)
+        .where(and(eq(serviceImages.id, imageId), eq(serviceImages.serviceId, serviceId)))
+        .returning();
+      if (!image?.isCover) return image;
+
+      const [next] = await tx
+        .select({ id: serviceImages.id })
+        .from(serviceImages)
+        .where(eq(serviceImages.serviceId, serviceId))
+        .orderBy(serviceImages.position, serviceImages.id)
+        .limit(1);
+      if (next) {
+        await tx.update(serviceImages).set({ isCover: true }).where(eq(serviceImages.id, next.id));
+      }
+      return image;
+    });
+
+    if (deleted) await cacheManager.invalidatePattern('services');
+    return deleted;
+  }
+
+  // Provider profiles
+  async getProviderProfile(userId: string): Promise<ProviderProfile | undefined> {
+    const [profile] = await db.select().from(providerProfiles).where(eq(providerProfiles.userId, userId));
+    return profile;
+  }
+
+  async upsertProviderProfile(userId: string, profile: InsertProviderProfile): Promise<ProviderProfile> {
+    const existing = await this.getProviderProfile(userId);
+    const slug = existing?.slug ?? await this.availableSlug(
+      providerProfiles,
+      profile.displayName || (await this.getUser(userId))?.username || '',
+      `proveedor-${userId}`,
+    );
+    const [saved] = await db
+      .insert(providerProfiles)
+      .values({ ...profile, userId, slug })
+      .onConflictDoUpdate({
+        target: providerProfiles.userId,
+        set: { ...profile, slug, updatedAt: new Date() },
+      })
       .returning();
+    return saved;
+  }
+
+  // Returns the storage key of the uploaded photo being replaced, if any, so the caller can delete its files
+  async setProviderPhoto(userId: string, photo: { url: string; storageKey: string } | null): Promise<string | null> {
+    const previous = await this.getProviderProfile(userId);
+    const values = { photoUrl: photo?.url ?? null, photoStorageKey: photo?.storageKey ?? null };
+    await db
+      .insert(providerProfiles)
+      .values({ ...values, userId })
+      .onConflictDoUpdate({
+        target: providerProfiles.userId,
+        set: { ...values, updatedAt: new Date() },
+      });
+    return previous?.photoStorageKey ?? null;
+  }
+
+  async resolveProviderId(idOrSlug: string): Promise<string | undefined> {
+    if (/^\d+$/.test(idOrSlug)) return idOrSlug;
+    const [profile] = await db
+      .select({ userId: providerProfiles.userId })
+      .from(providerProfiles)
+      .where(eq(providerProfiles.slug, idOrSlug));
+    return profile?.userId;
+  }
+
+  // Anyone with the provider role or at least one approved service has a public profile
+  async getProviderPublicProfile(userId: string): Promise<ProviderPublicProfile | undefined> {
+    const provider = await this.getPublicProvider(userId);
+    if (!provider) return undefined;
+
+    const [providerServices, ratingSummary, user] = await Promise.all([
+      this.selectServiceListItems()
+        .where(and(eq(services.userId, userId), eq(services.isApproved, true)))
+        .orderBy(desc(services.isFeatured), desc(services.createdAt)),
+      this.getRatingSummary({ providerId: userId }),
+      this.getUser(userId),
+    ]);
+    if (providerServices.length === 0 && user?.role !== 'provider') return undefined;
+
+    return { provider, services: providerServices, ratingSummary };
+  }
+
+  // Provider applications
+  async getProviderApplications(status?: ProviderApplicationStatus): Promise<ProviderApplicationWithUser[]> {
+    const rows = await db
+      .select({
+        application: providerApplications,
+        applicantName: sql<string>`coalesce(${users.fullName}, ${users.username})`,
+        applicantEmail: users.email,
+      })
+      .from(providerApplications)
+      .innerJoin(users, sql`${users.id}::text = ${providerApplications.userId}`)
+      .where(status ? eq(providerApplications.status, status) : undefined)
+      .orderBy(providerApplications.createdAt);
+
+    return rows.map(({ application, ...applicant }) => ({ ...application, ...applicant }));
+  }
+
+  async getProviderApplicationsByUser(userId: string): Promise<ProviderApplication[]> {
+    return await db
+      .select()
+      .from(providerApplications)
+      .where(eq(providerApplications.userId, userId))
+      .orderBy(desc(providerApplications.createdAt));
+  }
+
+  async getProviderApplicationById(id: number): Promise<ProviderApplication | undefined> {
+    const [application] = await db.select().from(providerApplications).where(eq(providerApplications.id, id));
+    return application;
+  }
+
+  async createProviderApplication(application: InsertProviderApplication): Promise<ProviderApplication> {
+    const [created] = await db.insert(providerApplications).values(application).returning();
+    return created;
+  }
+
+  // Only pending applications can be decided; approval makes the applicant a verified provider
+  async reviewProviderApplication(id: number, decision: ProviderApplicationDecision): Promise<ProviderApplication | undefined> {
+    return await db.transaction(async (tx) => {
+      const [application] = await tx
+        .update(providerApplications)
+        .set({
+          status: decision.approved ? 'approved' : 'rejected',
+          reviewNotes: decision.notes ?? null,
+          reviewedBy: decision.reviewerId,
+          reviewedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(providerApplications.id, id), eq(providerApplications.status, 'pending')))
+        .returning();
+      if (!application || !decision.approved) return application;
+
+      await tx
+        .update(users)
+        .set({
+          // Admins keep their role; everyone else becomes a provider
+          role: sql`CASE WHEN ${users.role} = 'admin' THEN 'admin' ELSE 'provider' END`,
+          isVerified: true,
+          updatedAt: new Date(),
+        })
+        .where(eq(users.id, parseInt(application.userId)));
+      return application;
+    });
+  }
+
+  async createService(data: InsertService, coverageAreaIds: number[] = []): Promise<Service> {
+    const slug = await this.availableSlug(services, data.title, 'servicio');
+    const service = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(services).values({ ...data, slug }).returning();
+      return coverageAreaIds.length > 0
+        ? this.replaceCoverageAreas(tx, created.id, coverageAreaIds, data)
+        : created;
+    });
+    await refreshSearchDocuments(eq(services.id, service.id));
 
     // Invalidate related caches
     cacheManager.invalidatePattern('services');
@@ -237,26 +1383,218 @@ export class DatabaseStorage implements IStorage {
     return service;
   }
 
-  async updateService(id: number, service: Partial<InsertService>): Promise<Service> {
-    const [updatedService] = await db
+  async updateService(id: number, service: Partial<InsertService>, coverageAreaIds?: number[]): Promise<Service> {
+    const updatedService = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(services)
+        .set({ ...service, updatedAt: new Date() })
+        .where(eq(services.id, id))
+        .returning();
+      return coverageAreaIds ? this.replaceCoverageAreas(tx, id, coverageAreaIds, service) : updated;
+    });
+    await refreshSearchDocuments(eq(services.id, id));
+    // Listings, suggestions, page meta and the sitemap show the edited fields
+    cacheManager.invalidatePattern('services');
+    return updatedService;
+  }
+
+  // The location label follows the coverage areas, and so do the coordinates unless
+  // the same request placed the pin itself
+  private async replaceCoverageAreas(
+    tx: Transaction,
+    serviceId: number,
+    locationIds: number[],
+    input: Partial<InsertService>,
+  ): Promise<Service> {
+    await tx.delete(serviceCoverageAreas).where(eq(serviceCoverageAreas.serviceId, serviceId));
+    await tx.insert(serviceCoverageAreas).values(
+      locationIds.map((locationId, position) => ({ serviceId, locationId, position })),
+    );
+
+    const byId = await this.getLocationsWithAncestors(tx, locationIds);
+    const areas = locationIds.map(id => byId.get(id)).filter((area): area is Location => area !== undefined);
+    const pinned = input.latitude !== undefined || input.longitude !== undefined;
+    const point = pinned ? undefined : coveragePoint(areas, byId);
+
+    const [service] = await tx
       .update(services)
-      .set({ ...service, updatedAt: new Date() })
-      .where(eq(services.id, id))
+      .set({
+        location: coverageLabel(areas, byId),
+        ...(pinned ? {} : { latitude: point?.latitude ?? null, longitude: point?.longitude ?? null }),
+      })
+      .where(eq(services.id, serviceId))
       .returning();
-    return updatedService;
+    return service;
   }
 
-  async deleteService(id: number): Promise<void> {
-    await db.delete(services).where(eq(services.id, id));
+  // Rewrites the location labels of services after areas they cover were renamed or moved
+  private async syncCoverageLabels(tx: Transaction, serviceIds: number[]): Promise<void> {
+    for (const serviceId of serviceIds) {
+      const areaIds = (await tx
+        .select({ locationId: serviceCoverageAreas.locationId })
+        .from(serviceCoverageAreas)
+        .where(eq(serviceCoverageAreas.serviceId, serviceId))
+        .orderBy(serviceCoverageAreas.position)).map(row => row.locationId);
+      const byId = await this.getLocationsWithAncestors(tx, areaIds);
+      const areas = areaIds.map(id => byId.get(id)).filter((area): area is Location => area !== undefined);
+      await tx.update(services).set({ location: coverageLabel(areas, byId) }).where(eq(services.id, serviceId));
+    }
   }
 
-  async approveService(id: number): Promise<Service> {
-    const [approvedService] = await db
-      .update(services)
-      .set({ isApproved: true, updatedAt: new Date() })
-      .where(eq(services.id, id))
+  // The given locations and everything above them, by id
+  private async getLocationsWithAncestors(tx: Transaction, ids: number[]): Promise<Map<number, Location>> {
+    if (ids.length === 0) return new Map();
+    const rows = await tx
+      .select()
+      .from(locations)
+      .where(sql`EXISTS (
+        SELECT 1 FROM ${locations} area
+        WHERE area.id IN (${sql.join(ids.map(id => sql`${id}`), sql`, `)})
+          AND area.path LIKE ${locations.path} || '%'
+      )`);
+    return new Map(rows.map(location => [location.id, location]));
+  }
+
+  // One-off migration: services saved with a free-text location get the area it names
+  // as their coverage. Returns how many were assigned; the rest need manual review.
+  async assignLegacyServiceLocations(): Promise<number> {
+    const all = await this.getLocations();
+    const pending = await db
+      .select({ id: services.id, location: services.location })
+      .from(services)
+      .where(sql`${services.location} IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM ${serviceCoverageAreas} WHERE ${serviceCoverageAreas.serviceId} = ${services.id}
+      )`);
+
+    const assigned: number[] = [];
+    for (const { id, location } of pending) {
+      const area = resolveLocationText(location!, all);
+      if (!area) continue;
+      await db.transaction(tx => this.replaceCoverageAreas(tx, id, [area.id], {}));
+      assigned.push(id);
+    }
+    if (assigned.length > 0) {
+      await refreshSearchDocuments(inArray(services.id, assigned));
+      cacheManager.invalidatePattern('services');
+    }
+    return assigned.length;
+  }
+
+  async deleteService(id: number): Promise<ServiceDeletionResult> {
+    const result: ServiceDeletionResult = await db.transaction(async (tx) => {
+      // The lock keeps a booking or conversation from being created meanwhile
+      await this.lockService(tx, id);
+      const [booking] = await tx.select({ id: bookings.id }).from(bookings).where(eq(bookings.serviceId, id)).limit(1);
+      if (booking) {
+        return { ok: false, httpStatus: 409, message: "Service has bookings" };
+      }
+      const [conversation] = await tx.select({ id: conversations.id }).from(conversations).where(eq(conversations.serviceId, id)).limit(1);
+      if (conversation) {
+        return { ok: false, httpStatus: 409, message: "Service has conversations" };
+      }
+      await tx.delete(services).where(eq(services.id, id));
+      return { ok: true };
+    });
+    if (result.ok) {
+      // Drops the service from listings and the sitemap
+      cacheManager.invalidatePattern('services');
+    }
+    return result;
+  }
+
+  // firstApproval is set only for the call that made the service public
+  async approveService(id: number): Promise<{ service: Service; firstApproval: boolean }> {
+    const result = await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select({ isApproved: services.isApproved })
+        .from(services)
+        .where(eq(services.id, id))
+        .for('update');
+      const [service] = await tx
+        .update(services)
+        .set({ isApproved: true, updatedAt: new Date() })
+        .where(eq(services.id, id))
+        .returning();
+      return { service, firstApproval: !!service && !previous?.isApproved };
+    });
+    // Listings, and with them the sitemap, now include the service
+    cacheManager.invalidatePattern('services');
+    return result;
+  }
+
+  // Runs every other user's saved searches against a newly public service, records the
+  // new matches and queues the emails of the searches set to 'instant'. Searches that
+  // can't match on category or price are left out in SQL; the rest are checked in
+  // batches so each query stays well under Postgres's bind-parameter limit.
+  async recordSavedSearchMatches(service: Service): Promise<SavedSearch[]> {
+    const all = await this.getCategories();
+    const lineage = service.categoryId ? categoryLineage(service.categoryId, all).map(category => category.id) : [];
+    const categoryId = sql`(${savedSearches.filters}->>'categoryId')::int`;
+    const minPrice = sql`(${savedSearches.filters}->>'minPrice')::int`;
+    const maxPrice = sql`(${savedSearches.filters}->>'maxPrice')::int`;
+    const prefilter = and(
+      ne(savedSearches.userId, service.userId),
+      lineage.length > 0 ? sql`(${categoryId} IS NULL OR ${categoryId} IN ${lineage})` : sql`${categoryId} IS NULL`,
+      service.price === null ? undefined : sql`(${minPrice} IS NULL OR ${minPrice} <= ${service.price})`,
+      service.price === null ? undefined : sql`(${maxPrice} IS NULL OR ${maxPrice} >= ${service.price})`,
+    );
+
+    const matched: SavedSearch[] = [];
+    for (let afterId = 0; ;) {
+      const candidates = await db
+        .select()
+        .from(savedSearches)
+        .where(and(prefilter, gt(savedSearches.id, afterId)))
+        .orderBy(savedSearches.id)
+        .limit(SAVED_SEARCH_BATCH_SIZE);
+      if (candidates.length === 0) break;
+      matched.push(...await db.transaction(tx => this.recordSavedSearchBatch(tx, service, candidates, all)));
+      if (candidates.length < SAVED_SEARCH_BATCH_SIZE) break;
+      afterId = candidates[candidates.length - 1].id;
+    }
+    return matched;
+  }
+
+  private async recordSavedSearchBatch(
+    tx: Transaction,
+    service: Service,
+    candidates: SavedSearch[],
+    all: Category[],
+  ): Promise<SavedSearch[]> {
+    const { rows } = await tx.execute<{ id: number }>(sql.join(candidates.map(search => {
+      const conditions = this.buildServiceConditions(savedSearchServiceFilters(search.filters, all));
+      return sql`SELECT ${search.id}::int AS id WHERE EXISTS (
+        SELECT 1 FROM ${services} WHERE ${services.id} = ${service.id}${conditions ? sql` AND ${conditions}` : sql``}
+      )`;
+    }), sql` UNION ALL `));
+    if (rows.length === 0) return [];
+
+    const recorded = await tx
+      .insert(savedSearchMatches)
+      .values(rows.map(row => ({ savedSearchId: row.id, serviceId: service.id })))
+      .onConflictDoNothing()
       .returning();
-    return approvedService;
+    const matched = candidates.filter(search => recorded.some(match => match.savedSearchId === search.id));
+
+    const instant = matched.filter(search => search.frequency === 'instant');
+    if (instant.length > 0) {
+      const recipients = await tx
+        .select({ id: users.id, email: users.email })
+        .from(users)
+        .where(and(inArray(users.id, instant.map(search => parseInt(search.userId))), eq(users.isActive, true)));
+      const messages: InsertEmailOutboxMessage[] = instant.flatMap(search => {
+        const recipient = recipients.find(user => user.id.toString() === search.userId);
+        return recipient ? [{ userId: search.userId, toEmail: recipient.email, ...instantAlertEmail(search, service) }] : [];
+      });
+      if (messages.length > 0) {
+        await tx.insert(emailOutbox).values(messages);
+      }
+      await tx
+        .update(savedSearchMatches)
+        .set({ emailedAt: new Date() })
+        .where(inArray(savedSearchMatches.id, recorded.filter(match => instant.some(search => search.id === match.savedSearchId)).map(match => match.id)));
+    }
+    return matched;
   }
 
   async featureService(id: number, featured: boolean): Promise<Service> {
@@ -339,32 +1677,606 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(messages).where(eq(messages.serviceId, serviceId)).orderBy(desc(messages.createdAt));
   }
 
+  async getMessageById(id: number): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  // Messages sent to any of the provider's services, newest first
+  async getInboxMessages(providerId: string, filters?: { serviceId?: number; archived?: boolean }): Promise<InboxMessage[]> {
+    const conditions = [
+      eq(services.userId, providerId),
+      eq(messages.isArchived, filters?.archived ?? false),
+    ];
+
+    if (filters?.serviceId) {
+      conditions.push(eq(messages.serviceId, filters.serviceId));
+    }
+
+    const rows = await db
+      .select({ message: messages, serviceTitle: services.title })
+      .from(messages)
+      .innerJoin(services, eq(messages.serviceId, services.id))
+      .where(and(...conditions))
+      .orderBy(desc(messages.createdAt));
+
+    return rows.map(({ message, serviceTitle }) => ({ ...message, serviceTitle }));
+  }
+
+  async countUnreadMessages(providerId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(messages)
+      .innerJoin(services, eq(messages.serviceId, services.id))
+      .where(and(eq(services.userId, providerId), eq(messages.isRead, false), eq(messages.isArchived, false)));
+    return result?.count || 0;
+  }
+
   async createMessage(message: InsertMessage): Promise<Message> {
     const [newMessage] = await db.insert(messages).values(message).returning();
     return newMessage;
   }
 
+  async updateMessage(id: number, message: Partial<Pick<Message, 'isRead' | 'isArchived' | 'reply' | 'repliedAt'>>): Promise<Message> {
+    const [updatedMessage] = await db
+      .update(messages)
+      .set(message)
+      .where(eq(messages.id, id))
+      .returning();
+    return updatedMessage;
+  }
+
   // Reviews
-  async getReviewsByServiceId(serviceId: number): Promise<Review[]> {
-    return await db.select().from(reviews).where(and(eq(reviews.serviceId, serviceId), eq(reviews.isApproved, true), eq(reviews.isActive, true))).orderBy(desc(reviews.createdAt));
+  async getReviewsByServiceId(serviceId: number, sort: ReviewSort = 'recent'): Promise<PublicReview[]> {
+    const helpfulCount = sql<number>`(SELECT count(*)::int FROM ${reviewVotes} WHERE ${reviewVotes.reviewId} = ${reviews.id})`;
+    const rows = await db
+      .select({ review: reviews, helpfulCount })
+      .from(reviews)
+      .where(and(eq(reviews.serviceId, serviceId), eq(reviews.isApproved, true), eq(reviews.isActive, true)))
+      .orderBy(...(sort === 'helpful' ? [sql`${helpfulCount} DESC`, desc(reviews.createdAt)] : [desc(reviews.createdAt)]));
+    if (rows.length === 0) return [];
+
+    const replies = await db
+      .select({
+        reply: reviewReplies,
+        authorName: sql<string>`coalesce(${users.fullName}, ${users.username})`,
+        isProvider: sql<boolean>`${reviewReplies.authorId} = ${services.userId}`,
+      })
+      .from(reviewReplies)
+      .innerJoin(reviews, eq(reviewReplies.reviewId, reviews.id))
+      .innerJoin(services, eq(reviews.serviceId, services.id))
+      .innerJoin(users, sql`${users.id}::text = ${reviewReplies.authorId}`)
+      .where(inArray(reviewReplies.reviewId, rows.map(({ review }) => review.id)))
+      .orderBy(reviewReplies.id);
+
+    const repliesByReview = new Map<number, ReviewReplyWithAuthor[]>();
+    replies.forEach(({ reply, ...author }) => {
+      const thread = repliesByReview.get(reply.reviewId) || [];
+      thread.push({ ...reply, ...author });
+      repliesByReview.set(reply.reviewId, thread);
+    });
+
+    return rows.map(({ review, helpfulCount }) => ({
+      ...review,
+      helpfulCount,
+      replies: repliesByReview.get(review.id) || [],
+    }));
+  }
+
+  async getReviewById(id: number): Promise<Review | undefined> {
+    const [review] = await db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+
+  async getReviewByServiceAndUser(serviceId: number, userId: string): Promise<Review | undefined> {
+    const [review] = await db
+      .select()
+      .from(reviews)
+      .where(and(eq(reviews.serviceId, serviceId), eq(reviews.userId, userId)));
+    return review;
+  }
+
+  // Strongest proof that the user was a customer of the service, or null if there is none
+  async getReviewVerification(serviceId: number, userId: string): Promise<ReviewVerificationSource | null> {
+    const [completedBooking] = await db
+      .select({ id: bookings.id })
+      .from(bookings)
+      .where(and(eq(bookings.serviceId, serviceId), eq(bookings.customerId, userId), eq(bookings.status, 'completed')))
+      .limit(1);
+    if (completedBooking) return 'booking';
+
+    const [payment] = await db
+      .select({ id: payments.id })
+      .from(payments)
+      .where(and(eq(payments.serviceId, serviceId), eq(payments.userId, userId), eq(payments.status, 'succeeded')))
+      .limit(1);
+    if (payment) return 'payment';
+
+    // A contact-form message or a chat conversation opened as the customer
+    const [contact] = await db
+      .select({ id: messages.id })
+      .from(messages)
+      .where(and(eq(messages.serviceId, serviceId), eq(messages.senderUserId, userId)))
+      .limit(1);
+    if (contact) return 'contact';
+
+    const [conversation] = await db
+      .select({ id: conversations.id })
+      .from(conversations)
+      .innerJoin(conversationParticipants, eq(conversationParticipants.conversationId, conversations.id))
+      .where(and(
+        eq(conversations.serviceId, serviceId),
+        eq(conversationParticipants.userId, userId),
+        eq(conversationParticipants.role, 'customer')
+      ))
+      .limit(1);
+    return conversation ? 'contact' : null;
   }
 
   async createReview(review: InsertReview): Promise<Review> {
-    const [newReview] = await db.insert(reviews).values(review).returning();
+    const newReview = await db.transaction(async (tx) => {
+      await this.lockService(tx, review.serviceId);
+      const [created] = await tx.insert(reviews).values(review).returning();
+      await this.recomputeServiceRating(tx, review.serviceId);
+      return created;
+    });
+    cacheManager.invalidatePattern('services');
+    cacheManager.invalidatePattern('stats');
     return newReview;
   }
 
-  async approveReview(id: number): Promise<Review> {
-    const [approvedReview] = await db
+  async deleteReview(id: number): Promise<void> {
+    const [existing] = await db.select({ serviceId: reviews.serviceId }).from(reviews).where(eq(reviews.id, id));
+    if (!existing) return;
+
+    await db.transaction(async (tx) => {
+      await this.lockService(tx, existing.serviceId);
+      await tx.delete(reviews).where(eq(reviews.id, id));
+      await this.recomputeServiceRating(tx, existing.serviceId);
+    });
+    cacheManager.invalidatePattern('services');
+    cacheManager.invalidatePattern('stats');
+  }
+
+  async getReviewQueue(filter: ReviewQueueFilter): Promise<ReviewQueueItem[]> {
+    const openReports = this.openReportsCondition();
+    const reportCount = sql<number>`(SELECT count(*)::int FROM ${reviewReports} WHERE ${openReports})`;
+    const isRejected = and(eq(reviews.isApproved, false), sql`${reviews.moderatedAt} IS NOT NULL`);
+
+    let condition: SQL | undefined;
+    let order: SQL[];
+    switch (filter) {
+      case 'pending':
+        condition = and(eq(reviews.isApproved, false), sql`${reviews.moderatedAt} IS NULL`);
+        order = [sql`${reviews.createdAt} ASC`];
+        break;
+      case 'reported':
+        condition = sql`${reportCount} > 0`;
+        order = [sql`${reportCount} DESC`, desc(reviews.createdAt)];
+        break;
+      case 'low_rating':
+        condition = and(lte(reviews.rating, LOW_RATING_THRESHOLD), eq(reviews.isActive, true), sql`NOT (${isRejected})`);
+        order = [desc(reviews.createdAt)];
+        break;
+    }
+
+    const rows = await db
+      .select({
+        review: reviews,
+        serviceTitle: services.title,
+        reviewerName: sql<string>`coalesce(${users.fullName}, ${users.username})`,
+        reportCount,
+        lastReportReason: sql<string | null>`(SELECT ${reviewReports.reason} FROM ${reviewReports} WHERE ${openReports} ORDER BY ${reviewReports.createdAt} DESC LIMIT 1)`,
+      })
+      .from(reviews)
+      .innerJoin(services, eq(reviews.serviceId, services.id))
+      .innerJoin(users, sql`${users.id}::text = ${reviews.userId}`)
+      .where(condition)
+      .orderBy(...order)
+      .limit(200);
+
+    return rows.map(({ review, ...details }) => ({ ...review, ...details }));
+  }
+
+  // Approves or rejects a batch of reviews in one transaction, recomputing the rating of
+  // every service touched. Ids that don't exist are skipped.
+  async moderateReviews(ids: number[], decision: ReviewDecision): Promise<Review[]> {
+    if (ids.length === 0) return [];
+
+    const existing = await db.select({ serviceId: reviews.serviceId }).from(reviews).where(inArray(reviews.id, ids));
+    // Locking in id order keeps two overlapping batches from deadlocking
+    const serviceIds = Array.from(new Set(existing.map(review => review.serviceId))).sort((a, b) => a - b);
+    if (serviceIds.length === 0) return [];
+
+    const moderated = await db.transaction(async (tx) => {
+      for (const serviceId of serviceIds) {
+        await this.lockService(tx, serviceId);
+      }
+      const updated = await tx
+        .update(reviews)
+        .set({
+          isApproved: decision.approved,
+          // Approving also brings back a review that was hidden by reports
+          ...(decision.approved ? { isActive: true } : {}),
+          rejectionReason: decision.approved ? null : decision.reason ?? null,
+          moderatedBy: decision.moderatorId,
+          moderatedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(inArray(reviews.id, ids))
+        .returning();
+      for (const serviceId of serviceIds) {
+        await this.recomputeServiceRating(tx, serviceId);
+      }
+      return updated;
+    });
+    cacheManager.invalidatePattern('services');
+    cacheManager.invalidatePattern('stats');
+    return moderated;
+  }
+
+  async updateReviewResponse(id: number, adminResponse: string | null): Promise<Review | undefined> {
+    const [review] = await db
       .update(reviews)
-      .set({ isApproved: true, updatedAt: new Date() })
+      .set({ adminResponse, updatedAt: new Date() })
       .where(eq(reviews.id, id))
       .returning();
-    return approvedReview;
+    return review;
   }
 
-  async deleteReview(id: number): Promise<void> {
-    await db.delete(reviews).where(eq(reviews.id, id));
+  // Returns undefined when the user already reported this review. Once a review's open
+  // reports reach hideThreshold it is hidden (isActive false) until an admin approves it again.
+  async reportReview(
+    reviewId: number,
+    reporterId: string,
+    reason: string,
+    hideThreshold: number
+  ): Promise<{ report: ReviewReport; hidden: boolean } | undefined> {
+    const [existing] = await db.select({ serviceId: reviews.serviceId }).from(reviews).where(eq(reviews.id, reviewId));
+    if (!existing) return undefined;
+
+    const result = await db.transaction(async (tx) => {
+      await this.lockService(tx, existing.serviceId);
+      const [report] = await tx
+        .insert(reviewReports)
+        .values({ reviewId, reporterId, reason })
+        .onConflictDoNothing()
+        .returning();
+      if (!report) return undefined;
+
+      const hidden = await tx
+        .update(reviews)
+        .set({ isActive: false, updatedAt: new Date() })
+        .where(and(
+          eq(reviews.id, reviewId),
+          eq(reviews.isActive, true),
+          sql`(SELECT count(*) FROM ${reviewReports} WHERE ${this.openReportsCondition()}) >= ${hideThreshold}`
+        ))
+        .returning({ id: reviews.id });
+      if (hidden.length > 0) {
+        await this.recomputeServiceRating(tx, existing.serviceId);
+      }
+      return { report, hidden: hidden.length > 0 };
+    });
+
+    if (result?.hidden) {
+      cacheManager.invalidatePattern('services');
+      cacheManager.invalidatePattern('stats');
+    }
+    return result;
+  }
+
+  async createReviewReply(reviewId: number, authorId: string, body: string): Promise<ReviewReply> {
+    const [reply] = await db.insert(reviewReplies).values({ reviewId, authorId, body }).returning();
+    return reply;
+  }
+
+  // Both return false when there was nothing to change (already voted / never voted)
+  async addReviewVote(reviewId: number, userId: string): Promise<boolean> {
+    const inserted = await db
+      .insert(reviewVotes)
+      .values({ reviewId, userId })
+      .onConflictDoNothing()
+      .returning({ id: reviewVotes.id });
+    return inserted.length > 0;
+  }
+
+  async removeReviewVote(reviewId: number, userId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(reviewVotes)
+      .where(and(eq(reviewVotes.reviewId, reviewId), eq(reviewVotes.userId, userId)))
+      .returning({ id: reviewVotes.id });
+    return deleted.length > 0;
+  }
+
+  // Reports filed after the last moderation decision are still open
+  private openReportsCondition(): SQL {
+    return sql`${reviewReports.reviewId} = ${reviews.id} AND ${reviewReports.createdAt} > coalesce(${reviews.moderatedAt}, '-infinity'::timestamp)`;
+  }
+
+  // One-off backfill for services whose aggregates predate the maintenance above
+  async recomputeAllServiceRatings(): Promise<number> {
+    const updated = await db
+      .update(services)
+      .set(this.ratingAggregates())
+      .returning({ id: services.id });
+    cacheManager.invalidatePattern('services');
+    cacheManager.invalidatePattern('stats');
+    return updated.length;
+  }
+
+  // Favorites
+  async getFavorites(userId: string): Promise<UserFavorites> {
+    const [lists, saved] = await Promise.all([
+      db.select().from(favoriteLists).where(eq(favoriteLists.userId, userId)).orderBy(favoriteLists.name),
+      db.select().from(favorites).where(eq(favorites.userId, userId)).orderBy(desc(favorites.createdAt)),
+    ]);
+
+    const serviceIds = saved.flatMap(favorite => favorite.serviceId ?? []);
+    const savedServices = serviceIds.length > 0
+      ? await this.selectServiceListItems().where(and(inArray(services.id, serviceIds), eq(services.isApproved, true)))
+      : [];
+    const savedProviders = await Promise.all(
+      saved.flatMap(favorite => favorite.providerId ?? []).map(providerId => this.getPublicProvider(providerId))
+    );
+
+    return {
+      lists,
+      services: saved.flatMap(favorite => {
+        const service = savedServices.find(item => item.id === favorite.serviceId);
+        return service ? [{ favorite, service }] : [];
+      }),
+      providers: saved.flatMap(favorite => {
+        const provider = savedProviders.find(item => item?.id.toString() === favorite.providerId);
+        return provider ? [{ favorite, provider }] : [];
+      }),
+    };
+  }
+
+  // Saving again only moves the favorite to the given list
+  async addFavorite(userId: string, target: FavoriteTarget, listId: number | null): Promise<Favorite> {
+    const [favorite] = await db
+      .insert(favorites)
+      .values({ userId, ...target, listId })
+      .onConflictDoUpdate({
+        target: 'serviceId' in target ? [favorites.userId, favorites.serviceId] : [favorites.userId, favorites.providerId],
+        set: { listId },
+      })
+      .returning();
+    return favorite;
+  }
+
+  async removeFavorite(userId: string, target: FavoriteTarget): Promise<boolean> {
+    const removed = await db
+      .delete(favorites)
+      .where(and(
+        eq(favorites.userId, userId),
+        'serviceId' in target ? eq(favorites.serviceId, target.serviceId) : eq(favorites.providerId, target.providerId)
+      ))
+      .returning({ id: favorites.id });
+    return removed.length > 0;
+  }
+
+  async moveFavorite(userId: string, id: number, listId: number | null): Promise<Favorite | undefined> {
+    const [favorite] = await db
+      .update(favorites)
+      .set({ listId })
+      .where(and(eq(favorites.id, id), eq(favorites.userId, userId)))
+      .returning();
+    return favorite;
+  }
+
+  async getFavoriteList(userId: string, id: number): Promise<FavoriteList | undefined> {
+    const [list] = await db
+      .select()
+      .from(favoriteLists)
+      .where(and(eq(favoriteLists.id, id), eq(favoriteLists.userId, userId)));
+    return list;
+  }
+
+  async createFavoriteList(userId: string, name: string): Promise<FavoriteList> {
+    const [list] = await db.insert(favoriteLists).values({ userId, name }).returning();
+    return list;
+  }
+
+  async renameFavoriteList(userId: string, id: number, name: string): Promise<FavoriteList | undefined> {
+    const [list] = await db
+      .update(favoriteLists)
+      .set({ name })
+      .where(and(eq(favoriteLists.id, id), eq(favoriteLists.userId, userId)))
+      .returning();
+    return list;
+  }
+
+  // The list's favorites stay saved, outside any list
+  async deleteFavoriteList(userId: string, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(favoriteLists)
+      .where(and(eq(favoriteLists.id, id), eq(favoriteLists.userId, userId)))
+      .returning({ id: favoriteLists.id });
+    return deleted.length > 0;
+  }
+
+  async getServiceFavoriters(serviceId: number): Promise<string[]> {
+    const rows = await db
+      .select({ userId: favorites.userId })
+      .from(favorites)
+      .where(eq(favorites.serviceId, serviceId));
+    return rows.map(row => row.userId);
+  }
+
+  // Saved searches
+  async getSavedSearches(userId: string): Promise<SavedSearch[]> {
+    return await db
+      .select()
+      .from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(desc(savedSearches.createdAt));
+  }
+
+  async createSavedSearch(userId: string, search: InsertSavedSearch): Promise<SavedSearch> {
+    const [created] = await db.insert(savedSearches).values({ ...search, userId }).returning();
+    return created;
+  }
+
+  async updateSavedSearch(
+    userId: string,
+    id: number,
+    changes: Partial<Pick<SavedSearch, 'name' | 'frequency'>>,
+  ): Promise<SavedSearch | undefined> {
+    const [updated] = await db
+      .update(savedSearches)
+      .set(changes)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteSavedSearch(userId: string, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(savedSearches)
+      .where(and(eq(savedSearches.id, id), eq(savedSearches.userId, userId)))
+      .returning({ id: savedSearches.id });
+    return deleted.length > 0;
+  }
+
+  // One digest per user with the unsent matches of their daily (or weekly) searches,
+  // for the searches whose period has passed since their last digest. Rows another
+  // run has locked are skipped, so overlapping runs don't send twice.
+  async queueSavedSearchDigests(frequency: DigestFrequency, now: Date = new Date()): Promise<number> {
+    const dueBefore = new Date(now.getTime() - DIGEST_PERIOD_MS[frequency]);
+
+    return await db.transaction(async (tx) => {
+      const rows = await tx
+        .select({ matchId: savedSearchMatches.id, search: savedSearches, service: services, email: users.email })
+        .from(savedSearchMatches)
+        .innerJoin(savedSearches, eq(savedSearches.id, savedSearchMatches.savedSearchId))
+        .innerJoin(services, eq(services.id, savedSearchMatches.serviceId))
+        .innerJoin(users, sql`${users.id}::text = ${savedSearches.userId}`)
+        .where(and(
+          eq(savedSearches.frequency, frequency),
+          isNull(savedSearchMatches.emailedAt),
+          sql`coalesce(${savedSearches.lastDigestAt}, ${savedSearches.createdAt}) <= ${dueBefore}`,
+          eq(services.isApproved, true),
+          eq(users.isActive, true),
+        ))
+        .orderBy(savedSearches.id, savedSearchMatches.id)
+        .for('update', { of: savedSearchMatches, skipLocked: true });
+      if (rows.length === 0) return 0;
+
+      const byUser = new Map<string, { email: string; matches: Map<number, { search: SavedSearch; services: Service[] }> }>();
+      for (const row of rows) {
+        const digest = byUser.get(row.search.userId) ?? { email: row.email, matches: new Map() };
+        const match = digest.matches.get(row.search.id) ?? { search: row.search, services: [] };
+        match.services.push(row.service);
+        digest.matches.set(row.search.id, match);
+        byUser.set(row.search.userId, digest);
+      }
+
+      await tx.insert(emailOutbox).values(Array.from(byUser, ([userId, digest]) => ({
+        userId,
+        toEmail: digest.email,
+        ...digestEmail(frequency, Array.from(digest.matches.values())),
+      })));
+      await tx
+        .update(savedSearchMatches)
+        .set({ emailedAt: now })
+        .where(inArray(savedSearchMatches.id, rows.map(row => row.matchId)));
+      await tx
+        .update(savedSearches)
+        .set({ lastDigestAt: now })
+        .where(inArray(savedSearches.id, Array.from(new Set(rows.map(row => row.search.id)))));
+      return byUser.size;
+    });
+  }
+
+  async getSitemapData(): Promise<SitemapData> {
+    const [categoryRows, serviceRows, providerRows] = await Promise.all([
+      db
+        .select({ id: categories.id, slug: categories.slug, updatedAt: categories.updatedAt })
+        .from(categories)
+        .where(eq(categories.isActive, true))
+        .orderBy(categories.name),
+      db
+        .select({ id: services.id, slug: services.slug, updatedAt: services.updatedAt })
+        .from(services)
+        .where(eq(services.isApproved, true))
+        .orderBy(desc(services.updatedAt)),
+      // Providers with something to show: at least one approved service
+      db
+        .select({
+          id: services.userId,
+          slug: providerProfiles.slug,
+          updatedAt: sql<Date | null>`max(${services.updatedAt})`.mapWith((value) => value ? new Date(value) : null),
+        })
+        .from(services)
+        .leftJoin(providerProfiles, eq(providerProfiles.userId, services.userId))
+        .where(eq(services.isApproved, true))
+        .groupBy(services.userId, providerProfiles.slug),
+    ]);
+    return { categories: categoryRows, services: serviceRows, providers: providerRows };
+  }
+
+  // One-off backfill for rows created before slugs existed; oldest first so they
+  // get the unsuffixed slugs
+  async assignMissingSlugs(): Promise<number> {
+    let assigned = 0;
+    for (const category of await db.select().from(categories).where(sql`${categories.slug} IS NULL`).orderBy(categories.id)) {
+      const slug = await this.availableSlug(categories, category.name, 'categoria');
+      await db.update(categories).set({ slug }).where(eq(categories.id, category.id));
+      assigned++;
+    }
+    for (const service of await db.select().from(services).where(sql`${services.slug} IS NULL`).orderBy(services.id)) {
+      const slug = await this.availableSlug(services, service.title, 'servicio');
+      await db.update(services).set({ slug }).where(eq(services.id, service.id));
+      assigned++;
+    }
+    const profiles = await db
+      .select({ userId: providerProfiles.userId, displayName: providerProfiles.displayName, username: users.username })
+      .from(providerProfiles)
+      .leftJoin(users, eq(sql`${users.id}::text`, providerProfiles.userId))
+      .where(sql`${providerProfiles.slug} IS NULL`)
+      .orderBy(providerProfiles.id);
+    for (const profile of profiles) {
+      const slug = await this.availableSlug(providerProfiles, profile.displayName || profile.username || '', `proveedor-${profile.userId}`);
+      await db.update(providerProfiles).set({ slug }).where(eq(providerProfiles.userId, profile.userId));
+      assigned++;
+    }
+    cacheManager.invalidatePattern('services');
+    return assigned;
+  }
+
+  // Slugs are unique per table; clashes get -2, -3...
+  private async availableSlug(
+    table: typeof categories | typeof services | typeof providerProfiles,
+    text: string,
+    fallback: string,
+  ): Promise<string> {
+    const base = slugify(text) || fallback;
+    const taken = await db
+      .select({ slug: table.slug })
+      .from(table)
+      .where(sql`${table.slug} = ${base} OR ${table.slug} LIKE ${`${base}-%`}`);
+    return nextFreeSlug(base, taken.map(row => row.slug).filter((slug): slug is string => slug !== null));
+  }
+
+  // Review changes lock their service row first, so concurrent changes to the same
+  // service recompute one after the other and the last one sees every committed review
+  private async lockService(tx: Transaction, serviceId: number): Promise<void> {
+    await tx.select({ id: services.id }).from(services).where(eq(services.id, serviceId)).for('update');
+  }
+
+  private async recomputeServiceRating(tx: Transaction, serviceId: number): Promise<void> {
+    await tx.update(services).set(this.ratingAggregates()).where(eq(services.id, serviceId));
+  }
+
+  // Only approved, active reviews count; rating is NULL while there are none
+  private ratingAggregates() {
+    const counted = sql`${reviews.serviceId} = ${services.id} AND ${reviews.isApproved} = true AND ${reviews.isActive} = true`;
+    return {
+      rating: sql`(SELECT round(avg(${reviews.rating}), 2) FROM ${reviews} WHERE ${counted})`,
+      reviewCount: sql`(SELECT count(*)::int FROM ${reviews} WHERE ${counted})`,
+    };
   }
 
   // Advertisements
@@ -494,6 +2406,377 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return updatedTicket;
   }
+
+  // Payments
+  async getPayments(filters?: { status?: Payment['status']; paymentMethod?: Payment['paymentMethod'] }): Promise<Payment[]> {
+    const conditions = [];
+
+    if (filters?.status) {
+      conditions.push(eq(payments.status, filters.status));
+    }
+
+    if (filters?.paymentMethod) {
+      conditions.push(eq(payments.paymentMethod, filters.paymentMethod));
+    }
+
+    return await db.select().from(payments)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(payments.createdAt));
+  }
+
+  async getPaymentById(id: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment;
+  }
+
+  async getPaymentsByUserId(userId: string): Promise<Payment[]> {
+    return await db.select().from(payments).where(eq(payments.userId, userId)).orderBy(desc(payments.createdAt));
+  }
+
+  async createPaymentRecord(payment: InsertPayment): Promise<Payment> {
+    const [newPayment] = await db
+      .insert(payments)
+      .values({
+        ...payment,
+        statusHistory: [{ status: payment.status || 'pending', at: new Date().toISOString() }],
+      })
+      .returning();
+    return newPayment;
+  }
+
+  async updatePaymentStatus(id: string, status: Payment['status'], details?: Record<string, any>): Promise<Payment | undefined> {
+    // Append to the jsonb history so every gateway transition stays auditable
+    const change = JSON.stringify([{ status, at: new Date().toISOString(), details }]);
+    const [updatedPayment] = await db
+      .update(payments)
+      .set({
+        status,
+        statusHistory: sql`${payments.statusHistory} || ${change}::jsonb`,
+        updatedAt: new Date(),
+      })
+      .where(eq(payments.id, id))
+      .returning();
+    return updatedPayment;
+  }
+
+  // Invoices
+  async getInvoiceResolutions(): Promise<InvoiceResolution[]> {
+    return await db.select().from(invoiceResolutions).orderBy(desc(invoiceResolutions.validFrom));
+  }
+
+  async getInvoiceResolutionById(id: number): Promise<InvoiceResolution | undefined> {
+    const [resolution] = await db.select().from(invoiceResolutions).where(eq(invoiceResolutions.id, id));
+    return resolution;
+  }
+
+  async createInvoiceResolution(resolution: Omit<InsertInvoiceResolution, 'currentNumber'>): Promise<InvoiceResolution> {
+    const [newResolution] = await db
+      .insert(invoiceResolutions)
+      .values({ ...resolution, currentNumber: resolution.rangeFrom - 1 })
+      .returning();
+    return newResolution;
+  }
+
+  async getInvoices(filters?: { providerId?: string }): Promise<Invoice[]> {
+    return await db.select().from(invoices)
+      .where(filters?.providerId ? eq(invoices.providerId, filters.providerId) : undefined)
+      .orderBy(desc(invoices.issuedAt));
+  }
+
+  async getInvoiceById(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async getInvoiceByPaymentId(paymentId: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.paymentId, paymentId));
+    return invoice;
+  }
+
+  // Undefined when no DIAN resolution has consecutives left
+  async saveInvoice(invoice: Omit<InsertInvoice, 'number' | 'sequence' | 'resolutionId' | 'cufe' | 'issuedAt'>): Promise<Invoice | undefined> {
+    // Numbering must be gapless within the DIAN range, so the resolution row is
+    // locked while the next consecutive is taken and the invoice is inserted.
+    // The lock also serializes invoicing, so a payment invoiced meanwhile is
+    // returned as is instead of taking a second number.
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [resolution] = await tx.select().from(invoiceResolutions)
+        .where(and(
+          eq(invoiceResolutions.isActive, true),
+          lte(invoiceResolutions.validFrom, now),
+          gte(invoiceResolutions.validTo, now),
+          lt(invoiceResolutions.currentNumber, invoiceResolutions.rangeTo)
+        ))
+        .orderBy(invoiceResolutions.validFrom)
+        .limit(1)
+        .for('update');
+
+      if (!resolution) return undefined;
+
+      if (invoice.paymentId) {
+        const [existing] = await tx.select().from(invoices).where(eq(invoices.paymentId, invoice.paymentId));
+        if (existing) return existing;
+      }
+
+      const sequence = resolution.currentNumber + 1;
+      await tx
+        .update(invoiceResolutions)
+        .set({ currentNumber: sequence, updatedAt: now })
+        .where(eq(invoiceResolutions.id, resolution.id));
+
+      const number = `${resolution.prefix}${sequence}`;
+      const cufe = computeCufe({ ...invoice, number, issuedAt: now }, resolution.technicalKey);
+
+      const [newInvoice] = await tx
+        .insert(invoices)
+        .values({ ...invoice, number, sequence, resolutionId: resolution.id, cufe, issuedAt: now })
+        .returning();
+      return newInvoice;
+    });
+  }
+
+  // Bookings
+  async getBookingById(id: number): Promise<Booking | undefined> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
+    return booking;
+  }
+
+  async getBookings(filters: { customerId?: string; providerId?: string; status?: BookingStatus }): Promise<BookingWithDetails[]> {
+    const customer = alias(users, 'customer');
+    const provider = alias(users, 'provider');
+    const conditions = [];
+
+    if (filters.customerId) {
+      conditions.push(eq(bookings.customerId, filters.customerId));
+    }
+
+    if (filters.providerId) {
+      conditions.push(eq(bookings.providerId, filters.providerId));
+    }
+
+    if (filters.status) {
+      conditions.push(eq(bookings.status, filters.status));
+    }
+
+    const rows = await db
+      .select({
+        booking: bookings,
+        serviceTitle: services.title,
+        customerName: sql<string>`coalesce(${customer.fullName}, ${customer.username})`,
+        providerName: sql<string>`coalesce(${provider.fullName}, ${provider.username})`,
+      })
+      .from(bookings)
+      .innerJoin(services, eq(bookings.serviceId, services.id))
+      .innerJoin(customer, sql`${customer.id}::text = ${bookings.customerId}`)
+      .innerJoin(provider, sql`${provider.id}::text = ${bookings.providerId}`)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(bookings.startsAt));
+
+    return rows.map(({ booking, ...details }) => ({ ...booking, ...details }));
+  }
+
+  async createBooking(booking: InsertBooking): Promise<Booking> {
+    const [newBooking] = await db
+      .insert(bookings)
+      .values({
+        ...booking,
+        status: 'requested',
+        statusHistory: [{ status: 'requested', action: 'request', by: booking.customerId, at: new Date().toISOString() }],
+      })
+      .returning();
+    return newBooking;
+  }
+
+  async updateBookingStatus(id: number, expectedStatus: BookingStatus, change: BookingStatusChange): Promise<Booking | undefined> {
+    // Guarded by the expected status so two concurrent transitions can't both win
+    const [updatedBooking] = await db
+      .update(bookings)
+      .set({
+        status: change.status,
+        statusReason: change.reason ?? null,
+        ...(change.startsAt && change.endsAt
+          ? { startsAt: new Date(change.startsAt), endsAt: new Date(change.endsAt) }
+          : {}),
+        statusHistory: sql`${bookings.statusHistory} || ${JSON.stringify([change])}::jsonb`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(bookings.id, id), eq(bookings.status, expectedStatus)))
+      .returning();
+    return updatedBooking;
+  }
+
+  async hasBookingConflict(providerId: string, startsAt: Date, endsAt: Date, excludeId?: number): Promise<boolean> {
+    const conditions = [
+      eq(bookings.providerId, providerId),
+      eq(bookings.status, 'confirmed'),
+      lt(bookings.startsAt, endsAt),
+      gt(bookings.endsAt, startsAt),
+    ];
+
+    if (excludeId) {
+      conditions.push(ne(bookings.id, excludeId));
+    }
+
+    const [conflict] = await db.select({ id: bookings.id }).from(bookings).where(and(...conditions)).limit(1);
+    return !!conflict;
+  }
+
+  async getConfirmedBookingsBetween(providerId: string, from: Date, to: Date): Promise<Booking[]> {
+    return await db.select().from(bookings)
+      .where(and(
+        eq(bookings.providerId, providerId),
+        eq(bookings.status, 'confirmed'),
+        lt(bookings.startsAt, to),
+        gt(bookings.endsAt, from)
+      ))
+      .orderBy(bookings.startsAt);
+  }
+
+  // Chat
+  async getConversationById(id: number): Promise<Conversation | undefined> {
+    const [conversation] = await db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async findConversation(serviceId: number, customerId: string): Promise<Conversation | undefined> {
+    const [row] = await db
+      .select({ conversation: conversations })
+      .from(conversations)
+      .innerJoin(conversationParticipants, eq(conversationParticipants.conversationId, conversations.id))
+      .where(and(
+        eq(conversations.serviceId, serviceId),
+        eq(conversationParticipants.userId, customerId),
+        eq(conversationParticipants.role, 'customer')
+      ));
+    return row?.conversation;
+  }
+
+  async createConversation(serviceId: number, customerId: string, providerId: string): Promise<Conversation> {
+    return await db.transaction(async (tx) => {
+      const [conversation] = await tx.insert(conversations).values({ serviceId }).returning();
+      await tx.insert(conversationParticipants).values([
+        { conversationId: conversation.id, userId: customerId, role: 'customer' },
+        { conversationId: conversation.id, userId: providerId, role: 'provider' },
+      ]);
+      return conversation;
+    });
+  }
+
+  async getConversationParticipants(conversationId: number): Promise<ConversationParticipant[]> {
+    return await db.select().from(conversationParticipants).where(eq(conversationParticipants.conversationId, conversationId));
+  }
+
+  async getConversationsForUser(userId: string): Promise<ConversationSummary[]> {
+    const me = alias(conversationParticipants, 'me');
+    const other = alias(conversationParticipants, 'other');
+    const otherUser = alias(users, 'other_user');
+
+    const rows = await db
+      .select({
+        conversation: conversations,
+        serviceTitle: services.title,
+        role: me.role,
+        otherUserId: other.userId,
+        otherName: sql<string | null>`coalesce(${otherUser.fullName}, ${otherUser.username})`,
+        otherLastReadMessageId: other.lastReadMessageId,
+        unreadCount: sql<number>`(
+          SELECT count(*)::int FROM ${chatMessages}
+          WHERE ${chatMessages.conversationId} = ${conversations.id}
+            AND ${chatMessages.id} > ${me.lastReadMessageId}
+            AND ${chatMessages.senderId} <> ${me.userId}
+        )`,
+      })
+      .from(me)
+      .innerJoin(conversations, eq(me.conversationId, conversations.id))
+      .innerJoin(services, eq(conversations.serviceId, services.id))
+      .leftJoin(other, and(eq(other.conversationId, conversations.id), ne(other.userId, me.userId)))
+      .leftJoin(otherUser, sql`${otherUser.id}::text = ${other.userId}`)
+      .where(eq(me.userId, userId))
+      .orderBy(desc(conversations.lastMessageAt));
+
+    const conversationIds = rows.map(row => row.conversation.id);
+    const lastMessages = conversationIds.length > 0
+      ? await db
+        .selectDistinctOn([chatMessages.conversationId])
+        .from(chatMessages)
+        .where(inArray(chatMessages.conversationId, conversationIds))
+        .orderBy(chatMessages.conversationId, desc(chatMessages.id))
+      : [];
+
+    return rows.map(row => {
+      const lastMessage = lastMessages.find(message => message.conversationId === row.conversation.id);
+      return {
+        ...row.conversation,
+        serviceTitle: row.serviceTitle,
+        role: row.role,
+        otherParticipant: row.otherUserId
+          ? { userId: row.otherUserId, name: row.otherName || 'Usuario', lastReadMessageId: row.otherLastReadMessageId || 0 }
+          : null,
+        lastMessage: lastMessage
+          ? { id: lastMessage.id, senderId: lastMessage.senderId, body: lastMessage.body, createdAt: lastMessage.createdAt }
+          : null,
+        unreadCount: row.unreadCount,
+      };
+    });
+  }
+
+  // Oldest first; beforeId pages back through older history
+  async getChatMessages(conversationId: number, options?: { beforeId?: number; limit?: number }): Promise<ChatMessage[]> {
+    const conditions = [eq(chatMessages.conversationId, conversationId)];
+
+    if (options?.beforeId) {
+      conditions.push(lt(chatMessages.id, options.beforeId));
+    }
+
+    const latest = await db.select().from(chatMessages)
+      .where(and(...conditions))
+      .orderBy(desc(chatMessages.id))
+      .limit(options?.limit || 50);
+    return latest.reverse();
+  }
+
+  // Everything the user missed in any of their conversations, for reconnect sync
+  async getChatMessagesSince(userId: string, sinceId: number, limit: number = 500): Promise<ChatMessage[]> {
+    const rows = await db
+      .select({ message: chatMessages })
+      .from(chatMessages)
+      .innerJoin(conversationParticipants, eq(conversationParticipants.conversationId, chatMessages.conversationId))
+      .where(and(eq(conversationParticipants.userId, userId), gt(chatMessages.id, sinceId)))
+      .orderBy(chatMessages.id)
+      .limit(limit);
+    return rows.map(row => row.message);
+  }
+
+  async createChatMessage(conversationId: number, senderId: string, body: string): Promise<ChatMessage> {
+    return await db.transaction(async (tx) => {
+      const [message] = await tx.insert(chatMessages).values({ conversationId, senderId, body }).returning();
+      await tx
+        .update(conversations)
+        .set({ lastMessageAt: message.createdAt })
+        .where(eq(conversations.id, conversationId));
+      // Senders have obviously read everything up to their own message
+      await tx
+        .update(conversationParticipants)
+        .set({ lastReadMessageId: message.id })
+        .where(and(eq(conversationParticipants.conversationId, conversationId), eq(conversationParticipants.userId, senderId)));
+      return message;
+    });
+  }
+
+  async markConversationRead(conversationId: number, userId: string, messageId: number): Promise<ConversationParticipant | undefined> {
+    // Never moves backwards, and never past the newest message in the conversation
+    const [participant] = await db
+      .update(conversationParticipants)
+      .set({
+        lastReadMessageId: sql`greatest(${conversationParticipants.lastReadMessageId}, least(${messageId}::int, (
+          SELECT coalesce(max(${chatMessages.id}), 0) FROM ${chatMessages} WHERE ${chatMessages.conversationId} = ${conversationId}
+        )))`,
+      })
+      .where(and(eq(conversationParticipants.conversationId, conversationId), eq(conversationParticipants.userId, userId)))
+      .returning();
+    return participant;
+  }
 }
 
 export const storage = new DatabaseStorage();
\ No newline at end of file
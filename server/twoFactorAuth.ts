@@ -1,8 +1,12 @@
 
 import speakeasy from 'speakeasy';
 import QRCode from 'qrcode';
+import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import { storage } from './storage';
 
+const BACKUP_CODE_SALT_ROUNDS = 10;
+
 export interface TwoFactorSetup {
   secret: string;
   qrCodeUrl: string;
@@ -15,9 +19,12 @@ export const generate2FASecret = async (userId: string, email: string): Promise<
     issuer: 'ServiLocal',
   });
 
-  // Generar códigos de respaldo
-  const backupCodes = Array.from({ length: 8 }, () => 
-    Math.random().toString(36).substring(2, 8).toUpperCase()
+  // Generar códigos de respaldo (se muestran una sola vez; en BD solo quedan los hashes)
+  const backupCodes = Array.from({ length: 8 }, () =>
+    crypto.randomBytes(4).toString('hex').toUpperCase()
+  );
+  const hashedBackupCodes = await Promise.all(
+    backupCodes.map(code => bcrypt.hash(code, BACKUP_CODE_SALT_ROUNDS))
   );
 
   // Generar QR Code
@@ -26,7 +33,7 @@ export const generate2FASecret = async (userId: string, email: string): Promise<
   // Guardar temporalmente (no activar hasta verificación)
   await storage.saveTempTwoFactorSecret(userId, {
     secret: secret.base32,
-    backupCodes,
+    backupCodes: hashedBackupCodes,
     isActive: false,
   });
 
@@ -60,6 +67,11 @@ export const enable2FA = async (userId: string, token: string): Promise<boolean>
   return true;
 };
 
+export const isTwoFactorEnabled = async (userId: string): Promise<boolean> => {
+  const user2FA = await storage.getUserTwoFactor(userId);
+  return !!user2FA?.isActive;
+};
+
 export const validate2FALogin = async (userId: string, token: string): Promise<boolean> => {
   const user2FA = await storage.getUserTwoFactor(userId);
   if (!user2FA?.isActive) return true; // No tiene 2FA activado
@@ -69,11 +81,14 @@ export const validate2FALogin = async (userId: string, token: string): Promise<b
     return true;
   }
 
-  // Verificar códigos de respaldo
-  if (user2FA.backupCodes.includes(token.toUpperCase())) {
-    // Remover código usado
-    await storage.removeUsedBackupCode(userId, token.toUpperCase());
-    return true;
+  // Verificar códigos de respaldo contra los hashes almacenados
+  const candidate = token.trim().toUpperCase();
+  for (const codeHash of user2FA.backupCodes) {
+    if (await bcrypt.compare(candidate, codeHash)) {
+      // Remover código usado
+      await storage.removeUsedBackupCode(userId, codeHash);
+      return true;
+    }
   }
 
   return false;
@@ -4,9 +4,19 @@ import { Server } from 'http';
 import { verifyToken } from './auth';
 import { storage } from './storage';
 import { logSecurityEvent } from './monitoring';
+import { handleChatEvent } from './chat';
 
 export interface WSMessage {
-  type: 'notification' | 'service_update' | 'review_added' | 'admin_message';
+  type:
+    | 'notification'
+    | 'service_update'
+    | 'review_added'
+    | 'admin_message'
+    | 'booking_update'
+    | 'message_received'
+    | 'chat_message'
+    | 'chat_typing'
+    | 'chat_read';
   data: any;
   userId?: string;
   timestamp: string;
@@ -28,7 +38,9 @@ class WebSocketManager {
     console.log('✅ WebSocket server initialized');
   }
 
-  private async verifyClient(info: any): Promise<boolean> {
+  // Must stay synchronous: ws treats the one-argument form's return value as the
+  // verdict, and a returned Promise would always be truthy.
+  private verifyClient(info: any): boolean {
     try {
       const url = new URL(info.req.url, 'http://localhost');
       const token = url.searchParams.get('token');
@@ -36,7 +48,7 @@ class WebSocketManager {
       if (!token) return false;
       
       const decoded = verifyToken(token);
-      if (!decoded) return false;
+      if (!decoded || decoded.type === '2fa_challenge') return false;
 
       // Store user info for connection
       info.req.userId = decoded.userId.toString();
@@ -101,6 +113,18 @@ class WebSocketManager {
       case 'subscribe':
         // Handle subscription to specific channels
         break;
+      case 'chat_send':
+      case 'chat_typing':
+      case 'chat_read':
+        handleChatEvent(userId, message)
+          .then(reply => {
+            if (reply && ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(reply));
+          })
+          .catch(error => {
+            console.error('Chat event error:', error);
+            ws.send(JSON.stringify({ type: 'error', message: 'Chat event failed' }));
+          });
+        break;
       default:
         ws.send(JSON.stringify({ 
           type: 'error', 
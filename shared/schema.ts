@@ -5,10 +5,14 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   integer,
   boolean,
   numeric,
+  doublePrecision,
+  customType,
+  type AnyPgColumn,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -35,37 +39,334 @@ export const users = pgTable("users", {
   phone: text("phone"),
   role: text("role", { enum: ["user", "provider", "admin"] }).default("user").notNull(),
   isActive: boolean("is_active").default(true).notNull(),
+  isVerified: boolean("is_verified").default(false).notNull(), // approved provider application
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Requests from users to become providers. Documents are stored privately and
+// only admins can download them while reviewing.
+export const providerApplicationStatuses = ['pending', 'approved', 'rejected'] as const;
+export type ProviderApplicationStatus = typeof providerApplicationStatuses[number];
+export const providerDocumentKinds = ['identity', 'certificate', 'selfie'] as const;
+export type ProviderDocumentKind = typeof providerDocumentKinds[number];
+
+export interface ProviderApplicationDocument {
+  kind: ProviderDocumentKind;
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  storageKey: string;
+}
+
+export const providerApplications = pgTable("provider_applications", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  legalName: text("legal_name").notNull(),
+  documentType: varchar("document_type", { enum: ['cedula', 'nit'] }).notNull(),
+  documentNumber: varchar("document_number", { length: 20 }).notNull(),
+  tradeDescription: text("trade_description"),
+  documents: jsonb("documents").$type<ProviderApplicationDocument[]>().default([]).notNull(),
+  status: varchar("status", { enum: providerApplicationStatuses }).default('pending').notNull(),
+  reviewNotes: text("review_notes"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_provider_applications_user").on(table.userId),
+  index("IDX_provider_applications_status").on(table.status),
+]);
+
+// Public profile shown on /providers/:id. Email and phone come from the user
+// record and are only exposed when the provider opts in.
+export const providerSocialLinksSchema = z.object({
+  website: z.string().url().optional(),
+  facebook: z.string().url().optional(),
+  instagram: z.string().url().optional(),
+  whatsapp: z.string().regex(/^\+?\d{7,15}$/).optional(),
+});
+
+export type ProviderSocialLinks = z.infer<typeof providerSocialLinksSchema>;
+
+export const providerProfiles = pgTable("provider_profiles", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().unique().references(() => users.id),
+  slug: text("slug").unique(), // public URL, /providers/<slug>; set once from the display name
+  displayName: text("display_name"),
+  bio: text("bio"),
+  photoUrl: text("photo_url"),
+  // Set when the photo was uploaded here rather than linked, so it can be cleaned up
+  photoStorageKey: text("photo_storage_key"),
+  yearsOfExperience: integer("years_of_experience"),
+  serviceAreas: text("service_areas").array().default([]).notNull(),
+  socialLinks: jsonb("social_links").$type<ProviderSocialLinks>().default({}).notNull(),
+  showEmail: boolean("show_email").default(false).notNull(),
+  showPhone: boolean("show_phone").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Fields an admin defines on a category for providers to fill in on their services,
+// e.g. "Atiende a domicilio" or "Marcas de vehículos". Subcategories inherit the
+// fields of every category above them.
+export const categoryAttributeTypes = ['boolean', 'text', 'number', 'select', 'multiselect'] as const;
+export type CategoryAttributeType = typeof categoryAttributeTypes[number];
+
+export const categoryAttributeDefinitionSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]{0,39}$/, "Usa minúsculas, números y guiones bajos"),
+  label: z.string().trim().min(1).max(80),
+  type: z.enum(categoryAttributeTypes),
+  options: z.array(z.string().trim().min(1).max(60)).max(50).optional(), // select and multiselect
+  required: z.boolean().default(false),
+  filterable: z.boolean().default(false), // offered as a filter in the services listing
+}).refine(
+  (definition) => !['select', 'multiselect'].includes(definition.type) || (definition.options?.length ?? 0) > 0,
+  { message: "Las listas necesitan al menos una opción", path: ['options'] },
+);
+
+export const categoryAttributeDefinitionsSchema = z.array(categoryAttributeDefinitionSchema).max(30).refine(
+  (definitions) => new Set(definitions.map(definition => definition.key)).size === definitions.length,
+  { message: "Cada campo necesita una clave distinta" },
+);
+
+export type CategoryAttributeDefinition = z.infer<typeof categoryAttributeDefinitionSchema>;
+export type ServiceAttributeValue = boolean | number | string | string[];
+export type ServiceAttributes = Record<string, ServiceAttributeValue>;
+
 export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
+  parentId: integer("parent_id").references((): AnyPgColumn => categories.id),
   name: text("name").notNull().unique(),
+  slug: text("slug").unique(), // public URL, /categories/<slug>; kept when renamed so links stay valid
   description: text("description"),
   icon: text("icon"),
-  isActive: boolean("is_active").default(true),
+  attributeDefinitions: jsonb("attribute_definitions").$type<CategoryAttributeDefinition[]>().notNull().default([]),
+  isActive: boolean("is_active").default(true), // false once deleted; see categoryDeletions
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_categories_parent").on(table.parentId),
+]);
+
+// How long an admin can take back a category deletion
+export const CATEGORY_UNDO_WINDOW_MINUTES = 15;
+
+// Deleting a category deactivates it, moves its services to a replacement and its
+// subcategories up to its parent. The moved ids are kept so the deletion can be undone.
+export const categoryDeletions = pgTable("category_deletions", {
+  id: serial("id").primaryKey(),
+  categoryId: integer("category_id").notNull().references(() => categories.id),
+  replacementCategoryId: integer("replacement_category_id").references(() => categories.id),
+  movedServiceIds: jsonb("moved_service_ids").$type<number[]>().notNull().default([]),
+  movedSubcategoryIds: jsonb("moved_subcategory_ids").$type<number[]>().notNull().default([]),
+  deletedBy: varchar("deleted_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  undoneAt: timestamp("undone_at"),
+}, (table) => [
+  index("IDX_category_deletions_category").on(table.categoryId),
+]);
+
+export const categoryDeletionSchema = z.object({
+  replacementCategoryId: z.number().int().positive().optional(), // required when the category has services
 });
 
+// Public page paths; records created before slugs existed fall back to their id
+export const servicePath = (service: { id: number; slug: string | null }): string => `/services/${service.slug ?? service.id}`;
+export const providerPath = (provider: { id: number | string; slug: string | null }): string => `/providers/${provider.slug ?? provider.id}`;
+export const categoryPath = (category: { slug: string | null; id: number }): string =>
+  category.slug ? `/categories/${category.slug}` : `/services?category=${category.id}`;
+
+// A category followed by its parent, grandparent and so on
+export const categoryLineage = <T extends Pick<Category, 'id' | 'parentId'>>(categoryId: number, all: T[]): T[] => {
+  const lineage: T[] = [];
+  for (let current = all.find(c => c.id === categoryId); current && !lineage.includes(current);
+    current = all.find(c => c.id === current!.parentId)) {
+    lineage.push(current);
+  }
+  return lineage;
+};
+
+// Inherited fields first, from the root category down
+export const effectiveAttributeDefinitions = (
+  categoryId: number,
+  all: Pick<Category, 'id' | 'parentId' | 'attributeDefinitions'>[],
+): CategoryAttributeDefinition[] =>
+  categoryLineage(categoryId, all).reverse().flatMap(category => category.attributeDefinitions);
+
+const attributeValueSchema = (definition: CategoryAttributeDefinition): z.ZodTypeAny => {
+  switch (definition.type) {
+    case 'boolean':
+      return z.boolean();
+    case 'number':
+      return z.number({ invalid_type_error: "Debe ser un número" }).finite();
+    case 'select':
+      return z.enum(definition.options as [string, ...string[]], { errorMap: () => ({ message: "Elige una opción de la lista" }) });
+    case 'multiselect':
+      return z.array(z.enum(definition.options as [string, ...string[]])).min(definition.required ? 1 : 0, "Elige al menos una opción");
+    default:
+      return z.string().trim().max(200);
+  }
+};
+
+// Validates a service's attributes against its category's fields. Fields that are
+// not defined are dropped; optional fields may be missing or null.
+export const buildServiceAttributesSchema = (definitions: CategoryAttributeDefinition[]) =>
+  z.object(Object.fromEntries(definitions.map(definition => {
+    const value = attributeValueSchema(definition);
+    const field = definition.required
+      ? (definition.type === 'text' ? (value as z.ZodString).min(1, "Este campo es obligatorio") : value)
+      : value.nullish();
+    return [definition.key, field];
+  }))).transform(attributes => Object.fromEntries(
+    Object.entries(attributes).filter(([, value]) => value !== null && value !== undefined && value !== ''),
+  ) as ServiceAttributes);
+
+// Administrative areas, each nested in the one above: department → municipality →
+// comuna → barrio. Levels can be skipped (towns without comunas hold barrios
+// directly). `path` lists the ids from the root, like "/1/4/12/", so containment
+// checks are prefix comparisons.
+export const locationLevels = ['department', 'municipality', 'comuna', 'barrio'] as const;
+export type LocationLevel = typeof locationLevels[number];
+
+export const locations = pgTable("locations", {
+  id: serial("id").primaryKey(),
+  parentId: integer("parent_id").references((): AnyPgColumn => locations.id),
+  level: varchar("level", { length: 20 }).$type<LocationLevel>().notNull(),
+  name: text("name").notNull(),
+  path: text("path").notNull().default(''), // filled in by storage after insert
+  // Approximate centre; services are placed at their first coverage area's
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_locations_parent").on(table.parentId),
+  index("IDX_locations_path").on(table.path),
+  uniqueIndex("UQ_locations_parent_name").on(table.parentId, table.name),
+]);
+
+// Weekly availability. Times are "HH:mm" in the schedule's timezone and days are
+// indexed by weekday like Date.getDay() (0 = Sunday). An exception replaces the
+// weekly ranges for one date; an exception without ranges means closed that day.
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Hora inválida (HH:mm)");
+
+export const timeRangeSchema = z.object({
+  start: timeOfDaySchema,
+  end: timeOfDaySchema,
+}).refine((range) => range.start < range.end, "La hora final debe ser posterior a la inicial");
+
+const dayRangesSchema = z.array(timeRangeSchema).refine(
+  (ranges) => [...ranges]
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .every((range, i, sorted) => i === 0 || sorted[i - 1].end <= range.start),
+  "Los horarios de un mismo día no pueden superponerse"
+);
+
+export const availabilityExceptionSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Fecha inválida"),
+  ranges: dayRangesSchema,
+  note: z.string().max(100).optional(),
+});
+
+export const weeklyScheduleSchema = z.object({
+  timezone: z.literal('America/Bogota'),
+  slotMinutes: z.number().int().min(15).max(480),
+  days: z.array(dayRangesSchema).length(7),
+  exceptions: z.array(availabilityExceptionSchema),
+});
+
+export type TimeRange = z.infer<typeof timeRangeSchema>;
+export type AvailabilityException = z.infer<typeof availabilityExceptionSchema>;
+export type WeeklySchedule = z.infer<typeof weeklyScheduleSchema>;
+
 export const services = pgTable("services", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id),
   categoryId: integer("category_id").notNull().references(() => categories.id),
   title: text("title").notNull(),
+  slug: text("slug").unique(), // public URL, /services/<slug>; set once from the title
   description: text("description"),
   price: integer("price"), // in cents
+  // Display label derived from the coverage areas; storage keeps it in sync
   location: text("location"),
+  // Taken from the first coverage area unless the provider placed the pin themselves
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
   contactPhone: text("contact_phone"),
   contactEmail: text("contact_email"),
-  availability: text("availability"),
+  availability: jsonb("availability").$type<WeeklySchedule>(),
+  attributes: jsonb("attributes").$type<ServiceAttributes>().notNull().default({}), // see buildServiceAttributesSchema
   isApproved: boolean("is_approved").default(false),
   isFeatured: boolean("is_featured").default(false),
   rating: numeric("rating"),
   reviewCount: integer("review_count").default(0),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // Radius searches prefilter on a bounding box before computing distances
+  index("IDX_services_coordinates").on(table.latitude, table.longitude),
+  index("IDX_services_attributes").using("gin", table.attributes),
+]);
+
+// Where a service is offered. A service covers every barrio inside its areas.
+export const serviceCoverageAreas = pgTable("service_coverage_areas", {
+  id: serial("id").primaryKey(),
+  serviceId: integer("service_id").notNull().references(() => services.id, { onDelete: 'cascade' }),
+  locationId: integer("location_id").notNull().references(() => locations.id),
+  position: integer("position").notNull().default(0),
+}, (table) => [
+  uniqueIndex("UQ_service_coverage_area").on(table.serviceId, table.locationId),
+  index("IDX_service_coverage_location").on(table.locationId),
+]);
+
+// Uploaded service photos. Each upload is stored as resized WebP variants under
+// storageKey; the original file is not kept.
+export const imageVariants = ['thumb', 'card', 'large'] as const;
+export type ImageVariant = typeof imageVariants[number];
+
+export interface ImageVariantFile {
+  url: string;
+  width: number;
+  height: number;
+}
+
+export const serviceImages = pgTable("service_images", {
+  id: serial("id").primaryKey(),
+  serviceId: integer("service_id").notNull().references(() => services.id, { onDelete: 'cascade' }),
+  storageKey: text("storage_key").notNull(),
+  fileName: text("file_name"),
+  variants: jsonb("variants").$type<Record<ImageVariant, ImageVariantFile>>().notNull(),
+  position: integer("position").default(0).notNull(),
+  isCover: boolean("is_cover").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_service_images_service").on(table.serviceId, table.position),
+]);
+
+const tsvector = customType<{ data: string }>({
+  dataType: () => "tsvector",
+});
+
+// Full-text search document per service (see server/search.ts). Storage rebuilds it
+// whenever the service or its category changes; it lives apart from services so
+// listings don't carry it around.
+export const serviceSearchDocuments = pgTable("service_search_documents", {
+  serviceId: integer("service_id").primaryKey().references(() => services.id, { onDelete: 'cascade' }),
+  document: tsvector("document").notNull(),
+  // Unaccented, lowercased title and category name for typo-tolerant trigram matching
+  plainText: text("plain_text").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_service_search_document").using("gin", table.document),
+  index("IDX_service_search_plain_text").using("gin", table.plainText.op("gin_trgm_ops")),
+]);
+
+// Searches that returned results, counted per normalized query for the "popular" suggestions
+export const searchQueries = pgTable("search_queries", {
+  query: varchar("query", { length: 100 }).primaryKey(),
+  count: integer("count").default(1).notNull(),
+  lastSearchedAt: timestamp("last_searched_at").defaultNow().notNull(),
 });
 
 export const content = pgTable("content", {
@@ -106,12 +407,54 @@ export const donations = pgTable("donations", {
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
   serviceId: integer("service_id").notNull().references(() => services.id),
+  senderUserId: varchar("sender_user_id").references(() => users.id), // set when the sender was signed in
   senderName: text("sender_name").notNull(),
   senderEmail: text("sender_email").notNull(),
   message: text("message").notNull(),
+  isRead: boolean("is_read").default(false).notNull(),
+  isArchived: boolean("is_archived").default(false).notNull(),
+  reply: text("reply"),
+  repliedAt: timestamp("replied_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_messages_service").on(table.serviceId),
+]);
+
+// Chat. A conversation is opened by a customer about one service and has the
+// customer and the provider as participants; messages are ordered by id.
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  serviceId: integer("service_id").notNull().references(() => services.id, { onDelete: 'restrict' }), // see deleteService
+  lastMessageAt: timestamp("last_message_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const conversationParticipants = pgTable("conversation_participants", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  role: varchar("role", { enum: ['customer', 'provider'] }).notNull(),
+  lastReadMessageId: integer("last_read_message_id").default(0).notNull(),
+  joinedAt: timestamp("joined_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_conversation_participant").on(table.conversationId, table.userId),
+  index("IDX_conversation_participants_user").on(table.userId),
+]);
+
+export const chatMessages = pgTable("chat_messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id),
+  senderId: varchar("sender_id").notNull().references(() => users.id),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_chat_messages_conversation").on(table.conversationId, table.id),
+]);
+
+// What proves the reviewer was a real customer, strongest first
+export const reviewVerificationSources = ['booking', 'payment', 'contact'] as const;
+export type ReviewVerificationSource = typeof reviewVerificationSources[number];
+
 export const reviews = pgTable("reviews", {
   id: serial("id").primaryKey(),
   serviceId: integer("service_id").notNull().references(() => services.id),
@@ -121,10 +464,161 @@ export const reviews = pgTable("reviews", {
   isApproved: boolean("is_approved").default(false),
   isActive: boolean("is_active").default(true),
   adminResponse: text("admin_response"),
+  verifiedVia: varchar("verified_via", { enum: reviewVerificationSources }), // null: unverified
+  // Set when an admin approves or rejects; a rejected review is unapproved with a moderatedAt
+  rejectionReason: text("rejection_reason"),
+  moderatedBy: varchar("moderated_by").references(() => users.id),
+  moderatedAt: timestamp("moderated_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_review_service_user").on(table.serviceId, table.userId),
+]);
+
+export const reviewReports = pgTable("review_reports", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => reviews.id, { onDelete: 'cascade' }),
+  reporterId: varchar("reporter_id").notNull().references(() => users.id),
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("UQ_review_report_reporter").on(table.reviewId, table.reporterId),
+]);
+
+// Public replies under a review, written by the service's provider or the reviewer
+export const reviewReplies = pgTable("review_replies", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => reviews.id, { onDelete: 'cascade' }),
+  authorId: varchar("author_id").notNull().references(() => users.id),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_review_replies_review").on(table.reviewId, table.id),
+]);
+
+export const reviewVotes = pgTable("review_votes", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => reviews.id, { onDelete: 'cascade' }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("UQ_review_vote_user").on(table.reviewId, table.userId),
+]);
+
+// Named lists a customer sorts favorites into, like "Para la casa"
+export const favoriteLists = pgTable("favorite_lists", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: varchar("name", { length: 60 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("UQ_favorite_list_user_name").on(table.userId, table.name),
+]);
+
+// A bookmarked service or provider: exactly one of serviceId and providerId is set.
+// Each is saved once per user, in at most one list (none when listId is null).
+export const favorites = pgTable("favorites", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  serviceId: integer("service_id").references(() => services.id, { onDelete: 'cascade' }),
+  providerId: varchar("provider_id").references(() => users.id),
+  listId: integer("list_id").references(() => favoriteLists.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("UQ_favorite_user_service").on(table.userId, table.serviceId),
+  uniqueIndex("UQ_favorite_user_provider").on(table.userId, table.providerId),
+  index("IDX_favorites_service").on(table.serviceId),
+]);
+
+export const favoriteSchema = z.object({
+  serviceId: z.number().int().positive().optional(),
+  providerId: z.string().regex(/^\d+$/).optional(),
+  listId: z.number().int().positive().nullable().optional(),
+}).refine(data => (data.serviceId === undefined) !== (data.providerId === undefined), {
+  message: 'Choose either a service or a provider',
+  path: ['serviceId'],
+});
+export const favoriteListSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+});
+export const favoriteMoveSchema = z.object({
+  listId: z.number().int().positive().nullable(),
+});
+
+// How often new matches of a saved search are emailed; the in-app alert is always instant
+export const savedSearchFrequencies = ['instant', 'daily', 'weekly'] as const;
+export type SavedSearchFrequency = typeof savedSearchFrequencies[number];
+
+// The services page's filters that still make sense for listings that don't exist yet
+export const savedSearchFiltersSchema = z.object({
+  search: z.string().trim().min(1).max(200).optional(),
+  categoryId: z.number().int().positive().optional(),
+  locationId: z.number().int().positive().optional(),
+  minPrice: z.number().int().min(0).optional(), // in cents
+  maxPrice: z.number().int().min(0).optional(), // in cents
+  // attr.<key> (or attr.<key>.min / .max) -> value, as sent to /api/services
+  attributes: z.record(z.union([z.string(), z.array(z.string())])).optional(),
+  near: z.object({ latitude: z.number().min(-90).max(90), longitude: z.number().min(-180).max(180) }).optional(),
+  radiusKm: z.number().positive().max(100).optional(), // only with near
+});
+export type SavedSearchFilters = z.infer<typeof savedSearchFiltersSchema>;
+
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: varchar("name", { length: 80 }).notNull(),
+  filters: jsonb("filters").$type<SavedSearchFilters>().notNull(),
+  frequency: varchar("frequency", { enum: savedSearchFrequencies }).default('instant').notNull(),
+  lastDigestAt: timestamp("last_digest_at"), // daily and weekly searches
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_saved_searches_user").on(table.userId),
+]);
+
+// A newly approved service that matched a saved search; emailedAt is set once it
+// went out, alone or in a digest
+export const savedSearchMatches = pgTable("saved_search_matches", {
+  id: serial("id").primaryKey(),
+  savedSearchId: integer("saved_search_id").notNull().references(() => savedSearches.id, { onDelete: 'cascade' }),
+  serviceId: integer("service_id").notNull().references(() => services.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  emailedAt: timestamp("emailed_at"),
+}, (table) => [
+  uniqueIndex("UQ_saved_search_match").on(table.savedSearchId, table.serviceId),
+]);
+
+export const insertSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  // Without any filter every new service would match
+  filters: savedSearchFiltersSchema.refine(filters => Object.values(filters).some(value => value !== undefined), {
+    message: 'Add at least one filter',
+  }),
+  frequency: z.enum(savedSearchFrequencies).default('instant'),
+});
+export const updateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  frequency: z.enum(savedSearchFrequencies),
+}).partial().refine(changes => Object.values(changes).some(value => value !== undefined), {
+  message: 'Change the name or the frequency',
 });
 
+// Emails waiting for the mail relay, which sends pending rows in id order and
+// records the result
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").references(() => users.id),
+  toEmail: text("to_email").notNull(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(), // plain text
+  status: varchar("status", { enum: ['pending', 'sent', 'failed'] }).default('pending').notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+}, (table) => [
+  index("IDX_email_outbox_status").on(table.status, table.id),
+]);
+
 export const advertisements = pgTable("advertisements", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -200,13 +694,175 @@ export const supportTickets = pgTable("support_tickets", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export interface TwoFactorSecretData {
+  secret: string;
+  backupCodes: string[];
+  isActive: boolean;
+}
+
+// Two-factor authentication (TOTP). Backup codes are stored as bcrypt hashes;
+// pending* columns hold a setup that has not been confirmed with a valid token yet.
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: serial("id").primaryKey(),
+  userId: varchar("user_id").notNull().unique().references(() => users.id),
+  secret: text("secret"),
+  backupCodes: text("backup_codes").array().default([]).notNull(),
+  isActive: boolean("is_active").default(false).notNull(),
+  pendingSecret: text("pending_secret"),
+  pendingBackupCodes: text("pending_backup_codes").array(),
+  enabledAt: timestamp("enabled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Payments (Stripe / PSE)
+export const paymentStatuses = ['pending', 'succeeded', 'failed'] as const;
+export const paymentMethods = ['stripe', 'pse', 'bancolombia'] as const;
+
+export interface PaymentStatusChange {
+  status: string;
+  at: string;
+  details?: Record<string, any>;
+}
+
+export const payments = pgTable("payments", {
+  id: text("id").primaryKey(), // gateway reference (Stripe PaymentIntent id or pse_*)
+  userId: varchar("user_id").references(() => users.id),
+  serviceId: integer("service_id").references(() => services.id),
+  donationId: integer("donation_id").references(() => donations.id),
+  amount: integer("amount").notNull(), // in pesos, as charged by the gateway
+  currency: text("currency").default('COP').notNull(),
+  paymentMethod: varchar("payment_method", { enum: paymentMethods }).notNull(),
+  status: varchar("status", { enum: paymentStatuses }).default('pending').notNull(),
+  statusHistory: jsonb("status_history").$type<PaymentStatusChange[]>().default([]).notNull(),
+  metadata: jsonb("metadata").$type<Record<string, any>>(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_payments_user").on(table.userId),
+  index("IDX_payments_status").on(table.status),
+]);
+
+// Electronic invoicing (DIAN). Amounts are in pesos, like payments.
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate: number; // IVA percentage: 0, 5 or 19
+  taxAmount: number;
+  lineTotal: number; // quantity * unitPrice, before taxes
+}
+
+export interface InvoiceTaxBreakdown {
+  taxRate: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export const invoiceResolutions = pgTable("invoice_resolutions", {
+  id: serial("id").primaryKey(),
+  resolutionNumber: text("resolution_number").notNull(),
+  prefix: text("prefix").notNull(),
+  rangeFrom: integer("range_from").notNull(),
+  rangeTo: integer("range_to").notNull(),
+  currentNumber: integer("current_number").notNull(), // last number issued; starts at rangeFrom - 1
+  technicalKey: text("technical_key"),
+  validFrom: timestamp("valid_from").notNull(),
+  validTo: timestamp("valid_to").notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  number: text("number").notNull().unique(),
+  sequence: integer("sequence").notNull(),
+  resolutionId: integer("resolution_id").notNull().references(() => invoiceResolutions.id),
+  paymentId: text("payment_id").references(() => payments.id),
+  providerId: varchar("provider_id").references(() => users.id),
+  customerName: text("customer_name").notNull(),
+  customerIdType: varchar("customer_id_type", { enum: ['CC', 'CE', 'NIT'] }).default('CC').notNull(),
+  customerId: text("customer_id").notNull(),
+  customerEmail: text("customer_email").notNull(),
+  items: jsonb("items").$type<InvoiceLineItem[]>().notNull(),
+  taxBreakdown: jsonb("tax_breakdown").$type<InvoiceTaxBreakdown[]>().notNull(),
+  subtotal: integer("subtotal").notNull(),
+  taxTotal: integer("tax_total").notNull(),
+  total: integer("total").notNull(),
+  currency: text("currency").default('COP').notNull(),
+  cufe: text("cufe"),
+  status: varchar("status", { enum: ['issued', 'voided'] }).default('issued').notNull(),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_invoices_provider").on(table.providerId),
+  // A payment is invoiced once; each invoice uses up a DIAN consecutive
+  uniqueIndex("IDX_invoices_payment").on(table.paymentId),
+]);
+
+// Bookings. A customer requests a slot; the provider confirms, declines or moves it.
+export const bookingStatuses = ['requested', 'confirmed', 'completed', 'cancelled', 'no_show'] as const;
+export type BookingStatus = typeof bookingStatuses[number];
+
+export interface BookingStatusChange {
+  status: BookingStatus;
+  action: string;
+  by: string; // user id of whoever made the change
+  at: string;
+  reason?: string;
+  startsAt?: string;
+  endsAt?: string;
+}
+
+export const bookings = pgTable("bookings", {
+  id: serial("id").primaryKey(),
+  serviceId: integer("service_id").notNull().references(() => services.id, { onDelete: 'restrict' }), // see deleteService
+  customerId: varchar("customer_id").notNull().references(() => users.id),
+  providerId: varchar("provider_id").notNull().references(() => users.id),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  status: varchar("status", { enum: bookingStatuses }).default('requested').notNull(),
+  notes: text("notes"),
+  statusReason: text("status_reason"),
+  statusHistory: jsonb("status_history").$type<BookingStatusChange[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("IDX_bookings_customer").on(table.customerId),
+  index("IDX_bookings_provider_starts").on(table.providerId, table.startsAt),
+]);
+
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   services: many(services),
   reviews: many(reviews),
+  payments: many(payments),
+  providerProfile: one(providerProfiles),
 }));
 
-export const categoriesRelations = relations(categories, ({ many }) => ({
+export const providerApplicationsRelations = relations(providerApplications, ({ one }) => ({
+  user: one(users, {
+    fields: [providerApplications.userId],
+    references: [users.id],
+  }),
+}));
+
+export const providerProfilesRelations = relations(providerProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [providerProfiles.userId],
+    references: [users.id],
+  }),
+}));
+
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  parent: one(categories, {
+    fields: [categories.parentId],
+    references: [categories.id],
+    relationName: "category_parent",
+  }),
+  children: many(categories, { relationName: "category_parent" }),
   services: many(services),
 }));
 
@@ -221,9 +877,40 @@ export const servicesRelations = relations(services, ({ one, many }) => ({
   }),
   reviews: many(reviews),
   messages: many(messages),
+  bookings: many(bookings),
+  images: many(serviceImages),
+  coverageAreas: many(serviceCoverageAreas),
 }));
 
-export const reviewsRelations = relations(reviews, ({ one }) => ({
+export const locationsRelations = relations(locations, ({ one, many }) => ({
+  parent: one(locations, {
+    fields: [locations.parentId],
+    references: [locations.id],
+    relationName: "location_parent",
+  }),
+  children: many(locations, { relationName: "location_parent" }),
+  coverageAreas: many(serviceCoverageAreas),
+}));
+
+export const serviceCoverageAreasRelations = relations(serviceCoverageAreas, ({ one }) => ({
+  service: one(services, {
+    fields: [serviceCoverageAreas.serviceId],
+    references: [services.id],
+  }),
+  location: one(locations, {
+    fields: [serviceCoverageAreas.locationId],
+    references: [locations.id],
+  }),
+}));
+
+export const serviceImagesRelations = relations(serviceImages, ({ one }) => ({
+  service: one(services, {
+    fields: [serviceImages.serviceId],
+    references: [services.id],
+  }),
+}));
+
+export const reviewsRelations = relations(reviews, ({ one, many }) => ({
   service: one(services, {
     fields: [reviews.serviceId],
     references: [services.id],
@@ -232,6 +919,72 @@ export const reviewsRelations = relations(reviews, ({ one }) => ({
     fields: [reviews.userId],
     references: [users.id],
   }),
+  reports: many(reviewReports),
+  replies: many(reviewReplies),
+  votes: many(reviewVotes),
+}));
+
+export const reviewReportsRelations = relations(reviewReports, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewReports.reviewId],
+    references: [reviews.id],
+  }),
+}));
+
+export const reviewRepliesRelations = relations(reviewReplies, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewReplies.reviewId],
+    references: [reviews.id],
+  }),
+}));
+
+export const favoriteListsRelations = relations(favoriteLists, ({ one, many }) => ({
+  user: one(users, {
+    fields: [favoriteLists.userId],
+    references: [users.id],
+  }),
+  favorites: many(favorites),
+}));
+
+export const favoritesRelations = relations(favorites, ({ one }) => ({
+  user: one(users, {
+    fields: [favorites.userId],
+    references: [users.id],
+  }),
+  service: one(services, {
+    fields: [favorites.serviceId],
+    references: [services.id],
+  }),
+  list: one(favoriteLists, {
+    fields: [favorites.listId],
+    references: [favoriteLists.id],
+  }),
+}));
+
+export const savedSearchesRelations = relations(savedSearches, ({ one, many }) => ({
+  user: one(users, {
+    fields: [savedSearches.userId],
+    references: [users.id],
+  }),
+  matches: many(savedSearchMatches),
+}));
+
+export const savedSearchMatchesRelations = relations(savedSearchMatches, ({ one }) => ({
+  savedSearch: one(savedSearches, {
+    fields: [savedSearchMatches.savedSearchId],
+    references: [savedSearches.id],
+  }),
+  service: one(services, {
+    fields: [savedSearchMatches.serviceId],
+    references: [services.id],
+  }),
+}));
+
+export const reviewVotesRelations = relations(reviewVotes, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewVotes.reviewId],
+    references: [reviews.id],
+  }),
 }));
 
 export const messagesRelations = relations(messages, ({ one }) => ({
@@ -241,6 +994,82 @@ export const messagesRelations = relations(messages, ({ one }) => ({
   }),
 }));
 
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  service: one(services, {
+    fields: [conversations.serviceId],
+    references: [services.id],
+  }),
+  participants: many(conversationParticipants),
+  messages: many(chatMessages),
+}));
+
+export const conversationParticipantsRelations = relations(conversationParticipants, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [conversationParticipants.conversationId],
+    references: [conversations.id],
+  }),
+  user: one(users, {
+    fields: [conversationParticipants.userId],
+    references: [users.id],
+  }),
+}));
+
+export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [chatMessages.conversationId],
+    references: [conversations.id],
+  }),
+  sender: one(users, {
+    fields: [chatMessages.senderId],
+    references: [users.id],
+  }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  user: one(users, {
+    fields: [payments.userId],
+    references: [users.id],
+  }),
+  service: one(services, {
+    fields: [payments.serviceId],
+    references: [services.id],
+  }),
+  donation: one(donations, {
+    fields: [payments.donationId],
+    references: [donations.id],
+  }),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  resolution: one(invoiceResolutions, {
+    fields: [invoices.resolutionId],
+    references: [invoiceResolutions.id],
+  }),
+  payment: one(payments, {
+    fields: [invoices.paymentId],
+    references: [payments.id],
+  }),
+  provider: one(users, {
+    fields: [invoices.providerId],
+    references: [users.id],
+  }),
+}));
+
+export const bookingsRelations = relations(bookings, ({ one }) => ({
+  service: one(services, {
+    fields: [bookings.serviceId],
+    references: [services.id],
+  }),
+  customer: one(users, {
+    fields: [bookings.customerId],
+    references: [users.id],
+  }),
+  provider: one(users, {
+    fields: [bookings.providerId],
+    references: [users.id],
+  }),
+}));
+
 export const supportCategoriesRelations = relations(supportCategories, ({ many }) => ({
   articles: many(supportArticles),
   faqItems: many(faqItems),
@@ -270,26 +1099,84 @@ export const supportTicketsRelations = relations(supportTickets, ({ one }) => ({
 
 // Insert Schemas
 export const insertUserSchema = createInsertSchema(users);
-export const insertCategorySchema = createInsertSchema(categories);
-export const insertServiceSchema = createInsertSchema(services);
+export const insertCategorySchema = createInsertSchema(categories, {
+  attributeDefinitions: categoryAttributeDefinitionsSchema.optional(),
+}).omit({ slug: true });
+export const insertServiceSchema = createInsertSchema(services, {
+  availability: weeklyScheduleSchema.nullable().optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  // Checked against the category's fields by the routes
+  attributes: z.record(z.union([z.boolean(), z.number(), z.string(), z.array(z.string())])).optional(),
+}).omit({
+  location: true,
+  slug: true,
+  // Kept by the server: review totals follow moderation, approval and featuring are admin actions
+  rating: true,
+  reviewCount: true,
+  isApproved: true,
+  isFeatured: true,
+});
+// Sent alongside the service fields on create and update
+export const serviceCoverageSchema = z.object({
+  coverageAreaIds: z.array(z.number().int().positive()).min(1, "Choose at least one coverage area").max(20)
+    .transform(ids => Array.from(new Set(ids))),
+});
+export const insertLocationSchema = createInsertSchema(locations, {
+  name: z.string().trim().min(2).max(80),
+  level: z.enum(locationLevels),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+}).omit({ id: true, path: true, createdAt: true, updatedAt: true });
+export const insertProviderProfileSchema = createInsertSchema(providerProfiles, {
+  displayName: z.string().trim().min(2).max(80).nullable().optional(),
+  bio: z.string().trim().max(2000).nullable().optional(),
+  yearsOfExperience: z.number().int().min(0).max(80).nullable().optional(),
+  serviceAreas: z.array(z.string().trim().min(1).max(80)).max(30).optional(),
+  socialLinks: providerSocialLinksSchema.optional(),
+  // The photo is uploaded through /api/user/avatar
+}).omit({ id: true, userId: true, slug: true, photoUrl: true, photoStorageKey: true, createdAt: true, updatedAt: true });
 export const insertContentSchema = createInsertSchema(content);
 export const insertSuggestionSchema = createInsertSchema(suggestions);
 export const insertDonationSchema = createInsertSchema(donations);
 export const insertMessageSchema = createInsertSchema(messages);
-export const insertReviewSchema = createInsertSchema(reviews);
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(2000).nullable().optional(),
+});
 export const insertAdvertisementSchema = createInsertSchema(advertisements);
 export const insertSupportCategorySchema = createInsertSchema(supportCategories);
 export const insertSupportArticleSchema = createInsertSchema(supportArticles);
 export const insertFaqItemSchema = createInsertSchema(faqItems);
 export const insertSupportTicketSchema = createInsertSchema(supportTickets);
+export const insertPaymentSchema = createInsertSchema(payments);
+export const insertInvoiceResolutionSchema = createInsertSchema(invoiceResolutions);
 
 // Types
 export type InsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type CategoryDeletion = typeof categoryDeletions.$inferSelect;
+
+// What deleting a category would touch. Advertisements are placed by position, not
+// by category, so no other table references categories.
+export interface CategoryImpact {
+  category: Category;
+  services: { total: number; approved: number; pending: number };
+  subcategories: Pick<Category, 'id' | 'name'>[];
+}
+
+export interface CategoryDeletionSummary extends CategoryDeletion {
+  categoryName: string;
+  replacementCategoryName: string | null;
+  undoUntil: string; // ISO timestamp
+}
 export type Service = typeof services.$inferSelect;
 export type InsertService = z.infer<typeof insertServiceSchema>;
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type ServiceCoverageArea = typeof serviceCoverageAreas.$inferSelect;
 export type Content = typeof content.$inferSelect;
 export type InsertContent = z.infer<typeof insertContentSchema>;
 export type Suggestion = typeof suggestions.$inferSelect;
@@ -300,6 +1187,21 @@ export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Review = typeof reviews.$inferSelect;
 export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type ProviderApplication = typeof providerApplications.$inferSelect;
+export type InsertProviderApplication = typeof providerApplications.$inferInsert;
+export type ServiceImage = typeof serviceImages.$inferSelect;
+export type InsertServiceImage = typeof serviceImages.$inferInsert;
+export type ProviderProfile = typeof providerProfiles.$inferSelect;
+export type InsertProviderProfile = z.infer<typeof insertProviderProfileSchema>;
+export type ReviewReport = typeof reviewReports.$inferSelect;
+export type ReviewReply = typeof reviewReplies.$inferSelect;
+export type FavoriteList = typeof favoriteLists.$inferSelect;
+export type Favorite = typeof favorites.$inferSelect;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearchMatch = typeof savedSearchMatches.$inferSelect;
+export type EmailOutboxMessage = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxMessage = typeof emailOutbox.$inferInsert;
 export type Advertisement = typeof advertisements.$inferSelect;
 export type InsertAdvertisement = z.infer<typeof insertAdvertisementSchema>;
 export type SupportCategory = typeof supportCategories.$inferSelect;
@@ -310,3 +1212,154 @@ export type FaqItem = typeof faqItems.$inferSelect;
 export type InsertFaqItem = z.infer<typeof insertFaqItemSchema>;
 export type SupportTicket = typeof supportTickets.$inferSelect;
 export type InsertSupportTicket = z.infer<typeof insertSupportTicketSchema>;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = typeof payments.$inferInsert;
+export type InvoiceResolution = typeof invoiceResolutions.$inferSelect;
+export type InsertInvoiceResolution = z.infer<typeof insertInvoiceResolutionSchema>;
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = typeof invoices.$inferInsert;
+export type Conversation = typeof conversations.$inferSelect;
+export type ConversationParticipant = typeof conversationParticipants.$inferSelect;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type Booking = typeof bookings.$inferSelect;
+export type InsertBooking = typeof bookings.$inferInsert;
+
+// Aggregated views
+// 'relevance' only applies to searches and is their default; 'distance' needs `near`
+export const serviceSortOptions = ['relevance', 'distance', 'recent', 'price_asc', 'price_desc', 'rating', 'featured'] as const;
+export type ServiceSort = typeof serviceSortOptions[number];
+export const serviceAvailabilityFilters = ['today', 'weekend'] as const;
+export type ServiceAvailabilityFilter = typeof serviceAvailabilityFilters[number];
+
+export interface AvailableSlot {
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  nextCursor: string | null;
+}
+
+export interface PublicProvider extends Pick<User, 'id' | 'username' | 'fullName' | 'isVerified' | 'createdAt'> {
+  slug: string | null;
+  displayName: string | null;
+  bio: string | null;
+  photoUrl: string | null;
+  yearsOfExperience: number | null;
+  serviceAreas: string[];
+  socialLinks: ProviderSocialLinks;
+  email?: string; // only when the provider opted in
+  phone?: string | null;
+}
+
+export interface ProviderApplicationWithUser extends ProviderApplication {
+  applicantName: string;
+  applicantEmail: string;
+}
+
+// Everything a user saved; services that are no longer approved are left out
+export interface UserFavorites {
+  lists: FavoriteList[];
+  services: { favorite: Favorite; service: ServiceListItem }[];
+  providers: { favorite: Favorite; provider: PublicProvider }[];
+}
+
+export interface ProviderPublicProfile {
+  provider: PublicProvider;
+  services: ServiceListItem[];
+  ratingSummary: RatingSummary; // across all approved services
+}
+
+export interface RatingSummary {
+  average: number;
+  count: number;
+  distribution: [number, number, number, number, number]; // review counts for 1..5 stars
+}
+
+// Title and description excerpt with the matched terms wrapped in <mark></mark>.
+// The text itself is not escaped: render it as text, never as HTML.
+export interface ServiceSearchMatch {
+  title: string;
+  snippet: string;
+}
+
+export const searchSuggestionTypes = ['query', 'category', 'service', 'location'] as const;
+export type SearchSuggestionType = typeof searchSuggestionTypes[number];
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  label: string;
+  id?: number; // category, service or location id
+  detail?: string; // municipality of a comuna or barrio
+}
+
+export interface ServiceListItem extends Service {
+  providerVerified: boolean;
+  coverImage: ImageVariantFile | null; // 'card' variant of the cover photo
+  searchMatch: ServiceSearchMatch | null; // only set when listing a search
+  distanceKm: number | null; // only set when listing near a point
+  coverageAreaIds: number[];
+}
+
+export interface ServiceDetail extends Service {
+  category: Category | null;
+  provider: PublicProvider | null;
+  ratingSummary: RatingSummary;
+  images: ServiceImage[];
+  coverageAreas: Location[];
+}
+
+// Returned as `code` when POST /api/reviews refuses a review
+export const reviewErrorCodes = ['INVALID_REVIEW', 'SERVICE_NOT_FOUND', 'SELF_REVIEW', 'ALREADY_REVIEWED'] as const;
+export type ReviewErrorCode = typeof reviewErrorCodes[number];
+
+export const reviewSortOptions = ['recent', 'helpful'] as const;
+export type ReviewSort = typeof reviewSortOptions[number];
+
+export interface ReviewReplyWithAuthor extends ReviewReply {
+  authorName: string;
+  isProvider: boolean;
+}
+
+export interface PublicReview extends Review {
+  helpfulCount: number;
+  replies: ReviewReplyWithAuthor[];
+}
+
+export const reviewQueueFilters = ['pending', 'reported', 'low_rating'] as const;
+export type ReviewQueueFilter = typeof reviewQueueFilters[number];
+
+export interface ReviewQueueItem extends Review {
+  serviceTitle: string;
+  reviewerName: string;
+  reportCount: number;
+  lastReportReason: string | null;
+}
+
+export interface InboxMessage extends Message {
+  serviceTitle: string;
+}
+
+export interface BookingWithDetails extends Booking {
+  serviceTitle: string;
+  customerName: string;
+  providerName: string;
+}
+
+export interface ConversationSummary extends Conversation {
+  serviceTitle: string;
+  role: ConversationParticipant['role'];
+  otherParticipant: { userId: string; name: string; lastReadMessageId: number } | null;
+  lastMessage: Pick<ChatMessage, 'id' | 'senderId' | 'body' | 'createdAt'> | null;
+  unreadCount: number;
+}
\ No newline at end of file